@@ -0,0 +1,797 @@
+"use client";
+
+import Link from "next/link";
+import { use, useCallback, useEffect, useMemo, useState } from "react";
+import { useAccount } from "wagmi";
+import {
+  ArrowLeft,
+  Briefcase,
+  Gavel,
+  Lock,
+  MessageSquare,
+  RefreshCw,
+  Scale,
+  Star,
+  User as UserIcon,
+} from "lucide-react";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useToastContext } from "@/components/providers";
+import { ConfirmModal } from "@/components/ConfirmModal";
+import { DisputePayloadView } from "@/components/disputes/DisputePayloadView";
+import { DisputeResolutionSummary } from "@/components/disputes/DisputeResolutionSummary";
+import {
+  ChatAuthGate,
+  OfferChatProvider,
+  type ChatMessage,
+} from "@/components/chat";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { useChatKeys } from "@/hooks/useChatKeys";
+import { getTokenAddresses } from "@/lib/contract";
+import { createReceiptNotifier } from "@/lib/txReceipt";
+import { parseDisputePayload } from "@/lib/disputePayload";
+import { isEncryptedAttachment } from "@/lib/chatCrypto";
+import { EncryptedAttachment } from "@/components/chat/EncryptedAttachment";
+import { ChatKeyRecovery } from "@/components/chat/ChatKeyRecovery";
+import {
+  CONTRACT_DISPUTE_OUTCOMES,
+  previewDisputePayout,
+} from "@/lib/disputeResolution";
+import {
+  fetchIpfsJson,
+  formatAddress,
+  formatTokenAmountWithSymbol,
+  getBadgeLabel,
+  loadListingMetadataFromURI,
+  toGatewayUrl,
+} from "@/lib/utils";
+import {
+  DisputeOutcome,
+  EscrowStatus,
+  ListingType,
+  type Escrow,
+  type Listing,
+  type ListingMetadata,
+  type Offer,
+  type OnchainUserProfile,
+} from "@/types/marketplace";
+import type { DisputeEvidence, DisputeResolution } from "@/types/dispute";
+
+type PartyReputation = {
+  address: string;
+  profile: OnchainUserProfile | null;
+  rating: number;
+  reviews: number;
+  missions: number;
+  disputedMissions: number;
+  badges: string[];
+};
+
+type Workspace = {
+  offer: Offer;
+  escrow: Escrow;
+  listing: Listing | null;
+  metadata: ListingMetadata | null;
+  header: {
+    cid: string;
+    openedBy: string;
+    openedAt: bigint;
+    appealsCount: bigint;
+  } | null;
+  appeals: Array<{ by: string; cid: string; timestamp: bigint }>;
+  evidence: Record<string, DisputeEvidence | null>;
+  transcript: ChatMessage[];
+  resolution: DisputeResolution | null;
+  client: PartyReputation;
+  provider: PartyReputation;
+};
+
+function Panel({
+  title,
+  icon: Icon,
+  children,
+}: {
+  title: string;
+  icon: typeof Gavel;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-4">
+      <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-gray-400 mb-3">
+        <Icon className="h-3.5 w-3.5" />
+        <span>{title}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function PartyCard({
+  role,
+  party,
+  openedDispute,
+}: {
+  role: string;
+  party: PartyReputation;
+  openedDispute: boolean;
+}) {
+  return (
+    <div className="rounded border border-white/10 p-3 text-xs text-gray-300 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400 uppercase tracking-wider">{role}</span>
+        {openedDispute && (
+          <span className="rounded-full bg-red-500/15 px-2 py-0.5 text-red-300">
+            Opened dispute
+          </span>
+        )}
+      </div>
+      <div className="text-sm text-white">
+        {party.profile?.username || formatAddress(party.address)}
+        {party.profile?.isVerified && (
+          <span className="ml-1 text-emerald-400">✓</span>
+        )}
+      </div>
+      <div className="font-mono text-[11px] text-gray-500 break-all">
+        {party.address}
+      </div>
+      <div className="flex flex-wrap gap-3 pt-1">
+        <span className="inline-flex items-center gap-1">
+          <Star className="h-3.5 w-3.5 text-yellow-400" />
+          {party.reviews > 0
+            ? `${party.rating.toFixed(2)} (${party.reviews})`
+            : "No reviews"}
+        </span>
+        <span>{party.missions} missions</span>
+        <span
+          className={party.disputedMissions > 0 ? "text-red-300" : undefined}
+        >
+          {party.disputedMissions} disputed
+        </span>
+      </div>
+      {party.badges.length > 0 && (
+        <div className="flex flex-wrap gap-1 pt-1">
+          {party.badges.map((b) => (
+            <span
+              key={b}
+              className="rounded bg-amber-500/15 px-1.5 py-0.5 text-amber-300"
+            >
+              {b}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DisputeWorkspacePage({
+  params,
+}: {
+  params: Promise<{ offerId: string }>;
+}) {
+  const { offerId: offerIdParam } = use(params);
+  const { address, isConnected, chain } = useAccount();
+  const { contract, chainId } = useMarketplaceContract();
+  const toast = useToastContext();
+  const notifyReceipt = useMemo(
+    () => createReceiptNotifier(toast, { chain }),
+    [toast, chain]
+  );
+  const tokens = getTokenAddresses(chain?.id ?? 11124);
+
+  const [owners, setOwners] = useState<string[] | null>(null);
+  const [data, setData] = useState<Workspace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<DisputeOutcome>(
+    DisputeOutcome.PROVIDER_WINS
+  );
+  const [note, setNote] = useState("");
+  const [resolving, setResolving] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const isOwner = useMemo(
+    () =>
+      !!address &&
+      !!owners?.some((o) => o.toLowerCase() === address.toLowerCase()),
+    [address, owners]
+  );
+
+  useEffect(() => {
+    if (!contract) return;
+    contract
+      .getOwner()
+      .then((o) => setOwners(Array.isArray(o) ? o : o ? [o] : []))
+      .catch(() => setOwners([]));
+  }, [contract]);
+
+  const loadParty = useCallback(
+    async (addr: string): Promise<PartyReputation> => {
+      const [profile, rating, reviews, missions, badges] = await Promise.all([
+        contract!.getProfile(addr).catch(() => null),
+        contract!.getAverageRating(addr).catch(() => 0),
+        contract!.getReviews(addr).catch(() => []),
+        contract!.getMissionHistory(addr).catch(() => []),
+        contract!.getUserBadges(addr).catch(() => []),
+      ]);
+      return {
+        address: addr,
+        profile: profile && profile.joinedAt > BigInt(0) ? profile : null,
+        rating,
+        reviews: reviews.length,
+        missions: missions.length,
+        disputedMissions: missions.filter((m) => m.wasDisputed).length,
+        badges: badges.map(getBadgeLabel),
+      };
+    },
+    [contract]
+  );
+
+  const loadWorkspace = useCallback(
+    async (force = false) => {
+      if (!contract) return;
+      let offerId: bigint;
+      try {
+        offerId = BigInt(offerIdParam);
+      } catch {
+        setError("Invalid offer id");
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const opts = force ? { force: true } : undefined;
+        const [offer, escrow] = await Promise.all([
+          contract.getOffer(offerId, opts),
+          contract.getEscrow(offerId, opts),
+        ]);
+        if (escrow.status === EscrowStatus.NONE) {
+          throw new Error("No escrow exists for this offer");
+        }
+
+        const [
+          listing,
+          header,
+          appeals,
+          transcript,
+          resolution,
+          client,
+          provider,
+        ] = await Promise.all([
+          contract.getListing(offer.listingId).catch(() => null),
+          contract.getDisputeHeader(offerId, opts).catch(() => null),
+          contract.getDisputeAppeals(offerId, opts).catch(() => []),
+          new OfferChatProvider(chainId, offerIdParam)
+            .loadAll()
+            .catch(() => []),
+          escrow.status === EscrowStatus.RESOLVED
+            ? contract.getDisputeResolution(escrow).catch(() => null)
+            : null,
+          loadParty(escrow.client),
+          loadParty(escrow.provider),
+        ]);
+        const metadata = listing
+          ? (await loadListingMetadataFromURI(
+              listing.metadataURI,
+              listing
+            ).catch(() => undefined)) ?? null
+          : null;
+
+        const cids = [header?.cid, ...appeals.map((a) => a.cid)].filter(
+          (c): c is string => !!c
+        );
+        const evidence: Record<string, DisputeEvidence | null> = {};
+        await Promise.all(
+          cids.map(async (cid) => {
+            try {
+              evidence[cid] = parseDisputePayload(await fetchIpfsJson(cid));
+            } catch {
+              evidence[cid] = null;
+            }
+          })
+        );
+
+        setData({
+          offer,
+          escrow,
+          listing,
+          metadata,
+          header: header && header.cid ? header : null,
+          appeals,
+          evidence,
+          transcript,
+          resolution,
+          client,
+          provider,
+        });
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Failed to load dispute");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [contract, chainId, offerIdParam, loadParty]
+  );
+
+  // The transcript is only readable with an admin wallet session; reload after sign-in
+  const { session, signIn } = useWalletSession();
+  const sessionToken = session?.token;
+  useEffect(() => {
+    if (isOwner) void loadWorkspace();
+  }, [isOwner, loadWorkspace, sessionToken]);
+
+  // Unlocking with an admin session flags this wallet's key bundle as a reviewer for the
+  // session's chain; files sealed before that are shared by the parties from the offer page
+  const chatKeys = useChatKeys();
+  const unlockReviewerKey = async () => {
+    try {
+      if (!session) await signIn();
+      await chatKeys.unlock();
+    } catch (e: unknown) {
+      toast.showError(
+        "Could not unlock",
+        e instanceof Error ? e.message : undefined
+      );
+    }
+  };
+
+  const fmt = useCallback(
+    (amount: bigint) =>
+      data
+        ? formatTokenAmountWithSymbol(amount, data.escrow.paymentToken, {
+            tokens,
+            maxFractionDigits: 6,
+          })
+        : "",
+    [data, tokens]
+  );
+
+  const payout = useMemo(
+    () => (data ? previewDisputePayout(data.escrow, outcome) : null),
+    [data, outcome]
+  );
+  const outcomeOption = CONTRACT_DISPUTE_OUTCOMES.find(
+    (o) => o.outcome === outcome
+  );
+
+  const handleResolve = async () => {
+    if (!contract || !data || resolving) return;
+    setConfirmOpen(false);
+    setResolving(true);
+    try {
+      // The resolution record is checked against the admin's wallet session
+      if (!session) await signIn();
+      const receipt = await contract.resolveDisputeAndRecord(
+        data.offer.id,
+        outcome,
+        note.trim() || undefined
+      );
+      notifyReceipt("Dispute resolved", undefined, receipt);
+      await loadWorkspace(true);
+    } catch (e: unknown) {
+      console.error("Resolve dispute failed:", e);
+      toast.showContractError("Error", e, "Failed to resolve dispute");
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-yellow-200">
+        Connect your wallet to continue.
+      </div>
+    );
+  }
+
+  if (!contract || owners === null) {
+    return (
+      <div className="rounded-md border border-blue-500/30 bg-blue-500/10 p-3 text-blue-200">
+        Checking admin permissions…
+      </div>
+    );
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="rounded-md border border-red-500/30 bg-red-500/10 p-3 text-red-200">
+        You are not authorized to view this page.
+      </div>
+    );
+  }
+
+  const clientOpened =
+    !!data?.header &&
+    data.header.openedBy.toLowerCase() === data.escrow.client.toLowerCase();
+  const canResolve = data?.escrow.status === EscrowStatus.DISPUTED;
+  const participants = data
+    ? {
+        [data.escrow.client.toLowerCase()]: "Client",
+        [data.escrow.provider.toLowerCase()]: "Provider",
+      }
+    : {};
+
+  return (
+    <div className="space-y-6">
+      <ConfirmModal
+        open={confirmOpen}
+        title="Resolve dispute"
+        message={
+          payout && (
+            <div className="space-y-1">
+              <p>
+                Offer #{offerIdParam}: {outcomeOption?.label}
+              </p>
+              <p>Provider receives {fmt(payout.providerAmount)}</p>
+              <p>Client receives {fmt(payout.clientAmount)}</p>
+              <p>Platform fee {fmt(payout.feeAmount)}</p>
+            </div>
+          )
+        }
+        onCancel={() => setConfirmOpen(false)}
+        onConfirm={handleResolve}
+        confirmText="Sign & resolve"
+        danger={true}
+      />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <Gavel className="h-6 w-6" /> Dispute #{offerIdParam}
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Evidence, transcript and escrow context for this offer.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => void loadWorkspace(true)}
+            disabled={loading}
+            className="inline-flex items-center gap-1.5 rounded-md border border-white/10 px-3 py-1.5 text-sm hover:bg-white/10 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-1.5 text-sm text-gray-300 hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4" /> Back to admin
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-500/30 bg-red-500/10 p-3 text-red-200">
+          {error}
+        </div>
+      )}
+
+      {!data ? (
+        !error && (
+          <div className="text-sm text-gray-400">
+            Loading dispute workspace…
+          </div>
+        )
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Panel title="Dispute" icon={Gavel}>
+              {chatKeys.lost && (
+                <div className="mb-3">
+                  <ChatKeyRecovery />
+                </div>
+              )}
+              {!chatKeys.unlocked && !chatKeys.lost && (
+                <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded border border-white/10 bg-black/20 p-2 text-[11px] text-gray-400">
+                  <span>
+                    Encrypted evidence and chat files need your reviewer key.
+                    Files filed before you set it up become readable once a
+                    party shares them.
+                  </span>
+                  <button
+                    onClick={() => void unlockReviewerKey()}
+                    disabled={chatKeys.unlocking}
+                    className="inline-flex items-center gap-1 rounded border border-white/10 px-2 py-1 text-gray-200 hover:bg-white/10 disabled:opacity-50"
+                  >
+                    <Lock className="h-3 w-3" />
+                    {chatKeys.unlocking ? "Unlocking..." : "Unlock"}
+                  </button>
+                </div>
+              )}
+              {data.header ? (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+                    <span>
+                      Opened by {clientOpened ? "client" : "provider"}{" "}
+                      {formatAddress(data.header.openedBy)}
+                    </span>
+                    <span>
+                      {new Date(
+                        Number(data.header.openedAt) * 1000
+                      ).toLocaleString()}
+                    </span>
+                    <a
+                      href={toGatewayUrl(`ipfs://${data.header.cid}`) || "#"}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="underline decoration-dotted"
+                    >
+                      CID {data.header.cid.slice(0, 18)}…
+                    </a>
+                  </div>
+                  <DisputePayloadView
+                    evidence={data.evidence[data.header.cid] ?? null}
+                    verifiable
+                  />
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500">
+                  No dispute metadata recorded on-chain.
+                </div>
+              )}
+            </Panel>
+
+            <Panel title={`Appeals (${data.appeals.length})`} icon={Scale}>
+              {data.appeals.length === 0 ? (
+                <div className="text-xs text-gray-500">No appeals filed.</div>
+              ) : (
+                <div className="space-y-4">
+                  {data.appeals.map((a, idx) => (
+                    <div
+                      key={idx}
+                      className="rounded border border-white/10 p-3 space-y-2"
+                    >
+                      <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+                        <span>
+                          #{idx + 1} by{" "}
+                          {participants[a.by.toLowerCase()] || "Unknown"}{" "}
+                          {formatAddress(a.by)}
+                        </span>
+                        <span>
+                          {new Date(
+                            Number(a.timestamp) * 1000
+                          ).toLocaleString()}
+                        </span>
+                      </div>
+                      <DisputePayloadView
+                        evidence={data.evidence[a.cid] ?? null}
+                        verifiable
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Panel>
+
+            <Panel
+              title={`Chat transcript (${data.transcript.length})`}
+              icon={MessageSquare}
+            >
+              {!sessionToken ? (
+                <ChatAuthGate>{null}</ChatAuthGate>
+              ) : data.transcript.length === 0 ? (
+                <div className="text-xs text-gray-500">
+                  The parties never used the offer chat.
+                </div>
+              ) : (
+                <div className="max-h-[32rem] overflow-y-auto space-y-2 pr-1">
+                  {data.transcript.map((m) => (
+                    <div
+                      key={m.id}
+                      className="rounded border border-white/5 bg-black/20 p-2 text-xs"
+                    >
+                      <div className="flex flex-wrap gap-2 text-[10px] text-gray-500">
+                        <span className="text-gray-300">
+                          {participants[m.sender.toLowerCase()] ||
+                            (m.system ? "System" : "Other")}
+                        </span>
+                        <span>{formatAddress(m.sender)}</span>
+                        <span>{new Date(m.created_at).toLocaleString()}</span>
+                        <span className="font-mono">{m.id}</span>
+                      </div>
+                      {m.content && (
+                        <div className="mt-1 whitespace-pre-wrap text-gray-200">
+                          {m.content}
+                        </div>
+                      )}
+                      {m.attachments && m.attachments.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-2">
+                          {m.attachments.map((uri) =>
+                            isEncryptedAttachment(uri) ? (
+                              <EncryptedAttachment
+                                key={uri}
+                                uri={uri}
+                                onPreview={(url) => window.open(url, "_blank")}
+                              />
+                            ) : (
+                              <a
+                                key={uri}
+                                href={toGatewayUrl(uri) || uri}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="underline decoration-dotted break-all"
+                              >
+                                {uri.split("/").pop()}
+                              </a>
+                            )
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div className="space-y-6">
+            <Panel title="Resolution" icon={Gavel}>
+              <div className="space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-2 text-gray-400">
+                  <span>Escrow</span>
+                  <span className="text-right text-white">
+                    {fmt(data.escrow.amount)}
+                  </span>
+                  <span>Fee</span>
+                  <span className="text-right text-white">
+                    {fmt(data.escrow.feeAmount)}
+                  </span>
+                  <span>Status</span>
+                  <span className="text-right text-white">
+                    {EscrowStatus[data.escrow.status]}
+                  </span>
+                </div>
+
+                {canResolve ? (
+                  <>
+                    <div className="flex flex-wrap gap-1">
+                      {CONTRACT_DISPUTE_OUTCOMES.map((o) => (
+                        <button
+                          key={o.outcome}
+                          onClick={() => setOutcome(o.outcome)}
+                          title={o.description}
+                          className={`rounded-md border px-2 py-1 ${
+                            outcome === o.outcome
+                              ? "border-white/40 bg-white/10 text-white"
+                              : "border-white/10 hover:border-white/20"
+                          }`}
+                        >
+                          {o.label}
+                        </button>
+                      ))}
+                    </div>
+                    {payout ? (
+                      <div className="grid grid-cols-2 gap-x-2 rounded border border-white/10 p-2 text-gray-300">
+                        <span>Provider</span>
+                        <span className="text-right font-mono">
+                          {fmt(payout.providerAmount)}
+                        </span>
+                        <span>Client</span>
+                        <span className="text-right font-mono">
+                          {fmt(payout.clientAmount)}
+                        </span>
+                        <span>Fee</span>
+                        <span className="text-right font-mono">
+                          {fmt(payout.feeAmount)}
+                        </span>
+                      </div>
+                    ) : null}
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={3}
+                      placeholder="Reasoning shared with both parties (optional)"
+                      className="w-full rounded bg-black/30 border border-white/10 px-2 py-1.5"
+                    />
+                    <button
+                      onClick={() => setConfirmOpen(true)}
+                      disabled={resolving || !payout}
+                      className="w-full rounded-md bg-white/20 hover:bg-white/30 px-3 py-2 text-sm disabled:opacity-50 inline-flex items-center justify-center gap-2"
+                    >
+                      {resolving && (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      )}
+                      {resolving ? "Resolving..." : "Review & sign"}
+                    </button>
+                  </>
+                ) : data.escrow.status === EscrowStatus.RESOLVED ? (
+                  <DisputeResolutionSummary
+                    escrow={data.escrow}
+                    resolution={data.resolution}
+                    format={fmt}
+                  />
+                ) : (
+                  <div className="text-gray-400">
+                    This escrow is not in dispute.
+                  </div>
+                )}
+              </div>
+            </Panel>
+
+            <Panel title="Parties" icon={UserIcon}>
+              <div className="space-y-3">
+                <PartyCard
+                  role="Client"
+                  party={data.client}
+                  openedDispute={clientOpened}
+                />
+                <PartyCard
+                  role="Provider"
+                  party={data.provider}
+                  openedDispute={!!data.header && !clientOpened}
+                />
+              </div>
+            </Panel>
+
+            <Panel title="Listing & offer" icon={Briefcase}>
+              <div className="space-y-2 text-xs text-gray-300">
+                <div className="text-sm text-white">
+                  {data.metadata?.title ||
+                    `Listing #${data.offer.listingId.toString()}`}
+                </div>
+                {data.listing && (
+                  <div className="text-gray-400">
+                    {data.listing.listingType === ListingType.GIG
+                      ? "Gig"
+                      : "Brief"}{" "}
+                    by {formatAddress(data.listing.creator)}
+                  </div>
+                )}
+                {data.metadata?.description && (
+                  <div className="whitespace-pre-wrap max-h-40 overflow-y-auto text-gray-400">
+                    {data.metadata.description}
+                  </div>
+                )}
+                {data.metadata?.deliverables &&
+                  data.metadata.deliverables.length > 0 && (
+                    <ul className="list-disc pl-4 text-gray-400">
+                      {data.metadata.deliverables.map((d, i) => (
+                        <li key={i}>{d}</li>
+                      ))}
+                    </ul>
+                  )}
+                <div className="grid grid-cols-2 gap-2 pt-1 text-gray-400">
+                  <span>Offer amount</span>
+                  <span className="text-right text-white">
+                    {fmt(data.offer.amount)}
+                  </span>
+                  <span>Proposed by</span>
+                  <span className="text-right">
+                    {formatAddress(data.offer.proposer)}
+                  </span>
+                  <span>Offered</span>
+                  <span className="text-right">
+                    {new Date(
+                      Number(data.offer.createdAt) * 1000
+                    ).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex gap-3 pt-1">
+                  <Link
+                    href={`/offers/${offerIdParam}`}
+                    className="underline text-gray-300 hover:text-white"
+                  >
+                    Offer page
+                  </Link>
+                  {data.listing && (
+                    <Link
+                      href={`/${
+                        data.listing.listingType === ListingType.GIG
+                          ? "gigs"
+                          : "briefs"
+                      }/${data.offer.listingId.toString()}`}
+                      className="underline text-gray-300 hover:text-white"
+                    >
+                      Listing page
+                    </Link>
+                  )}
+                </div>
+              </div>
+            </Panel>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,9 @@ import {
   type KnownTokens,
 } from "@/lib/utils";
 import { createReceiptNotifier } from "@/lib/txReceipt";
+import { parseDisputePayload } from "@/lib/disputePayload";
+import { DisputePayloadView } from "@/components/disputes/DisputePayloadView";
+import type { DisputeEvidence } from "@/types/dispute";
 import Image from "next/image";
 import { ethers } from "ethers";
 import {
@@ -147,75 +150,12 @@ function StarBadge() {
   );
 }
 
-// Dispute payload shape (uploaded JSON to IPFS)
-type DisputePayload = {
-  type?: string;
-  offerId?: string | number;
-  listingId?: string | number;
-  author?: string;
-  role?: string; // "client" | "provider"
-  reason?: string;
-  attachments?: string[]; // ipfs:// or CID
-  createdAt?: number; // ms or seconds
-};
-
 // (Removed tsToDateString; not needed in minimal chat view)
 
 async function loadJsonFromCid(cidOrUri: string, timeoutMs = 5500) {
   return await fetchIpfsJson(cidOrUri, { timeoutMs });
 }
 
-function AttachmentPreview({ uri }: { uri: string }) {
-  const [showImg, setShowImg] = useState(true);
-  const href = toGatewayUrl(uri) || uri;
-  return (
-    <div className="space-y-1">
-      <a
-        href={href}
-        target="_blank"
-        rel="noreferrer"
-        className="text-xs underline decoration-dotted break-all"
-      >
-        {href}
-      </a>
-      {showImg && (
-        <div className="relative w-full max-w-xs">
-          <Image
-            src={href}
-            alt="attachment"
-            width={512}
-            height={512}
-            className="h-auto w-full max-h-48 rounded border border-white/10 object-contain"
-            onError={() => setShowImg(false)}
-          />
-        </div>
-      )}
-    </div>
-  );
-}
-
-function DisputePayloadView({ payload }: { payload: DisputePayload | null }) {
-  if (!payload)
-    return <div className="text-xs text-gray-500">No metadata found.</div>;
-  return (
-    <div className="text-xs text-gray-300 space-y-2">
-      {payload.reason && (
-        <div className="whitespace-pre-wrap">{payload.reason}</div>
-      )}
-      {payload.attachments && payload.attachments.length > 0 && (
-        <div className="space-y-2">
-          <div className="text-gray-400">Attachments</div>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-            {payload.attachments.map((a, i) => (
-              <AttachmentPreview key={i} uri={a} />
-            ))}
-          </div>
-        </div>
-      )}
-    </div>
-  );
-}
-
 export default function AdminPage() {
   const { address, isConnected } = useAccount();
   const { contract, chainId } = useMarketplaceContract();
@@ -328,10 +268,10 @@ export default function AdminPage() {
 
   // New: payloads loaded from IPFS
   const [disputePayloads, setDisputePayloads] = useState<
-    Record<string, DisputePayload | null | undefined>
+    Record<string, DisputeEvidence | null | undefined>
   >({});
   const [appealPayloads, setAppealPayloads] = useState<
-    Record<string, Array<DisputePayload | null | undefined>>
+    Record<string, Array<DisputeEvidence | null | undefined>>
   >({});
   const [payloadLoading, setPayloadLoading] = useState<Record<string, boolean>>(
     {}
@@ -506,6 +446,28 @@ export default function AdminPage() {
       if (!contract) return;
       setMetricsLoading(true);
       try {
+        // Indexer first: counts come straight from indexed events
+        const indexed = await contract.getIndexedMetrics();
+        if (indexed) {
+          const [listBoosts, profBoosts] = await Promise.all([
+            contract.activeListingBoostCount().catch(() => 0),
+            contract.activeProfileBoostCount().catch(() => 0),
+          ]);
+          if (cancelled) return;
+          setMetrics({
+            totalListings: indexed.totalListings,
+            totalBriefs: indexed.totalBriefs,
+            totalGigs: indexed.totalGigs,
+            uniqueCreators: indexed.uniqueCreators,
+            totalOffers: indexed.totalOffers,
+            activeListingBoosts: listBoosts || 0,
+            activeProfileBoosts: profBoosts || 0,
+            disputesPending: indexed.disputesPending,
+            disputesResolved: indexed.disputesResolved,
+          });
+          return;
+        }
+
         // Offers and boosts can be read quickly
         const [lastListingId, lastOfferId, listBoosts, profBoosts] =
           await Promise.all([
@@ -991,8 +953,7 @@ export default function AdminPage() {
       }, 2500);
       try {
         const raw = await loadJsonFromCid(h.cid);
-        const data = (raw || {}) as DisputePayload;
-        setDisputePayloads((m) => ({ ...m, [key]: data }));
+        setDisputePayloads((m) => ({ ...m, [key]: parseDisputePayload(raw) }));
       } catch {
         setDisputePayloads((m) => ({ ...m, [key]: null }));
       } finally {
@@ -1018,7 +979,7 @@ export default function AdminPage() {
     }
     if (list && list.length > 0) {
       const current = appealPayloads[key] || [];
-      const next: Array<DisputePayload | null | undefined> = current.slice();
+      const next: Array<DisputeEvidence | null | undefined> = current.slice();
       const loaders: Array<Promise<void>> = [];
       for (let i = 0; i < list.length; i++) {
         if (next[i] === undefined) {
@@ -1026,7 +987,7 @@ export default function AdminPage() {
             (async (idx: number) => {
               try {
                 const raw = await loadJsonFromCid(list![idx].cid);
-                next[idx] = (raw || {}) as DisputePayload;
+                next[idx] = parseDisputePayload(raw);
               } catch {
                 next[idx] = null;
               }
@@ -1061,7 +1022,7 @@ export default function AdminPage() {
       const raw = await loadJsonFromCid(items[idx].cid);
       setAppealPayloads((m) => {
         const current = (m[key] || []).slice();
-        current[idx] = (raw || {}) as DisputePayload;
+        current[idx] = parseDisputePayload(raw);
         return { ...m, [key]: current };
       });
     } catch {
@@ -2025,6 +1986,13 @@ export default function AdminPage() {
                         >
                           <Eye className="h-4 w-4" /> View Offer
                         </Link>
+                        <Link
+                          href={`/admin/disputes/${key}`}
+                          className="text-xs text-gray-300 hover:text-white underline inline-flex items-center gap-1.5"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Scale className="h-4 w-4" /> Workspace
+                        </Link>
                       </div>
                     </div>
 
@@ -2104,7 +2072,10 @@ export default function AdminPage() {
                                     </button>
                                   </div>
                                 ) : (
-                                  <DisputePayloadView payload={payload} />
+                                  <DisputePayloadView
+                                    evidence={payload}
+                                    verifiable
+                                  />
                                 )}
                               </div>
                             </div>
@@ -2172,7 +2143,10 @@ export default function AdminPage() {
                                         </button>
                                       </div>
                                     ) : (
-                                      <DisputePayloadView payload={ap} />
+                                      <DisputePayloadView
+                                        evidence={ap ?? null}
+                                        verifiable
+                                      />
                                     )}
                                   </div>
                                 </div>
@@ -2196,9 +2170,7 @@ export default function AdminPage() {
                             {moreInfoOpen[key] && (
                               <div className="mt-2 rounded border border-white/10 bg-black/30 p-2 text-xs text-gray-300">
                                 {(() => {
-                                  const meta = (payload || undefined) as
-                                    | DisputePayload
-                                    | undefined;
+                                  const meta = payload?.payload;
                                   const createdNum = meta?.createdAt
                                     ? Number(meta.createdAt)
                                     : undefined;
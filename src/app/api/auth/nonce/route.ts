@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { issueNonce } from "@/lib/auth/server";
+
+// POST { address } -> { nonce, expiresAt } for a Sign-In with Ethereum message
+export async function POST(req: Request) {
+  let address = "";
+  try {
+    const body = (await req.json()) as { address?: string };
+    address = (body.address || "").trim();
+  } catch {}
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await issueNonce(address));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Could not issue nonce";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
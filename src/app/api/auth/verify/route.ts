@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { signSessionToken, verifySiweSignIn } from "@/lib/auth/server";
+
+// POST { message, signature } -> { token, address, admin, chainId, expiresAt }
+// `token` is a Supabase JWT carrying the wallet; expiresAt is unix seconds.
+export async function POST(req: Request) {
+  let message = "";
+  let signature = "";
+  try {
+    const body = (await req.json()) as {
+      message?: string;
+      signature?: string;
+    };
+    message = body.message || "";
+    signature = body.signature || "";
+  } catch {}
+  if (!message || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    return NextResponse.json(
+      { error: "Missing message or signature" },
+      { status: 400 }
+    );
+  }
+  const host = req.headers.get("host") || new URL(req.url).host;
+  let claims;
+  try {
+    ({ claims } = await verifySiweSignIn(message, signature, host));
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : "Sign-in failed";
+    return NextResponse.json({ error: reason }, { status: 401 });
+  }
+  try {
+    const { token, expiresAt } = signSessionToken(claims);
+    return NextResponse.json({
+      token,
+      address: claims.wallet,
+      admin: claims.admin,
+      chainId: claims.chainId,
+      expiresAt,
+    });
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : "Could not issue session";
+    return NextResponse.json({ error: reason }, { status: 503 });
+  }
+}
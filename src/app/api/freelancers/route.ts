@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import {
+  clampLimit,
+  getIndexerHead,
+  listIndexedProfiles,
+  parseChainId,
+} from "@/lib/indexer/queries";
+
+// GET /api/freelancers?chainId=&userType=&cursor=<offset>&limit=100
+// -> { items: IndexedProfile[], nextCursor, lastBlock }
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const chainId = parseChainId(searchParams);
+  try {
+    const lastBlock = await getIndexerHead(chainId);
+    if (lastBlock === null) {
+      return NextResponse.json(
+        { error: "Indexer not synced" },
+        { status: 503 }
+      );
+    }
+    const userType = searchParams.get("userType");
+    const page = await listIndexedProfiles({
+      chainId,
+      userType:
+        userType === null || userType === "" ? undefined : Number(userType),
+      offset: Math.max(0, Number(searchParams.get("cursor")) || 0),
+      limit: clampLimit(searchParams.get("limit"), 100),
+    });
+    return NextResponse.json({ ...page, lastBlock });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { syncMarketplaceEvents } from "@/lib/indexer/sync";
+import { syncListingSearchDocs } from "@/lib/indexer/searchIndex";
+import { parseChainId } from "@/lib/indexer/queries";
+
+// Long-running: ingest up to a few chunks of blocks per call
+export const maxDuration = 60;
+
+// Called by a cron (or manually) with `Authorization: Bearer <INDEXER_SECRET>`. The secret
+// is only read from the header so it stays out of access logs.
+function authorized(req: Request, secret: string) {
+  const header = req.headers.get("authorization") || "";
+  return header === `Bearer ${secret}`;
+}
+
+// GET|POST /api/indexer/sync?chainId=11124&maxBlocks=5000
+// -> IndexerSyncResult & { searchDocs: number }
+async function handle(req: Request) {
+  const secret = process.env.INDEXER_SECRET;
+  // Fail closed: the sync runs with the service role
+  if (!secret) {
+    return NextResponse.json(
+      { ok: false, error: "Indexer sync is not configured" },
+      { status: 503 }
+    );
+  }
+  if (!authorized(req, secret)) {
+    return NextResponse.json(
+      { ok: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+  const { searchParams } = new URL(req.url);
+  const chainId = parseChainId(searchParams);
+  const maxBlocks = Number(searchParams.get("maxBlocks")) || undefined;
+  try {
+    const result = await syncMarketplaceEvents(chainId, { maxBlocks });
+    // Metadata for new listings is indexed after the events; one batch per call
+    const searchDocs = await syncListingSearchDocs(chainId);
+    return NextResponse.json({ ok: true, ...result, searchDocs });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Sync failed";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
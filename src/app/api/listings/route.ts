@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import {
+  clampLimit,
+  getIndexerHead,
+  listIndexedListings,
+  parseChainId,
+} from "@/lib/indexer/queries";
+
+// GET /api/listings?chainId=&type=0|1&creator=0x..&active=1&cursor=<id>&limit=50
+// -> { items: IndexedListing[], nextCursor, lastBlock }
+// Responds 503 when the indexer has not synced yet so callers can fall back to RPC.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const chainId = parseChainId(searchParams);
+  try {
+    const lastBlock = await getIndexerHead(chainId);
+    if (lastBlock === null) {
+      return NextResponse.json(
+        { error: "Indexer not synced" },
+        { status: 503 }
+      );
+    }
+    const type = searchParams.get("type");
+    const creator = (searchParams.get("creator") || "").trim();
+    const page = await listIndexedListings({
+      chainId,
+      listingType: type === null || type === "" ? undefined : Number(type),
+      creator: /^0x[a-fA-F0-9]{40}$/.test(creator) ? creator : undefined,
+      onlyActive: searchParams.get("active") === "1",
+      cursor: searchParams.get("cursor"),
+      limit: clampLimit(searchParams.get("limit")),
+    });
+    return NextResponse.json({ ...page, lastBlock });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import {
+  clampLimit,
+  getIndexerHead,
+  LISTING_SEARCH_SORTS,
+  parseChainId,
+  searchIndexedListings,
+} from "@/lib/indexer/queries";
+import { loadReferenceRates } from "@/lib/pricing";
+import type { ListingSearchSort } from "@/types/indexer";
+
+function optionalNumber(raw: string | null) {
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+// GET /api/listings/search?chainId=&q=&type=0|1&category=&token=USDC&minPrice=&maxPrice=
+//   &basis=total|day&tags=solidity,react&maxDeliveryDays=&serviceType=hourly
+//   &boosted=1&active=0&boostedFirst=0
+//   &sort=relevance|newest|oldest|price_asc|price_desc&cursor=&limit=24
+// -> { items: ListingSearchHit[], nextCursor, facets, lastBlock }
+// minPrice/maxPrice are USD reference amounts (see src/lib/pricing.ts); day rates and
+// totals share the scale unless basis narrows it. Active listings only unless active=0. Responds 503 when the indexer has not synced yet
+// so callers can fall back to filtering client-side.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const chainId = parseChainId(searchParams);
+  try {
+    const lastBlock = await getIndexerHead(chainId);
+    if (lastBlock === null) {
+      return NextResponse.json(
+        { error: "Indexer not synced" },
+        { status: 503 }
+      );
+    }
+    const type = optionalNumber(searchParams.get("type"));
+    const category = (searchParams.get("category") || "").trim();
+    const sort = searchParams.get("sort") as ListingSearchSort | null;
+    const basis = searchParams.get("basis");
+    const page = await searchIndexedListings({
+      chainId,
+      query: (searchParams.get("q") || "").slice(0, 200),
+      listingType: type,
+      category: /^\d+$/.test(category) ? category : undefined,
+      currency:
+        (searchParams.get("token") || "").trim().toUpperCase() || undefined,
+      minPrice: optionalNumber(searchParams.get("minPrice")),
+      maxPrice: optionalNumber(searchParams.get("maxPrice")),
+      maxDeliveryDays: optionalNumber(searchParams.get("maxDeliveryDays")),
+      serviceType: searchParams.get("serviceType") || undefined,
+      rates: await loadReferenceRates(),
+      priceBasis: basis === "total" || basis === "day" ? basis : undefined,
+      tags: (searchParams.get("tags") || "")
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean)
+        .slice(0, 20),
+      boostedOnly: searchParams.get("boosted") === "1",
+      onlyActive: searchParams.get("active") !== "0",
+      boostedFirst: searchParams.get("boostedFirst") !== "0",
+      sort: sort && LISTING_SEARCH_SORTS.includes(sort) ? sort : "relevance",
+      cursor: searchParams.get("cursor"),
+      limit: clampLimit(searchParams.get("limit"), 24, 100),
+    });
+    return NextResponse.json({ ...page, lastBlock });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
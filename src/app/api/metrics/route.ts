@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getIndexedMetrics, parseChainId } from "@/lib/indexer/queries";
+
+// GET /api/metrics?chainId= -> IndexedMetrics (503 until the indexer has synced)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  try {
+    const metrics = await getIndexedMetrics(parseChainId(searchParams));
+    if (metrics.lastBlock === null) {
+      return NextResponse.json(
+        { error: "Indexer not synced" },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json(metrics);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import {
+  clampLimit,
+  getIndexerHead,
+  listIndexedOffersForAddress,
+  parseChainId,
+} from "@/lib/indexer/queries";
+
+// GET /api/offers?address=0x..&role=all|sent|received&cursor=<offerId>&limit=50&chainId=
+// -> { items: IndexedOffer[], nextCursor, lastBlock }
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const address = (searchParams.get("address") || "").trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+  const chainId = parseChainId(searchParams);
+  const roleRaw = searchParams.get("role");
+  const role = roleRaw === "sent" || roleRaw === "received" ? roleRaw : "all";
+  try {
+    const lastBlock = await getIndexerHead(chainId);
+    if (lastBlock === null) {
+      return NextResponse.json(
+        { error: "Indexer not synced" },
+        { status: 503 }
+      );
+    }
+    const page = await listIndexedOffersForAddress({
+      chainId,
+      address,
+      role,
+      cursor: searchParams.get("cursor"),
+      limit: clampLimit(searchParams.get("limit"), 50, 200),
+    });
+    return NextResponse.json({ ...page, lastBlock });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Query failed";
+    return NextResponse.json({ error: message }, { status: 503 });
+  }
+}
@@ -20,6 +20,7 @@ import {
 import { useAccount } from "wagmi";
 import { ethers } from "ethers";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useWalletSession } from "@/hooks/useWalletSession";
 import { getTokenAddresses } from "@/lib/contract";
 import {
   knownDecimalsFor,
@@ -31,10 +32,29 @@ import {
   loadListingMetadataFromURI,
   getCategoryLabel,
 } from "@/lib/utils";
-import { Offer, EscrowStatus, Listing } from "@/types/marketplace";
+import {
+  Offer,
+  EscrowStatus,
+  Listing,
+  ListingMetadata,
+  OfferCounter,
+} from "@/types/marketplace";
 import { useToastContext } from "@/components/providers";
 import { ConfirmModal } from "@/components/ConfirmModal";
+import { NegotiationThread } from "@/components/negotiation/NegotiationThread";
+import { SuggestedFreelancers } from "@/components/listings/SuggestedFreelancers";
+import { WatchButton } from "@/components/watchlist/WatchButton";
 import { createReceiptNotifier } from "@/lib/txReceipt";
+import {
+  assertOfferMatchesNegotiation,
+  loadListingNegotiations,
+} from "@/lib/negotiation";
+import {
+  OFFER_EXPIRY_OPTIONS,
+  classifyOffer,
+  expiryFromDays,
+  formatOfferExpiry,
+} from "@/lib/offerExpiry";
 
 interface OfferWithEscrow extends Offer {
   escrowStatus?: EscrowStatus;
@@ -54,6 +74,7 @@ const ESCROW_STATUS_LABELS: Record<number, string> = {
 
 // Page-local UI state shape built from shared types
 type ListingState = Listing & {
+  metadata?: ListingMetadata;
   title: string;
   description: string;
   cover: string | null;
@@ -81,7 +102,11 @@ export default function BriefDetailsPage({
     loaded?: boolean;
   } | null>(null);
   const [loadingOffers, setLoadingOffers] = useState(false);
+  const [negotiations, setNegotiations] = useState<
+    Record<string, OfferCounter[]>
+  >({});
   const toast = useToastContext();
+  const walletSession = useWalletSession();
   const [confirm, setConfirm] = useState<{
     open: boolean;
     title: string;
@@ -93,6 +118,7 @@ export default function BriefDetailsPage({
   const [showOfferForm, setShowOfferForm] = useState(false);
   const [offerAmount, setOfferAmount] = useState("");
   const [paymentToken, setPaymentToken] = useState("DOP");
+  const [offerExpiryDays, setOfferExpiryDays] = useState(0);
   const [submittingOffer, setSubmittingOffer] = useState(false);
   const [boostPrice, setBoostPrice] = useState<bigint | null>(null);
   const [boostDurationDays, setBoostDurationDays] = useState<number | null>(
@@ -144,6 +170,7 @@ export default function BriefDetailsPage({
       const description = meta?.description || "No description provided.";
       setState({
         ...l,
+        metadata: meta,
         title,
         description,
         cover,
@@ -216,8 +243,7 @@ export default function BriefDetailsPage({
             ...offer,
             escrowStatus,
             canAccept:
-              !offer.accepted &&
-              !offer.cancelled &&
+              classifyOffer(offer) === "pending" &&
               address?.toLowerCase() === state.creator.toLowerCase(),
             canCancel:
               !offer.accepted &&
@@ -237,6 +263,28 @@ export default function BriefDetailsPage({
     }
   }, [state, contract, address]);
 
+  const loadNegotiations = useCallback(async () => {
+    if (!state) return;
+    try {
+      setNegotiations(await loadListingNegotiations(chainId, state.id));
+    } catch (err) {
+      console.warn("Failed to load negotiations:", err);
+    }
+  }, [chainId, state]);
+
+  // Each proposer has one negotiation thread, shown under their newest offer
+  const threadOfferIds = useMemo(() => {
+    const seen = new Set<string>();
+    const ids = new Set<string>();
+    for (const o of offers) {
+      const who = o.proposer.toLowerCase();
+      if (seen.has(who)) continue;
+      seen.add(who);
+      ids.add(o.id.toString());
+    }
+    return ids;
+  }, [offers]);
+
   // Simple helper to resolve decimals using known mapping; fallback to 18
   function resolveDecimals(tokenAddress: string): number {
     return knownDecimalsFor(tokenAddress, tokens) ?? 18;
@@ -308,13 +356,32 @@ export default function BriefDetailsPage({
         finalAmount = ethers.parseUnits(offerAmount, dec);
       }
 
+      // The expiry is recorded against the wallet session
+      const expiresAt = expiryFromDays(offerExpiryDays);
+      if (expiresAt && !walletSession.session) {
+        await walletSession.signIn();
+      }
+
       const receipt = await contract.makeOffer(
         state.id,
         finalAmount,
         tokenAddress
       );
       notifyReceipt("Offer submitted", undefined, receipt);
+      if (expiresAt) {
+        contract
+          .recordOfferExpiry(receipt, expiresAt)
+          .catch((e) =>
+            toast.showWarning(
+              "Offer expiry not saved yet",
+              `${
+                e instanceof Error ? e.message : "Unknown error"
+              }. The offer is live; its expiry is retried while you are signed in.`
+            )
+          );
+      }
       setOfferAmount("");
+      setOfferExpiryDays(0);
       setShowOfferForm(false);
       await loadOffers();
       await loadListing();
@@ -326,12 +393,14 @@ export default function BriefDetailsPage({
     }
   }
 
-  async function acceptOffer(offerId: bigint) {
+  async function acceptOffer(offer: Offer) {
     if (!chain || !address) return;
 
     try {
       if (!contract) throw new Error("Contract not ready");
-      const receipt = await contract.acceptOffer(offerId);
+      // Only the latest agreed counter-offer may be accepted
+      await assertOfferMatchesNegotiation(chainId, offer);
+      const receipt = await contract.acceptOffer(offer.id);
       notifyReceipt("Offer accepted", undefined, receipt);
       await loadOffers();
       await loadListing();
@@ -362,8 +431,9 @@ export default function BriefDetailsPage({
   useEffect(() => {
     if (state) {
       loadOffers();
+      loadNegotiations();
     }
-  }, [state, loadOffers]);
+  }, [state, loadOffers, loadNegotiations]);
 
   // Fetch minimal creator profile (username + avatar) once listing loaded
   useEffect(() => {
@@ -413,6 +483,7 @@ export default function BriefDetailsPage({
     category: "bg-gray-700/50 text-gray-200",
     info: "bg-gray-700/30 text-gray-300",
     success: "bg-green-500/15 text-green-400",
+    warning: "bg-yellow-500/15 text-yellow-400",
     danger: "bg-red-500/15 text-red-400",
   };
   const Badge = ({
@@ -442,6 +513,12 @@ export default function BriefDetailsPage({
           Cancelled
         </Badge>
       );
+    if (classifyOffer(offer) === "expired")
+      return (
+        <Badge variant="warning" className="!px-2">
+          Expired
+        </Badge>
+      );
     const s =
       offer.escrowStatus != null ? Number(offer.escrowStatus) : undefined;
     if (s == null) return null;
@@ -572,6 +649,13 @@ export default function BriefDetailsPage({
                   <Clock3 className="w-3.5 h-3.5" />
                   {state.createdAgo}
                 </span>
+                {!isOwner && (
+                  <WatchButton
+                    kind="listing"
+                    target={String(state.id)}
+                    listing={state}
+                  />
+                )}
               </div>
               <h1 className="text-2xl font-semibold tracking-tight leading-tight mb-4">
                 {state.title}
@@ -622,7 +706,7 @@ export default function BriefDetailsPage({
                     <Coins className="w-4 h-4 text-yellow-400" />
                     Submit Offer
                   </h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
                     <div>
                       <label className="block text-xs uppercase tracking-wide text-gray-400 mb-1">
                         Payment Token
@@ -650,6 +734,24 @@ export default function BriefDetailsPage({
                         className="w-full rounded-md border border-white/10 bg-gray-950/70 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-white/15"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-400 mb-1">
+                        Valid For
+                      </label>
+                      <select
+                        value={offerExpiryDays}
+                        onChange={(e) =>
+                          setOfferExpiryDays(Number(e.target.value))
+                        }
+                        className="w-full rounded-md border border-white/10 bg-gray-950/70 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-white/15"
+                      >
+                        {OFFER_EXPIRY_OPTIONS.map((o) => (
+                          <option key={o.days} value={o.days}>
+                            {o.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
 
                     <div className="flex items-end mt-2 md:mt-0">
                       <button
@@ -710,12 +812,17 @@ export default function BriefDetailsPage({
                               <User2 className="w-3.5 h-3.5" />
                               From {formatAddress(offer.proposer)} •{" "}
                               {timeAgo(Number(offer.createdAt))}
+                              {offer.expiresAt &&
+                                !offer.accepted &&
+                                !offer.cancelled && (
+                                  <> • {formatOfferExpiry(offer.expiresAt)}</>
+                                )}
                             </p>
                           </div>
                           <div className="flex items-center gap-2 self-start sm:self-auto">
                             {offer.canAccept && (
                               <button
-                                onClick={() => acceptOffer(offer.id)}
+                                onClick={() => acceptOffer(offer)}
                                 className={`${btnBase} bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 text-xs`}
                               >
                                 Accept
@@ -739,6 +846,23 @@ export default function BriefDetailsPage({
                             )}
                           </div>
                         </Link>
+                        {threadOfferIds.has(offer.id.toString()) && (
+                          <NegotiationThread
+                            listingId={state.id}
+                            listingCreator={state.creator}
+                            proposer={offer.proposer}
+                            counters={
+                              negotiations[offer.proposer.toLowerCase()] || []
+                            }
+                            offer={offer}
+                            address={address}
+                            tokens={tokens}
+                            onChange={async () => {
+                              await loadNegotiations();
+                              await loadOffers();
+                            }}
+                          />
+                        )}
                       </div>
                     );
                   })}
@@ -847,6 +971,8 @@ export default function BriefDetailsPage({
 
             {/* Attachment panel removed */}
 
+            <SuggestedFreelancers brief={state} enabled={isOwner} />
+
             {isOwner && (
               <div className="rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/70 to-gray-900/30 p-6 space-y-4">
                 <h3 className="font-medium text-sm tracking-wide text-gray-200">
@@ -10,13 +10,37 @@ import {
   Clock3,
   ChevronRight,
   UserCircle2,
+  Search as SearchIcon,
 } from "lucide-react";
 
 import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
+import { useAccount } from "wagmi";
 
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useListingSearch } from "@/hooks/useListingSearch";
+import { useReferenceRates } from "@/hooks/useReferenceRates";
+import {
+  EMPTY_PRICE_FILTER,
+  PriceFilterFields,
+  toPriceFilter,
+} from "@/components/listings/PriceFilterFields";
+import { RecommendedBriefs } from "@/components/listings/RecommendedBriefs";
+import { SavedSearches } from "@/components/listings/SavedSearches";
+import { WatchButton } from "@/components/watchlist/WatchButton";
+import {
+  comparePrices,
+  formatQuotedAmount,
+  matchesPriceFilter,
+  normalizeListingPrice,
+  referencePriceLabel,
+} from "@/lib/pricing";
+import {
+  getBriefsLastVisit,
+  markBriefsVisited,
+  parseTags,
+} from "@/lib/savedSearches";
 import { Listing, ListingType, EnrichedListing } from "@/types/marketplace";
 import {
   formatAddress,
@@ -27,19 +51,26 @@ import {
 } from "@/lib/utils";
 import { useChainModal } from "@rainbow-me/rainbowkit";
 
+const DEFAULT_FILTERS = {
+  query: "",
+  tags: "", // comma-separated
+  category: "all",
+  budget: EMPTY_PRICE_FILTER,
+  sort: "newest" as "newest" | "price_asc" | "price_desc",
+  showActiveOnly: true,
+  showBoostedFirst: true,
+};
+
 export default function BriefsPage() {
   const router = useRouter();
   const { openChainModal } = useChainModal();
   const { contract } = useMarketplaceContract();
+  const { address } = useAccount();
 
   const [listings, setListings] = useState<EnrichedListing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState({
-    category: "all",
-    showActiveOnly: true,
-    showBoostedFirst: true,
-  });
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
   const [filtersOpen, setFiltersOpen] = useState(false);
   // Minimal creator profile cache
   const [creatorProfiles, setCreatorProfiles] = useState<
@@ -49,6 +80,29 @@ export default function BriefsPage() {
     >
   >({});
 
+  // Previous visit for the "new" markers; this visit becomes the next baseline
+  const [lastVisit, setLastVisit] = useState<number | null>(null);
+  useEffect(() => {
+    setLastVisit(getBriefsLastVisit(address));
+    markBriefsVisited(address);
+  }, [address]);
+
+  const rates = useReferenceRates();
+  const budget = toPriceFilter(filters.budget);
+  const tags = parseTags(filters.tags);
+  const search = useListingSearch({
+    listingType: ListingType.BRIEF,
+    query: filters.query.trim() || undefined,
+    tags,
+    category: filters.category === "all" ? null : Number(filters.category),
+    minPrice: budget.min,
+    maxPrice: budget.max,
+    onlyActive: filters.showActiveOnly,
+    boostedFirst: filters.showBoostedFirst,
+    sort: filters.sort,
+  });
+  const serverSearch = search.available === true;
+
   const loadListings = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -110,15 +164,103 @@ export default function BriefsPage() {
     }
   }, [contract]);
 
+  // On-chain load + client-side filtering when the search index is unavailable
   useEffect(() => {
-    loadListings();
-  }, [loadListings]);
+    if (search.available === false) loadListings();
+  }, [loadListings, search.available]);
+
+  const filteredListings = useMemo(() => {
+    let filtered = [...listings];
+
+    // Filter by text, like the search index: every word must appear somewhere
+    const words = filters.query
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    if (words.length) {
+      filtered = filtered.filter((listing) => {
+        const md = listing.metadata;
+        const text = [
+          md?.title,
+          md?.description,
+          ...(md?.tags || []),
+          ...(md?.requirements || []),
+        ]
+          .join(" ")
+          .toLowerCase();
+        return words.every((w) => text.includes(w));
+      });
+    }
+
+    // Filter by tags (any of them, against tags and requirements)
+    const tagFilter = parseTags(filters.tags);
+    if (tagFilter.length) {
+      filtered = filtered.filter((listing) =>
+        [
+          ...(listing.metadata?.tags || []),
+          ...(listing.metadata?.requirements || []),
+        ].some((t) => tagFilter.includes(t.trim().toLowerCase()))
+      );
+    }
+
+    // Filter by category
+    if (filters.category !== "all") {
+      const categoryNum = parseInt(filters.category);
+      filtered = filtered.filter(
+        (listing) => listing.category === BigInt(categoryNum)
+      );
+    }
+
+    // Filter by active status
+    if (filters.showActiveOnly) {
+      filtered = filtered.filter((listing) => listing.active);
+    }
+
+    // Filter by budget, converted to USD across tokens
+    const budgets = new Map(
+      filtered.map((l) => [
+        l,
+        rates ? normalizeListingPrice(l.metadata, rates) : null,
+      ])
+    );
+    const budgetFilter = toPriceFilter(filters.budget);
+    filtered = filtered.filter((listing) =>
+      matchesPriceFilter(budgets.get(listing) ?? null, budgetFilter)
+    );
+
+    // Boosted first if enabled, then budget or most recent
+    filtered.sort((a, b) => {
+      if (filters.showBoostedFirst) {
+        if (a.isBoosted && !b.isBoosted) return -1;
+        if (!a.isBoosted && b.isBoosted) return 1;
+      }
+      if (filters.sort !== "newest") {
+        const diff = comparePrices(
+          budgets.get(a) ?? null,
+          budgets.get(b) ?? null,
+          filters.sort === "price_asc" ? "asc" : "desc"
+        );
+        if (diff !== 0) return diff;
+      }
+      return Number(b.createdAt - a.createdAt);
+    });
+
+    return filtered;
+  }, [listings, filters, rates]);
+
+  const results = serverSearch ? search.listings : filteredListings;
+  const resultCount = serverSearch
+    ? search.facets?.total ?? search.listings.length
+    : filteredListings.length;
+  const isNew = (listing: EnrichedListing) =>
+    lastVisit !== null && Number(listing.createdAt) > lastVisit;
+  const newCount = results.filter(isNew).length;
 
   // Fetch minimal profile data for creators (username + avatar)
   useEffect(() => {
     if (!contract) return;
     const creators = Array.from(
-      new Set(listings.map((l) => l.creator.toLowerCase()))
+      new Set(results.map((l) => l.creator.toLowerCase()))
     );
     const toFetch = creators.filter((c) => !creatorProfiles[c]);
     if (toFetch.length === 0) return;
@@ -159,37 +301,7 @@ export default function BriefsPage() {
     return () => {
       cancelled = true;
     };
-  }, [contract, listings, creatorProfiles]);
-
-  const filteredListings = useMemo(() => {
-    let filtered = [...listings];
-
-    // Filter by category
-    if (filters.category !== "all") {
-      const categoryNum = parseInt(filters.category);
-      filtered = filtered.filter(
-        (listing) => listing.category === BigInt(categoryNum)
-      );
-    }
-
-    // Filter by active status
-    if (filters.showActiveOnly) {
-      filtered = filtered.filter((listing) => listing.active);
-    }
-
-    // Sort boosted first if enabled
-    if (filters.showBoostedFirst) {
-      filtered.sort((a, b) => {
-        if (a.isBoosted && !b.isBoosted) return -1;
-        if (!a.isBoosted && b.isBoosted) return 1;
-        return Number(b.createdAt - a.createdAt); // Most recent first
-      });
-    } else {
-      filtered.sort((a, b) => Number(b.createdAt - a.createdAt));
-    }
-
-    return filtered;
-  }, [listings, filters]);
+  }, [contract, results, creatorProfiles]);
 
   // UI primitives ----------------------------------------------------------
   const badgeBase =
@@ -200,6 +312,7 @@ export default function BriefsPage() {
     boosted: "bg-yellow-500/15 text-yellow-400 ring-1 ring-yellow-500/30",
     inactive: "bg-red-500/15 text-red-400",
     category: "bg-gray-700/50 text-gray-200",
+    new: "bg-blue-500/15 text-blue-300 ring-1 ring-blue-500/30",
   };
   const Badge = ({
     children,
@@ -223,13 +336,22 @@ export default function BriefsPage() {
 
   const { activeCount, pills } = useMemo(() => {
     const p: string[] = [];
+    if (filters.tags.trim()) p.push(`Tags: ${filters.tags.trim()}`);
     if (filters.category !== "all") p.push(`Cat: ${filters.category}`);
+    if (filters.budget.min || filters.budget.max)
+      p.push(`$${filters.budget.min || "0"}-${filters.budget.max || "∞"}`);
+    if (filters.sort !== "newest")
+      p.push(filters.sort === "price_asc" ? "Budget ↑" : "Budget ↓");
     if (!filters.showActiveOnly) p.push("Inactive incl.");
     if (!filters.showBoostedFirst) p.push("No boost sort");
     return { activeCount: p.length, pills: p };
   }, [filters]);
 
-  if (loading) {
+  const isLoading = serverSearch
+    ? search.loading && search.listings.length === 0
+    : search.available === null || loading;
+
+  if (isLoading) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="space-y-6">
@@ -247,7 +369,7 @@ export default function BriefsPage() {
     );
   }
 
-  if (error) {
+  if (!serverSearch && error) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="text-center py-12">
@@ -310,6 +432,47 @@ export default function BriefsPage() {
         </div>
       </div>
 
+      <RecommendedBriefs limit={3} className="mb-6" />
+
+      <div className="mb-4 space-y-3">
+        <div className="relative">
+          <SearchIcon className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) =>
+              setFilters((p) => ({ ...p, query: e.target.value }))
+            }
+            placeholder="Search briefs by title, description or skills"
+            className="w-full rounded-lg border border-white/10 bg-gray-950/60 pl-9 pr-3 py-2.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
+          />
+        </div>
+        <SavedSearches
+          criteria={{
+            query: filters.query,
+            category:
+              filters.category === "all" ? null : Number(filters.category),
+            minBudget: budget.min,
+            maxBudget: budget.max,
+            tags,
+          }}
+          onApply={(saved) =>
+            setFilters((p) => ({
+              ...p,
+              query: saved.query || "",
+              tags: saved.tags.join(", "),
+              category:
+                saved.category === undefined ? "all" : String(saved.category),
+              budget: {
+                ...EMPTY_PRICE_FILTER,
+                min: saved.minBudget?.toString() ?? "",
+                max: saved.maxBudget?.toString() ?? "",
+              },
+            }))
+          }
+        />
+      </div>
+
       {/* Collapsible Filters */}
       <div className="rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/70 to-gray-900/30 overflow-hidden mb-6">
         <div className="flex items-center justify-between px-4 py-3">
@@ -359,10 +522,57 @@ export default function BriefsPage() {
                   className="w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
                 >
                   <option value="all">All Categories</option>
-                  <option value="0">Project Owner</option>
-                  <option value="1">Developer</option>
-                  <option value="2">Artist</option>
-                  <option value="3">KOL</option>
+                  {[
+                    ["0", "Project Owner"],
+                    ["1", "Developer"],
+                    ["2", "Artist"],
+                    ["3", "KOL"],
+                  ].map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                      {search.facets
+                        ? ` (${
+                            search.facets.categories.find(
+                              (f) => f.value === value
+                            )?.count ?? 0
+                          })`
+                        : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <PriceFilterFields
+                value={filters.budget}
+                onChange={(budget) => setFilters((p) => ({ ...p, budget }))}
+                showBasis={false}
+                label="Budget (USD)"
+              />
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Tags</label>
+                <input
+                  value={filters.tags}
+                  onChange={(e) =>
+                    setFilters((p) => ({ ...p, tags: e.target.value }))
+                  }
+                  placeholder="solidity, react"
+                  className="w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-gray-400">Sort By</label>
+                <select
+                  value={filters.sort}
+                  onChange={(e) =>
+                    setFilters((p) => ({
+                      ...p,
+                      sort: e.target.value as typeof p.sort,
+                    }))
+                  }
+                  className="w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
+                >
+                  <option value="newest">Newest First</option>
+                  <option value="price_asc">Budget: Low to High</option>
+                  <option value="price_desc">Budget: High to Low</option>
                 </select>
               </div>
               <label className="flex items-center gap-2 text-xs font-medium text-gray-300 pt-5 md:pt-0">
@@ -396,13 +606,7 @@ export default function BriefsPage() {
             </div>
             {activeCount > 0 && (
               <button
-                onClick={() =>
-                  setFilters({
-                    category: "all",
-                    showActiveOnly: true,
-                    showBoostedFirst: true,
-                  })
-                }
+                onClick={() => setFilters(DEFAULT_FILTERS)}
                 className="text-[11px] text-red-300 hover:text-red-200"
               >
                 Reset Filters
@@ -414,13 +618,18 @@ export default function BriefsPage() {
 
       {/* Results count */}
       <div className="mb-4 text-sm text-gray-400">
-        {filteredListings.length} brief
-        {filteredListings.length === 1 ? "" : "s"} found
+        {resultCount} brief
+        {resultCount === 1 ? "" : "s"} found
+        {newCount > 0 && (
+          <span className="ml-2 text-blue-300">
+            · {newCount} new since your last visit
+          </span>
+        )}
       </div>
 
       {/* Listings Grid */}
       <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
-        {filteredListings.length === 0 ? (
+        {results.length === 0 ? (
           <div className="col-span-full text-center py-12">
             <p className="text-gray-400 mb-4">
               No briefs found matching your criteria.
@@ -433,7 +642,7 @@ export default function BriefsPage() {
             </Link>
           </div>
         ) : (
-          filteredListings.map((listing) => {
+          results.map((listing) => {
             const cover = toGatewayUrl(listing.metadata?.image || null);
             const title =
               listing.metadata?.title || `Brief #${listing.id.toString()}`;
@@ -474,6 +683,7 @@ export default function BriefsPage() {
                     <TagIcon className="w-3.5 h-3.5" />
                     {getCategoryLabel(Number(listing.category))}
                   </Badge>
+                  {isNew(listing) && <Badge variant="new">New</Badge>}
                   {listing.isBoosted && (
                     <Badge
                       variant="boosted"
@@ -534,15 +744,24 @@ export default function BriefsPage() {
                   <div className="mb-4 space-y-1 text-xs">
                     <span className="text-gray-500">Budget</span>
                     <p className="text-sm font-semibold text-gray-200">
-                      {listing.metadata.budget.min &&
-                      listing.metadata.budget.max
-                        ? `$${listing.metadata.budget.min} - $${listing.metadata.budget.max}`
-                        : listing.metadata.budget.min
-                        ? `$${listing.metadata.budget.min}+`
-                        : listing.metadata.budget.max
-                        ? `Up to $${listing.metadata.budget.max}`
-                        : "TBD"}
+                      {(() => {
+                        const { min, max, currency } = listing.metadata.budget;
+                        if (min && max)
+                          return `${formatQuotedAmount(
+                            min,
+                            currency
+                          )} - ${formatQuotedAmount(max, currency)}`;
+                        if (min) return `${formatQuotedAmount(min, currency)}+`;
+                        if (max)
+                          return `Up to ${formatQuotedAmount(max, currency)}`;
+                        return "TBD";
+                      })()}
                     </p>
+                    {referencePriceLabel(listing.metadata, rates) && (
+                      <p className="text-gray-500">
+                        {referencePriceLabel(listing.metadata, rates)}
+                      </p>
+                    )}
                   </div>
                 )}
                 <div className="mt-auto pt-2 flex items-center justify-between text-[11px] text-gray-500 mb-3">
@@ -604,12 +823,21 @@ export default function BriefsPage() {
                     </span>
                   </span>
                 </div>
-                <Link
-                  href={`/briefs/${listing.id.toString()}`}
-                  className={`${btnBase} w-full border border-white/10 hover:border-gray-400/40 px-4 py-2 text-gray-200 hover:text-white bg-transparent text-sm justify-center`}
-                >
-                  View Details <ChevronRight className="w-4 h-4" />
-                </Link>
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={`/briefs/${listing.id.toString()}`}
+                    className={`${btnBase} flex-1 border border-white/10 hover:border-gray-400/40 px-4 py-2 text-gray-200 hover:text-white bg-transparent text-sm justify-center`}
+                  >
+                    View Details <ChevronRight className="w-4 h-4" />
+                  </Link>
+                  <WatchButton
+                    kind="listing"
+                    target={listing.id.toString()}
+                    listing={listing}
+                    compact
+                    className="p-2.5"
+                  />
+                </div>
               </div>
             );
           })
@@ -617,16 +845,28 @@ export default function BriefsPage() {
       </div>
 
       {/* Load more button if we have many results */}
-      {filteredListings.length >= 50 && (
-        <div className="text-center mt-8">
-          <button
-            onClick={loadListings}
-            className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors text-sm"
-          >
-            Load More
-          </button>
-        </div>
-      )}
+      {serverSearch
+        ? search.hasMore && (
+            <div className="text-center mt-8">
+              <button
+                onClick={search.loadMore}
+                disabled={search.loadingMore}
+                className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors text-sm disabled:opacity-50"
+              >
+                {search.loadingMore ? "Loading…" : "Load More"}
+              </button>
+            </div>
+          )
+        : filteredListings.length >= 50 && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadListings}
+                className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors text-sm"
+              >
+                Load More
+              </button>
+            </div>
+          )}
     </div>
   );
 }
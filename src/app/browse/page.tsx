@@ -19,6 +19,7 @@ import { useAccount } from "wagmi";
 import { ethers } from "ethers";
 
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useListingSearch } from "@/hooks/useListingSearch";
 import { ListingType, EnrichedListing } from "@/types/marketplace";
 import {
   toGatewayUrl,
@@ -30,6 +31,20 @@ import {
   getCategoryLabel,
 } from "@/lib/utils";
 import { LoadingCard } from "@/components/Loading";
+import {
+  EMPTY_PRICE_FILTER,
+  PriceFilterFields,
+  toPriceFilter,
+} from "@/components/listings/PriceFilterFields";
+import { useReferenceRates } from "@/hooks/useReferenceRates";
+import { WatchButton } from "@/components/watchlist/WatchButton";
+import {
+  comparePrices,
+  formatQuotedAmount,
+  matchesPriceFilter,
+  normalizeListingPrice,
+  referencePriceLabel,
+} from "@/lib/pricing";
 
 export default function BrowsePage() {
   const { chain } = useAccount();
@@ -42,10 +57,15 @@ export default function BrowsePage() {
   const [activeTab, setActiveTab] = useState<"all" | "briefs" | "gigs">("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
-  const [sortBy, setSortBy] = useState<"newest" | "oldest" | "boosted">(
-    "newest"
-  );
+  const [sortBy, setSortBy] = useState<
+    "newest" | "oldest" | "boosted" | "relevance" | "price_asc" | "price_desc"
+  >("newest");
   const [showActiveOnly, setShowActiveOnly] = useState(true);
+  const [priceFilter, setPriceFilter] = useState(EMPTY_PRICE_FILTER);
+  // Facets served by the search index only
+  const [token, setToken] = useState("");
+  const [maxDeliveryDays, setMaxDeliveryDays] = useState("");
+  const [boostedOnly, setBoostedOnly] = useState(false);
   const [filtersOpen, setFiltersOpen] = useState(false);
   // Minimal cached profiles for creators (username + profilePicCID)
   const [profiles, setProfiles] = useState<
@@ -59,7 +79,35 @@ export default function BrowsePage() {
     [chainId]
   );
 
+  const rates = useReferenceRates();
+  const price = toPriceFilter(priceFilter);
+  const search = useListingSearch({
+    query: searchQuery,
+    listingType:
+      activeTab === "all"
+        ? undefined
+        : activeTab === "briefs"
+        ? ListingType.BRIEF
+        : ListingType.GIG,
+    category: selectedCategory,
+    token: token || undefined,
+    minPrice: price.min,
+    maxPrice: price.max,
+    priceBasis: price.basis,
+    maxDeliveryDays: maxDeliveryDays ? Number(maxDeliveryDays) : undefined,
+    boostedOnly,
+    onlyActive: showActiveOnly,
+    sort: sortBy === "boosted" ? "newest" : sortBy,
+  });
+  const serverSearch = search.available === true;
+  const results = serverSearch ? search.listings : filteredListings;
+  const isLoading = serverSearch
+    ? search.loading && search.listings.length === 0
+    : search.available === null || loading;
+
+  // On-chain load + client-side filtering when the search index is unavailable
   useEffect(() => {
+    if (search.available !== false) return;
     async function loadListings() {
       setLoading(true);
       try {
@@ -91,13 +139,13 @@ export default function BrowsePage() {
     }
 
     loadListings();
-  }, [chainId, contract, provider]);
+  }, [chainId, contract, provider, search.available]);
 
   // Fetch minimal profiles for creators (batch, no re-fetch if cached)
   useEffect(() => {
-    if (!contract || listings.length === 0) return;
+    if (!contract || results.length === 0) return;
     const creators = Array.from(
-      new Set(listings.map((l) => l.creator.toLowerCase()))
+      new Set(results.map((l) => l.creator.toLowerCase()))
     );
     const toFetch = creators.filter((c) => !profiles[c]);
     if (toFetch.length === 0) return;
@@ -136,7 +184,7 @@ export default function BrowsePage() {
     return () => {
       cancelled = true;
     };
-  }, [contract, listings, profiles]);
+  }, [contract, results, profiles]);
 
   const Identity = ({ addr }: { addr: string }) => {
     const router = useRouter();
@@ -232,6 +280,18 @@ export default function BrowsePage() {
       });
     }
 
+    // Filter by price (USD reference across tokens)
+    const filter = toPriceFilter(priceFilter);
+    const prices = new Map(
+      filtered.map((l) => [
+        l,
+        rates ? normalizeListingPrice(l.metadata, rates) : null,
+      ])
+    );
+    filtered = filtered.filter((l) =>
+      matchesPriceFilter(prices.get(l) ?? null, filter)
+    );
+
     // Sort listings
     filtered.sort((a, b) => {
       // Always show boosted first
@@ -245,8 +305,19 @@ export default function BrowsePage() {
           if (diff !== 0) return diff;
           break;
         }
+        case "price_asc":
+        case "price_desc": {
+          const diff = comparePrices(
+            prices.get(a) ?? null,
+            prices.get(b) ?? null,
+            sortBy === "price_asc" ? "asc" : "desc"
+          );
+          if (diff !== 0) return diff;
+          break;
+        }
         case "newest":
         case "boosted":
+        // Relevance needs the search index
         default: {
           const diff = Number(b.createdAt) - Number(a.createdAt);
           if (diff !== 0) return diff;
@@ -269,6 +340,8 @@ export default function BrowsePage() {
     selectedCategory,
     sortBy,
     showActiveOnly,
+    priceFilter,
+    rates,
   ]);
 
   // Active filter summary (exclude defaults)
@@ -277,6 +350,13 @@ export default function BrowsePage() {
     if (selectedCategory !== null) pills.push(`Cat: ${selectedCategory}`);
     if (!showActiveOnly) pills.push("Inactive incl.");
     if (sortBy !== "newest") pills.push(`Sort: ${sortBy}`);
+    if (token) pills.push(`Token: ${token}`);
+    if (priceFilter.min || priceFilter.max)
+      pills.push(`$${priceFilter.min || "0"}-${priceFilter.max || "∞"}`);
+    if (priceFilter.basis)
+      pills.push(priceFilter.basis === "day" ? "Day rates" : "Fixed price");
+    if (maxDeliveryDays) pills.push(`Delivery ≤ ${maxDeliveryDays}d`);
+    if (boostedOnly) pills.push("Boosted only");
     if (searchQuery.trim())
       pills.push(
         `Search: ${searchQuery.trim().slice(0, 12)}${
@@ -284,7 +364,36 @@ export default function BrowsePage() {
         }`
       );
     return { activeFilterCount: pills.length, activeFilterPills: pills };
-  }, [selectedCategory, showActiveOnly, sortBy, searchQuery]);
+  }, [
+    selectedCategory,
+    showActiveOnly,
+    sortBy,
+    searchQuery,
+    token,
+    priceFilter,
+    maxDeliveryDays,
+    boostedOnly,
+  ]);
+
+  const resetFilters = () => {
+    setSearchQuery("");
+    setSelectedCategory(null);
+    setShowActiveOnly(true);
+    setSortBy("newest");
+    setToken("");
+    setPriceFilter(EMPTY_PRICE_FILTER);
+    setMaxDeliveryDays("");
+    setBoostedOnly(false);
+  };
+
+  // Facet count suffix for select options, e.g. "Developer (4)"
+  const facetCount = (
+    list: { value: string; count: number }[] | undefined,
+    value: string
+  ) => {
+    if (!serverSearch || !list) return "";
+    return ` (${list.find((f) => f.value === value)?.count ?? 0})`;
+  };
 
   // UI primitives ----------------------------------------------------------
   const badgeBase =
@@ -333,15 +442,24 @@ export default function BrowsePage() {
     const categoryLabel = getCategoryLabel(Number(listing.category));
     const createdAgo = timeAgo(Number(listing.createdAt));
     const budget = listing.metadata?.budget;
-    const priceDisplay = budget
+    const gigPrice = listing.metadata?.price;
+    const priceDisplay = gigPrice
+      ? `${formatQuotedAmount(gigPrice.amount, gigPrice.currency)}${
+          gigPrice.per && gigPrice.per !== "project" ? `/${gigPrice.per}` : ""
+        }`
+      : budget
       ? budget.min != null && budget.max != null
-        ? `$${budget.min} - $${budget.max} ${budget.currency || "USD"}`
+        ? `${formatQuotedAmount(
+            budget.min,
+            budget.currency
+          )} - ${formatQuotedAmount(budget.max, budget.currency)}`
         : budget.min != null
-        ? `$${budget.min}+ ${budget.currency || "USD"}`
+        ? `${formatQuotedAmount(budget.min, budget.currency)}+`
         : budget.max != null
-        ? `Up to $${budget.max} ${budget.currency || "USD"}`
+        ? `Up to ${formatQuotedAmount(budget.max, budget.currency)}`
         : undefined
       : undefined;
+    const referenceDisplay = referencePriceLabel(listing.metadata, rates);
 
     return (
       <Link
@@ -400,6 +518,12 @@ export default function BrowsePage() {
                 <Clock3 className="w-3.5 h-3.5" />
                 {createdAgo}
               </span>
+              <WatchButton
+                kind="listing"
+                target={String(listing.id)}
+                listing={listing}
+                compact
+              />
             </div>
             <h3 className="font-semibold mb-2 line-clamp-2 leading-snug tracking-tight text-sm sm:text-base group-hover:text-gray-200 transition-colors">
               {title}
@@ -430,6 +554,11 @@ export default function BrowsePage() {
                     {priceDisplay}
                   </div>
                 )}
+                {referenceDisplay && (
+                  <div className="text-gray-500 truncate">
+                    {referenceDisplay}
+                  </div>
+                )}
                 <div className="text-gray-500 flex items-center justify-end gap-1">
                   <Identity addr={listing.creator} />
                 </div>
@@ -496,12 +625,7 @@ export default function BrowsePage() {
             </button>
             {activeFilterCount > 0 && (
               <button
-                onClick={() => {
-                  setSearchQuery("");
-                  setSelectedCategory(null);
-                  setShowActiveOnly(true);
-                  setSortBy("newest");
-                }}
+                onClick={resetFilters}
                 className="text-[11px] px-3 py-2 rounded-lg border border-red-500/30 text-red-300 hover:bg-red-500/10 transition"
               >
                 Reset
@@ -545,10 +669,17 @@ export default function BrowsePage() {
                   className="w-full px-3 py-2 bg-gray-800/70 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
                 >
                   <option value="">All Categories</option>
-                  <option value="0">Project Owner</option>
-                  <option value="1">Developer</option>
-                  <option value="2">Artist</option>
-                  <option value="3">KOL</option>
+                  {[
+                    ["0", "Project Owner"],
+                    ["1", "Developer"],
+                    ["2", "Artist"],
+                    ["3", "KOL"],
+                  ].map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                      {facetCount(search.facets?.categories, value)}
+                    </option>
+                  ))}
                 </select>
               </div>
               <div className="space-y-1">
@@ -560,9 +691,14 @@ export default function BrowsePage() {
                   onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
                   className="w-full px-3 py-2 bg-gray-800/70 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
                 >
+                  {serverSearch && searchQuery.trim() && (
+                    <option value="relevance">Best Match</option>
+                  )}
                   <option value="newest">Newest First</option>
                   <option value="oldest">Oldest First</option>
                   <option value="boosted">Boosted First</option>
+                  <option value="price_asc">Price: Low to High</option>
+                  <option value="price_desc">Price: High to Low</option>
                 </select>
               </div>
               <div className="flex items-center gap-3 pt-6 md:pt-7">
@@ -577,6 +713,82 @@ export default function BrowsePage() {
                 </label>
               </div>
             </div>
+            <div className="grid md:grid-cols-3 gap-4">
+              <PriceFilterFields
+                value={priceFilter}
+                onChange={setPriceFilter}
+                label="Price / Budget (USD)"
+                placeholders={{
+                  min:
+                    search.facets?.priceMin != null
+                      ? String(Math.floor(search.facets.priceMin))
+                      : undefined,
+                  max:
+                    search.facets?.priceMax != null
+                      ? String(Math.ceil(search.facets.priceMax))
+                      : undefined,
+                }}
+                labelClassName="text-[11px] uppercase tracking-wide text-gray-500"
+                inputClassName="w-full px-3 py-2 bg-gray-800/70 border border-gray-700 rounded text-sm text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            {serverSearch && (
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <label className="text-[11px] uppercase tracking-wide text-gray-500">
+                    Token
+                  </label>
+                  <select
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    className="w-full px-3 py-2 bg-gray-800/70 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Any Token</option>
+                    {(search.facets?.currencies || []).map((c) => (
+                      <option key={c.value} value={c.value}>
+                        {c.value} ({c.count})
+                      </option>
+                    ))}
+                    {token &&
+                      !search.facets?.currencies.some(
+                        (c) => c.value === token
+                      ) && <option value={token}>{token} (0)</option>}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[11px] uppercase tracking-wide text-gray-500">
+                    Delivery Time
+                  </label>
+                  <select
+                    value={maxDeliveryDays}
+                    onChange={(e) => setMaxDeliveryDays(e.target.value)}
+                    className="w-full px-3 py-2 bg-gray-800/70 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Any Time</option>
+                    <option value="1">Up to 1 day</option>
+                    <option value="3">Up to 3 days</option>
+                    <option value="7">Up to 1 week</option>
+                    <option value="30">Up to 1 month</option>
+                  </select>
+                </div>
+                <div className="flex items-center gap-3 pt-6 md:pt-7">
+                  <label className="flex items-center gap-2 text-xs font-medium text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={boostedOnly}
+                      onChange={(e) => setBoostedOnly(e.target.checked)}
+                      className="h-4 w-4 rounded border-white/10 bg-gray-900 text-white focus:ring-white/20"
+                    />
+                    Boosted only
+                    {search.facets && (
+                      <span className="text-gray-500">
+                        ({search.facets.boosted})
+                      </span>
+                    )}
+                  </label>
+                </div>
+              </div>
+            )}
             {searchQuery && (
               <div className="text-[11px] text-gray-500 flex items-center gap-2">
                 <span>Search:</span>
@@ -597,32 +809,61 @@ export default function BrowsePage() {
 
       {/* Tabs */}
       <div className="flex border-b border-white/5 overflow-x-auto scrollbar-none">
-        {[
-          {
-            key: "all",
-            label: "All",
-            count: listings.filter((l) => (showActiveOnly ? l.active : true))
-              .length,
-          },
-          {
-            key: "briefs",
-            label: "Briefs",
-            count: listings.filter(
-              (l) =>
-                l.listingType === ListingType.BRIEF &&
-                (showActiveOnly ? l.active : true)
-            ).length,
-          },
-          {
-            key: "gigs",
-            label: "Gigs",
-            count: listings.filter(
-              (l) =>
-                l.listingType === ListingType.GIG &&
-                (showActiveOnly ? l.active : true)
-            ).length,
-          },
-        ].map((tab) => {
+        {(serverSearch
+          ? [
+              {
+                key: "all",
+                label: "All",
+                count: (search.facets?.listingTypes || []).reduce(
+                  (sum, f) => sum + f.count,
+                  0
+                ),
+              },
+              {
+                key: "briefs",
+                label: "Briefs",
+                count:
+                  search.facets?.listingTypes.find(
+                    (f) => f.value === String(ListingType.BRIEF)
+                  )?.count ?? 0,
+              },
+              {
+                key: "gigs",
+                label: "Gigs",
+                count:
+                  search.facets?.listingTypes.find(
+                    (f) => f.value === String(ListingType.GIG)
+                  )?.count ?? 0,
+              },
+            ]
+          : [
+              {
+                key: "all",
+                label: "All",
+                count: listings.filter((l) =>
+                  showActiveOnly ? l.active : true
+                ).length,
+              },
+              {
+                key: "briefs",
+                label: "Briefs",
+                count: listings.filter(
+                  (l) =>
+                    l.listingType === ListingType.BRIEF &&
+                    (showActiveOnly ? l.active : true)
+                ).length,
+              },
+              {
+                key: "gigs",
+                label: "Gigs",
+                count: listings.filter(
+                  (l) =>
+                    l.listingType === ListingType.GIG &&
+                    (showActiveOnly ? l.active : true)
+                ).length,
+              },
+            ]
+        ).map((tab) => {
           const active = activeTab === tab.key;
           return (
             <button
@@ -656,19 +897,30 @@ export default function BrowsePage() {
       </div>
 
       {/* Results */}
-      {loading ? (
+      {isLoading ? (
         <div className="grid gap-4">
           {Array.from({ length: 6 }).map((_, i) => (
             <LoadingCard key={i} showImage />
           ))}
         </div>
-      ) : filteredListings.length > 0 ? (
+      ) : results.length > 0 ? (
         <div className="grid gap-4">
-          {filteredListings.map((listing, index) => (
+          {results.map((listing, index) => (
             <div key={`${String(listing.id)}-${index}`}>
               {renderListing(listing)}
             </div>
           ))}
+          {serverSearch && search.hasMore && (
+            <div className="text-center mt-2">
+              <button
+                onClick={search.loadMore}
+                disabled={search.loadingMore}
+                className="px-6 py-2 border border-white/10 rounded-lg text-sm hover:bg-white/5 transition-colors disabled:opacity-50"
+              >
+                {search.loadingMore ? "Loading…" : "Load More"}
+              </button>
+            </div>
+          )}
         </div>
       ) : (
         <div className="rounded-xl border border-white/5 p-12 text-center bg-gradient-to-b from-gray-900/70 to-gray-900/30">
@@ -706,10 +958,8 @@ export default function BrowsePage() {
             </Link>
             <button
               onClick={() => {
-                setSearchQuery("");
-                setSelectedCategory(null);
+                resetFilters();
                 setActiveTab("all");
-                setShowActiveOnly(true);
               }}
               className="px-4 py-2 border border-white/10 text-gray-300 rounded-lg text-sm hover:bg-white/5 transition-colors"
             >
@@ -2,8 +2,9 @@
 
 import { use, useCallback, useEffect, useMemo, useState } from "react";
 import { useAccount } from "wagmi";
+import { useSearchParams } from "next/navigation";
 import { Chat } from "@/components/chat/Chat";
-import { DirectChatProvider } from "@/components/chat";
+import { ChatAuthGate, DirectChatProvider } from "@/components/chat";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
 
 export default function DirectChatPage({
@@ -13,6 +14,8 @@ export default function DirectChatPage({
 }) {
   const { address: other } = use(params);
   const { address } = useAccount();
+  // ?m=<messageId> opens the conversation at a search hit
+  const focusMessageId = useSearchParams().get("m");
   const { contract } = useMarketplaceContract();
   const [mounted, setMounted] = useState(false);
   const [profiles, setProfiles] = useState<
@@ -97,49 +100,52 @@ export default function DirectChatPage({
         </div> */}
       <div className="mt-4">
         {provider ? (
-          <Chat
-            provider={provider}
-            address={address}
-            canSend={!!address}
-            resolveIdentity={resolveIdentity}
-            onMessages={(msgs) => {
-              const addrs = Array.from(
-                new Set(msgs.map((m) => m.sender.toLowerCase()))
-              );
-              const missing = addrs.filter((a) => !profiles[a]);
-              if (missing.length === 0 || !contract) return;
-              (async () => {
-                const updates: Record<
-                  string,
-                  { username?: string; profilePicCID?: string }
-                > = {};
-                await Promise.all(
-                  missing.map(async (a) => {
-                    try {
-                      interface RawP {
-                        joinedAt: bigint;
-                        username?: string;
-                        profilePicCID?: string;
-                      }
-                      const p: RawP = await (
-                        contract as unknown as {
-                          getProfile: (x: string) => Promise<RawP>;
-                        }
-                      ).getProfile(a);
-                      if (p && Number(p.joinedAt || 0) > 0) {
-                        updates[a] = {
-                          username: p.username || undefined,
-                          profilePicCID: p.profilePicCID || undefined,
-                        };
-                      }
-                    } catch {}
-                  })
+          <ChatAuthGate>
+            <Chat
+              provider={provider}
+              address={address}
+              canSend={!!address}
+              resolveIdentity={resolveIdentity}
+              focusMessageId={focusMessageId}
+              onMessages={(msgs) => {
+                const addrs = Array.from(
+                  new Set(msgs.map((m) => m.sender.toLowerCase()))
                 );
-                if (Object.keys(updates).length)
-                  setProfiles((prev) => ({ ...prev, ...updates }));
-              })();
-            }}
-          />
+                const missing = addrs.filter((a) => !profiles[a]);
+                if (missing.length === 0 || !contract) return;
+                (async () => {
+                  const updates: Record<
+                    string,
+                    { username?: string; profilePicCID?: string }
+                  > = {};
+                  await Promise.all(
+                    missing.map(async (a) => {
+                      try {
+                        interface RawP {
+                          joinedAt: bigint;
+                          username?: string;
+                          profilePicCID?: string;
+                        }
+                        const p: RawP = await (
+                          contract as unknown as {
+                            getProfile: (x: string) => Promise<RawP>;
+                          }
+                        ).getProfile(a);
+                        if (p && Number(p.joinedAt || 0) > 0) {
+                          updates[a] = {
+                            username: p.username || undefined,
+                            profilePicCID: p.profilePicCID || undefined,
+                          };
+                        }
+                      } catch {}
+                    })
+                  );
+                  if (Object.keys(updates).length)
+                    setProfiles((prev) => ({ ...prev, ...updates }));
+                })();
+              }}
+            />
+          </ChatAuthGate>
         ) : (
           <div className="p-6 text-center text-sm text-gray-400">
             Connect your wallet to start chatting.
@@ -6,9 +6,22 @@ import { useEffect, useMemo, useState } from "react";
 import Image from "next/image";
 import { useAccount } from "wagmi";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  directConversationKey,
+  parseOfferConversation,
+  subscribeUnreadCounts,
+} from "@/lib/chatReads";
+import {
+  chatHitHref,
+  headlineParts,
+  searchChatMessages,
+  type ChatSearchHit,
+} from "@/lib/chatSearch";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
 import { toGatewayUrl, formatAddress, timeAgo } from "@/lib/utils";
 import { UserCircle2 } from "lucide-react";
+import { ChatAuthGate } from "@/components/chat";
+import { useWalletSession } from "@/hooks/useWalletSession";
 
 // DB row for a direct chat pair
 type DirectDoc = { user_lo: string; user_hi: string; updated_at: string };
@@ -18,15 +31,21 @@ export default function ChatInboxPage() {
   const { contract } = useMarketplaceContract();
   const [rows, setRows] = useState<DirectDoc[]>([]);
   const me = useMemo(() => address?.toLowerCase() || "", [address]);
+  // Direct chats are only readable with a wallet session; reload once signed in
+  const { session } = useWalletSession();
+  const sessionToken = session?.token;
   const [profiles, setProfiles] = useState<
     Record<string, { username?: string; profilePicCID?: string }>
   >({});
   const [q, setQ] = useState("");
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  const [hits, setHits] = useState<ChatSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
   const router = useRouter();
 
   // Load recent chat pairs for the current user
   useEffect(() => {
-    if (!me) return;
+    if (!me || !sessionToken) return;
     let cancelled = false;
     (async () => {
       const { data } = await supabase
@@ -40,7 +59,13 @@ export default function ChatInboxPage() {
     return () => {
       cancelled = true;
     };
-  }, [me]);
+  }, [me, sessionToken]);
+
+  useEffect(() => {
+    setUnread({});
+    if (!me || !sessionToken) return;
+    return subscribeUnreadCounts(me, setUnread);
+  }, [me, sessionToken]);
 
   // Resolve minimal identity for chat partners (username + avatar)
   useEffect(() => {
@@ -91,6 +116,47 @@ export default function ChatInboxPage() {
   const isAddress = (v: string) => /^0x[a-fA-F0-9]{40}$/.test(v);
   const normalizedQuery = q.trim().replace(/^@/, "").toLowerCase();
 
+  // Message search (debounced); wallet addresses and @usernames only filter the list
+  const messageQuery =
+    q.trim().length >= 2 && !q.trim().startsWith("@") && !isAddress(q.trim())
+      ? q.trim()
+      : "";
+  useEffect(() => {
+    setHits([]);
+    if (!messageQuery || !sessionToken) return;
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchChatMessages(messageQuery);
+        if (!cancelled) setHits(found);
+      } catch {
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+      setSearching(false);
+    };
+  }, [messageQuery, sessionToken]);
+
+  const conversationLabel = (conversation: string) => {
+    const offer = parseOfferConversation(conversation);
+    if (offer) return `Offer #${offer.offerId}`;
+    const [, lo, hi] = conversation.split(":");
+    const other = lo === me ? hi : lo;
+    const p = profiles[other];
+    return p?.username ? `@${p.username}` : formatAddress(other);
+  };
+  const senderLabel = (sender: string) => {
+    if (sender === me) return "You";
+    const p = profiles[sender];
+    return p?.username ? `@${p.username}` : formatAddress(sender);
+  };
+
   // Username -> address resolution among known partners (inbox cache)
   const knownAddressByUsername = useMemo(() => {
     if (!normalizedQuery) return undefined;
@@ -145,127 +211,214 @@ export default function ChatInboxPage() {
           Connect your wallet to see your chats.
         </div>
       ) : (
-        <div className="rounded-xl border border-white/10 bg-gradient-to-b from-gray-950/70 to-gray-900/40 p-3 sm:p-4">
-          {/* Search bar */}
-          <div className="mb-3">
-            <div className="flex items-center gap-2">
-              <input
-                value={q}
-                onChange={(e) => setQ(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") onSubmit();
-                }}
-                placeholder="Search by @username or wallet address"
-                className="w-full rounded-lg border border-white/10 bg-gray-900/60 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-white/10"
-              />
-              <button
-                onClick={onSubmit}
-                disabled={!canStartNew}
-                className="flex-shrink-0 rounded-lg bg-white/10 px-3 py-2 text-xs text-gray-100 hover:bg-white/15 disabled:opacity-40 disabled:hover:bg-white/10"
-                title={
-                  canStartNew
-                    ? "Start chat"
-                    : "Enter a username you know or a wallet address"
-                }
-              >
-                Start
-              </button>
-            </div>
-            {q && !canStartNew && (
-              <div className="mt-1 text-[11px] text-gray-500">
-                Tip: enter a full wallet address or an @username from your
-                chats.
+        <ChatAuthGate>
+          <div className="rounded-xl border border-white/10 bg-gradient-to-b from-gray-950/70 to-gray-900/40 p-3 sm:p-4">
+            {/* Search bar */}
+            <div className="mb-3">
+              <div className="flex items-center gap-2">
+                <input
+                  value={q}
+                  onChange={(e) => setQ(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") onSubmit();
+                  }}
+                  placeholder="Search messages, @username or wallet address"
+                  className="w-full rounded-lg border border-white/10 bg-gray-900/60 px-3 py-2 text-sm text-gray-100 placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-white/10"
+                />
+                <button
+                  onClick={onSubmit}
+                  disabled={!canStartNew}
+                  className="flex-shrink-0 rounded-lg bg-white/10 px-3 py-2 text-xs text-gray-100 hover:bg-white/15 disabled:opacity-40 disabled:hover:bg-white/10"
+                  title={
+                    canStartNew
+                      ? "Start chat"
+                      : "Enter a username you know or a wallet address"
+                  }
+                >
+                  Start
+                </button>
               </div>
-            )}
-            {canStartNew && targetAddress && (
-              <div className="mt-1 text-[11px] text-gray-400">
-                Start chat with{" "}
-                <span className="font-mono">
-                  {formatAddress(targetAddress, 8, 6)}
-                </span>
+              {q && !canStartNew && !messageQuery && (
+                <div className="mt-1 text-[11px] text-gray-500">
+                  Tip: enter a full wallet address or an @username from your
+                  chats.
+                </div>
+              )}
+              {canStartNew && targetAddress && (
+                <div className="mt-1 text-[11px] text-gray-400">
+                  Start chat with{" "}
+                  <span className="font-mono">
+                    {formatAddress(targetAddress, 8, 6)}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Empty state or list */}
+            {rows.length === 0 ? (
+              <div className="rounded-lg border border-white/10 bg-gray-900/40 p-6 text-center">
+                <div className="mx-auto mb-3 h-12 w-12 rounded-full bg-white/5 flex items-center justify-center">
+                  <UserCircle2 className="h-7 w-7 text-gray-500" />
+                </div>
+                <div className="text-sm text-gray-300">No chats yet</div>
+                <div className="mt-1 text-xs text-gray-500">
+                  Start from a profile page, paste a wallet, or use an
+                  @username.
+                </div>
+                <div className="mt-3 text-[11px] text-gray-500">
+                  Example: <span className="font-mono">/chat/0xabc…</span>
+                </div>
+                <div className="mt-4">
+                  <Link
+                    href="/gigs"
+                    className="inline-flex items-center gap-2 rounded-lg bg-white/10 px-4 py-2 text-xs text-gray-100 hover:bg-white/15"
+                  >
+                    Browse gigs
+                  </Link>
+                </div>
               </div>
+            ) : (
+              <ul className="space-y-2">
+                {visibleRows.map((r, i) => {
+                  const rawOther = r.user_lo === me ? r.user_hi : r.user_lo;
+                  const other = rawOther.toLowerCase();
+                  const p = profiles[other];
+                  const avatarUrl = p?.profilePicCID
+                    ? toGatewayUrl(p.profilePicCID)
+                    : null;
+                  const display = p?.username
+                    ? `@${p.username}`
+                    : formatAddress(other);
+                  const updatedTsSec = Math.floor(
+                    new Date(r.updated_at).getTime() / 1000
+                  );
+                  const unreadCount =
+                    unread[directConversationKey(r.user_lo, r.user_hi)] || 0;
+                  return (
+                    <li key={`${other}-${i}`}>
+                      <Link
+                        href={`/chat/${other}`}
+                        className="group flex items-center gap-3 rounded-xl border border-white/10 bg-gradient-to-b from-gray-950/70 to-gray-900/40 px-3 py-3 hover:border-white/20 hover:from-gray-900/70 hover:to-gray-900/50 transition-colors"
+                      >
+                        {avatarUrl ? (
+                          <span className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-full bg-gray-800 ring-1 ring-white/10">
+                            <Image
+                              src={avatarUrl}
+                              alt={display}
+                              fill
+                              sizes="48px"
+                              className="object-cover"
+                              unoptimized
+                            />
+                          </span>
+                        ) : (
+                          <span className="h-12 w-12 flex items-center justify-center rounded-full bg-white/5 ring-1 ring-white/10 text-gray-500">
+                            <UserCircle2 className="h-7 w-7" />
+                          </span>
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center justify-between gap-3">
+                            <div
+                              className={`truncate text-sm text-gray-100 ${
+                                unreadCount > 0
+                                  ? "font-semibold"
+                                  : "font-medium"
+                              }`}
+                            >
+                              {display}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <div className="text-[11px] text-gray-500 whitespace-nowrap">
+                                {timeAgo(updatedTsSec)}
+                              </div>
+                              {unreadCount > 0 && (
+                                <span className="inline-flex min-w-[1.25rem] h-5 items-center justify-center rounded-full bg-blue-600 px-1.5 text-[10px] font-semibold text-white">
+                                  {unreadCount > 99 ? "99+" : unreadCount}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <div className="mt-0.5 text-xs text-gray-500 truncate">
+                            Last active{" "}
+                            {new Date(r.updated_at).toLocaleString()}
+                          </div>
+                        </div>
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
             )}
-          </div>
 
-          {/* Empty state or list */}
-          {rows.length === 0 ? (
-            <div className="rounded-lg border border-white/10 bg-gray-900/40 p-6 text-center">
-              <div className="mx-auto mb-3 h-12 w-12 rounded-full bg-white/5 flex items-center justify-center">
-                <UserCircle2 className="h-7 w-7 text-gray-500" />
-              </div>
-              <div className="text-sm text-gray-300">No chats yet</div>
-              <div className="mt-1 text-xs text-gray-500">
-                Start from a profile page, paste a wallet, or use an @username.
-              </div>
-              <div className="mt-3 text-[11px] text-gray-500">
-                Example: <span className="font-mono">/chat/0xabc…</span>
-              </div>
+            {/* Message search results */}
+            {messageQuery && (
               <div className="mt-4">
-                <Link
-                  href="/gigs"
-                  className="inline-flex items-center gap-2 rounded-lg bg-white/10 px-4 py-2 text-xs text-gray-100 hover:bg-white/15"
-                >
-                  Browse gigs
-                </Link>
-              </div>
-            </div>
-          ) : (
-            <ul className="space-y-2">
-              {visibleRows.map((r, i) => {
-                const rawOther = r.user_lo === me ? r.user_hi : r.user_lo;
-                const other = rawOther.toLowerCase();
-                const p = profiles[other];
-                const avatarUrl = p?.profilePicCID
-                  ? toGatewayUrl(p.profilePicCID)
-                  : null;
-                const display = p?.username
-                  ? `@${p.username}`
-                  : formatAddress(other);
-                const updatedTsSec = Math.floor(
-                  new Date(r.updated_at).getTime() / 1000
-                );
-                return (
-                  <li key={`${other}-${i}`}>
-                    <Link
-                      href={`/chat/${other}`}
-                      className="group flex items-center gap-3 rounded-xl border border-white/10 bg-gradient-to-b from-gray-950/70 to-gray-900/40 px-3 py-3 hover:border-white/20 hover:from-gray-900/70 hover:to-gray-900/50 transition-colors"
-                    >
-                      {avatarUrl ? (
-                        <span className="relative h-12 w-12 flex-shrink-0 overflow-hidden rounded-full bg-gray-800 ring-1 ring-white/10">
-                          <Image
-                            src={avatarUrl}
-                            alt={display}
-                            fill
-                            sizes="48px"
-                            className="object-cover"
-                            unoptimized
-                          />
-                        </span>
-                      ) : (
-                        <span className="h-12 w-12 flex items-center justify-center rounded-full bg-white/5 ring-1 ring-white/10 text-gray-500">
-                          <UserCircle2 className="h-7 w-7" />
-                        </span>
-                      )}
-                      <div className="min-w-0 flex-1">
-                        <div className="flex items-center justify-between gap-3">
-                          <div className="truncate text-sm font-medium text-gray-100">
-                            {display}
+                <div className="mb-2 flex items-center justify-between text-[11px] uppercase tracking-wide text-gray-500">
+                  <span>Messages</span>
+                  {searching && <span className="normal-case">Searching…</span>}
+                </div>
+                {!searching && hits.length === 0 ? (
+                  <div className="rounded-lg border border-white/10 bg-gray-900/40 p-4 text-center text-xs text-gray-500">
+                    No messages match “{messageQuery}”.
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {hits.map((hit) => (
+                      <li key={hit.id}>
+                        <Link
+                          href={chatHitHref(hit, me)}
+                          className="block rounded-xl border border-white/10 bg-gray-900/40 px-3 py-2 hover:border-white/20 hover:bg-gray-900/60 transition-colors"
+                        >
+                          <div className="flex items-center justify-between gap-3 text-[11px] text-gray-400">
+                            <span className="truncate font-medium text-gray-200">
+                              {conversationLabel(hit.conversation)}
+                            </span>
+                            <span className="whitespace-nowrap">
+                              {timeAgo(
+                                Math.floor(
+                                  new Date(hit.createdAt).getTime() / 1000
+                                )
+                              )}
+                            </span>
                           </div>
-                          <div className="text-[11px] text-gray-500 whitespace-nowrap">
-                            {timeAgo(updatedTsSec)}
+                          {hit.before && (
+                            <div className="mt-1 truncate text-[11px] text-gray-500">
+                              {senderLabel(hit.before.sender)}:{" "}
+                              {hit.before.content}
+                            </div>
+                          )}
+                          <div className="mt-0.5 text-xs text-gray-200">
+                            <span className="text-gray-400">
+                              {senderLabel(hit.sender)}:{" "}
+                            </span>
+                            {headlineParts(hit.headline).map((part, i) =>
+                              part.match ? (
+                                <mark
+                                  key={i}
+                                  className="rounded bg-yellow-400/25 px-0.5 text-yellow-100"
+                                >
+                                  {part.text}
+                                </mark>
+                              ) : (
+                                <span key={i}>{part.text}</span>
+                              )
+                            )}
                           </div>
-                        </div>
-                        <div className="mt-0.5 text-xs text-gray-500 truncate">
-                          Last active {new Date(r.updated_at).toLocaleString()}
-                        </div>
-                      </div>
-                    </Link>
-                  </li>
-                );
-              })}
-            </ul>
-          )}
-        </div>
+                          {hit.after && (
+                            <div className="mt-0.5 truncate text-[11px] text-gray-500">
+                              {senderLabel(hit.after.sender)}:{" "}
+                              {hit.after.content}
+                            </div>
+                          )}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </ChatAuthGate>
       )}
     </div>
   );
@@ -88,6 +88,35 @@ export default function FreelancersPage() {
 
       setLoading(true);
       try {
+        // Prefer the event indexer: profiles come with rating/missions/boost aggregates,
+        // so only the profile itself (bio, skills, picture) is read from chain.
+        const indexed = await contract.getIndexedFreelancers();
+        if (indexed) {
+          const nowSec = BigInt(Math.floor(Date.now() / 1000));
+          const results = await Promise.all(
+            indexed.map(async (p) => {
+              try {
+                const profile = await contract.getProfile(p.address);
+                if (!profile || Number(profile.joinedAt) === 0) return null;
+                return {
+                  address: p.address,
+                  profile,
+                  rating: p.rating,
+                  completedMissions: p.completedMissions,
+                  isBoosted: BigInt(p.boostExpiry) > nowSec,
+                } as FreelancerProfile;
+              } catch (error) {
+                console.log("Error loading profile for", p.address, error);
+                return null;
+              }
+            })
+          );
+          setFreelancers(
+            results.filter((f): f is FreelancerProfile => f !== null)
+          );
+          return;
+        }
+
         // Since there's no getAllRegisteredUsers, we'll need to get users from listings
         // and chat data or implement event-based discovery
         // For now, let's get creators from all listings as a proxy for active freelancers
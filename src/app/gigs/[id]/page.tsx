@@ -3,10 +3,12 @@
 import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { useEffect, useMemo, useState, use } from "react";
+import { useCallback, useEffect, useMemo, useState, use } from "react";
 import { useAccount } from "wagmi";
 import { ethers } from "ethers";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useChatKeys } from "@/hooks/useChatKeys";
+import { useWalletSession } from "@/hooks/useWalletSession";
 import { getTokenAddresses } from "@/lib/contract";
 import type {
   Listing,
@@ -15,6 +17,7 @@ import type {
   ProfileMetadata,
   ListingMetadata,
   Offer,
+  OfferCounter,
   Escrow,
 } from "@/types/marketplace";
 import {
@@ -29,12 +32,24 @@ import {
   asStringArray,
   asNumber,
   knownDecimalsFor,
+  formatTokenAmount,
+  tokenSymbolFor,
 } from "@/lib/utils";
 import { useToast, useAsyncOperation } from "@/hooks/useErrorHandling";
 import { ToastContainer } from "@/components/Toast";
 import { LoadingButton } from "@/components/Loading";
 import { EscrowStatus } from "@/types/marketplace";
 import { createReceiptNotifier } from "@/lib/txReceipt";
+import { loadListingNegotiations } from "@/lib/negotiation";
+import { offerConversationKey } from "@/lib/chatReads";
+import {
+  OFFER_EXPIRY_OPTIONS,
+  classifyOffer,
+  expiryFromDays,
+  formatOfferExpiry,
+} from "@/lib/offerExpiry";
+import { NegotiationThread } from "@/components/negotiation/NegotiationThread";
+import { WatchButton } from "@/components/watchlist/WatchButton";
 import {
   Sparkles,
   Tag as TagIcon,
@@ -46,6 +61,7 @@ import {
   ArrowLeft,
   Loader2,
   UserCircle2,
+  Repeat2,
 } from "lucide-react";
 import { ConfirmModal } from "@/components/ConfirmModal";
 
@@ -98,7 +114,7 @@ export default function GigDetailsPage({
 }) {
   const router = useRouter();
   const resolvedParams = use(params);
-  const { contract } = useMarketplaceContract();
+  const { contract, chainId } = useMarketplaceContract();
   const { address, chain } = useAccount();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -112,6 +128,7 @@ export default function GigDetailsPage({
     timeline: "",
     budget: "",
     token: "ETH",
+    expiryDays: 0,
   });
 
   const [avgRating, setAvgRating] = useState<number | null>(null);
@@ -134,8 +151,15 @@ export default function GigDetailsPage({
   const [offerActionLoading, setOfferActionLoading] = useState<
     null | "cancel" | "dispute"
   >(null);
+  // Counter-offer threads by proposer, and (for the owner) each proposer's newest open offer
+  const [negotiations, setNegotiations] = useState<
+    Record<string, OfferCounter[]>
+  >({});
+  const [openOffers, setOpenOffers] = useState<Offer[]>([]);
 
   const toast = useToast();
+  const chatKeys = useChatKeys();
+  const walletSession = useWalletSession();
   const { loading: submitting, execute } = useAsyncOperation();
   const notifyReceipt = useMemo(
     () => createReceiptNotifier(toast, { chain }),
@@ -150,7 +174,6 @@ export default function GigDetailsPage({
     action?: () => Promise<void>;
   }>({ open: false, title: "", message: undefined, action: undefined });
 
-  const chainId = chain?.id ?? 11124;
   const tokenAddresses = useMemo(() => getTokenAddresses(chainId), [chainId]);
 
   // Dynamic boost pricing state (listing-level)
@@ -170,6 +193,50 @@ export default function GigDetailsPage({
     state?.creator &&
     address.toLowerCase() === state.creator.toLowerCase();
 
+  const listingId = state?.id;
+  const refreshNegotiations = useCallback(async () => {
+    if (!contract || listingId === undefined || !address) return;
+    try {
+      setNegotiations(await loadListingNegotiations(chainId, listingId));
+    } catch (e) {
+      console.warn("Failed to load negotiations", e);
+    }
+    try {
+      const PAGE = 100;
+      const all: Offer[] = [];
+      for (let offset = 0, i = 0; i < 50; i++, offset += PAGE) {
+        const page = await contract.getOffersForListing(
+          listingId,
+          offset,
+          PAGE,
+          { force: true }
+        );
+        if (!page || page.length === 0) break;
+        all.push(...page);
+        if (page.length < PAGE) break;
+      }
+      all.sort((a, b) => Number(b.createdAt - a.createdAt));
+      const me = address.toLowerCase();
+      const mine = all.find((o) => o.proposer.toLowerCase() === me);
+      if (mine) setMyOffer(mine);
+      const seen = new Set<string>();
+      setOpenOffers(
+        all.filter((o) => {
+          const who = o.proposer.toLowerCase();
+          if (seen.has(who)) return false;
+          seen.add(who);
+          return !o.accepted && !o.cancelled;
+        })
+      );
+    } catch (e) {
+      console.warn("Failed to load offers", e);
+    }
+  }, [contract, chainId, listingId, address]);
+
+  useEffect(() => {
+    void refreshNegotiations();
+  }, [refreshNegotiations]);
+
   // Helper to parse a single review item (lazy enrichment)
   const parseReviewItem = async (r: ReviewWithTimestamp) => {
     let text: string | undefined = undefined;
@@ -577,11 +644,14 @@ export default function GigDetailsPage({
   const OfferStatusBadge = ({ offer }: { offer: Offer }) => {
     if (offer.accepted) return <Badge variant="success">Accepted</Badge>;
     if (offer.cancelled) return <Badge variant="inactive">Cancelled</Badge>;
+    if (classifyOffer(offer) === "expired")
+      return <Badge variant="inactive">Expired</Badge>;
     return <Badge variant="warning">Pending</Badge>;
   };
 
   const handleBookService = async () => {
     if (!address || !state || submitting) return;
+    const expiresAt = expiryFromDays(bookingDetails.expiryDays);
 
     const receipt = await execute(async () => {
       if (!contract) throw new Error("Contract not ready");
@@ -613,6 +683,11 @@ export default function GigDetailsPage({
         amount = ethers.parseUnits(bookingDetails.budget, decimals);
       }
 
+      // The expiry is recorded against the wallet session
+      if (expiresAt && !walletSession.session) {
+        await walletSession.signIn();
+      }
+
       // Create the offer (metadata can be sent off-chain via chat; on-chain stores terms)
       return await contract.makeOffer(
         BigInt(resolvedParams.id),
@@ -622,12 +697,25 @@ export default function GigDetailsPage({
     });
 
     if (receipt) {
+      if (expiresAt && contract) {
+        contract
+          .recordOfferExpiry(receipt, expiresAt)
+          .catch((e) =>
+            toast.showWarning(
+              "Offer expiry not saved yet",
+              `${
+                e instanceof Error ? e.message : "Unknown error"
+              }. The offer is live; its expiry is retried while you are signed in.`
+            )
+          );
+      }
       setShowBookingForm(false);
       setBookingDetails({
         description: "",
         timeline: "",
         budget: "",
         token: "ETH",
+        expiryDays: 0,
       });
       notifyReceipt(
         "Booking Successful",
@@ -679,6 +767,22 @@ export default function GigDetailsPage({
           if (!contract) throw new Error("Contract not ready");
           const receipt = await contract.openDispute(myEscrow.offerId);
           notifyReceipt("Dispute opened", "Refund request submitted.", receipt);
+          chatKeys
+            .shareKeys(offerConversationKey(chainId, myEscrow.offerId))
+            .then(
+              (n) =>
+                n > 0 &&
+                toast.showInfo(
+                  "Attachments shared",
+                  `${n} encrypted chat file(s) shared with dispute reviewers.`
+                )
+            )
+            .catch((e) =>
+              toast.showWarning(
+                "Encrypted attachments not shared",
+                e instanceof Error ? e.message : undefined
+              )
+            );
         } catch (e) {
           toast.showContractError("Dispute failed", e);
         } finally {
@@ -899,6 +1003,28 @@ export default function GigDetailsPage({
                 {tokenAddresses.USDC && <option value="USDC">USDC</option>}
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Offer Valid For
+              </label>
+              <select
+                value={bookingDetails.expiryDays}
+                onChange={(e) =>
+                  setBookingDetails((prev) => ({
+                    ...prev,
+                    expiryDays: Number(e.target.value),
+                  }))
+                }
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-white focus:border-blue-500 focus:outline-none"
+              >
+                {OFFER_EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.days} value={o.days}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="flex gap-3 mt-6">
@@ -966,6 +1092,13 @@ export default function GigDetailsPage({
                   <Clock3 className="w-3.5 h-3.5" />
                   {state.createdAgo}
                 </span>
+                {!isOwner && (
+                  <WatchButton
+                    kind="listing"
+                    target={String(state.id)}
+                    listing={state}
+                  />
+                )}
               </div>
               <h1 className="text-2xl font-semibold tracking-tight mb-4 leading-snug">
                 {state.title}
@@ -1283,6 +1416,12 @@ export default function GigDetailsPage({
                 <div className="flex items-center gap-2 mb-3 text-xs">
                   <Badge variant="outline">#{String(myOffer.id)}</Badge>
                   <OfferStatusBadge offer={myOffer} />
+                  {classifyOffer(myOffer) === "pending" &&
+                    myOffer.expiresAt && (
+                      <span className="text-gray-400">
+                        {formatOfferExpiry(myOffer.expiresAt)}
+                      </span>
+                    )}
                   <Link
                     href={`/offers/${String(myOffer.id)}`}
                     className="ml-auto text-blue-400 hover:underline"
@@ -1301,6 +1440,16 @@ export default function GigDetailsPage({
                       : "Cancel Offer"}
                   </button>
                 )}
+                <NegotiationThread
+                  listingId={state.id}
+                  listingCreator={state.creator}
+                  proposer={myOffer.proposer}
+                  counters={negotiations[myOffer.proposer.toLowerCase()] || []}
+                  offer={myOffer}
+                  address={address}
+                  tokens={tokenAddresses}
+                  onChange={refreshNegotiations}
+                />
                 {myOffer.accepted &&
                   myEscrow &&
                   myEscrow.status === EscrowStatus.IN_PROGRESS && (
@@ -1317,6 +1466,60 @@ export default function GigDetailsPage({
               </SectionCard>
             )}
 
+            {/* Open offers and their counter-offer threads (owner only) */}
+            {isOwner && openOffers.length > 0 && (
+              <SectionCard
+                title="Offers & Negotiation"
+                icon={<Repeat2 className="w-4 h-4" />}
+              >
+                <div className="space-y-4">
+                  {openOffers.map((o) => (
+                    <div key={String(o.id)} className="text-xs">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-100">
+                          {formatTokenAmount(o.amount, o.paymentToken, {
+                            tokens: tokenAddresses,
+                            maxFractionDigits: 6,
+                          })}{" "}
+                          {tokenSymbolFor(o.paymentToken, tokenAddresses)}
+                        </span>
+                        <span className="text-gray-500">
+                          from {formatAddress(o.proposer)}
+                        </span>
+                        {o.expiresAt && (
+                          <span
+                            className={
+                              classifyOffer(o) === "expired"
+                                ? "text-red-400"
+                                : "text-gray-500"
+                            }
+                          >
+                            {formatOfferExpiry(o.expiresAt)}
+                          </span>
+                        )}
+                        <Link
+                          href={`/offers/${String(o.id)}`}
+                          className="ml-auto text-blue-400 hover:underline"
+                        >
+                          View
+                        </Link>
+                      </div>
+                      <NegotiationThread
+                        listingId={state.id}
+                        listingCreator={state.creator}
+                        proposer={o.proposer}
+                        counters={negotiations[o.proposer.toLowerCase()] || []}
+                        offer={o}
+                        address={address}
+                        tokens={tokenAddresses}
+                        onChange={refreshNegotiations}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </SectionCard>
+            )}
+
             {/* On-chain Info */}
             <SectionCard
               title="On-chain Details"
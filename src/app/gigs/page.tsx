@@ -8,6 +8,21 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { CONTRACT_ADDRESSES } from "@/lib/contract";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useListingSearch } from "@/hooks/useListingSearch";
+import { useReferenceRates } from "@/hooks/useReferenceRates";
+import { WatchButton } from "@/components/watchlist/WatchButton";
+import {
+  EMPTY_PRICE_FILTER,
+  PriceFilterFields,
+  toPriceFilter,
+} from "@/components/listings/PriceFilterFields";
+import {
+  comparePrices,
+  formatQuotedAmount,
+  matchesPriceFilter,
+  normalizeListingPrice,
+  referencePriceLabel,
+} from "@/lib/pricing";
 import {
   Listing,
   ListingType,
@@ -64,6 +79,15 @@ function Badge({
     </span>
   );
 }
+const DEFAULT_FILTERS = {
+  category: "all",
+  serviceType: "all",
+  price: EMPTY_PRICE_FILTER,
+  sort: "newest" as "newest" | "price_asc" | "price_desc",
+  showActiveOnly: true,
+  showBoostedFirst: true,
+};
+
 const btnBase =
   "inline-flex items-center justify-center gap-2 rounded-lg text-sm font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
 
@@ -90,13 +114,7 @@ export default function GigsPage() {
   const [listings, setListings] = useState<EnrichedListing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState({
-    category: "all",
-    serviceType: "all",
-    priceRange: "all",
-    showActiveOnly: true,
-    showBoostedFirst: true,
-  });
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
   const [filtersOpen, setFiltersOpen] = useState(false);
   // Cache of creator profiles (minimal)
   const [creatorProfiles, setCreatorProfiles] = useState<
@@ -111,6 +129,22 @@ export default function GigsPage() {
     [readChainId]
   );
 
+  const rates = useReferenceRates();
+  const price = toPriceFilter(filters.price);
+  const search = useListingSearch({
+    listingType: ListingType.GIG,
+    category: filters.category === "all" ? null : Number(filters.category),
+    serviceType:
+      filters.serviceType === "all" ? undefined : filters.serviceType,
+    minPrice: price.min,
+    maxPrice: price.max,
+    priceBasis: price.basis,
+    onlyActive: filters.showActiveOnly,
+    boostedFirst: filters.showBoostedFirst,
+    sort: filters.sort,
+  });
+  const serverSearch = search.available === true;
+
   const loadListings = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -196,15 +230,60 @@ export default function GigsPage() {
     }
   }, [contract]);
 
+  // On-chain load + client-side filtering when the search index is unavailable
   useEffect(() => {
-    loadListings();
-  }, [loadListings, readChainId, provider]);
+    if (search.available === false) loadListings();
+  }, [loadListings, readChainId, provider, search.available]);
+
+  const filteredListings = useMemo(() => {
+    let filtered = [...listings];
+    if (filters.category !== "all") {
+      const cat = parseInt(filters.category);
+      filtered = filtered.filter((l) => l.category === BigInt(cat));
+    }
+    if (filters.serviceType !== "all")
+      filtered = filtered.filter(
+        (l) => l.metadata?.serviceType === filters.serviceType
+      );
+    // Prices compared in USD across tokens, rates turned into day rates
+    const prices = new Map(
+      filtered.map((l) => [
+        l,
+        rates ? normalizeListingPrice(l.metadata, rates) : null,
+      ])
+    );
+    const priceFilter = toPriceFilter(filters.price);
+    filtered = filtered.filter((l) =>
+      matchesPriceFilter(prices.get(l) ?? null, priceFilter)
+    );
+    if (filters.showActiveOnly) filtered = filtered.filter((l) => l.active);
+    filtered.sort((a, b) => {
+      if (filters.showBoostedFirst) {
+        if (a.isBoosted && !b.isBoosted) return -1;
+        if (!a.isBoosted && b.isBoosted) return 1;
+      }
+      if (filters.sort !== "newest") {
+        const diff = comparePrices(
+          prices.get(a) ?? null,
+          prices.get(b) ?? null,
+          filters.sort === "price_asc" ? "asc" : "desc"
+        );
+        if (diff !== 0) return diff;
+      }
+      return Number(b.createdAt - a.createdAt);
+    });
+    return filtered;
+  }, [listings, filters, rates]);
+  const results = serverSearch ? search.listings : filteredListings;
+  const resultCount = serverSearch
+    ? search.facets?.total ?? search.listings.length
+    : filteredListings.length;
 
   // Fetch minimal profiles (username + avatar) for creators
   useEffect(() => {
     if (!contract) return;
     const creators = Array.from(
-      new Set(listings.map((l) => l.creator.toLowerCase()))
+      new Set(results.map((l) => l.creator.toLowerCase()))
     );
     const toFetch = creators.filter((c) => !creatorProfiles[c]);
     if (toFetch.length === 0) return;
@@ -246,46 +325,7 @@ export default function GigsPage() {
     return () => {
       cancelled = true;
     };
-  }, [contract, listings, creatorProfiles]);
-
-  const filteredListings = useMemo(() => {
-    let filtered = [...listings];
-    if (filters.category !== "all") {
-      const cat = parseInt(filters.category);
-      filtered = filtered.filter((l) => l.category === BigInt(cat));
-    }
-    if (filters.serviceType !== "all")
-      filtered = filtered.filter(
-        (l) => l.metadata?.serviceType === filters.serviceType
-      );
-    if (filters.priceRange !== "all") {
-      filtered = filtered.filter((l) => {
-        const price = l.metadata?.price?.amount;
-        if (price == null) return true;
-        switch (filters.priceRange) {
-          case "0-100":
-            return price <= 100;
-          case "100-500":
-            return price > 100 && price <= 500;
-          case "500-2000":
-            return price > 500 && price <= 2000;
-          case "2000+":
-            return price > 2000;
-          default:
-            return true;
-        }
-      });
-    }
-    if (filters.showActiveOnly) filtered = filtered.filter((l) => l.active);
-    filtered.sort((a, b) => {
-      if (filters.showBoostedFirst) {
-        if (a.isBoosted && !b.isBoosted) return -1;
-        if (!a.isBoosted && b.isBoosted) return 1;
-      }
-      return Number(b.createdAt - a.createdAt);
-    });
-    return filtered;
-  }, [listings, filters]);
+  }, [contract, results, creatorProfiles]);
 
   // Derive active filter summary (excluding defaults)
   const { activeCount, activePills } = useMemo(() => {
@@ -293,8 +333,12 @@ export default function GigsPage() {
     if (filters.category !== "all") pills.push(`Cat: ${filters.category}`);
     if (filters.serviceType !== "all")
       pills.push(`Type: ${filters.serviceType}`);
-    if (filters.priceRange !== "all")
-      pills.push(`Price: ${filters.priceRange}`);
+    if (filters.price.min || filters.price.max)
+      pills.push(`$${filters.price.min || "0"}-${filters.price.max || "∞"}`);
+    if (filters.price.basis)
+      pills.push(filters.price.basis === "day" ? "Day rates" : "Fixed price");
+    if (filters.sort !== "newest")
+      pills.push(filters.sort === "price_asc" ? "Price ↑" : "Price ↓");
     if (!filters.showActiveOnly) pills.push("Inactive incl.");
     if (!filters.showBoostedFirst) pills.push("No boost sort");
     return { activeCount: pills.length, activePills: pills };
@@ -307,7 +351,11 @@ export default function GigsPage() {
       hasTestnetAddr
   );
 
-  if (loading) {
+  const isLoading = serverSearch
+    ? search.loading && search.listings.length === 0
+    : search.available === null || loading;
+
+  if (isLoading) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="flex items-center gap-2 text-sm text-gray-400 mb-6">
@@ -325,7 +373,7 @@ export default function GigsPage() {
     );
   }
 
-  if (error) {
+  if (!serverSearch && error) {
     return (
       <div className="max-w-6xl mx-auto p-6">
         <div className="text-center py-12">
@@ -387,7 +435,7 @@ export default function GigsPage() {
               )}
             </button>
             <button
-              onClick={loadListings}
+              onClick={serverSearch ? search.refresh : loadListings}
               className={clsx(
                 btnBase,
                 "border border-white/10 bg-gray-900 px-4 py-2 text-gray-200 hover:bg-gray-800"
@@ -441,7 +489,7 @@ export default function GigsPage() {
           </div>
           {filtersOpen && (
             <div className="px-4 pb-4 space-y-4 border-t border-white/5">
-              <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-4 gap-4">
                 <div className="space-y-1">
                   <label className="text-xs text-gray-400">Category</label>
                   <select
@@ -452,10 +500,23 @@ export default function GigsPage() {
                     className="w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
                   >
                     <option value="all">All Categories</option>
-                    <option value="1">Developer</option>
-                    <option value="2">Artist</option>
-                    <option value="3">KOL</option>
-                    <option value="0">Other</option>
+                    {[
+                      ["1", "Developer"],
+                      ["2", "Artist"],
+                      ["3", "KOL"],
+                      ["0", "Other"],
+                    ].map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                        {search.facets
+                          ? ` (${
+                              search.facets.categories.find(
+                                (f) => f.value === value
+                              )?.count ?? 0
+                            })`
+                          : ""}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div className="space-y-1">
@@ -473,20 +534,25 @@ export default function GigsPage() {
                     <option value="hourly">Hourly</option>
                   </select>
                 </div>
+                <PriceFilterFields
+                  value={filters.price}
+                  onChange={(price) => setFilters((p) => ({ ...p, price }))}
+                />
                 <div className="space-y-1">
-                  <label className="text-xs text-gray-400">Price Range</label>
+                  <label className="text-xs text-gray-400">Sort By</label>
                   <select
-                    value={filters.priceRange}
+                    value={filters.sort}
                     onChange={(e) =>
-                      setFilters((p) => ({ ...p, priceRange: e.target.value }))
+                      setFilters((p) => ({
+                        ...p,
+                        sort: e.target.value as typeof p.sort,
+                      }))
                     }
                     className="w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
                   >
-                    <option value="all">All Prices</option>
-                    <option value="0-100">$0 - $100</option>
-                    <option value="100-500">$100 - $500</option>
-                    <option value="500-2000">$500 - $2,000</option>
-                    <option value="2000+">$2,000+</option>
+                    <option value="newest">Newest First</option>
+                    <option value="price_asc">Price: Low to High</option>
+                    <option value="price_desc">Price: High to Low</option>
                   </select>
                 </div>
                 <label className="flex items-center gap-2 text-xs font-medium text-gray-300 pt-5 md:pt-0">
@@ -529,15 +595,7 @@ export default function GigsPage() {
                     </span>
                   ))}
                   <button
-                    onClick={() =>
-                      setFilters({
-                        category: "all",
-                        serviceType: "all",
-                        priceRange: "all",
-                        showActiveOnly: true,
-                        showBoostedFirst: true,
-                      })
-                    }
+                    onClick={() => setFilters(DEFAULT_FILTERS)}
                     className="text-[10px] px-2 py-0.5 rounded-full bg-red-500/10 text-red-300 border border-red-500/20 hover:bg-red-500/20"
                   >
                     Reset
@@ -549,11 +607,10 @@ export default function GigsPage() {
         </div>
       </div>
       <div className="mb-4 text-sm text-gray-400">
-        {filteredListings.length} gig{filteredListings.length === 1 ? "" : "s"}{" "}
-        found
+        {resultCount} gig{resultCount === 1 ? "" : "s"} found
       </div>
       <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
-        {filteredListings.length === 0 ? (
+        {results.length === 0 ? (
           <div className="col-span-full text-center py-12">
             <p className="text-gray-400 mb-4">
               No gigs found matching your criteria.
@@ -566,7 +623,7 @@ export default function GigsPage() {
             </Link>
           </div>
         ) : (
-          filteredListings.map((listing) => {
+          results.map((listing) => {
             const cover = toGatewayUrl(listing.metadata?.image || null);
             return (
               <div
@@ -655,13 +712,25 @@ export default function GigsPage() {
                     {listing.metadata?.price && (
                       <div className="mb-2">
                         <p className="text-lg font-bold text-green-400">
-                          ${listing.metadata.price.amount}
+                          {formatQuotedAmount(
+                            listing.metadata.price.amount,
+                            listing.metadata.price.currency
+                          )}
                           {listing.metadata.price.per && (
                             <span className="text-sm text-gray-400">
                               /{listing.metadata.price.per}
                             </span>
                           )}
                         </p>
+                        {(() => {
+                          const ref = referencePriceLabel(
+                            listing.metadata,
+                            rates
+                          );
+                          return ref ? (
+                            <p className="text-xs text-gray-500">{ref}</p>
+                          ) : null;
+                        })()}
                       </div>
                     )}
                     <div className="flex items-center justify-between text-xs text-gray-400">
@@ -745,15 +814,24 @@ export default function GigsPage() {
                       </span>
                       <span>{timeAgo(Number(listing.createdAt))}</span>
                     </div>
-                    <Link
-                      href={`/gigs/${listing.id.toString()}`}
-                      className={clsx(
-                        btnBase,
-                        "w-full border border-white/10 hover:border-gray-400/40 px-4 py-2 text-gray-200 hover:text-white bg-transparent"
-                      )}
-                    >
-                      View Details <ChevronRight className="w-4 h-4" />
-                    </Link>
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={`/gigs/${listing.id.toString()}`}
+                        className={clsx(
+                          btnBase,
+                          "flex-1 border border-white/10 hover:border-gray-400/40 px-4 py-2 text-gray-200 hover:text-white bg-transparent"
+                        )}
+                      >
+                        View Details <ChevronRight className="w-4 h-4" />
+                      </Link>
+                      <WatchButton
+                        kind="listing"
+                        target={listing.id.toString()}
+                        listing={listing}
+                        compact
+                        className="p-2.5"
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -761,16 +839,28 @@ export default function GigsPage() {
           })
         )}
       </div>
-      {filteredListings.length >= 50 && (
-        <div className="text-center mt-8">
-          <button
-            onClick={loadListings}
-            className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors"
-          >
-            Load More
-          </button>
-        </div>
-      )}
+      {serverSearch
+        ? search.hasMore && (
+            <div className="text-center mt-8">
+              <button
+                onClick={search.loadMore}
+                disabled={search.loadingMore}
+                className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors disabled:opacity-50"
+              >
+                {search.loadingMore ? "Loading…" : "Load More"}
+              </button>
+            </div>
+          )
+        : filteredListings.length >= 50 && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadListings}
+                className="px-6 py-2 border border-white/10 rounded-lg hover:bg-white/5 transition-colors"
+              >
+                Load More
+              </button>
+            </div>
+          )}
     </div>
   );
 }
@@ -2,11 +2,15 @@
 
 import Link from "next/link";
 import Image from "next/image";
+import { useSearchParams } from "next/navigation";
 import { useEffect, useMemo, useState, use, useCallback } from "react";
-import { useAccount } from "wagmi";
+import { useAccount, useSignMessage } from "wagmi";
 import { ethers } from "ethers";
 import { getTokenAddresses } from "@/lib/contract";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useChatKeys } from "@/hooks/useChatKeys";
+import { pendingKeyShares, sealAttachments } from "@/lib/chatCrypto";
+import { useWalletSession } from "@/hooks/useWalletSession";
 import {
   EscrowStatus,
   DisputeOutcome,
@@ -14,6 +18,7 @@ import {
   Escrow,
   Listing,
   ListingMetadata,
+  OfferMilestone,
 } from "@/types/marketplace";
 import {
   truncateText,
@@ -23,6 +28,7 @@ import {
   loadListingMetadataFromURI,
   timeAgo,
   toGatewayUrl,
+  fetchIpfsJson,
 } from "@/lib/utils";
 import { createReceiptNotifier } from "@/lib/txReceipt";
 import { useToastContext } from "@/components/providers";
@@ -37,7 +43,34 @@ import {
   Star as StarIcon,
   UserCircle2,
 } from "lucide-react";
-import { Chat, OfferChatProvider } from "@/components/chat";
+import { Chat, ChatAuthGate, OfferChatProvider } from "@/components/chat";
+import { MilestoneTimeline } from "@/components/milestones/MilestoneTimeline";
+import { markMilestoneDisputed, milestoneStatus } from "@/lib/milestones";
+import { assertOfferMatchesNegotiation } from "@/lib/negotiation";
+import { classifyOffer, formatOfferExpiry } from "@/lib/offerExpiry";
+import {
+  describeAttachment,
+  hashFile,
+  parseDisputePayload,
+  validateAttachmentFiles,
+  validateDisputePayload,
+} from "@/lib/disputePayload";
+import { DisputeEvidenceForm } from "@/components/disputes/DisputeEvidenceForm";
+import { TranscriptExport } from "@/components/disputes/TranscriptExport";
+import {
+  buildChatTranscript,
+  pinChatTranscript,
+  signChatTranscript,
+} from "@/lib/chatTranscript";
+import { DisputePayloadView } from "@/components/disputes/DisputePayloadView";
+import { DisputeResolutionSummary } from "@/components/disputes/DisputeResolutionSummary";
+import type {
+  DisputeEvidence,
+  DisputeEvidenceDraft,
+  DisputeKind,
+  DisputePayload,
+  DisputeResolution,
+} from "@/types/dispute";
 
 // Helpers for escrow labels (kept local; not in shared utils yet)
 function getEscrowStatusLabel(status: EscrowStatus) {
@@ -92,13 +125,16 @@ export default function OfferDetailsPage({
 }) {
   const resolvedParams = use(params);
   const { address, chain } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const toast = useToastContext();
+  const chatKeys = useChatKeys();
+  const walletSession = useWalletSession();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [offer, setOffer] = useState<Offer | null>(null);
   const [escrow, setEscrow] = useState<Escrow | null>(null);
   const [listing, setListing] = useState<Listing | null>(null);
-  const { contract } = useMarketplaceContract();
+  const { contract, chainId } = useMarketplaceContract();
   // Confirmation modal state
   const [confirm, setConfirm] = useState<{
     open: boolean;
@@ -143,17 +179,25 @@ export default function OfferDetailsPage({
   const [appeals, setAppeals] = useState<
     Array<{ by: string; cid: string; timestamp: bigint }>
   >([]);
+  // Parsed evidence bundles keyed by CID (header + appeals)
+  const [evidence, setEvidence] = useState<
+    Record<string, DisputeEvidence | null>
+  >({});
+  const [resolution, setResolution] = useState<DisputeResolution | null>(null);
+  // Encrypted chat files and evidence not yet readable by a reviewer or the other party
+  const [pendingShares, setPendingShares] = useState(0);
+  const [sharingKeys, setSharingKeys] = useState(false);
 
   // Dispute form states
   const [showDisputeForm, setShowDisputeForm] = useState(false);
-  const [disputeReason, setDisputeReason] = useState("");
-  const [disputeFiles, setDisputeFiles] = useState<File[]>([]);
   const [openingDispute, setOpeningDispute] = useState(false);
+  // Milestones (off-chain plan); a dispute may name a milestone but covers the escrow
+  const [milestones, setMilestones] = useState<OfferMilestone[]>([]);
+  const [disputeMilestone, setDisputeMilestone] =
+    useState<OfferMilestone | null>(null);
 
   // Appeal form states
   const [showAppealForm, setShowAppealForm] = useState(false);
-  const [appealReason, setAppealReason] = useState("");
-  const [appealFiles, setAppealFiles] = useState<File[]>([]);
   const [appealing, setAppealing] = useState(false);
 
   // Actions panel always visible now (removed show/hide state)
@@ -167,15 +211,16 @@ export default function OfferDetailsPage({
 
   // Reusable chat provider and identity resolution
   const offerChatProvider = useMemo(
-    () => new OfferChatProvider(resolvedParams.id),
-    [resolvedParams.id]
+    () => new OfferChatProvider(chainId, resolvedParams.id),
+    [chainId, resolvedParams.id]
   );
   const resolveIdentity = useCallback(
     (addr: string) => profiles[addr.toLowerCase()],
     [profiles]
   );
-  // Chat modal toggle
-  const [chatOpen, setChatOpen] = useState(false);
+  // Chat modal toggle; ?m=<messageId> (search hits) opens it at that message
+  const focusMessageId = useSearchParams().get("m");
+  const [chatOpen, setChatOpen] = useState(!!focusMessageId);
 
   const Identity = ({ addr }: { addr: string }) => {
     const lower = addr.toLowerCase();
@@ -237,19 +282,19 @@ export default function OfferDetailsPage({
     }`;
   };
 
-  const chainId = chain?.id ?? 11124;
   const tokens = getTokenAddresses(chainId);
 
   // Derive cover image from listing metadata (IPFS/HTTP tolerant)
   const cover = toGatewayUrl(listingMetadata?.image || null);
 
+  const offerStatus = offer ? classifyOffer(offer) : undefined;
+
   // The actor who must accept is always the listing creator (per contract)
   const canAccept =
     !!address &&
     !!listing &&
     address.toLowerCase() === listing.creator.toLowerCase() &&
-    !offer?.accepted &&
-    !offer?.cancelled;
+    offerStatus === "pending";
 
   // Role checks
   const isListingCreator =
@@ -279,6 +324,14 @@ export default function OfferDetailsPage({
     return listing.listingType === 0 ? offer.proposer : listing.creator;
   }, [offer, listing]);
 
+  // Role labels for the readable rendering of exported transcripts
+  const transcriptLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    if (clientAddress) labels[clientAddress.toLowerCase()] = "Client";
+    if (providerAddress) labels[providerAddress.toLowerCase()] = "Provider";
+    return labels;
+  }, [clientAddress, providerAddress]);
+
   const isProviderWallet = useMemo(() => {
     if (!address || !providerAddress) return false;
     return address.toLowerCase() === providerAddress.toLowerCase();
@@ -402,7 +455,9 @@ export default function OfferDetailsPage({
       const marketplace = contract;
       const offerId = BigInt(resolvedParams.id);
 
-      const offerData = await marketplace.getOffer(offerId);
+      const [offerData] = await marketplace.attachOfferStatus([
+        await marketplace.getOffer(offerId),
+      ]);
       const listingData = await marketplace.getListing(offerData.listingId);
 
       let escrowData: Escrow | null = null;
@@ -501,6 +556,13 @@ export default function OfferDetailsPage({
           setDisputeHeader(header);
           const allAppeals = await marketplace.getDisputeAppeals(offerId);
           setAppeals(allAppeals);
+          setResolution(
+            escrowData.status === EscrowStatus.RESOLVED
+              ? await marketplace
+                  .getDisputeResolution(escrowData)
+                  .catch(() => null)
+              : null
+          );
         } else {
           setDisputeHeader(null);
           setAppeals([]);
@@ -604,6 +666,9 @@ export default function OfferDetailsPage({
 
     setSubmitting(true);
     try {
+      // Only the latest agreed counter-offer may be accepted
+      await assertOfferMatchesNegotiation(chainId, offer);
+
       // For ETH payments, just send the value with the transaction
       if (isEth) {
         const receipt = await contract!.acceptOffer(
@@ -638,6 +703,26 @@ export default function OfferDetailsPage({
   const handleValidateWork = async () => {
     if (!escrow || !address || submitting) return;
 
+    const unapproved = milestones.filter(
+      (m) => milestoneStatus(m) !== "approved"
+    );
+    if (unapproved.length > 0) {
+      setConfirm({
+        open: true,
+        title: "Validate Work",
+        message: `${unapproved.length} milestone(s) are not approved yet. Validating releases the whole escrow once both parties validate. Continue?`,
+        action: async () => {
+          setConfirm((c) => ({ ...c, open: false }));
+          await validateWorkOnChain();
+        },
+      });
+      return;
+    }
+    await validateWorkOnChain();
+  };
+
+  const validateWorkOnChain = async () => {
+    if (!escrow) return;
     setSubmitting(true);
     try {
       const receipt = await contract!.validateWork(escrow.offerId);
@@ -675,16 +760,6 @@ export default function OfferDetailsPage({
     });
   };
 
-  // Upload a single file to IPFS via our API route and return an ipfs:// URI
-  async function uploadFileToIpfs(file: File): Promise<string> {
-    const form = new FormData();
-    form.append("file", file);
-    const res = await fetch("/api/ipfs", { method: "POST", body: form });
-    const data = await res.json();
-    if (!res.ok) throw new Error(data?.error || "IPFS upload failed");
-    return `ipfs://${data.cid}`;
-  }
-
   // Build and upload a dispute/appeal JSON payload. Returns raw CID (no ipfs://)
   async function uploadDisputeJson(
     payload: Record<string, unknown>
@@ -701,59 +776,207 @@ export default function OfferDetailsPage({
     return String(data.cid);
   }
 
+  // Fetch the evidence bundles referenced by the dispute and its appeals
+  useEffect(() => {
+    const cids = [disputeHeader?.cid, ...appeals.map((a) => a.cid)].filter(
+      (c): c is string => !!c
+    );
+    if (cids.length === 0) return;
+    let cancelled = false;
+    Promise.all(
+      cids.map(async (cid) => {
+        try {
+          return [cid, parseDisputePayload(await fetchIpfsJson(cid))] as const;
+        } catch {
+          return [cid, null] as const;
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) setEvidence(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [disputeHeader?.cid, appeals]);
+
+  // Reviewers who set up their keys after the files were sealed (e.g. when first opening
+  // the dispute) only get access once a participant re-shares them
+  const canShareKeys =
+    (isClientWallet || isProviderWallet) &&
+    (escrow?.status === EscrowStatus.DISPUTED ||
+      escrow?.status === EscrowStatus.RESOLVED);
+  const sessionToken = walletSession.session?.token;
+  useEffect(() => {
+    if (!canShareKeys || !sessionToken) {
+      setPendingShares(0);
+      return;
+    }
+    let cancelled = false;
+    pendingKeyShares(offerChatProvider.conversationKey)
+      .then((n) => {
+        if (!cancelled) setPendingShares(n);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [canShareKeys, sessionToken, offerChatProvider]);
+
+  async function handleShareKeys() {
+    if (!escrow || sharingKeys) return;
+    setSharingKeys(true);
+    try {
+      const n = await chatKeys.shareKeys(offerChatProvider.conversationKey);
+      if (n > 0) {
+        toast.showInfo(
+          "Attachments shared",
+          `${n} encrypted file(s) shared with dispute reviewers.`
+        );
+      }
+      setPendingShares(0);
+    } catch (e) {
+      toast.showWarning(
+        "Encrypted attachments not shared",
+        e instanceof Error ? e.message : undefined
+      );
+    } finally {
+      setSharingKeys(false);
+    }
+  }
+
   const handleOpenDispute = async () => {
     // Toggle the dispute form instead of opening immediately (CID flow)
+    setDisputeMilestone(null);
     setShowDisputeForm((v) => !v);
   };
 
-  async function handleSubmitDisputeWithCID() {
-    if (!escrow || !offer || !address || openingDispute) return;
-    if (!disputeReason.trim() && disputeFiles.length === 0) {
-      setConfirm({
-        open: true,
-        title: "Submit Dispute",
-        message: "Submit dispute without reason or attachments?",
-        action: async () => {
-          setConfirm((c) => ({ ...c, open: false }));
-          await submitDispute();
-        },
-      });
-      return;
+  // Per-milestone entry point: same dispute flow, noting the milestone; the on-chain
+  // dispute still covers the whole escrow
+  const handleDisputeMilestone = useCallback((m: OfferMilestone) => {
+    setDisputeMilestone(m);
+    setShowDisputeForm(true);
+  }, []);
+
+  // Hash and upload attachments, then assemble the evidence payload. Returns null
+  // (after warning) when the draft fails validation, before anything is uploaded.
+  async function buildDisputePayload(
+    kind: DisputeKind,
+    draft: DisputeEvidenceDraft
+  ): Promise<DisputePayload | null> {
+    const payload: DisputePayload = {
+      version: 1,
+      type: kind,
+      offerId: String(offer!.id),
+      listingId: String(offer!.listingId),
+      author: address!,
+      role: isClientWallet ? "client" : "provider",
+      reason: draft.reason.trim(),
+      claimedOutcome: draft.claimedOutcome,
+      timeline: draft.timeline.map((t) => ({ ...t, event: t.event.trim() })),
+      chatMessageIds: draft.chatMessageIds,
+      attachments: [],
+      milestone:
+        kind === "dispute" && disputeMilestone
+          ? {
+              id: disputeMilestone.id,
+              title: disputeMilestone.title,
+              amount: disputeMilestone.amount.toString(),
+            }
+          : undefined,
+      createdAt: Date.now(),
+    };
+    const problems = validateDisputePayload(payload);
+    const fileProblem = validateAttachmentFiles(draft.files);
+    if (fileProblem) problems.push(fileProblem);
+    if (problems.length > 0) {
+      toast.showWarning("Check your evidence", problems.join(". "));
+      return null;
+    }
+
+    // Evidence files are private: encrypted for both parties and the admin reviewers
+    if (draft.files.length > 0) {
+      if (!walletSession.session) await walletSession.signIn();
+      await chatKeys.unlock();
+      const hashes = await Promise.all(draft.files.map((f) => hashFile(f)));
+      const uris = await sealAttachments(
+        offerChatProvider.conversationKey,
+        draft.files,
+        address!,
+        { reviewers: true }
+      );
+      for (let i = 0; i < draft.files.length; i++) {
+        payload.attachments.push(
+          await describeAttachment(draft.files[i], uris[i], hashes[i])
+        );
+      }
     }
-    await submitDispute();
+    if (draft.includeTranscript) {
+      const transcript = await buildChatTranscript(
+        await offerChatProvider.loadAll(),
+        {
+          conversation: offerChatProvider.conversationKey,
+          offerId: payload.offerId,
+          exportedBy: address!,
+        }
+      );
+      const signed = await signChatTranscript(
+        transcript,
+        (message) => signMessageAsync({ message }),
+        transcriptLabels
+      );
+      payload.transcript = {
+        cid: await pinChatTranscript(signed),
+        digest: signed.digest,
+        messageCount: transcript.messages.length,
+      };
+    }
+    const final = validateDisputePayload(payload);
+    if (final.length > 0) {
+      toast.showWarning("Check your evidence", final.join(". "));
+      return null;
+    }
+    return payload;
   }
 
-  async function submitDispute() {
+  async function submitDispute(draft: DisputeEvidenceDraft) {
+    if (!escrow || !offer || !address || openingDispute) return;
     try {
       setOpeningDispute(true);
-      // Upload attachments (optional)
-      const attachmentUris: string[] = [];
-      for (const file of disputeFiles) {
+      const payload = await buildDisputePayload("dispute", draft);
+      if (!payload) return;
+      // Flagging the milestone is checked against the wallet session
+      if (disputeMilestone && !walletSession.session) {
+        await walletSession.signIn();
+      }
+      const cid = await uploadDisputeJson({ ...payload });
+
+      const receipt = await contract!.openDisputeWithCID(escrow.offerId, cid);
+      notifyReceipt("Success", "Dispute opened", receipt);
+      chatKeys
+        .shareKeys(offerChatProvider.conversationKey)
+        .then(
+          (n) =>
+            n > 0 &&
+            toast.showInfo(
+              "Attachments shared",
+              `${n} encrypted chat file(s) shared with dispute reviewers.`
+            )
+        )
+        .catch((e) =>
+          toast.showWarning(
+            "Encrypted attachments not shared",
+            e instanceof Error ? e.message : undefined
+          )
+        );
+      if (disputeMilestone) {
         try {
-          const uri = await uploadFileToIpfs(file);
-          attachmentUris.push(uri);
+          await markMilestoneDisputed(disputeMilestone.id, cid);
         } catch (e) {
-          console.warn("Failed to upload an attachment:", e);
+          console.warn("Failed to flag disputed milestone:", e);
         }
+        setDisputeMilestone(null);
       }
-
-      const payload = {
-        type: "dispute",
-        offerId: String(offer!.id),
-        listingId: String(offer!.listingId),
-        author: address,
-        role: isClientWallet ? "client" : "provider",
-        reason: disputeReason,
-        attachments: attachmentUris,
-        createdAt: Date.now(),
-      };
-      const cid = await uploadDisputeJson(payload);
-
-      const receipt = await contract!.openDisputeWithCID(escrow!.offerId, cid);
-      notifyReceipt("Success", "Dispute opened", receipt);
       setShowDisputeForm(false);
-      setDisputeReason("");
-      setDisputeFiles([]);
       await loadData();
     } catch (error: unknown) {
       console.error("Open dispute with CID failed:", error);
@@ -763,53 +986,17 @@ export default function OfferDetailsPage({
     }
   }
 
-  async function handleSubmitAppealWithCID() {
+  async function submitAppeal(draft: DisputeEvidenceDraft) {
     if (!escrow || !offer || !address || appealing) return;
-    if (!appealReason.trim() && appealFiles.length === 0) {
-      setConfirm({
-        open: true,
-        title: "Submit Appeal",
-        message: "Submit appeal without reason or attachments?",
-        action: async () => {
-          setConfirm((c) => ({ ...c, open: false }));
-          await submitAppeal();
-        },
-      });
-      return;
-    }
-    await submitAppeal();
-  }
-
-  async function submitAppeal() {
     try {
       setAppealing(true);
-      const attachmentUris: string[] = [];
-      for (const file of appealFiles) {
-        try {
-          const uri = await uploadFileToIpfs(file);
-          attachmentUris.push(uri);
-        } catch (e) {
-          console.warn("Failed to upload an attachment:", e);
-        }
-      }
-
-      const payload = {
-        type: "appeal",
-        offerId: String(offer!.id),
-        listingId: String(offer!.listingId),
-        author: address,
-        role: isClientWallet ? "client" : "provider",
-        reason: appealReason,
-        attachments: attachmentUris,
-        createdAt: Date.now(),
-      };
-      const cid = await uploadDisputeJson(payload);
+      const payload = await buildDisputePayload("appeal", draft);
+      if (!payload) return;
+      const cid = await uploadDisputeJson({ ...payload });
 
-      const receipt = await contract!.appealDispute(escrow!.offerId, cid);
+      const receipt = await contract!.appealDispute(escrow.offerId, cid);
       notifyReceipt("Success", "Appeal submitted", receipt);
       setShowAppealForm(false);
-      setAppealReason("");
-      setAppealFiles([]);
       await loadData();
     } catch (error: unknown) {
       console.error("Appeal with CID failed:", error);
@@ -877,6 +1064,13 @@ export default function OfferDetailsPage({
 
     return (
       <div className="space-y-4">
+        {offerStatus === "expired" &&
+          address.toLowerCase() === listing?.creator.toLowerCase() && (
+            <div className="text-xs text-orange-300 p-2 border border-orange-900 rounded flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> This offer has expired and
+              can no longer be accepted. Ask the proposer for a new offer.
+            </div>
+          )}
         {/* Acceptance */}
         {canAccept && (
           <div className="space-y-2">
@@ -956,7 +1150,7 @@ export default function OfferDetailsPage({
         </div>
 
         {/* Disputes */}
-        {(canDispute || showDisputeForm || showAppealForm) && (
+        {(canDispute || showDisputeForm) && (
           <div className="space-y-2 pt-2 border-t border-gray-800">
             {canDispute && isClientWallet && (
               <button
@@ -985,106 +1179,30 @@ export default function OfferDetailsPage({
 
             {/* Dispute form (toggle) */}
             {showDisputeForm && (
-              <div className="mt-3 rounded border border-red-900 p-3 bg-red-950/20">
-                <div className="text-sm font-medium text-red-300 mb-2">
-                  Open Dispute
-                </div>
-                <label className="block text-xs text-gray-400 mb-1">
-                  Reason (optional)
-                </label>
-                <textarea
-                  value={disputeReason}
-                  onChange={(e) => setDisputeReason(e.target.value)}
-                  rows={3}
-                  placeholder={
-                    isClientWallet
-                      ? "Describe why you request a refund..."
-                      : "Describe the issue..."
-                  }
-                  className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded text-sm mb-3"
-                />
-                <label className="block text-xs text-gray-400 mb-1">
-                  Attachments (optional)
-                </label>
-                <input
-                  type="file"
-                  multiple
-                  onChange={(e) =>
-                    setDisputeFiles(Array.from(e.target.files || []))
-                  }
-                  className="w-full text-xs text-gray-300"
-                />
-                {disputeFiles.length > 0 && (
-                  <div className="text-xs text-gray-400 mt-1">
-                    {disputeFiles.length} file(s) selected
-                  </div>
-                )}
-                <div className="flex gap-2 mt-3">
-                  <button
-                    onClick={handleSubmitDisputeWithCID}
-                    disabled={openingDispute}
-                    className="flex-1 px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 text-sm"
-                  >
-                    {openingDispute ? "Submitting..." : "Submit Dispute"}
-                  </button>
-                  <button
-                    onClick={() => setShowDisputeForm(false)}
-                    className="px-3 py-2 border border-white/10 rounded text-sm"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </div>
-            )}
-
-            {/* Appeal form (toggle) */}
-            {showAppealForm && (
-              <div className="mt-3 rounded border border-yellow-900 p-3 bg-yellow-950/10">
-                <div className="text-sm font-medium text-yellow-300 mb-2">
-                  Submit Appeal
-                </div>
-                <label className="block text-xs text-gray-400 mb-1">
-                  Reason (optional)
-                </label>
-                <textarea
-                  value={appealReason}
-                  onChange={(e) => setAppealReason(e.target.value)}
-                  rows={3}
-                  placeholder="Provide additional context/evidence..."
-                  className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded text-sm mb-3"
-                />
-                <label className="block text-xs text-gray-400 mb-1">
-                  Attachments (optional)
-                </label>
-                <input
-                  type="file"
-                  multiple
-                  onChange={(e) =>
-                    setAppealFiles(Array.from(e.target.files || []))
-                  }
-                  className="w-full text-xs text-gray-300"
-                />
-                {appealFiles.length > 0 && (
-                  <div className="text-xs text-gray-400 mt-1">
-                    {appealFiles.length} file(s) selected
-                  </div>
-                )}
-                <div className="flex gap-2 mt-3">
-                  <button
-                    onClick={handleSubmitAppealWithCID}
-                    disabled={appealing}
-                    className="flex-1 px-3 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50 text-sm"
-                  >
-                    {appealing ? "Submitting..." : "Submit Appeal"}
-                  </button>
-                  <button
-                    onClick={() => setShowAppealForm(false)}
-                    className="px-3 py-2 border border-white/10 rounded text-sm"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </div>
+              <DisputeEvidenceForm
+                kind="dispute"
+                offerId={resolvedParams.id}
+                title="Open Dispute"
+                note={
+                  disputeMilestone
+                    ? `Milestone: ${disputeMilestone.title}. The dispute freezes and resolves the whole escrow, not just this milestone.`
+                    : undefined
+                }
+                defaultOutcome={
+                  isClientWallet ? "client_wins" : "provider_wins"
+                }
+                placeholder={
+                  isClientWallet
+                    ? "Describe why you request a refund..."
+                    : "Describe the issue..."
+                }
+                busy={openingDispute}
+                onSubmit={submitDispute}
+                onCancel={() => {
+                  setShowDisputeForm(false);
+                  setDisputeMilestone(null);
+                }}
+              />
             )}
           </div>
         )}
@@ -1177,6 +1295,22 @@ export default function OfferDetailsPage({
       <div className="container-panel p-6">
         <h3 className="font-medium mb-3">Dispute</h3>
 
+        {pendingShares > 0 && (
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded border border-yellow-500/30 bg-yellow-500/10 p-3 text-xs text-yellow-200">
+            <span>
+              {pendingShares} encrypted file(s) in this offer cannot be read by
+              a dispute reviewer or the other party yet.
+            </span>
+            <button
+              onClick={handleShareKeys}
+              disabled={sharingKeys}
+              className="rounded border border-yellow-500/40 px-2 py-1 hover:bg-yellow-500/10 disabled:opacity-50"
+            >
+              {sharingKeys ? "Sharing..." : "Share"}
+            </button>
+          </div>
+        )}
+
         {showDetails && (
           <div className="rounded border border-white/10 p-3 text-sm">
             {disputeHeader ? (
@@ -1207,6 +1341,20 @@ export default function OfferDetailsPage({
                   <span>Appeals: {String(disputeHeader.appealsCount)}</span>
                 </div>
 
+                {disputeHeader.cid && (
+                  <div className="mt-3">
+                    {disputeHeader.cid in evidence ? (
+                      <DisputePayloadView
+                        evidence={evidence[disputeHeader.cid]}
+                      />
+                    ) : (
+                      <div className="text-xs text-gray-500">
+                        Loading evidence…
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-3">
                   <div className="font-medium mb-1">Appeals</div>
                   {appeals.length === 0 ? (
@@ -1242,6 +1390,11 @@ export default function OfferDetailsPage({
                               </a>
                             </span>
                           </div>
+                          {a.cid in evidence && (
+                            <div className="mt-2">
+                              <DisputePayloadView evidence={evidence[a.cid]} />
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1256,6 +1409,17 @@ export default function OfferDetailsPage({
           </div>
         )}
 
+        {escrow.status === EscrowStatus.RESOLVED && (
+          <div className="mt-3">
+            <div className="font-medium mb-1 text-sm">Resolution</div>
+            <DisputeResolutionSummary
+              escrow={escrow}
+              resolution={resolution}
+              format={(amount) => displayToken(amount, escrow.paymentToken)}
+            />
+          </div>
+        )}
+
         {canAppeal && !showAppealForm && (
           <button
             onClick={() => setShowAppealForm(true)}
@@ -1266,50 +1430,16 @@ export default function OfferDetailsPage({
         )}
 
         {showAppealForm && (
-          <div className="mt-3 rounded border border-yellow-900 p-3 bg-yellow-950/10">
-            <div className="text-sm font-medium text-yellow-300 mb-2">
-              Submit Appeal
-            </div>
-            <label className="block text-xs text-gray-400 mb-1">
-              Reason (optional)
-            </label>
-            <textarea
-              value={appealReason}
-              onChange={(e) => setAppealReason(e.target.value)}
-              rows={3}
-              placeholder="Provide additional context/evidence..."
-              className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded text-sm mb-3"
-            />
-            <label className="block text-xs text-gray-400 mb-1">
-              Attachments (optional)
-            </label>
-            <input
-              type="file"
-              multiple
-              onChange={(e) => setAppealFiles(Array.from(e.target.files || []))}
-              className="w-full text-xs text-gray-300"
-            />
-            {appealFiles.length > 0 && (
-              <div className="text-xs text-gray-400 mt-1">
-                {appealFiles.length} file(s) selected
-              </div>
-            )}
-            <div className="flex gap-2 mt-3">
-              <button
-                onClick={handleSubmitAppealWithCID}
-                disabled={appealing}
-                className="flex-1 px-3 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50 text-sm"
-              >
-                {appealing ? "Submitting..." : "Submit Appeal"}
-              </button>
-              <button
-                onClick={() => setShowAppealForm(false)}
-                className="px-3 py-2 border border-white/10 rounded text-sm"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
+          <DisputeEvidenceForm
+            kind="appeal"
+            offerId={resolvedParams.id}
+            title="Submit Appeal"
+            defaultOutcome={isClientWallet ? "client_wins" : "provider_wins"}
+            placeholder="Provide additional context/evidence..."
+            busy={appealing}
+            onSubmit={submitAppeal}
+            onCancel={() => setShowAppealForm(false)}
+          />
         )}
       </div>
     );
@@ -1447,22 +1577,37 @@ export default function OfferDetailsPage({
                     </span>
                     <span
                       className={`px-2 py-0.5 rounded-full text-[10px] ${
-                        offer.accepted
+                        offerStatus === "accepted"
                           ? "bg-green-500/15 text-green-300"
-                          : offer.cancelled
+                          : offerStatus === "cancelled"
                           ? "bg-red-500/15 text-red-300"
+                          : offerStatus === "expired"
+                          ? "bg-orange-500/15 text-orange-300"
                           : "bg-yellow-500/15 text-yellow-300"
                       }`}
                     >
-                      {offer.accepted
+                      {offerStatus === "accepted"
                         ? "Accepted"
-                        : offer.cancelled
+                        : offerStatus === "cancelled"
                         ? "Cancelled"
+                        : offerStatus === "expired"
+                        ? "Expired"
                         : "Pending"}
                     </span>
                     <span className="text-gray-500">
                       {timeAgo(Number(offer.createdAt))}
                     </span>
+                    {offer.expiresAt && !offer.accepted && !offer.cancelled && (
+                      <span
+                        className={
+                          offerStatus === "expired"
+                            ? "text-orange-300"
+                            : "text-gray-500"
+                        }
+                      >
+                        {formatOfferExpiry(offer.expiresAt)}
+                      </span>
+                    )}
                     <span className="text-gray-700">•</span>
                     <button
                       onClick={() => setShowFees((v) => !v)}
@@ -1578,23 +1723,55 @@ export default function OfferDetailsPage({
                   Only offer participants may chat.
                 </div>
               )}
+              {canUseChat && (
+                <TranscriptExport
+                  offerId={resolvedParams.id}
+                  labels={transcriptLabels}
+                />
+              )}
             </div>
 
             {canUseChat && chatOpen && (
-              <Chat
-                provider={offerChatProvider}
-                address={address || null}
-                canSend
-                resolveIdentity={resolveIdentity}
-                onMessages={handleChatMessages}
-                modal
-                onClose={() => setChatOpen(false)}
-              />
+              <ChatAuthGate>
+                <Chat
+                  provider={offerChatProvider}
+                  address={address || null}
+                  canSend
+                  resolveIdentity={resolveIdentity}
+                  onMessages={handleChatMessages}
+                  modal
+                  onClose={() => setChatOpen(false)}
+                  focusMessageId={focusMessageId}
+                />
+              </ChatAuthGate>
             )}
 
             {/* Escrow Progress */}
             {renderEscrowProgress()}
 
+            {/* Milestones */}
+            {escrow && (
+              <MilestoneTimeline
+                chainId={chainId}
+                offerId={String(offer.id)}
+                total={escrow.amount}
+                decimals={
+                  knownDecimalsFor(offer.paymentToken as string, tokens) ??
+                  (isEth ? 18 : tokenDecimals)
+                }
+                formatAmount={(v) =>
+                  displayToken(v, offer.paymentToken as string)
+                }
+                deliverables={listingMetadata?.deliverables}
+                address={address}
+                isClient={isClientWallet}
+                isProvider={isProviderWallet}
+                escrowStatus={escrow.status}
+                onDispute={canDispute ? handleDisputeMilestone : undefined}
+                onChange={setMilestones}
+              />
+            )}
+
             {/* Dispute Section */}
             {renderDisputeSection()}
           </div>
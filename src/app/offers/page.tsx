@@ -19,11 +19,16 @@ import {
   Loader2,
   ArrowLeft,
   UserCircle2,
+  TimerOff,
 } from "lucide-react";
 import clsx from "clsx";
 import { getTokenAddresses } from "@/lib/contract";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
-import { Offer, Escrow, EscrowStatus } from "@/types/marketplace";
+import {
+  EscrowStatus,
+  OfferStatus,
+  OfferWithListing,
+} from "@/types/marketplace";
 import {
   formatAddress,
   toGatewayUrl,
@@ -31,15 +36,12 @@ import {
   timeAgo,
 } from "@/lib/utils";
 import { createReceiptNotifier } from "@/lib/txReceipt";
+import { assertOfferMatchesNegotiation } from "@/lib/negotiation";
+import { classifyOffer, formatOfferExpiry } from "@/lib/offerExpiry";
 import { useToastContext } from "@/components/providers";
 import { ConfirmModal } from "@/components/ConfirmModal";
 
-interface OfferWithListing extends Offer {
-  listingTitle?: string;
-  listingCreator?: string;
-  escrow?: Escrow;
-  listingImage?: string;
-}
+const PAGE_SIZE = 50;
 
 // ---- UI helpers (local design primitives) ----
 const badgeBase =
@@ -83,9 +85,8 @@ function EscrowBadge({ status }: { status: EscrowStatus }) {
   );
 }
 
-type OfferStatusType = "accepted" | "cancelled" | "pending";
 const offerStatusMeta: Record<
-  OfferStatusType,
+  OfferStatus,
   { label: string; icon: React.ReactNode; className: string }
 > = {
   accepted: {
@@ -103,15 +104,15 @@ const offerStatusMeta: Record<
     icon: <Hourglass className="w-3.5 h-3.5" />,
     className: "bg-yellow-500/15 text-yellow-400",
   },
+  expired: {
+    label: "Expired",
+    icon: <TimerOff className="w-3.5 h-3.5" />,
+    className: "bg-orange-500/15 text-orange-400",
+  },
 };
 
 function OfferPrimaryBadge({ offer }: { offer: OfferWithListing }) {
-  const status: OfferStatusType = offer.accepted
-    ? "accepted"
-    : offer.cancelled
-    ? "cancelled"
-    : "pending";
-  const meta = offerStatusMeta[status];
+  const meta = offerStatusMeta[classifyOffer(offer)];
   return (
     <span className={clsx(badgeBase, meta.className)}>
       {meta.icon} {meta.label}
@@ -166,9 +167,12 @@ export default function OffersPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<
-    "all" | "sent" | "received" | "active" | "completed"
+    "all" | "sent" | "received" | "active" | "completed" | "expired"
   >("all");
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  // Pagination cursor from the offers API (null when everything is loaded)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   // Track expanded state per-offer for mobile details
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
   // Minimal cached profiles (username + avatar) keyed by lowercase address
@@ -200,114 +204,11 @@ export default function OffersPage() {
     setError(null);
 
     try {
-      // Scan recent offers by id (not by blocks), hydrate details
-      const lastId = await contract!.getLastOfferId();
-      const MAX_TO_CHECK = BigInt(1000); // how many recent offers to scan
-      const MAX_COLLECT = 200; // cap results for UI
-      const BATCH = BigInt(50);
-
-      let cursor = lastId;
-      const collected: OfferWithListing[] = [];
-
-      while (cursor > BigInt(0) && collected.length < MAX_COLLECT) {
-        const ids: bigint[] = [];
-        for (
-          let i = BigInt(0);
-          i < BATCH && cursor > BigInt(0);
-          i += BigInt(1)
-        ) {
-          ids.push(cursor);
-          cursor -= BigInt(1);
-        }
-
-        const offersBatch = await Promise.all(
-          ids.map(async (id) => {
-            try {
-              return await contract!.getOffer(id);
-            } catch (e) {
-              console.warn("Failed to fetch offer", id.toString(), e);
-              return null;
-            }
-          })
-        );
-
-        // hydrate listing + escrow for relevant offers
-        for (const off of offersBatch) {
-          if (!off) continue;
-          // Filter: relevant to user (sent or received)
-          let relevant = false;
-          if (off.proposer && address) {
-            relevant = off.proposer.toLowerCase() === address.toLowerCase();
-          }
-
-          let listingTitle: string | undefined;
-          let listingCreator: string | undefined;
-          let listingImage: string | undefined;
-
-          try {
-            const listing = await contract!.getListing(off.listingId);
-            listingCreator = listing.creator;
-            if (address && !relevant) {
-              relevant =
-                listing.creator.toLowerCase() === address.toLowerCase();
-            }
-
-            // best-effort metadata title + image
-            listingTitle = `Listing #${off.listingId.toString()}`;
-            if (listing.metadataURI) {
-              try {
-                const gatewayUrl = toGatewayUrl(listing.metadataURI);
-                if (gatewayUrl) {
-                  const response = await fetch(gatewayUrl);
-                  if (response.ok) {
-                    const metadata = await response.json().catch(() => null);
-                    if (metadata && typeof metadata === "object") {
-                      const t = (metadata as { title?: string }).title;
-                      if (t) listingTitle = t;
-                      const img =
-                        (metadata as { image?: string }).image || null;
-                      const imgUrl = toGatewayUrl(img);
-                      if (imgUrl) listingImage = imgUrl;
-                    }
-                  }
-                }
-              } catch (err) {
-                console.warn("Failed to load listing metadata:", err);
-              }
-            }
-          } catch (err) {
-            console.warn(
-              "Failed to fetch listing for offer",
-              off.id.toString(),
-              err
-            );
-          }
-
-          if (!relevant) continue;
-
-          let escrow: Escrow | undefined;
-          if (off.accepted) {
-            try {
-              escrow = await contract!.getEscrow(off.id);
-            } catch {
-              // ignore
-            }
-          }
-          collected.push({
-            ...off,
-            listingTitle,
-            listingCreator,
-            escrow,
-            listingImage,
-          });
-          if (collected.length >= MAX_COLLECT) break;
-        }
-
-        if (lastId - cursor >= MAX_TO_CHECK) break;
-      }
-
-      // newest first
-      setOffers(collected.sort((a, b) => Number(b.createdAt - a.createdAt)));
+      // Complete history (sent + received) via the offers API, newest first
+      const { offers: page, nextCursor: next } =
+        await contract!.getOffersByAddress(address, { limit: PAGE_SIZE });
+      setOffers(page);
+      setNextCursor(next);
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Failed to load offers";
       console.error("Failed to load offers:", e);
@@ -317,16 +218,112 @@ export default function OffersPage() {
     }
   }, [address, chain, contract]);
 
-  const acceptOffer = useCallback(
+  const loadMoreOffers = useCallback(async () => {
+    if (!address || !nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const { offers: page, nextCursor: next } =
+        await contract!.getOffersByAddress(address, {
+          cursor: nextCursor,
+          limit: PAGE_SIZE,
+        });
+      setOffers((prev) => {
+        const seen = new Set(prev.map((o) => o.id.toString()));
+        return [...prev, ...page.filter((o) => !seen.has(o.id.toString()))];
+      });
+      setNextCursor(next);
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to load more offers");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [address, contract, nextCursor, toast]);
+
+  // Re-read one offer from chain after a tx; the indexer may not have synced it yet
+  const refreshOffer = useCallback(
     async (offerId: bigint) => {
+      try {
+        const fresh = await contract!.getOffer(offerId, { force: true });
+        const escrow = fresh.accepted
+          ? await contract!
+              .getEscrow(offerId, { force: true })
+              .catch(() => undefined)
+          : undefined;
+        setOffers((prev) =>
+          prev.map((o) => (o.id === offerId ? { ...o, ...fresh, escrow } : o))
+        );
+      } catch {
+        await loadOffers();
+      }
+    },
+    [contract, loadOffers]
+  );
+
+  // Expired offers I sent that are still open on-chain
+  const staleOffers = useMemo(
+    () =>
+      offers.filter(
+        (o) =>
+          o.proposer.toLowerCase() === address?.toLowerCase() &&
+          classifyOffer(o) === "expired"
+      ),
+    [offers, address]
+  );
+
+  // The contract has no batch cancel, so stale offers are cancelled one tx at a time
+  const cancelStaleOffers = useCallback(() => {
+    if (!chain || !address || staleOffers.length === 0) return;
+    const targets = staleOffers;
+    setConfirm({
+      open: true,
+      title: "Cancel stale offers",
+      message: `Cancel ${targets.length} expired offer${
+        targets.length === 1 ? "" : "s"
+      }? Each one needs its own transaction.`,
+      action: async () => {
+        setConfirm((c) => ({ ...c, open: false }));
+        setActionLoading("cancel-stale");
+        let cancelled = 0;
+        try {
+          for (const offer of targets) {
+            try {
+              await contract!.cancelOffer(offer.id);
+              cancelled += 1;
+              await refreshOffer(offer.id);
+            } catch (e) {
+              console.error(`Failed to cancel offer ${offer.id}:`, e);
+              toast.showContractError(
+                `Offer #${offer.id.toString()}`,
+                e,
+                "Failed to cancel offer"
+              );
+            }
+          }
+          if (cancelled > 0) {
+            toast.showSuccess(
+              "Stale offers cancelled",
+              `${cancelled} of ${targets.length} expired offers cancelled`
+            );
+          }
+        } finally {
+          setActionLoading(null);
+        }
+      },
+    });
+  }, [chain, address, staleOffers, contract, refreshOffer, toast]);
+
+  const acceptOffer = useCallback(
+    async (offer: OfferWithListing) => {
       if (!chain || !address) return;
 
       try {
-        setActionLoading(offerId.toString());
+        setActionLoading(offer.id.toString());
 
-        const receipt = await contract!.acceptOffer(offerId);
+        // Only the latest agreed counter-offer may be accepted
+        await assertOfferMatchesNegotiation(chainId, offer);
+        const receipt = await contract!.acceptOffer(offer.id);
         notifyReceipt("Success", "Offer accepted successfully!", receipt);
-        await loadOffers();
+        await refreshOffer(offer.id);
       } catch (e) {
         console.error("Failed to accept offer:", e);
         toast.showContractError("Error", e, "Failed to accept offer");
@@ -334,7 +331,7 @@ export default function OffersPage() {
         setActionLoading(null);
       }
     },
-    [chain, address, contract, toast, loadOffers, notifyReceipt]
+    [chain, chainId, address, contract, toast, refreshOffer, notifyReceipt]
   );
 
   const validateWork = useCallback(
@@ -346,7 +343,7 @@ export default function OffersPage() {
 
         const receipt = await contract!.validateWork(offerId);
         notifyReceipt("Success", "Work validated successfully!", receipt);
-        await loadOffers();
+        await refreshOffer(offerId);
       } catch (e) {
         console.error("Failed to validate work:", e);
         toast.showContractError("Error", e, "Failed to validate work");
@@ -354,7 +351,7 @@ export default function OffersPage() {
         setActionLoading(null);
       }
     },
-    [chain, address, contract, toast, loadOffers, notifyReceipt]
+    [chain, address, contract, toast, refreshOffer, notifyReceipt]
   );
 
   const cancelOffer = useCallback(
@@ -372,7 +369,7 @@ export default function OffersPage() {
 
             const receipt = await contract!.cancelOffer(offerId);
             notifyReceipt("Success", "Offer cancelled successfully!", receipt);
-            await loadOffers();
+            await refreshOffer(offerId);
           } catch (e) {
             console.error("Failed to cancel offer:", e);
             toast.showContractError("Error", e, "Failed to cancel offer");
@@ -382,7 +379,7 @@ export default function OffersPage() {
         },
       });
     },
-    [chain, address, contract, toast, loadOffers, notifyReceipt]
+    [chain, address, contract, toast, refreshOffer, notifyReceipt]
   );
 
   useEffect(() => {
@@ -493,6 +490,8 @@ export default function OffersPage() {
           );
         case "completed":
           return offer.escrow?.status === EscrowStatus.COMPLETED;
+        case "expired":
+          return classifyOffer(offer) === "expired";
         default:
           return (
             offer.proposer.toLowerCase() === address.toLowerCase() ||
@@ -569,6 +568,11 @@ export default function OffersPage() {
       label: "Completed",
       icon: <ShieldCheck className="w-3.5 h-3.5" />,
     },
+    {
+      value: "expired",
+      label: "Expired",
+      icon: <TimerOff className="w-3.5 h-3.5" />,
+    },
   ];
 
   const toggleExpanded = (idStr: string) =>
@@ -592,6 +596,20 @@ export default function OffersPage() {
               >
                 <ArrowRight className="w-4 h-4" /> Browse
               </Link>
+              {staleOffers.length > 0 && (
+                <button
+                  onClick={cancelStaleOffers}
+                  disabled={actionLoading === "cancel-stale"}
+                  className="inline-flex items-center gap-2 rounded-lg border border-orange-500/40 bg-orange-500/10 px-4 py-2 text-sm font-medium text-orange-300 hover:bg-orange-500/20 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-white/10"
+                >
+                  {actionLoading === "cancel-stale" ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <TimerOff className="w-4 h-4" />
+                  )}
+                  Cancel stale ({staleOffers.length})
+                </button>
+              )}
               <button
                 onClick={loadOffers}
                 className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-gray-900 px-4 py-2 text-sm font-medium text-gray-200 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-white/10"
@@ -775,6 +793,12 @@ export default function OffersPage() {
                           label="Created"
                           value={timeAgo(Number(offer.createdAt))}
                         />
+                        {offer.expiresAt && !offer.accepted && (
+                          <DataRow
+                            label="Validity"
+                            value={formatOfferExpiry(offer.expiresAt)}
+                          />
+                        )}
                       </div>
 
                       {/* Toggle details button on mobile */}
@@ -856,12 +880,11 @@ export default function OffersPage() {
                     {/* Actions */}
                     <div className="w-full mt-4 pt-4 border-t border-white/5 md:w-60 md:mt-0 md:pt-0 md:pl-6 md:border-t-0 md:border-l md:border-white/5 md:sticky md:top-4">
                       <div className="space-y-2">
-                        {!offer.accepted &&
-                          !offer.cancelled &&
+                        {classifyOffer(offer) === "pending" &&
                           address?.toLowerCase() ===
                             offer.listingCreator?.toLowerCase() && (
                             <button
-                              onClick={() => acceptOffer(offer.id)}
+                              onClick={() => acceptOffer(offer)}
                               disabled={actionLoading === idStr}
                               aria-busy={actionLoading === idStr}
                               className={clsx(
@@ -956,6 +979,27 @@ export default function OffersPage() {
             })
           )}
         </div>
+
+        {nextCursor && (
+          <div className="mt-6 flex justify-center">
+            <button
+              onClick={loadMoreOffers}
+              disabled={loadingMore}
+              className={clsx(
+                btnBase,
+                "border border-white/10 hover:border-gray-400/40 text-gray-200 hover:text-white bg-transparent"
+              )}
+            >
+              {loadingMore ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" /> Loading
+                </>
+              ) : (
+                "Load older offers"
+              )}
+            </button>
+          </div>
+        )}
       </div>
 
       <ConfirmModal
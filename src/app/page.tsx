@@ -20,6 +20,7 @@ import {
   Code,
   Briefcase,
 } from "lucide-react";
+import { RecommendedBriefs } from "@/components/listings/RecommendedBriefs";
 
 // Core features - simplified and focused
 const coreFeatures = [
@@ -238,6 +239,11 @@ export default function HomePage() {
         </div>
       </section>
 
+      {/* Recommended briefs (connected wallets only) */}
+      <div className="relative mx-auto max-w-6xl px-6">
+        <RecommendedBriefs />
+      </div>
+
       {/* Core Features */}
       <section className="relative px-6 py-20">
         <div className="mx-auto max-w-6xl">
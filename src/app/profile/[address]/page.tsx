@@ -33,6 +33,7 @@ import {
 import { createReceiptNotifier } from "@/lib/txReceipt";
 import { useToast, useAsyncOperation } from "@/hooks/useErrorHandling";
 import { LoadingButton } from "@/components/Loading";
+import { WatchButton } from "@/components/watchlist/WatchButton";
 import Image from "next/image";
 import {
   ArrowLeft,
@@ -778,6 +779,13 @@ export default function PublicProfilePage({
                         </button>
                       )}
 
+                      {!isOwner && (
+                        <WatchButton
+                          kind="profile"
+                          target={resolvedParams.address}
+                          className="justify-center py-2 w-fit md:w-full sm:w-auto"
+                        />
+                      )}
                       <Link
                         href={`/chat/${encodeURIComponent(
                           resolvedParams.address
@@ -0,0 +1,445 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAccount } from "wagmi";
+import {
+  Bell,
+  Briefcase,
+  CheckCheck,
+  Eye,
+  Package,
+  RefreshCcw,
+  Star,
+  Trash2,
+  UserCircle2,
+} from "lucide-react";
+import { ChatAuthGate } from "@/components/chat/ChatAuthGate";
+import { useToastContext } from "@/components/providers";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { loadWatchedListingState, useWatchlist } from "@/hooks/useWatchlist";
+import {
+  formatListingChange,
+  listingChanges,
+  markWatchlistSeen,
+} from "@/lib/watchlist";
+import {
+  formatAddress,
+  getCategoryLabel,
+  loadListingMetadataFromURI,
+  timeAgo,
+  toGatewayUrl,
+} from "@/lib/utils";
+import {
+  ListingType,
+  type Listing,
+  type ListingMetadata,
+  type OnchainUserProfile,
+  type WatchedListingState,
+  type WatchlistItem,
+} from "@/types/marketplace";
+
+type ListingView = {
+  listing: Listing;
+  metadata?: ListingMetadata;
+  state: WatchedListingState;
+};
+
+type ProfileView = {
+  profile: OnchainUserProfile | null;
+  rating: number;
+};
+
+export default function WatchlistPage() {
+  const { address } = useAccount();
+  const { contract } = useMarketplaceContract();
+  const { items, loading, unwatch } = useWatchlist();
+  const toast = useToastContext();
+  const [listings, setListings] = useState<Record<string, ListingView>>({});
+  const [profiles, setProfiles] = useState<Record<string, ProfileView>>({});
+  const [refreshing, setRefreshing] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Items already requested, so list updates only fetch what is new
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!contract) return;
+    const seen = requested.current;
+    const pending = items.filter((i) => !seen.has(i.id));
+    if (pending.length === 0) return;
+    pending.forEach((i) => seen.add(i.id));
+    let cancelled = false;
+    const finished = new Set<string>();
+    setRefreshing(true);
+    (async () => {
+      await Promise.all(
+        pending.map(async (item) => {
+          try {
+            if (item.kind === "listing") {
+              const id = BigInt(item.target);
+              const listing = await contract.getListing(id, { force: true });
+              const [state, metadata] = await Promise.all([
+                loadWatchedListingState(contract, id, {
+                  listing,
+                  force: true,
+                }),
+                loadListingMetadataFromURI(listing.metadataURI, listing).catch(
+                  () => undefined
+                ),
+              ]);
+              if (!cancelled) {
+                setListings((prev) => ({
+                  ...prev,
+                  [item.target]: { listing, metadata, state },
+                }));
+                finished.add(item.id);
+              }
+            } else {
+              const [profile, rating] = await Promise.all([
+                contract.getProfile(item.target).catch(() => null),
+                contract.getAverageRating(item.target).catch(() => 0),
+              ]);
+              if (!cancelled) {
+                setProfiles((prev) => ({
+                  ...prev,
+                  [item.target]: {
+                    profile:
+                      profile && Number(profile.joinedAt) !== 0
+                        ? profile
+                        : null,
+                    rating,
+                  },
+                }));
+                finished.add(item.id);
+              }
+            }
+          } catch (e) {
+            console.warn("Failed to load watched item", item.target, e);
+          }
+        })
+      );
+      if (!cancelled) setRefreshing(false);
+    })();
+    return () => {
+      cancelled = true;
+      // Let the next run pick up whatever this one did not finish
+      pending
+        .filter((i) => !finished.has(i.id))
+        .forEach((i) => seen.delete(i.id));
+      setRefreshing(false);
+    };
+  }, [contract, items, reloadKey]);
+
+  const watchedListings = useMemo(() => {
+    const rows = items
+      .filter((i) => i.kind === "listing")
+      .map((item) => {
+        const view = listings[item.target];
+        return {
+          item,
+          view,
+          changes: view ? listingChanges(item.seen, view.state) : [],
+        };
+      });
+    // Listings with something new first
+    return rows.sort(
+      (a, b) => Number(b.changes.length > 0) - Number(a.changes.length > 0)
+    );
+  }, [items, listings]);
+  const watchedProfiles = items.filter((i) => i.kind === "profile");
+  const changedCount = watchedListings.filter((r) => r.changes.length).length;
+
+  function refresh() {
+    requested.current.clear();
+    setReloadKey((k) => k + 1);
+  }
+
+  async function markSeen(rows: typeof watchedListings) {
+    try {
+      await Promise.all(
+        rows
+          .filter((r) => r.view && r.changes.length)
+          .map((r) => markWatchlistSeen(r.item.id, r.view!.state))
+      );
+    } catch (e) {
+      toast.showError(
+        "Could not update watchlist",
+        e instanceof Error ? e.message : "Please try again"
+      );
+    }
+  }
+
+  async function remove(item: WatchlistItem) {
+    try {
+      await unwatch(item);
+    } catch (e) {
+      toast.showError(
+        "Could not remove item",
+        e instanceof Error ? e.message : "Please try again"
+      );
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Watchlist</h1>
+          <p className="text-sm text-gray-400">
+            Gigs, briefs and freelancers you are keeping an eye on.
+          </p>
+        </div>
+        {items.length > 0 && (
+          <div className="flex items-center gap-2">
+            {changedCount > 0 && (
+              <button
+                onClick={() => markSeen(watchedListings)}
+                className="inline-flex items-center gap-2 rounded-lg border border-white/10 px-3 py-2 text-sm text-gray-200 hover:bg-white/5"
+              >
+                <CheckCheck className="w-4 h-4" /> Mark all seen
+              </button>
+            )}
+            <button
+              onClick={refresh}
+              disabled={refreshing}
+              className="inline-flex items-center gap-2 rounded-lg border border-white/10 px-3 py-2 text-sm text-gray-200 hover:bg-white/5 disabled:opacity-50"
+            >
+              <RefreshCcw
+                className={`w-4 h-4 ${refreshing ? "animate-spin" : ""}`.trim()}
+              />
+              Refresh
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!address ? (
+        <div className="text-sm text-gray-400">
+          Connect your wallet to see your watchlist.
+        </div>
+      ) : (
+        <ChatAuthGate
+          title="Verify your wallet to use the watchlist"
+          description="Your watchlist is private to this wallet."
+        >
+          {loading && items.length === 0 ? (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div
+                  key={i}
+                  className="h-32 rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/60 to-gray-900/20 animate-pulse"
+                />
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 space-y-4">
+              <p className="text-gray-400">
+                Nothing here yet. Use the <Eye className="inline w-4 h-4" />{" "}
+                Watch button on gigs, briefs and profiles to shortlist them.
+              </p>
+              <Link
+                href="/browse"
+                className="px-4 py-2 bg-white text-black rounded-lg hover:opacity-90"
+              >
+                Browse listings
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {watchedListings.length > 0 && (
+                <section className="space-y-3">
+                  <h2 className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                    <Package className="w-4 h-4" /> Listings
+                    {changedCount > 0 && (
+                      <span className="text-[11px] text-blue-300">
+                        {changedCount} with updates
+                      </span>
+                    )}
+                  </h2>
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {watchedListings.map((row) => {
+                      const { item, view, changes } = row;
+                      const isGig =
+                        view &&
+                        Number(view.listing.listingType) === ListingType.GIG;
+                      const href = `/${isGig ? "gigs" : "briefs"}/${
+                        item.target
+                      }`;
+                      const title =
+                        view?.metadata?.title ||
+                        `${isGig ? "Gig" : "Brief"} #${item.target}`;
+                      return (
+                        <div
+                          key={item.id}
+                          className={`rounded-xl border bg-gradient-to-b from-gray-900/70 to-gray-900/30 p-4 flex flex-col gap-3 ${
+                            changes.length
+                              ? "border-blue-500/30"
+                              : "border-white/5"
+                          }`}
+                        >
+                          <div className="flex items-center gap-2 text-[11px] text-gray-500">
+                            {isGig ? (
+                              <Package className="w-3.5 h-3.5" />
+                            ) : (
+                              <Briefcase className="w-3.5 h-3.5" />
+                            )}
+                            {view
+                              ? getCategoryLabel(Number(view.listing.category))
+                              : "Loading…"}
+                            {view && (
+                              <span
+                                className={
+                                  view.state.active
+                                    ? "text-green-400"
+                                    : "text-red-400"
+                                }
+                              >
+                                {view.state.active ? "Active" : "Inactive"}
+                              </span>
+                            )}
+                            <span className="ml-auto">
+                              Watched{" "}
+                              {timeAgo(Date.parse(item.createdAt) / 1000)}
+                            </span>
+                          </div>
+                          <Link
+                            href={href}
+                            className="text-sm font-medium text-gray-200 hover:text-white line-clamp-2"
+                          >
+                            {title}
+                          </Link>
+                          {view && (
+                            <div className="text-[11px] text-gray-500">
+                              {view.state.offerCount} offer
+                              {view.state.offerCount === 1 ? "" : "s"}
+                            </div>
+                          )}
+                          {changes.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {changes.map((c) => (
+                                <span
+                                  key={c.kind}
+                                  className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-medium ${
+                                    c.kind === "deactivated"
+                                      ? "bg-red-500/15 text-red-300"
+                                      : c.kind === "boosted"
+                                      ? "bg-yellow-500/15 text-yellow-300"
+                                      : "bg-blue-500/15 text-blue-300"
+                                  }`}
+                                >
+                                  <Bell className="w-3 h-3" />
+                                  {formatListingChange(c)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          <div className="mt-auto flex items-center gap-3 text-[11px]">
+                            {changes.length > 0 && (
+                              <button
+                                onClick={() => markSeen([row])}
+                                className="text-gray-300 hover:text-white"
+                              >
+                                Mark seen
+                              </button>
+                            )}
+                            <button
+                              onClick={() => remove(item)}
+                              className="ml-auto inline-flex items-center gap-1 text-gray-500 hover:text-red-300"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" /> Remove
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              {watchedProfiles.length > 0 && (
+                <section className="space-y-3">
+                  <h2 className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                    <UserCircle2 className="w-4 h-4" /> Freelancers
+                  </h2>
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {watchedProfiles.map((item) => {
+                      const view = profiles[item.target];
+                      const profile = view?.profile;
+                      const avatar = profile?.profilePicCID
+                        ? toGatewayUrl(profile.profilePicCID)
+                        : null;
+                      return (
+                        <div
+                          key={item.id}
+                          className="rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/70 to-gray-900/30 p-4 flex flex-col gap-3"
+                        >
+                          <Link
+                            href={`/profile/${item.target}`}
+                            className="flex items-center gap-3 min-w-0 hover:text-white"
+                          >
+                            {avatar ? (
+                              <div className="relative h-10 w-10 rounded-full overflow-hidden border border-white/10 shrink-0">
+                                <Image
+                                  src={avatar}
+                                  alt={
+                                    profile?.username
+                                      ? `@${profile.username}`
+                                      : "avatar"
+                                  }
+                                  fill
+                                  sizes="40px"
+                                  className="object-cover"
+                                  unoptimized
+                                />
+                              </div>
+                            ) : (
+                              <div className="h-10 w-10 rounded-full border border-white/10 bg-gray-800 flex items-center justify-center shrink-0">
+                                <UserCircle2 className="w-6 h-6 text-gray-500" />
+                              </div>
+                            )}
+                            <div className="min-w-0">
+                              <div className="text-sm font-medium text-gray-200 truncate">
+                                {profile?.username
+                                  ? `@${profile.username}`
+                                  : formatAddress(item.target)}
+                              </div>
+                              {view && view.rating > 0 && (
+                                <div className="flex items-center gap-1 text-[11px] text-gray-400">
+                                  <Star className="w-3 h-3 text-yellow-400" />
+                                  {view.rating.toFixed(1)}
+                                </div>
+                              )}
+                            </div>
+                          </Link>
+                          {profile?.skills && profile.skills.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {profile.skills.slice(0, 4).map((s) => (
+                                <span
+                                  key={s}
+                                  className="px-2 py-0.5 bg-gray-900 text-gray-300 text-[11px] rounded"
+                                >
+                                  {s}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          <button
+                            onClick={() => remove(item)}
+                            className="mt-auto ml-auto inline-flex items-center gap-1 text-[11px] text-gray-500 hover:text-red-300"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" /> Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+            </div>
+          )}
+        </ChatAuthGate>
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,10 @@ import { TOKENS } from "@/lib/contract";
 import { ethers } from "ethers";
 import { formatTokenAmountWithSymbol, type KnownTokens } from "@/lib/utils";
 import { MessageSquare } from "lucide-react";
-import { supabase } from "@/lib/supabaseClient";
+import { subscribeUnreadCounts } from "@/lib/chatReads";
+import { useWalletSession } from "@/hooks/useWalletSession";
 import { useRouter } from "next/navigation";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 export function Header() {
   const { address } = useAccount();
   const [profileDropdown, setProfileDropdown] = useState(false);
@@ -82,33 +84,19 @@ export function Header() {
     setMounted(true);
   }, []);
 
-  // Unread indicator: naive poll recent direct chats for activity in last 10 minutes
-  const [hasUnread, setHasUnread] = useState(false);
+  // Restores the wallet session (chat auth) for the connected account on every page
+  const { session } = useWalletSession();
+  const sessionToken = session?.token;
+
+  // Unread chat messages across offer and direct conversations (read cursors)
+  const [unreadChats, setUnreadChats] = useState(0);
   useEffect(() => {
-    let timer: ReturnType<typeof setInterval> | null = null;
-    async function check() {
-      try {
-        if (!address) {
-          setHasUnread(false);
-          return;
-        }
-        const me = address.toLowerCase();
-        const since = new Date(Date.now() - 10 * 60 * 1000).toISOString();
-        const { data } = await supabase
-          .from("direct_chats")
-          .select("user_lo,user_hi,updated_at")
-          .or(`user_lo.eq.${me},user_hi.eq.${me}`)
-          .gt("updated_at", since)
-          .limit(1);
-        setHasUnread(!!(data && data.length > 0));
-      } catch {}
-    }
-    check();
-    timer = setInterval(check, 15000);
-    return () => {
-      if (timer) clearInterval(timer);
-    };
-  }, [address]);
+    setUnreadChats(0);
+    if (!address || !sessionToken) return;
+    return subscribeUnreadCounts(address, (counts) =>
+      setUnreadChats(Object.values(counts).reduce((a, b) => a + b, 0))
+    );
+  }, [address, sessionToken]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -223,6 +211,14 @@ export function Header() {
               Create
             </Link>
 
+            {mounted && address && (
+              <Link
+                href="/watchlist"
+                className="text-gray-300 hover:text-white transition-colors"
+              >
+                Watchlist
+              </Link>
+            )}
             {mounted && address && (
               <Link
                 href={`/profile/${address}`}
@@ -315,6 +311,9 @@ export function Header() {
                 </div>
               )}
             </div>
+            {mounted && address && sessionToken && (
+              <NotificationBell address={address} />
+            )}
             <Link
               href="/chat"
               className="relative inline-flex items-center justify-center rounded-md p-2 text-gray-300 hover:text-white hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-white/20"
@@ -322,8 +321,10 @@ export function Header() {
               title="Messages"
             >
               <MessageSquare className="h-5 w-5" />
-              {hasUnread && (
-                <span className="absolute -top-0.5 -right-0.5 inline-flex h-2.5 w-2.5 items-center justify-center rounded-full bg-red-500 ring-2 ring-black" />
+              {unreadChats > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 inline-flex min-w-[1.1rem] h-[1.1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white ring-2 ring-black">
+                  {unreadChats > 9 ? "9+" : unreadChats}
+                </span>
               )}
             </Link>
             {/* Hide connect button on mobile to reduce clutter */}
@@ -545,6 +546,15 @@ export function Header() {
 
                 {/* Divider */}
                 <div className="my-2 h-px bg-gray-800" />
+                {mounted && address && (
+                  <Link
+                    href="/watchlist"
+                    className="px-3 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-800"
+                    onClick={() => setMobileOpen(false)}
+                  >
+                    Watchlist
+                  </Link>
+                )}
                 {mounted && address && (
                   <Link
                     href={`/profile/${address}`}
@@ -4,18 +4,64 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { useAccount } from "wagmi";
 import {
+  AlertTriangle,
+  Check,
+  CheckCheck,
+  ExternalLink,
+  Lock,
+  LockOpen,
   Paperclip,
+  Pencil,
   RefreshCcw,
+  Reply,
+  SmilePlus,
+  Trash2,
   Send as SendIcon,
   UserCircle2,
   Pin as PinIcon,
 } from "lucide-react";
-import { toGatewayUrl, loadListingMetadataFromURI } from "@/lib/utils";
-import type { ChatDataProvider, ChatMessage } from "./types";
+import {
+  toGatewayUrl,
+  loadListingMetadataFromURI,
+  timeAgo,
+  getExplorerTxUrl,
+  formatTokenAmountWithSymbol,
+} from "@/lib/utils";
+import { getTokenAddresses } from "@/lib/contract";
+import type {
+  ChatDataProvider,
+  ChatMessage,
+  ChatPresence,
+  OfferCard,
+  PresenceHandle,
+  SystemCard,
+  SystemCardEvent,
+} from "./types";
+import { MESSAGE_EDIT_WINDOW_MS } from "./providers/MessageTableProvider";
+import { MakeOfferForm } from "./MakeOfferForm";
+import { EncryptedAttachment } from "./EncryptedAttachment";
+import { ChatKeyRecovery } from "./ChatKeyRecovery";
+import { isEncryptedAttachment } from "@/lib/chatCrypto";
+import { useChatKeys } from "@/hooks/useChatKeys";
 import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
-import { ListingType, type Listing } from "@/types/marketplace";
+import {
+  DisputeOutcome,
+  EscrowStatus,
+  ListingType,
+  type Escrow,
+  type Listing,
+  type Offer,
+} from "@/types/marketplace";
 import { CreateListingForm } from "@/components/create/CreateListingForm";
+import { ConfirmModal } from "@/components/ConfirmModal";
+import { useToastContext } from "@/components/providers";
+import {
+  markConversationRead,
+  subscribeReadCursors,
+  type ReadCursors,
+} from "@/lib/chatReads";
 
 // Hydration-safe, timezone-stable formatters (use UTC so SSR/CSR match)
 const DATE_FMT = new Intl.DateTimeFormat("en-US", {
@@ -33,6 +79,71 @@ const TIME_FMT = new Intl.DateTimeFormat("en-US", {
 });
 const dayKeyUTC = (d: Date) => d.toISOString().slice(0, 10); // YYYY-MM-DD
 
+const SYSTEM_CARD_TITLES: Record<SystemCardEvent, string> = {
+  offer_made: "Offer made",
+  offer_accepted: "Offer accepted",
+  work_validated: "Work validated",
+  dispute_opened: "Dispute opened",
+  dispute_resolved: "Dispute resolved",
+};
+
+const ESCROW_STATUS_LABELS: Record<EscrowStatus, string> = {
+  [EscrowStatus.NONE]: "Awaiting acceptance",
+  [EscrowStatus.IN_PROGRESS]: "In progress",
+  [EscrowStatus.COMPLETED]: "Completed",
+  [EscrowStatus.DISPUTED]: "In dispute",
+  [EscrowStatus.RESOLVED]: "Resolved",
+  [EscrowStatus.CANCELLED]: "Cancelled",
+};
+
+const OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  [DisputeOutcome.NONE]: "No outcome",
+  [DisputeOutcome.PROVIDER_WINS]: "Provider wins",
+  [DisputeOutcome.CLIENT_WINS]: "Client wins",
+  [DisputeOutcome.SPLIT]: "Split",
+};
+
+const REACTIONS = ["👍", "❤️", "😂", "🎉", "👀", "✅"];
+
+// Per-message actions; omitted when the viewer cannot post (e.g. admin read-only)
+type MessageActions = {
+  onReply: (m: ChatMessage) => void;
+  onEdit: (m: ChatMessage) => void;
+  onDelete: (m: ChatMessage) => void;
+  onReact: (m: ChatMessage, emoji: string) => void;
+  onMakeOffer: (listingId: string, title?: string) => void;
+};
+
+function isEditable(m: ChatMessage, me: string) {
+  return (
+    m.sender === me &&
+    m.seq !== undefined &&
+    !m.deleted_at &&
+    Date.now() - new Date(m.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS
+  );
+}
+
+// One-line preview of a message for reply quotes
+function replySnippet(m: ChatMessage) {
+  if (m.deleted_at) return "Message deleted";
+  if (m.message_type === "pin") return m.linkTitle || "Pinned listing";
+  if (m.content) {
+    return m.content.length > 120 ? `${m.content.slice(0, 120)}…` : m.content;
+  }
+  return m.attachments?.length ? "Attachment" : "Message";
+}
+
+function withReaction(m: ChatMessage, emoji: string, who: string) {
+  const reactions = { ...(m.reactions || {}) };
+  const list = reactions[emoji] || [];
+  const next = list.includes(who)
+    ? list.filter((w) => w !== who)
+    : [...list, who];
+  if (next.length) reactions[emoji] = next;
+  else delete reactions[emoji];
+  return { ...m, reactions };
+}
+
 // Lightweight identity cache contract: caller passes a resolver
 export type IdentityResolver = (address: string) =>
   | {
@@ -93,6 +204,7 @@ export function Chat({
   onMessages,
   modal = true,
   onClose,
+  focusMessageId,
 }: {
   provider: ChatDataProvider;
   address?: string | null;
@@ -102,16 +214,37 @@ export function Chat({
   onMessages?: (messages: ChatMessage[]) => void;
   modal?: boolean; // when true, renders as full-screen/centered overlay and locks page scroll
   onClose?: () => void; // called when user taps the header back/close button
+  focusMessageId?: string | null; // scroll to and highlight this message once loaded (search hits)
 }) {
   const router = useRouter();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [sending, setSending] = useState(false);
   const [text, setText] = useState("");
   const [files, setFiles] = useState<File[]>([]);
+  // Encrypt attachments to the participants before upload (private deliverables)
+  const [encrypt, setEncrypt] = useState(false);
+  const chatKeys = useChatKeys();
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [pinOpen, setPinOpen] = useState(false);
   const [pinLoading, setPinLoading] = useState(false);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<ChatMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [offerFor, setOfferFor] = useState<{
+    listingId: string;
+    title?: string;
+  } | null>(null);
+  const [presence, setPresence] = useState<ChatPresence>({
+    online: [],
+    typing: [],
+    lastSeen: {},
+  });
+  const presenceRef = useRef<PresenceHandle | null>(null);
+  const toast = useToastContext();
   const containerRef = useRef<HTMLDivElement | null>(null);
   const inputWrapperRef = useRef<HTMLDivElement | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
@@ -134,11 +267,48 @@ export function Chat({
   const [pinTab, setPinTab] = useState<"select" | "create">("select");
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const { contract } = useMarketplaceContract();
+  const { chain } = useAccount();
+  const tokenAddresses = useMemo(
+    () => getTokenAddresses(chain?.id ?? 11124),
+    [chain?.id]
+  );
+  // Escrow reads shared by system cards, keyed by offer and the newest card id
+  const escrowCacheRef = useRef<Map<string, Promise<Escrow>>>(new Map());
   const previewCacheRef = useRef<Map<string, PinListItem>>(new Map());
+  const conversationKey = provider.conversationKey;
+  const [cursors, setCursors] = useState<ReadCursors>({});
+  const me = address?.toLowerCase() || "";
+  // Newest message any other participant has read; my messages up to it show as seen
+  const seenAt = useMemo(
+    () =>
+      Object.entries(cursors).reduce(
+        (max, [who, at]) => (who !== me && at > max ? at : max),
+        0
+      ),
+    [cursors, me]
+  );
 
   // Memoized messages view to avoid re-rendering the full list on every keystroke
   const MessagesView = useMemo(() => {
-    function View({ items, me }: { items: ChatMessage[]; me?: string | null }) {
+    function View({
+      items,
+      me,
+      seenAt,
+      actions,
+      highlightId,
+      onJump,
+    }: {
+      items: ChatMessage[];
+      me?: string | null;
+      seenAt: number;
+      actions?: MessageActions;
+      highlightId: string | null;
+      onJump: (id: string) => void;
+    }) {
+      const [pickerFor, setPickerFor] = useState<string | null>(null);
+      const byId = new Map(items.map((m) => [m.id, m]));
+      // Cards re-read escrow status whenever a newer lifecycle event arrives
+      const latestSystemId = [...items].reverse().find((m) => m.system)?.id;
       return (
         <>
           {loading && (
@@ -153,93 +323,275 @@ export function Chat({
           )}
           {items.map((m, i) => {
             const mine = me && m.sender === me.toLowerCase();
-            const hasAttachments = m.attachments && m.attachments.length > 0;
+            const hasAttachments =
+              !m.deleted_at && m.attachments && m.attachments.length > 0;
+            const reactions = Object.entries(m.reactions || {}).filter(
+              ([, who]) => who.length > 0
+            );
+            const parent = m.reply_to ? byId.get(m.reply_to) : undefined;
+            const canAct =
+              !!actions &&
+              !!me &&
+              m.seq !== undefined &&
+              !m.deleted_at &&
+              !m.system;
+            const actionBar = canAct && (
+              <div className="relative flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition text-gray-400">
+                <button
+                  type="button"
+                  onClick={() => actions.onReply(m)}
+                  className="p-1 rounded hover:bg-white/5 hover:text-white"
+                  aria-label="Reply"
+                >
+                  <Reply className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPickerFor(pickerFor === m.id ? null : m.id)}
+                  className="p-1 rounded hover:bg-white/5 hover:text-white"
+                  aria-label="Add reaction"
+                >
+                  <SmilePlus className="w-3.5 h-3.5" />
+                </button>
+                {isEditable(m, me.toLowerCase()) && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => actions.onEdit(m)}
+                      className="p-1 rounded hover:bg-white/5 hover:text-white"
+                      aria-label="Edit message"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => actions.onDelete(m)}
+                      className="p-1 rounded hover:bg-white/5 hover:text-red-300"
+                      aria-label="Delete message"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+                {pickerFor === m.id && (
+                  <div
+                    className={`absolute bottom-full mb-1 z-10 flex gap-0.5 rounded-full border border-white/10 bg-gray-900 px-1.5 py-1 shadow-lg ${
+                      mine ? "right-0" : "left-0"
+                    }`}
+                  >
+                    {REACTIONS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => {
+                          setPickerFor(null);
+                          actions.onReact(m, emoji);
+                        }}
+                        className="px-1 text-sm rounded hover:bg-white/10"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
             const day = dayKeyUTC(new Date(m.created_at));
             const prev = i > 0 ? items[i - 1] : null;
             const prevDay = prev ? dayKeyUTC(new Date(prev.created_at)) : null;
             return (
-              <div key={m.id}>
+              <div key={m.id} id={`chat-msg-${m.id}`}>
                 {i === 0 || day !== prevDay ? (
                   <div className="text-[10px] text-gray-500 text-center my-2 select-none">
                     {DATE_FMT.format(new Date(m.created_at))}
                   </div>
                 ) : null}
-                <div
-                  className={`flex ${mine ? "justify-end" : "justify-start"}`}
-                >
+                {m.system ? (
+                  <div className="flex justify-center">
+                    <SystemCardView
+                      m={m}
+                      card={m.system}
+                      version={latestSystemId || m.id}
+                    />
+                  </div>
+                ) : (
                   <div
-                    className={`max-w-[70%] rounded-2xl px-3 py-2 whitespace-pre-wrap break-words shadow-sm ${
-                      mine
-                        ? "bg-blue-600 text-white"
-                        : "bg-gray-800 text-gray-100"
+                    className={`group flex items-center gap-1 ${
+                      mine ? "justify-end" : "justify-start"
                     }`}
                   >
-                    {!mine && (
-                      <div className="text-[10px] opacity-90 mb-1">
-                        <Identity addr={m.sender} resolve={resolveIdentity} />
-                      </div>
-                    )}
-                    {m.message_type === "pin" && m.linkUrl ? (
-                      <PinPreviewCard m={m} mine={!!mine} />
-                    ) : m.content ? (
-                      <div className="leading-relaxed">{m.content}</div>
-                    ) : null}
-                    {hasAttachments && (
-                      <div className="mt-2 flex flex-wrap gap-2">
-                        {m.attachments!.map((uri, idx) => {
-                          const gateway = uri.startsWith("ipfs://")
-                            ? `https://ipfs.io/ipfs/${uri.replace(
-                                "ipfs://",
-                                ""
-                              )}`
-                            : uri;
-                          const linkId = `${m.id}-att-${idx}`;
-                          return (
-                            <div key={uri} className="relative">
-                              {/* eslint-disable-next-line @next/next/no-img-element */}
-                              <img
-                                src={gateway}
-                                alt="attachment"
-                                className="h-16 w-16 object-cover rounded border border-white/10 cursor-pointer hover:opacity-90 transition"
-                                onClick={() => setPreviewImage(gateway)}
-                                onError={(e) => {
-                                  const img =
-                                    e.currentTarget as HTMLImageElement;
-                                  img.style.display = "none";
-                                  const a = document.getElementById(linkId);
-                                  if (a) a.classList.remove("hidden");
-                                }}
-                              />
-                              <a
-                                id={linkId}
-                                href={gateway}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="hidden underline break-all text-[10px]"
-                              >
-                                {uri}
-                              </a>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    )}
-                    <div className="mt-1 text-[9px] opacity-60 text-right flex items-center gap-1 justify-end">
-                      {m.pending && (
-                        <span className="inline-flex items-center gap-1 text-yellow-300/80">
-                          <span className="w-2 h-2 rounded-full bg-yellow-400 animate-pulse" />
-                          sending
-                        </span>
+                    {mine && actionBar}
+                    <div
+                      className={`max-w-[70%] rounded-2xl px-3 py-2 whitespace-pre-wrap break-words shadow-sm transition-shadow ${
+                        mine
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-800 text-gray-100"
+                      } ${
+                        highlightId === m.id ? "ring-2 ring-yellow-300/70" : ""
+                      }`}
+                    >
+                      {!mine && (
+                        <div className="text-[10px] opacity-90 mb-1">
+                          <Identity addr={m.sender} resolve={resolveIdentity} />
+                        </div>
                       )}
-                      {m.failed && (
-                        <span className="inline-flex items-center gap-1 text-red-300">
-                          failed
-                        </span>
+                      {m.reply_to && !m.deleted_at && (
+                        <button
+                          type="button"
+                          onClick={() => m.reply_to && onJump(m.reply_to)}
+                          className="mb-1 block w-full text-left rounded-lg border-l-2 border-white/40 bg-black/20 px-2 py-1 text-[11px] hover:bg-black/30"
+                          aria-label="Jump to original message"
+                        >
+                          {parent ? (
+                            <>
+                              <span className="block text-[10px] opacity-80">
+                                <Identity
+                                  addr={parent.sender}
+                                  resolve={resolveIdentity}
+                                />
+                              </span>
+                              <span className="block truncate opacity-90">
+                                {replySnippet(parent)}
+                              </span>
+                            </>
+                          ) : (
+                            <span className="block italic opacity-70">
+                              Original message
+                            </span>
+                          )}
+                        </button>
                       )}
-                      <span>{TIME_FMT.format(new Date(m.created_at))}</span>
+                      {m.deleted_at ? (
+                        <div className="italic opacity-70">Message deleted</div>
+                      ) : m.message_type === "pin" && m.linkUrl ? (
+                        <PinPreviewCard
+                          m={m}
+                          mine={!!mine}
+                          onMakeOffer={actions?.onMakeOffer}
+                        />
+                      ) : m.message_type === "offer" && m.offer ? (
+                        <OfferCardView m={m} card={m.offer} />
+                      ) : m.content ? (
+                        <div className="leading-relaxed">{m.content}</div>
+                      ) : null}
+                      {hasAttachments && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {m.attachments!.map((uri, idx) => {
+                            if (isEncryptedAttachment(uri)) {
+                              return (
+                                <EncryptedAttachment
+                                  key={uri}
+                                  uri={uri}
+                                  onPreview={setPreviewImage}
+                                />
+                              );
+                            }
+                            const gateway = uri.startsWith("ipfs://")
+                              ? `https://ipfs.io/ipfs/${uri.replace(
+                                  "ipfs://",
+                                  ""
+                                )}`
+                              : uri;
+                            const linkId = `${m.id}-att-${idx}`;
+                            return (
+                              <div key={uri} className="relative">
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img
+                                  src={gateway}
+                                  alt="attachment"
+                                  className="h-16 w-16 object-cover rounded border border-white/10 cursor-pointer hover:opacity-90 transition"
+                                  onClick={() => setPreviewImage(gateway)}
+                                  onError={(e) => {
+                                    const img =
+                                      e.currentTarget as HTMLImageElement;
+                                    img.style.display = "none";
+                                    const a = document.getElementById(linkId);
+                                    if (a) a.classList.remove("hidden");
+                                  }}
+                                />
+                                <a
+                                  id={linkId}
+                                  href={gateway}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="hidden underline break-all text-[10px]"
+                                >
+                                  {uri}
+                                </a>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                      <div className="mt-1 text-[9px] opacity-60 text-right flex items-center gap-1 justify-end">
+                        {m.pending && (
+                          <span className="inline-flex items-center gap-1 text-yellow-300/80">
+                            <span className="w-2 h-2 rounded-full bg-yellow-400 animate-pulse" />
+                            sending
+                          </span>
+                        )}
+                        {m.failed && (
+                          <span className="inline-flex items-center gap-1 text-red-300">
+                            failed
+                          </span>
+                        )}
+                        {m.edited_at && !m.deleted_at && (
+                          <span
+                            title={`Edited ${DATE_FMT.format(
+                              new Date(m.edited_at)
+                            )} ${TIME_FMT.format(new Date(m.edited_at))}`}
+                          >
+                            edited
+                          </span>
+                        )}
+                        <span>{TIME_FMT.format(new Date(m.created_at))}</span>
+                        {mine &&
+                          !m.pending &&
+                          !m.failed &&
+                          (seenAt >= new Date(m.created_at).getTime() ? (
+                            <span title="Seen">
+                              <CheckCheck className="w-3 h-3 text-sky-300" />
+                            </span>
+                          ) : (
+                            <span title="Sent">
+                              <Check className="w-3 h-3" />
+                            </span>
+                          ))}
+                      </div>
                     </div>
+                    {!mine && actionBar}
                   </div>
-                </div>
+                )}
+                {reactions.length > 0 && (
+                  <div
+                    className={`mt-1 flex flex-wrap gap-1 ${
+                      mine ? "justify-end" : "justify-start"
+                    }`}
+                  >
+                    {reactions.map(([emoji, who]) => {
+                      const reacted = !!me && who.includes(me.toLowerCase());
+                      return (
+                        <button
+                          key={emoji}
+                          type="button"
+                          disabled={!canAct}
+                          onClick={() => actions?.onReact(m, emoji)}
+                          title={`${who.length} reaction${
+                            who.length === 1 ? "" : "s"
+                          }`}
+                          className={`inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-[11px] disabled:cursor-default ${
+                            reacted
+                              ? "border-blue-500/60 bg-blue-500/15 text-blue-200"
+                              : "border-white/10 bg-white/5 text-gray-300"
+                          }`}
+                        >
+                          <span>{emoji}</span>
+                          <span>{who.length}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -259,34 +611,51 @@ export function Chat({
   useEffect(() => {
     let unsub: (() => void) | null = null;
     setLoading(true);
+    setMessages([]);
+    setHasOlder(false);
     provider
       .load()
-      .then((initial) => {
-        const arr = Array.isArray(initial) ? initial : [];
-        setMessages(arr);
-        onMessagesRef.current?.(arr);
+      .then((page) => {
+        setMessages((prev) => {
+          // Keep anything that arrived via subscribe while the page was loading
+          const ids = new Set(page.messages.map((m) => m.id));
+          const merged = [
+            ...page.messages,
+            ...prev.filter((m) => !ids.has(m.id)),
+          ];
+          onMessagesRef.current?.(merged);
+          return merged;
+        });
+        setHasOlder(page.hasMore);
       })
       .finally(() => setLoading(false));
-    unsub = provider.subscribe((msgs) => {
-      const incoming = Array.isArray(msgs) ? msgs : [];
+    unsub = provider.subscribe((incoming) => {
+      // Revoke any temp object URLs once the server copy of a message arrives
+      const urls = tempObjectURLsRef.current.get(incoming.id);
+      if (urls && urls.length) {
+        urls.forEach((u) => {
+          try {
+            if (u.startsWith("blob:")) URL.revokeObjectURL(u);
+          } catch {}
+        });
+        tempObjectURLsRef.current.delete(incoming.id);
+      }
       setMessages((prev) => {
-        const serverIds = new Set(incoming.map((m) => m.id));
-        // Revoke any temp object URLs for messages that arrived from server
-        for (const id of serverIds) {
-          const urls = tempObjectURLsRef.current.get(id);
-          if (urls && urls.length) {
-            urls.forEach((u) => {
-              try {
-                if (u.startsWith("blob:")) URL.revokeObjectURL(u);
-              } catch {}
-            });
-            tempObjectURLsRef.current.delete(id);
-          }
-        }
-        const keepOptimistic = prev.filter(
-          (m) => (m.pending || m.failed) && !serverIds.has(m.id)
-        );
-        const merged = [...incoming, ...keepOptimistic];
+        const idx = prev.findIndex((m) => m.id === incoming.id);
+        const oldest = prev.find((m) => m.seq !== undefined)?.seq;
+        // Ignore updates to messages on pages that have not been loaded
+        if (
+          idx < 0 &&
+          incoming.seq !== undefined &&
+          oldest !== undefined &&
+          incoming.seq < oldest
+        )
+          return prev;
+        // Replace the optimistic or outdated copy in place, otherwise append
+        const merged =
+          idx >= 0
+            ? prev.map((m, i) => (i === idx ? incoming : m))
+            : [...prev, incoming];
         onMessagesRef.current?.(merged);
         return merged;
       });
@@ -307,9 +676,139 @@ export function Chat({
     };
   }, [provider]);
 
+  // Follow new messages at the bottom (not when older pages are prepended)
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]);
+  }, [lastMessageId]);
+
+  async function loadOlder() {
+    const first = messages.find((m) => m.seq !== undefined);
+    if (!first || loadingOlder) return;
+    setLoadingOlder(true);
+    const el = scrollerRef.current;
+    const fromBottom = el ? el.scrollHeight - el.scrollTop : 0;
+    try {
+      const page = await provider.loadOlder(first);
+      setMessages((prev) => {
+        const ids = new Set(prev.map((m) => m.id));
+        const merged = [
+          ...page.messages.filter((m) => !ids.has(m.id)),
+          ...prev,
+        ];
+        onMessagesRef.current?.(merged);
+        return merged;
+      });
+      setHasOlder(page.hasMore);
+      // Keep the viewport anchored on the message that was at the top
+      requestAnimationFrame(() => {
+        if (el) el.scrollTop = el.scrollHeight - fromBottom;
+      });
+    } catch {
+    } finally {
+      setLoadingOlder(false);
+    }
+  }
+
+  // Online/typing signals for participants who can post (ephemeral, not stored)
+  useEffect(() => {
+    setPresence({ online: [], typing: [], lastSeen: {} });
+    if (!me || !canSend || !provider.joinPresence) return;
+    const handle = provider.joinPresence(me, setPresence);
+    presenceRef.current = handle;
+    return () => {
+      handle.leave();
+      presenceRef.current = null;
+    };
+  }, [provider, me, canSend]);
+
+  function presenceLabel(wallet: string) {
+    if (presence.typing.includes(wallet)) return "typing…";
+    if (presence.online.includes(wallet)) return "online";
+    const seen = presence.lastSeen[wallet];
+    return seen ? `last seen ${timeAgo(Math.floor(seen / 1000))}` : null;
+  }
+
+  // Scroll to (and briefly highlight) the original of a reply, paging back if needed
+  async function jumpToMessage(id: string) {
+    let found = messages.some((m) => m.id === id);
+    if (!found && hasOlder) {
+      setLoadingOlder(true);
+      try {
+        const older: ChatMessage[] = [];
+        let cursor = messages.find((m) => m.seq !== undefined);
+        let more = true;
+        for (let i = 0; i < 10 && cursor && more && !found; i++) {
+          const page = await provider.loadOlder(cursor);
+          older.unshift(...page.messages);
+          more = page.hasMore;
+          cursor = page.messages[0];
+          found = page.messages.some((m) => m.id === id);
+        }
+        setMessages((prev) => {
+          const ids = new Set(prev.map((m) => m.id));
+          const merged = [...older.filter((m) => !ids.has(m.id)), ...prev];
+          onMessagesRef.current?.(merged);
+          return merged;
+        });
+        setHasOlder(more);
+      } catch {
+      } finally {
+        setLoadingOlder(false);
+      }
+    }
+    if (!found) {
+      toast.showInfo("Original message is not available");
+      return;
+    }
+    setHighlightId(id);
+  }
+
+  // Open at a specific message (e.g. from search) once the first page is in
+  const focusedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusMessageId || loading || !messages.length) return;
+    if (focusedRef.current === focusMessageId) return;
+    focusedRef.current = focusMessageId;
+    void jumpToMessage(focusMessageId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusMessageId, loading, messages.length]);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    document
+      .getElementById(`chat-msg-${highlightId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const t = setTimeout(() => setHighlightId(null), 1600);
+    return () => clearTimeout(t);
+  }, [highlightId]);
+
+  useEffect(() => {
+    setCursors({});
+    if (!conversationKey) return;
+    return subscribeReadCursors(conversationKey, setCursors);
+  }, [conversationKey]);
+
+  // Advance my read cursor to the newest persisted message while the tab is visible
+  useEffect(() => {
+    if (!conversationKey || !me) return;
+    const latest = messages.reduce<string | null>(
+      (max, m) =>
+        !m.pending && !m.failed && (!max || m.created_at > max)
+          ? m.created_at
+          : max,
+      null
+    );
+    if (!latest) return;
+    const markRead = () => {
+      if (document.visibilityState !== "visible") return;
+      if ((cursors[me] || 0) >= new Date(latest).getTime()) return;
+      markConversationRead(conversationKey, me, latest).catch(() => {});
+    };
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [conversationKey, me, messages, cursors]);
 
   // Lock body scroll while the chat is open to avoid background scroll/gaps (modal only)
   useEffect(() => {
@@ -392,11 +891,25 @@ export function Chat({
   //   }, [text]);
 
   async function handleSend() {
+    if (editing) return saveEdit();
     if (!address) return;
     const trimmed = text.trim();
     if (!trimmed && files.length === 0) return;
     if (sending) return;
+    const sealed = encrypt && files.length > 0;
+    if (sealed && !chatKeys.unlocked) {
+      try {
+        await chatKeys.unlock();
+      } catch (e) {
+        toast.showError(
+          "Encryption locked",
+          e instanceof Error ? e.message : "Could not unlock encryption keys"
+        );
+        return;
+      }
+    }
     setSending(true);
+    presenceRef.current?.setTyping(false);
     const clientId =
       (globalThis.crypto && "randomUUID" in globalThis.crypto
         ? globalThis.crypto.randomUUID()
@@ -422,17 +935,31 @@ export function Chat({
           : optimisticAttachmentUrls.length
           ? "image"
           : "text",
+      reply_to: replyingTo?.id,
       pending: true,
     } as ChatMessage;
     setMessages((prev) => [...prev, optimistic]);
     try {
       await provider.send(
-        { text: trimmed, files, clientId },
+        {
+          text: trimmed,
+          files,
+          clientId,
+          replyTo: replyingTo?.id,
+          encrypt: sealed,
+        },
         { sender: address }
       );
       setText("");
       setFiles([]);
-    } catch {
+      setReplyingTo(null);
+    } catch (e) {
+      if (sealed) {
+        toast.showError(
+          "Encrypted upload failed",
+          e instanceof Error ? e.message : "Could not encrypt attachments"
+        );
+      }
       // Mark optimistic message as failed
       setMessages((prev) =>
         prev.map((m) =>
@@ -446,6 +973,148 @@ export function Chat({
     }
   }
 
+  // Swap a message locally; returns the previous copy for rollback
+  function patchMessage(id: string, patch: (m: ChatMessage) => ChatMessage) {
+    let before: ChatMessage | undefined;
+    setMessages((prev) => {
+      const merged = prev.map((m) => {
+        if (m.id !== id) return m;
+        before = m;
+        return patch(m);
+      });
+      onMessagesRef.current?.(merged);
+      return merged;
+    });
+    return () => {
+      if (before) {
+        const original = before;
+        patchMessage(id, () => original);
+      }
+    };
+  }
+
+  function startReply(m: ChatMessage) {
+    if (editing) cancelEdit();
+    setReplyingTo(m);
+    setTimeout(() => textareaRef.current?.focus(), 0);
+  }
+
+  function startEdit(m: ChatMessage) {
+    setReplyingTo(null);
+    setEditing(m);
+    setText(m.content || "");
+    setFiles([]);
+    setTimeout(() => textareaRef.current?.focus(), 0);
+  }
+
+  function cancelEdit() {
+    setEditing(null);
+    setText("");
+  }
+
+  async function saveEdit() {
+    if (!editing || sending) return;
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    const target = editing;
+    if (trimmed === (target.content || "")) return cancelEdit();
+    setSending(true);
+    const rollback = patchMessage(target.id, (m) => ({
+      ...m,
+      content: trimmed,
+      edited_at: new Date().toISOString(),
+    }));
+    try {
+      await provider.edit(target.id, trimmed);
+      cancelEdit();
+    } catch (err) {
+      rollback();
+      toast.showError(
+        "Could not edit message",
+        err instanceof Error ? err.message : undefined
+      );
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function deleteMessage(target: ChatMessage) {
+    setConfirmDelete(null);
+    if (editing?.id === target.id) cancelEdit();
+    const rollback = patchMessage(target.id, (m) => ({
+      ...m,
+      content: undefined,
+      attachments: undefined,
+      reactions: undefined,
+      deleted_at: new Date().toISOString(),
+    }));
+    try {
+      await provider.remove(target.id);
+    } catch (err) {
+      rollback();
+      toast.showError(
+        "Could not delete message",
+        err instanceof Error ? err.message : undefined
+      );
+    }
+  }
+
+  async function toggleReaction(target: ChatMessage, emoji: string) {
+    if (!me) return;
+    const rollback = patchMessage(target.id, (m) => withReaction(m, emoji, me));
+    try {
+      await provider.toggleReaction(target.id, emoji);
+    } catch (err) {
+      rollback();
+      toast.showError(
+        "Could not update reaction",
+        err instanceof Error ? err.message : undefined
+      );
+    }
+  }
+
+  const messageActions: MessageActions | undefined =
+    canSend && me
+      ? {
+          onReply: startReply,
+          onEdit: startEdit,
+          onDelete: setConfirmDelete,
+          onReact: toggleReaction,
+          onMakeOffer: (listingId, title) => setOfferFor({ listingId, title }),
+        }
+      : undefined;
+
+  // Post an offer made from a pinned listing as a card in this conversation
+  async function postOfferCard(card: OfferCard, summary: string) {
+    if (!address) return;
+    const clientId =
+      (globalThis.crypto && "randomUUID" in globalThis.crypto
+        ? globalThis.crypto.randomUUID()
+        : `${Date.now()}-${Math.random()}`) + "-client";
+    const optimistic: ChatMessage = {
+      id: clientId,
+      sender: address.toLowerCase(),
+      content: summary,
+      created_at: new Date().toISOString(),
+      message_type: "offer",
+      offer: card,
+      pending: true,
+    } as ChatMessage;
+    setMessages((prev) => [...prev, optimistic]);
+    try {
+      await provider.send(
+        { text: summary, offer: card, clientId },
+        { sender: address }
+      );
+    } catch {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === clientId ? { ...m, pending: false, failed: true } : m
+        )
+      );
+    }
+  }
+
   async function openPinModal() {
     if (!address || !contract) return;
     setPinOpen(true);
@@ -570,7 +1239,15 @@ export function Chat({
     return { kind, id };
   }
 
-  function PinPreviewCard({ m, mine }: { m: ChatMessage; mine: boolean }) {
+  function PinPreviewCard({
+    m,
+    mine,
+    onMakeOffer,
+  }: {
+    m: ChatMessage;
+    mine: boolean;
+    onMakeOffer?: (listingId: string, title?: string) => void;
+  }) {
     const [data, setData] = useState<PinListItem | null>(null);
     const [loadingMeta, setLoadingMeta] = useState(true);
 
@@ -713,6 +1390,204 @@ export function Chat({
             </div>
           </div>
         </Link>
+        {!mine && onMakeOffer && parsePin(m) && (
+          <div className="border-t border-white/10 px-2 py-1.5 flex justify-end">
+            <button
+              type="button"
+              onClick={() =>
+                onMakeOffer(
+                  parsePin(m)!.id,
+                  data?.title || m.linkTitle || undefined
+                )
+              }
+              className="rounded-md bg-blue-600 px-2.5 py-1 text-[11px] font-medium text-white hover:bg-blue-700"
+            >
+              Make offer
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // The card's meta is written by the sender, so the amount shown is always the
+  // on-chain offer's; a card that disagrees with it is flagged instead
+  function OfferCardView({ m, card }: { m: ChatMessage; card: OfferCard }) {
+    const [onchain, setOnchain] = useState<{
+      offer: Offer;
+      decimals: number;
+    } | null>(null);
+    const [failed, setFailed] = useState(false);
+    const otherChain = !!card.chainId && !!chain && card.chainId !== chain.id;
+
+    useEffect(() => {
+      if (!contract || otherChain || !/^[0-9]+$/.test(card.offerId)) return;
+      let cancelled = false;
+      (async () => {
+        try {
+          const offer = await contract.getOffer(BigInt(card.offerId));
+          const decimals = await contract.getTokenDecimals(offer.paymentToken);
+          if (!cancelled) setOnchain({ offer, decimals });
+        } catch {
+          if (!cancelled) setFailed(true);
+        }
+      })();
+      return () => {
+        cancelled = true;
+      };
+    }, [card.offerId, otherChain]);
+
+    const offer = onchain?.offer;
+    const mismatch =
+      !!offer &&
+      (offer.proposer.toLowerCase() !== m.sender.toLowerCase() ||
+        offer.listingId.toString() !== card.listingId ||
+        offer.amount.toString() !== card.amount ||
+        offer.paymentToken.toLowerCase() !== card.paymentToken.toLowerCase());
+    const txUrl = getExplorerTxUrl(card.txHash, {
+      chainId: card.chainId,
+      chain: chain && chain.id === card.chainId ? chain : undefined,
+    });
+    return (
+      <div
+        className={`rounded-lg border p-2 space-y-1 ${
+          mismatch
+            ? "border-red-500/40 bg-red-500/5"
+            : "border-white/10 bg-black/20"
+        }`}
+      >
+        <div className="text-[10px] uppercase tracking-wide opacity-70">
+          Offer #{card.offerId}
+        </div>
+        {mismatch ? (
+          <div className="flex items-start gap-1 text-[11px] text-red-300">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            This card does not match the on-chain offer. Check the offer page
+            before acting on it.
+          </div>
+        ) : offer ? (
+          <div className="text-sm font-semibold">
+            {formatTokenAmountWithSymbol(offer.amount, offer.paymentToken, {
+              tokens: tokenAddresses,
+              decimals: onchain.decimals,
+              maxFractionDigits: 6,
+            })}
+          </div>
+        ) : otherChain || failed ? (
+          <div className="text-[11px] opacity-70">
+            {otherChain
+              ? "Switch to the offer's network to see its amount."
+              : "Could not load the offer amount."}
+          </div>
+        ) : (
+          <div className="h-4 bg-white/10 rounded w-1/3" />
+        )}
+        {m.content && <div className="text-[11px] opacity-80">{m.content}</div>}
+        <div className="flex flex-wrap items-center gap-3 text-[11px]">
+          <Link href={`/offers/${card.offerId}`} className="underline">
+            Open offer
+          </Link>
+          {txUrl && (
+            <a
+              href={txUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 underline"
+            >
+              Transaction <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  function SystemCardView({
+    m,
+    card,
+    version,
+  }: {
+    m: ChatMessage;
+    card: SystemCard;
+    version: string;
+  }) {
+    const [escrow, setEscrow] = useState<Escrow | null>(null);
+
+    useEffect(() => {
+      if (!contract) return;
+      let cancelled = false;
+      const key = `${card.offerId}:${version}`;
+      let pending = escrowCacheRef.current.get(key);
+      if (!pending) {
+        pending = contract.getEscrow(BigInt(card.offerId), { force: true });
+        escrowCacheRef.current.set(key, pending);
+      }
+      pending
+        .then((e) => {
+          if (!cancelled) setEscrow(e);
+        })
+        .catch(() => {});
+      return () => {
+        cancelled = true;
+      };
+    }, [card.offerId, version]);
+
+    const txUrl = getExplorerTxUrl(card.txHash, {
+      chainId: card.chainId,
+      chain: chain && chain.id === card.chainId ? chain : undefined,
+    });
+    const danger =
+      card.event === "dispute_opened" ||
+      escrow?.status === EscrowStatus.DISPUTED;
+    return (
+      <div
+        className={`w-full max-w-sm rounded-lg border px-3 py-2 text-[11px] ${
+          danger
+            ? "border-red-500/30 bg-red-500/5"
+            : "border-white/10 bg-white/5"
+        }`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium text-gray-100">
+            {SYSTEM_CARD_TITLES[card.event]}
+          </span>
+          <span className="text-[10px] text-gray-500">
+            {TIME_FMT.format(new Date(m.created_at))}
+          </span>
+        </div>
+        {card.actor && (
+          <div className="mt-1 flex items-center gap-1 text-gray-400">
+            by <Identity addr={card.actor} resolve={resolveIdentity} />
+          </div>
+        )}
+        {card.event === "dispute_resolved" && card.outcome !== undefined && (
+          <div className="mt-1 text-gray-300">
+            Outcome:{" "}
+            {OUTCOME_LABELS[card.outcome as DisputeOutcome] ?? card.outcome}
+          </div>
+        )}
+        <div className="mt-1.5 flex flex-wrap items-center gap-2 text-[10px] text-gray-300">
+          <span className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700">
+            Escrow:{" "}
+            {escrow ? ESCROW_STATUS_LABELS[escrow.status] ?? "Unknown" : "…"}
+          </span>
+          {escrow?.status === EscrowStatus.IN_PROGRESS && (
+            <span className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700">
+              Client {escrow.clientValidated ? "✓" : "–"} · Provider{" "}
+              {escrow.providerValidated ? "✓" : "–"}
+            </span>
+          )}
+          {txUrl && (
+            <a
+              href={txUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-blue-300 hover:text-blue-200"
+            >
+              View transaction <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
       </div>
     );
   }
@@ -775,9 +1650,9 @@ export function Chat({
             {/* Header identity: only the name navigates to profile (avatar stays non-clickable) */}
             {(() => {
               const me = address?.toLowerCase();
-              const other = messages.find((m) =>
-                me ? m.sender !== me : true
-              )?.sender;
+              const other =
+                messages.find((m) => !m.system && (me ? m.sender !== me : true))
+                  ?.sender || presence.online.find((w) => w !== me);
               if (!other) return null;
               const lower = other.toLowerCase();
               const p = resolveIdentity(lower);
@@ -786,6 +1661,7 @@ export function Chat({
                 : null;
               const hasUsername = !!p?.username;
               const display = hasUsername ? `@${p?.username}` : "User";
+              const status = presenceLabel(lower);
               return (
                 <span className="inline-flex items-center gap-1.5 group/avatar max-w-[200px]">
                   {avatarUrl ? (
@@ -825,6 +1701,20 @@ export function Chat({
                   >
                     {display}
                   </span>
+                  {status && (
+                    <span
+                      className={`inline-flex items-center gap-1 text-[10px] whitespace-nowrap ${
+                        status === "online" || status === "typing…"
+                          ? "text-green-400"
+                          : "text-gray-500"
+                      }`}
+                    >
+                      {status === "online" && (
+                        <span className="w-1.5 h-1.5 rounded-full bg-green-400" />
+                      )}
+                      {status}
+                    </span>
+                  )}
                 </span>
               );
             })()}
@@ -840,7 +1730,33 @@ export function Chat({
         className="flex-1 overflow-y-auto p-3 sm:p-4 thin-blue-scrollbar [padding-bottom:env(safe-area-inset-bottom)]"
       >
         <div className="space-y-2 text-xs">
-          <MessagesView items={messages} me={address} />
+          {hasOlder && (
+            <div className="flex justify-center">
+              <button
+                onClick={loadOlder}
+                disabled={loadingOlder}
+                className="rounded-full border border-white/10 px-3 py-1 text-[11px] text-gray-400 hover:bg-white/5 hover:text-gray-200 disabled:opacity-50"
+              >
+                {loadingOlder ? "Loading…" : "Load older messages"}
+              </button>
+            </div>
+          )}
+          <MessagesView
+            items={messages}
+            me={address}
+            seenAt={seenAt}
+            actions={messageActions}
+            highlightId={highlightId}
+            onJump={jumpToMessage}
+          />
+          {presence.typing.length > 0 && (
+            <div className="flex justify-start">
+              <div className="inline-flex items-center gap-2 rounded-2xl bg-gray-800/70 px-3 py-1.5 text-[11px] text-gray-300">
+                <Identity addr={presence.typing[0]} resolve={resolveIdentity} />
+                <span className="italic">typing…</span>
+              </div>
+            </div>
+          )}
           <div ref={bottomRef} className="h-0" />
         </div>
       </div>
@@ -858,12 +1774,49 @@ export function Chat({
               handleSend();
             }}
           >
+            {replyingTo && !editing && (
+              <div className="flex items-center gap-2 px-1 text-[11px] text-gray-400 min-w-0">
+                <Reply className="w-3 h-3 flex-shrink-0" />
+                <span className="flex-shrink-0">Replying to</span>
+                <span className="truncate text-gray-300">
+                  {replySnippet(replyingTo)}
+                </span>
+                <span>·</span>
+                <button
+                  type="button"
+                  onClick={() => setReplyingTo(null)}
+                  className="text-blue-400 hover:text-blue-300 flex-shrink-0"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+            {editing && (
+              <div className="flex items-center gap-2 px-1 text-[11px] text-gray-400">
+                <Pencil className="w-3 h-3" />
+                <span>Editing message</span>
+                <span>·</span>
+                <button
+                  type="button"
+                  onClick={cancelEdit}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+            <ChatKeyRecovery />
             <div className="flex gap-2 items-end py-2">
               <div className="flex-1 flex items-center gap-1 rounded-xl border border-gray-800 bg-gray-900/70 px-2">
                 <textarea
                   ref={textareaRef}
                   value={text}
-                  onChange={(e) => setText(e.target.value)}
+                  onChange={(e) => {
+                    setText(e.target.value);
+                    if (!editing) {
+                      presenceRef.current?.setTyping(!!e.target.value.trim());
+                    }
+                  }}
                   onFocus={() => {
                     // Keep composer snug to keyboard and view latest messages
                     bottomRef.current?.scrollIntoView({
@@ -872,6 +1825,12 @@ export function Chat({
                     });
                   }}
                   onKeyDown={(e) => {
+                    if (e.key === "Escape" && (editing || replyingTo)) {
+                      e.preventDefault();
+                      if (editing) cancelEdit();
+                      else setReplyingTo(null);
+                      return;
+                    }
                     if (e.key !== "Enter") return;
                     const isCoarse = isCoarsePointerRef.current;
                     if (!isCoarse && !e.shiftKey) {
@@ -891,38 +1850,69 @@ export function Chat({
                   // Use a neutral hint; we handle Enter behavior ourselves
                   enterKeyHint="done"
                 />
-                <input
-                  id="chat-file-input"
-                  type="file"
-                  multiple
-                  onChange={(e) => setFiles(Array.from(e.target.files || []))}
-                  className="hidden"
-                  accept="image/*"
-                />
-                <button
-                  type="button"
-                  onMouseDown={(e) => e.preventDefault()}
-                  onPointerDown={(e) => e.preventDefault()}
-                  onTouchStart={(e) => e.preventDefault()}
-                  onClick={() =>
-                    document.getElementById("chat-file-input")?.click()
-                  }
-                  className="text-gray-400 hover:text-white p-1"
-                  aria-label="Attach images"
-                >
-                  <Paperclip className="w-4 h-4" />
-                </button>
-                <button
-                  type="button"
-                  onMouseDown={(e) => e.preventDefault()}
-                  onPointerDown={(e) => e.preventDefault()}
-                  onTouchStart={(e) => e.preventDefault()}
-                  onClick={openPinModal}
-                  className="text-gray-400 hover:text-white p-1"
-                  aria-label="Pin listing"
-                >
-                  <PinIcon className="w-4 h-4" />
-                </button>
+                {!editing && (
+                  <>
+                    <input
+                      id="chat-file-input"
+                      type="file"
+                      multiple
+                      onChange={(e) =>
+                        setFiles(Array.from(e.target.files || []))
+                      }
+                      className="hidden"
+                      accept={encrypt ? undefined : "image/*"}
+                    />
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onPointerDown={(e) => e.preventDefault()}
+                      onTouchStart={(e) => e.preventDefault()}
+                      onClick={() =>
+                        document.getElementById("chat-file-input")?.click()
+                      }
+                      className="text-gray-400 hover:text-white p-1"
+                      aria-label="Attach images"
+                    >
+                      <Paperclip className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onPointerDown={(e) => e.preventDefault()}
+                      onTouchStart={(e) => e.preventDefault()}
+                      onClick={() => setEncrypt((v) => !v)}
+                      className={
+                        encrypt
+                          ? "text-emerald-400 hover:text-emerald-300 p-1"
+                          : "text-gray-400 hover:text-white p-1"
+                      }
+                      aria-label="Encrypt attachments"
+                      aria-pressed={encrypt}
+                      title={
+                        encrypt
+                          ? "Attachments are encrypted to this conversation"
+                          : "Attachments are public on IPFS"
+                      }
+                    >
+                      {encrypt ? (
+                        <Lock className="w-4 h-4" />
+                      ) : (
+                        <LockOpen className="w-4 h-4" />
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onPointerDown={(e) => e.preventDefault()}
+                      onTouchStart={(e) => e.preventDefault()}
+                      onClick={openPinModal}
+                      className="text-gray-400 hover:text-white p-1"
+                      aria-label="Pin listing"
+                    >
+                      <PinIcon className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
                 <button
                   type="submit"
                   disabled={sending || (!text.trim() && files.length === 0)}
@@ -968,6 +1958,25 @@ export function Chat({
         </div>
       )}
 
+      {offerFor && (
+        <MakeOfferForm
+          listingId={offerFor.listingId}
+          title={offerFor.title}
+          onClose={() => setOfferFor(null)}
+          onCreated={postOfferCard}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!confirmDelete}
+        title="Delete message?"
+        message="The message will be replaced with a deleted marker for everyone in the conversation."
+        confirmText="Delete"
+        danger
+        onConfirm={() => confirmDelete && deleteMessage(confirmDelete)}
+        onCancel={() => setConfirmDelete(null)}
+      />
+
       {previewImage && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
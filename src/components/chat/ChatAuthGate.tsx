@@ -0,0 +1,55 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useAccount } from "wagmi";
+import { ShieldCheck } from "lucide-react";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { useToastContext } from "@/components/providers";
+
+// Chats are only readable/writable with a wallet session (see supabase-wallet-auth.sql).
+// Renders children once signed in; without a connected wallet the children handle it.
+// Other wallet-scoped pages reuse it with their own wording.
+export function ChatAuthGate({
+  children,
+  title = "Verify your wallet to chat",
+  description = "Messages are only visible to the conversation's participants.",
+}: {
+  children: ReactNode;
+  title?: string;
+  description?: string;
+}) {
+  const { address } = useAccount();
+  const { session, signingIn, signIn } = useWalletSession();
+  const toast = useToastContext();
+
+  if (!address || session) return <>{children}</>;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-gradient-to-b from-gray-950/70 to-gray-900/40 p-6 text-center space-y-3">
+      <div className="mx-auto h-10 w-10 rounded-full bg-white/5 flex items-center justify-center">
+        <ShieldCheck className="h-5 w-5 text-blue-400" />
+      </div>
+      <div className="text-sm text-gray-200">{title}</div>
+      <div className="text-xs text-gray-500">
+        Sign a message to prove you own this wallet. {description} Signing is
+        free and sends no transaction.
+      </div>
+      <button
+        onClick={async () => {
+          try {
+            await signIn();
+          } catch (e) {
+            toast.showError(
+              "Sign-in failed",
+              e instanceof Error ? e.message : "Please try again"
+            );
+          }
+        }}
+        disabled={signingIn}
+        className="rounded-lg bg-blue-600 px-4 py-2 text-xs font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+      >
+        {signingIn ? "Waiting for signature…" : "Sign in with wallet"}
+      </button>
+    </div>
+  );
+}
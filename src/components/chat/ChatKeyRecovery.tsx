@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, RefreshCcw } from "lucide-react";
+import { useToastContext } from "@/components/providers";
+import { useChatKeys } from "@/hooks/useChatKeys";
+import { useWalletSession } from "@/hooks/useWalletSession";
+
+// Shown when the wallet can't open its chat key bundle (its signature changed, or the key
+// was set up on another site). The only way back is a new key; files sealed for the old
+// one are shared again by the other participants.
+export function ChatKeyRecovery() {
+  const toast = useToastContext();
+  const { session, signIn } = useWalletSession();
+  const { lost, unlocking, reset } = useChatKeys();
+  const [confirming, setConfirming] = useState(false);
+
+  if (!lost) return null;
+
+  const handleReset = async () => {
+    try {
+      if (!session) await signIn();
+      await reset();
+      setConfirming(false);
+      toast.showSuccess(
+        "New chat key created",
+        "Earlier encrypted files open again once the other participants share them with you"
+      );
+    } catch (e) {
+      toast.showError(
+        "Could not create a new key",
+        e instanceof Error ? e.message : undefined
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 text-[11px] text-yellow-300 border border-yellow-900 rounded p-2">
+      <span className="inline-flex items-center gap-1.5">
+        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+        {confirming
+          ? "Encrypted files sent to your old key stay locked until someone shares them again. Continue?"
+          : "Your chat encryption key can't be unlocked with this wallet's signature."}
+      </span>
+      <div className="flex gap-2">
+        {confirming && (
+          <button
+            onClick={() => setConfirming(false)}
+            className="text-xs px-2.5 py-1 rounded border border-white/10 text-gray-300"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={() => (confirming ? handleReset() : setConfirming(true))}
+          disabled={unlocking}
+          className="inline-flex items-center gap-1 text-xs px-2.5 py-1 rounded bg-yellow-600 hover:bg-yellow-700 text-white disabled:opacity-50"
+        >
+          {unlocking && <RefreshCcw className="w-3 h-3 animate-spin" />}
+          {confirming ? "Create new key" : "Reset key"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { FileText, Lock, RefreshCcw } from "lucide-react";
+import { decryptAttachment } from "@/lib/chatCrypto";
+import { useChatKeys } from "@/hooks/useChatKeys";
+
+// Preview tile for an enc+ipfs:// attachment: decrypts in the browser once keys are unlocked
+export function EncryptedAttachment({
+  uri,
+  onPreview,
+}: {
+  uri: string;
+  onPreview?: (url: string) => void;
+}) {
+  const { address } = useAccount();
+  const { unlocked, unlocking, unlock } = useChatKeys();
+  const [file, setFile] = useState<{
+    url: string;
+    name?: string;
+    image: boolean;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!unlocked || !address) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setError(null);
+    decryptAttachment(uri, address)
+      .then((d) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(d.blob);
+        setFile({
+          url,
+          name: d.name,
+          image: !!d.mimeType?.startsWith("image/"),
+        });
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [uri, address, unlocked]);
+
+  if (file?.image) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={file.url}
+        alt={file.name || "attachment"}
+        title={file.name}
+        className="h-16 w-16 object-cover rounded border border-white/10 cursor-pointer hover:opacity-90 transition"
+        onClick={() => onPreview?.(file.url)}
+      />
+    );
+  }
+  if (file) {
+    return (
+      <a
+        href={file.url}
+        download={file.name || "attachment"}
+        className="flex h-16 w-28 flex-col items-center justify-center gap-1 rounded border border-white/10 bg-black/20 px-1 text-[10px] text-gray-200 hover:bg-black/30"
+      >
+        <FileText className="w-4 h-4" />
+        <span className="w-full truncate text-center">
+          {file.name || "Download"}
+        </span>
+      </a>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={() =>
+        unlock().catch((e) =>
+          setError(e instanceof Error ? e.message : String(e))
+        )
+      }
+      disabled={unlocked || unlocking}
+      title={error || "Encrypted attachment"}
+      className="flex h-16 w-16 flex-col items-center justify-center gap-1 rounded border border-white/10 bg-black/20 px-1 text-[10px] text-gray-300 hover:bg-black/30 disabled:cursor-default"
+    >
+      {unlocking || (unlocked && !error) ? (
+        <RefreshCcw className="w-4 h-4 animate-spin" />
+      ) : (
+        <Lock className="w-4 h-4" />
+      )}
+      <span className="leading-tight">
+        {!unlocked ? "Unlock" : error ? "No access" : "Decrypting"}
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import { RefreshCcw } from "lucide-react";
+import { getTokenAddresses } from "@/lib/contract";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { useToastContext } from "@/components/providers";
+import { createReceiptNotifier } from "@/lib/txReceipt";
+import { OFFER_EXPIRY_OPTIONS, expiryFromDays } from "@/lib/offerExpiry";
+import { extractTxHash, knownDecimalsFor } from "@/lib/utils";
+import { ListingType, type Listing } from "@/types/marketplace";
+import type { OfferCard } from "./types";
+
+type TokenSymbol = "ETH" | "DOP" | "USDC";
+
+// Offer form for a listing pinned in chat; mirrors the gig/brief page offer forms
+export function MakeOfferForm({
+  listingId,
+  title,
+  onClose,
+  onCreated,
+}: {
+  listingId: string;
+  title?: string;
+  onClose: () => void;
+  onCreated: (card: OfferCard, summary: string) => void;
+}) {
+  const { address, chain } = useAccount();
+  const { contract } = useMarketplaceContract();
+  const { session, signIn } = useWalletSession();
+  const toast = useToastContext();
+  const notifyReceipt = useMemo(
+    () => createReceiptNotifier(toast, { chain }),
+    [toast, chain]
+  );
+  const chainId = chain?.id ?? 11124;
+  const tokenAddresses = useMemo(() => getTokenAddresses(chainId), [chainId]);
+  const [listing, setListing] = useState<Listing | null>(null);
+  const [amount, setAmount] = useState("");
+  const [token, setToken] = useState<TokenSymbol>("ETH");
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!contract) return;
+    let cancelled = false;
+    contract
+      .getListing(BigInt(listingId))
+      .then((l) => {
+        if (!cancelled) setListing(l);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, listingId]);
+
+  const isGig = listing?.listingType === ListingType.GIG;
+  const ownListing =
+    !!listing &&
+    !!address &&
+    listing.creator.toLowerCase() === address.toLowerCase();
+  const blocker = !listing
+    ? null
+    : !listing.active
+    ? "This listing is no longer active."
+    : ownListing
+    ? "You cannot make an offer on your own listing."
+    : null;
+
+  async function submit() {
+    if (!contract || !listing || blocker || submitting) return;
+    if (!amount || Number(amount) <= 0) {
+      toast.showError("Invalid amount", "Please enter a valid offer amount");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      let paymentToken = ethers.ZeroAddress as string;
+      if (token === "DOP") {
+        paymentToken = tokenAddresses.DOP || (await contract.getDopToken());
+      } else if (token === "USDC") {
+        paymentToken = tokenAddresses.USDC || (await contract.getUsdcToken());
+      }
+      if (!paymentToken) {
+        throw new Error(`${token} token address is not configured`);
+      }
+      const decimals =
+        knownDecimalsFor(paymentToken, tokenAddresses) ??
+        (await contract.getTokenDecimals(paymentToken));
+      const units = ethers.parseUnits(amount, decimals);
+
+      // The expiry is recorded against the wallet session
+      const expiresAt = expiryFromDays(expiryDays);
+      if (expiresAt && !session) await signIn();
+
+      // makeOffer approves the allowance itself when a gig is paid in ERC20
+      const receipt = await contract.makeOffer(listing.id, units, paymentToken);
+      const offerId = contract.offerIdFromReceipt(receipt);
+      notifyReceipt("Offer submitted", undefined, receipt);
+      if (expiresAt) {
+        contract
+          .recordOfferExpiry(receipt, expiresAt)
+          .catch((e) =>
+            toast.showWarning(
+              "Offer expiry not saved yet",
+              `${
+                e instanceof Error ? e.message : "Unknown error"
+              }. The offer is live; its expiry is retried while you are signed in.`
+            )
+          );
+      }
+      if (offerId !== null) {
+        onCreated(
+          {
+            offerId: offerId.toString(),
+            listingId: listing.id.toString(),
+            amount: units.toString(),
+            paymentToken,
+            txHash: extractTxHash(receipt),
+            chainId: chain?.id,
+          },
+          `Made an offer of ${amount} ${token} on ${
+            title || `listing #${listingId}`
+          }`
+        );
+      }
+      onClose();
+    } catch (e) {
+      toast.showContractError("Offer failed", e, "Failed to submit offer");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      onClick={() => !submitting && onClose()}
+    >
+      <div
+        className="w-full max-w-sm rounded-lg border border-white/10 bg-gray-900/95 p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <div className="text-sm font-medium text-gray-100">Make an offer</div>
+          <div className="text-xs text-gray-400 truncate">
+            {title || `Listing #${listingId}`}
+          </div>
+        </div>
+
+        {!listing ? (
+          <div className="text-xs text-gray-500">Loading listing…</div>
+        ) : blocker ? (
+          <div className="rounded border border-yellow-500/30 bg-yellow-500/5 p-2 text-xs text-yellow-200">
+            {blocker}
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Amount ({token})
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={token === "USDC" ? "100" : "0.1"}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">
+                  Payment token
+                </label>
+                <select
+                  value={token}
+                  onChange={(e) => setToken(e.target.value as TokenSymbol)}
+                  className="w-full px-2 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="ETH">ETH (native)</option>
+                  {tokenAddresses.DOP && <option value="DOP">DOP</option>}
+                  {tokenAddresses.USDC && <option value="USDC">USDC</option>}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">
+                  Valid for
+                </label>
+                <select
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(Number(e.target.value))}
+                  className="w-full px-2 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none"
+                >
+                  {OFFER_EXPIRY_OPTIONS.map((o) => (
+                    <option key={o.days} value={o.days}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="text-[11px] text-gray-500">
+              {isGig
+                ? token === "ETH"
+                  ? "You pay in ETH when the provider accepts."
+                  : `You will approve ${token} for the marketplace now; funds move when the provider accepts.`
+                : "The brief owner funds the escrow when accepting your offer."}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 px-3 py-2 text-xs text-gray-300 border border-gray-700 rounded hover:bg-gray-800 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!listing || !!blocker || submitting || !amount}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting && <RefreshCcw className="w-3 h-3 animate-spin" />}
+            Submit offer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 export * from "./Chat";
+export * from "./ChatAuthGate";
 export * from "./types";
 export * from "./providers/OfferChatProvider";
 export * from "./providers/DirectChatProvider";
@@ -0,0 +1,387 @@
+"use client";
+
+import { supabase } from "@/lib/supabaseClient";
+import { sealAttachments } from "@/lib/chatCrypto";
+import type {
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+} from "@supabase/supabase-js";
+import type {
+  ChatDataProvider,
+  ChatMessage,
+  ChatPage,
+  ChatPresence,
+  PresenceHandle,
+  OfferCard,
+  SendMessageInput,
+  SystemCard,
+} from "../types";
+
+// Shared implementation for conversations stored as rows in chat_messages
+// (see supabase-chat-messages.sql). Subclasses only choose the conversation key.
+
+type MessageRow = {
+  id: string;
+  conversation: string;
+  seq: number;
+  sender: string;
+  content: string | null;
+  attachments: string[] | null;
+  message_type: string | null;
+  meta:
+    | ({
+        linkUrl?: string;
+        linkTitle?: string;
+        linkType?: "gig" | "brief";
+      } & Partial<SystemCard> &
+        Partial<OfferCard>)
+    | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reactions: Record<string, string[]> | null;
+  reply_to: string | null;
+};
+
+const PAGE_SIZE = 50;
+// A typing signal lapses unless refreshed; senders refresh at half this interval
+const TYPING_TTL_MS = 5000;
+
+// Keep in sync with the interval in supabase-chat-message-edits.sql
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+function mapRow(r: MessageRow): ChatMessage {
+  return {
+    id: r.id,
+    seq: Number(r.seq),
+    sender: r.sender,
+    content: r.content || undefined,
+    attachments: r.attachments?.length ? r.attachments : undefined,
+    created_at: r.created_at,
+    message_type: r.message_type,
+    linkUrl: r.meta?.linkUrl,
+    linkTitle: r.meta?.linkTitle,
+    linkType: r.meta?.linkType,
+    system:
+      r.message_type === "system" &&
+      r.sender === "system" &&
+      r.meta?.event &&
+      r.meta.offerId
+        ? {
+            event: r.meta.event,
+            offerId: r.meta.offerId,
+            txHash: r.meta.txHash,
+            chainId: r.meta.chainId,
+            actor: r.meta.actor,
+            outcome: r.meta.outcome,
+          }
+        : undefined,
+    offer:
+      r.message_type === "offer" &&
+      r.meta?.offerId &&
+      r.meta.listingId &&
+      r.meta.amount &&
+      r.meta.paymentToken
+        ? {
+            offerId: r.meta.offerId,
+            listingId: r.meta.listingId,
+            amount: r.meta.amount,
+            paymentToken: r.meta.paymentToken,
+            txHash: r.meta.txHash,
+            chainId: r.meta.chainId,
+          }
+        : undefined,
+    edited_at: r.edited_at || undefined,
+    deleted_at: r.deleted_at || undefined,
+    reactions: r.reactions || undefined,
+    reply_to: r.reply_to || undefined,
+  };
+}
+
+async function uploadAttachments(files: File[]) {
+  const uris: string[] = [];
+  for (const file of files) {
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/ipfs", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Upload failed");
+      uris.push(`ipfs://${data.cid}`);
+    } catch (err) {
+      console.warn("Attachment upload failed", err);
+    }
+  }
+  return uris;
+}
+
+export abstract class MessageTableProvider implements ChatDataProvider {
+  abstract readonly conversationKey: string;
+  private channel: ReturnType<typeof supabase.channel> | null = null;
+  // Highest seq delivered so far; a (re)subscribe catches up from it
+  private lastSeq: number | null = null;
+
+  private async fetchPage(beforeSeq?: number): Promise<ChatPage> {
+    let q = supabase
+      .from("chat_messages")
+      .select("*")
+      .eq("conversation", this.conversationKey)
+      .order("seq", { ascending: false })
+      .limit(PAGE_SIZE + 1);
+    if (beforeSeq !== undefined) q = q.lt("seq", beforeSeq);
+    const { data, error } = await q;
+    if (error) throw new Error(error.message);
+    const rows = (data || []) as MessageRow[];
+    return {
+      messages: rows.slice(0, PAGE_SIZE).reverse().map(mapRow),
+      hasMore: rows.length > PAGE_SIZE,
+    };
+  }
+
+  private track(seq?: number) {
+    if (seq !== undefined && (this.lastSeq === null || seq > this.lastSeq)) {
+      this.lastSeq = seq;
+    }
+  }
+
+  async load(): Promise<ChatPage> {
+    const page = await this.fetchPage();
+    this.track(page.messages[page.messages.length - 1]?.seq ?? 0);
+    return page;
+  }
+
+  async loadOlder(before: ChatMessage): Promise<ChatPage> {
+    if (before.seq === undefined) return { messages: [], hasMore: false };
+    return this.fetchPage(before.seq);
+  }
+
+  // Whole conversation, oldest first (transcripts and evidence pickers)
+  async loadAll(): Promise<ChatMessage[]> {
+    const pages: ChatMessage[][] = [];
+    let page = await this.fetchPage();
+    pages.unshift(page.messages);
+    while (page.hasMore && page.messages[0]?.seq !== undefined) {
+      page = await this.fetchPage(page.messages[0].seq);
+      pages.unshift(page.messages);
+    }
+    return pages.flat();
+  }
+
+  private async catchUp(deliver: (m: ChatMessage) => void) {
+    for (;;) {
+      if (this.lastSeq === null) return;
+      const { data, error } = await supabase
+        .from("chat_messages")
+        .select("*")
+        .eq("conversation", this.conversationKey)
+        .gt("seq", this.lastSeq)
+        .order("seq", { ascending: true })
+        .limit(PAGE_SIZE);
+      if (error) return;
+      const rows = (data || []) as MessageRow[];
+      for (const r of rows) deliver(mapRow(r));
+      if (rows.length < PAGE_SIZE) return;
+    }
+  }
+
+  subscribe(onMessage: (message: ChatMessage) => void): () => void {
+    const deliver = (m: ChatMessage) => {
+      this.track(m.seq);
+      onMessage(m);
+    };
+    this.channel = supabase
+      .channel(`chat_messages_${this.conversationKey}`)
+      .on(
+        "postgres_changes",
+        {
+          schema: "public",
+          table: "chat_messages",
+          event: "INSERT",
+          filter: `conversation=eq.${this.conversationKey}`,
+        },
+        (payload: RealtimePostgresInsertPayload<MessageRow>) => {
+          if (payload.new) deliver(mapRow(payload.new));
+        }
+      )
+      // Edits, deletions and reactions arrive as updates of the same row
+      .on(
+        "postgres_changes",
+        {
+          schema: "public",
+          table: "chat_messages",
+          event: "UPDATE",
+          filter: `conversation=eq.${this.conversationKey}`,
+        },
+        (payload: RealtimePostgresUpdatePayload<MessageRow>) => {
+          if (payload.new) deliver(mapRow(payload.new));
+        }
+      )
+      // Realtime only pushes while connected: inserts missed before the first join or
+      // during a reconnect are fetched once, when the channel is (re)joined
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") void this.catchUp(deliver);
+      });
+
+    return () => {
+      if (this.channel) supabase.removeChannel(this.channel);
+      this.channel = null;
+    };
+  }
+
+  // Private channel authorized by supabase-chat-presence.sql; tracked only while the tab is visible
+  joinPresence(
+    self: string,
+    onChange: (presence: ChatPresence) => void
+  ): PresenceHandle {
+    const me = self.toLowerCase();
+    const online = new Set<string>();
+    const lastSeen: Record<string, number> = {};
+    const typing = new Map<string, number>(); // wallet -> expiry (ms)
+    let lastTypingSent = 0;
+
+    const emit = () => {
+      const now = Date.now();
+      for (const [wallet, expires] of typing) {
+        if (expires <= now) typing.delete(wallet);
+      }
+      onChange({
+        online: Array.from(online),
+        typing: Array.from(typing.keys()),
+        lastSeen: { ...lastSeen },
+      });
+    };
+
+    const channel = supabase.channel(`presence:${this.conversationKey}`, {
+      config: { private: true, presence: { key: me } },
+    });
+    const track = () => {
+      if (document.visibilityState === "visible") {
+        void channel.track({ online_at: Date.now() });
+      } else {
+        void channel.untrack();
+      }
+    };
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const current = new Set(Object.keys(channel.presenceState()));
+        for (const wallet of online) {
+          if (!current.has(wallet)) {
+            lastSeen[wallet] = Date.now();
+            typing.delete(wallet);
+          }
+        }
+        online.clear();
+        current.forEach((wallet) => online.add(wallet));
+        emit();
+      })
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        const wallet = String(payload?.wallet || "").toLowerCase();
+        if (!wallet || wallet === me) return;
+        if (payload?.typing) typing.set(wallet, Date.now() + TYPING_TTL_MS);
+        else typing.delete(wallet);
+        emit();
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") track();
+      });
+    document.addEventListener("visibilitychange", track);
+    // Expire typing signals whose sender went quiet
+    const sweep = setInterval(() => {
+      if (typing.size) emit();
+    }, 1000);
+
+    return {
+      setTyping(isTyping: boolean) {
+        const now = Date.now();
+        if (isTyping && now - lastTypingSent < TYPING_TTL_MS / 2) return;
+        if (!isTyping && !lastTypingSent) return;
+        lastTypingSent = isTyping ? now : 0;
+        void channel.send({
+          type: "broadcast",
+          event: "typing",
+          payload: { wallet: me, typing: isTyping },
+        });
+      },
+      leave() {
+        clearInterval(sweep);
+        document.removeEventListener("visibilitychange", track);
+        void channel.untrack();
+        supabase.removeChannel(channel);
+      },
+    };
+  }
+
+  async send(
+    input: SendMessageInput,
+    opts?: { sender: string }
+  ): Promise<void> {
+    const attachments = !input.files?.length
+      ? []
+      : input.encrypt
+      ? await sealAttachments(
+          this.conversationKey,
+          input.files,
+          opts?.sender || ""
+        )
+      : await uploadAttachments(input.files);
+    const meta: MessageRow["meta"] = {};
+    let messageType = "text";
+    if (input.pin) {
+      const idStr = String(input.pin.id);
+      const kind = input.pin.type;
+      meta.linkUrl =
+        input.pin.url ||
+        (kind === "gig" ? `/gigs/${idStr}` : `/briefs/${idStr}`);
+      meta.linkTitle =
+        input.pin.title || `${kind === "gig" ? "Gig" : "Brief"} #${idStr}`;
+      meta.linkType = kind;
+      messageType = "pin";
+    } else if (input.offer) {
+      Object.assign(meta, input.offer);
+      messageType = "offer";
+    } else if (attachments.length && input.text) {
+      messageType = "mixed";
+    } else if (attachments.length) {
+      messageType = "image";
+    }
+
+    // created_at is stamped by the database (any client value is overwritten), so edit
+    // windows, unread counts and read cursors compare server timestamps
+    const { error } = await supabase.from("chat_messages").insert({
+      id:
+        input.clientId ||
+        (globalThis.crypto && "randomUUID" in globalThis.crypto
+          ? globalThis.crypto.randomUUID()
+          : `${Date.now()}-${Math.random()}`),
+      conversation: this.conversationKey,
+      sender: opts?.sender?.toLowerCase() || "",
+      content: input.text || null,
+      attachments: attachments.length ? attachments : null,
+      message_type: messageType,
+      meta,
+      reply_to: input.replyTo || null,
+    });
+    if (error) throw new Error(error.message);
+  }
+
+  async edit(id: string, content: string): Promise<void> {
+    const { error } = await supabase.rpc("edit_chat_message", {
+      p_id: id,
+      p_content: content,
+    });
+    if (error) throw new Error(error.message);
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.rpc("delete_chat_message", { p_id: id });
+    if (error) throw new Error(error.message);
+  }
+
+  async toggleReaction(id: string, emoji: string): Promise<void> {
+    const { error } = await supabase.rpc("toggle_chat_reaction", {
+      p_id: id,
+      p_emoji: emoji,
+    });
+    if (error) throw new Error(error.message);
+  }
+}
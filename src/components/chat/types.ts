@@ -1,9 +1,43 @@
 import type { OfferChatMessage } from "@/lib/supabaseClient";
 
+// Offer lifecycle events posted by the database (see supabase-chat-system-cards.sql)
+export type SystemCardEvent =
+  | "offer_made"
+  | "offer_accepted"
+  | "work_validated"
+  | "dispute_opened"
+  | "dispute_resolved";
+
+export type SystemCard = {
+  event: SystemCardEvent;
+  offerId: string;
+  txHash?: string;
+  chainId?: number;
+  actor?: string; // wallet that triggered the event, when the event names one
+  outcome?: number; // DisputeOutcome for dispute_resolved
+};
+
+// An offer made from the chat on a pinned listing (message_type "offer")
+export type OfferCard = {
+  offerId: string;
+  listingId: string;
+  amount: string; // base units
+  paymentToken: string;
+  txHash?: string;
+  chainId?: number;
+};
+
 export type ChatMessage = OfferChatMessage & {
+  seq?: number; // server order (chat_messages.seq); absent on optimistic messages
   linkUrl?: string;
   linkTitle?: string;
   linkType?: "gig" | "brief";
+  system?: SystemCard; // set when message_type is "system"
+  offer?: OfferCard; // set when message_type is "offer"
+  edited_at?: string;
+  deleted_at?: string; // tombstone: content and attachments are cleared
+  reactions?: Record<string, string[]>; // emoji -> reacting wallets (lowercase)
+  reply_to?: string; // parent message id when this message is a reply
   // UI-only flags (not persisted)
   pending?: boolean;
   failed?: boolean;
@@ -20,13 +54,49 @@ export type SendMessageInput = {
   };
   // If provided, providers should reuse this id for the persisted message
   clientId?: string;
+  // Id of the message being replied to (must be in the same conversation)
+  replyTo?: string;
+  // Offer created on-chain from the chat; text becomes its summary line
+  offer?: OfferCard;
+  // Encrypt files to the conversation participants (see lib/chatCrypto)
+  encrypt?: boolean;
+};
+
+// One page of messages, oldest first
+export type ChatPage = { messages: ChatMessage[]; hasMore: boolean };
+
+// Ephemeral signals from Realtime presence/broadcast; never persisted
+export type ChatPresence = {
+  online: string[]; // participants with the conversation open (lowercase)
+  typing: string[]; // participants currently typing (excluding self)
+  lastSeen: Record<string, number>; // participant -> ms they left, seen this session
+};
+
+export type PresenceHandle = {
+  setTyping(typing: boolean): void;
+  leave(): void;
 };
 
 export interface ChatDataProvider {
-  // Load initial messages
-  load(): Promise<ChatMessage[]>;
-  // Subscribe to changes; return unsubscribe
-  subscribe(onChange: (messages: ChatMessage[]) => void): () => void;
+  // Key used for read cursors (see lib/chatReads); omit to disable receipts
+  readonly conversationKey?: string;
+  // Load the newest page of messages
+  load(): Promise<ChatPage>;
+  // Load the page preceding a persisted message
+  loadOlder(before: ChatMessage): Promise<ChatPage>;
+  // Subscribe to new and updated (edited, deleted, reacted) messages; return unsubscribe
+  subscribe(onMessage: (message: ChatMessage) => void): () => void;
   // Append a message
   send(input: SendMessageInput, opts?: { sender: string }): Promise<void>;
+  // Replace the text of one of the caller's messages
+  edit(id: string, content: string): Promise<void>;
+  // Soft-delete one of the caller's messages (leaves a tombstone)
+  remove(id: string): Promise<void>;
+  // Add the caller's reaction, or remove it if already present
+  toggleReaction(id: string, emoji: string): Promise<void>;
+  // Announce self as online and follow the other participants; optional
+  joinPresence?(
+    self: string,
+    onChange: (presence: ChatPresence) => void
+  ): PresenceHandle;
 }
@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, MessageSquare, Plus, Trash2 } from "lucide-react";
+import { OfferChatProvider, type ChatMessage } from "@/components/chat";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { CLAIMED_OUTCOME_LABELS } from "@/lib/disputePayload";
+import { formatAddress } from "@/lib/utils";
+import type {
+  ClaimedOutcome,
+  DisputeEvidenceDraft,
+  DisputeKind,
+} from "@/types/dispute";
+
+type TimelineRow = { date: string; event: string };
+
+const tone: Record<
+  DisputeKind,
+  { box: string; title: string; button: string; label: string }
+> = {
+  dispute: {
+    box: "border-red-900 bg-red-950/20",
+    title: "text-red-300",
+    button: "bg-red-600 hover:bg-red-700",
+    label: "Submit Dispute",
+  },
+  appeal: {
+    box: "border-yellow-900 bg-yellow-950/10",
+    title: "text-yellow-300",
+    button: "bg-yellow-600 hover:bg-yellow-700",
+    label: "Submit Appeal",
+  },
+};
+
+// Collects a structured evidence bundle; hashing/upload happen in onSubmit
+export function DisputeEvidenceForm({
+  kind,
+  offerId,
+  title,
+  note,
+  defaultOutcome,
+  placeholder,
+  busy,
+  onSubmit,
+  onCancel,
+}: {
+  kind: DisputeKind;
+  offerId: string;
+  title: string;
+  note?: string;
+  defaultOutcome: ClaimedOutcome;
+  placeholder?: string;
+  busy: boolean;
+  onSubmit: (draft: DisputeEvidenceDraft) => void;
+  onCancel: () => void;
+}) {
+  const { chainId } = useMarketplaceContract();
+  const [reason, setReason] = useState("");
+  const [outcome, setOutcome] = useState<ClaimedOutcome>(defaultOutcome);
+  const [timeline, setTimeline] = useState<TimelineRow[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [showMessages, setShowMessages] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [includeTranscript, setIncludeTranscript] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    new OfferChatProvider(chainId, offerId)
+      .loadAll()
+      .then((list) => {
+        if (!cancelled) setMessages(list.slice(-50).reverse());
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, offerId]);
+
+  const updateRow = (idx: number, patch: Partial<TimelineRow>) =>
+    setTimeline((prev) =>
+      prev.map((r, i) => (i === idx ? { ...r, ...patch } : r))
+    );
+
+  const toggleMessage = (id: string) =>
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+
+  const submit = () =>
+    onSubmit({
+      reason,
+      claimedOutcome: outcome,
+      timeline: timeline.map((r) => ({
+        at: r.date ? new Date(`${r.date}T00:00:00`).getTime() : NaN,
+        event: r.event,
+      })),
+      chatMessageIds: selected,
+      files,
+      includeTranscript: includeTranscript && messages.length > 0,
+    });
+
+  const t = tone[kind];
+
+  return (
+    <div className={`mt-3 rounded border p-3 space-y-3 ${t.box}`}>
+      <div className={`text-sm font-medium ${t.title}`}>
+        {title}
+        {note && (
+          <span className="block text-[11px] font-normal opacity-80">
+            {note}
+          </span>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Reason</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          placeholder={placeholder}
+          className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded text-sm"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Requested outcome
+        </label>
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as ClaimedOutcome)}
+          className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded text-sm"
+        >
+          {(Object.keys(CLAIMED_OUTCOME_LABELS) as ClaimedOutcome[]).map(
+            (o) => (
+              <option key={o} value={o}>
+                {CLAIMED_OUTCOME_LABELS[o]}
+              </option>
+            )
+          )}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-gray-400">Timeline of events</label>
+          <button
+            onClick={() =>
+              setTimeline((prev) => [...prev, { date: "", event: "" }])
+            }
+            className="inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded border border-white/10 hover:border-white/30"
+          >
+            <Plus className="w-3 h-3" /> Add
+          </button>
+        </div>
+        {timeline.map((r, idx) => (
+          <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="date"
+              value={r.date}
+              onChange={(e) => updateRow(idx, { date: e.target.value })}
+              className="col-span-4 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded text-xs"
+            />
+            <input
+              value={r.event}
+              onChange={(e) => updateRow(idx, { event: e.target.value })}
+              placeholder="What happened"
+              className="col-span-7 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded text-xs"
+            />
+            <button
+              onClick={() =>
+                setTimeline((prev) => prev.filter((_, i) => i !== idx))
+              }
+              className="col-span-1 flex justify-center text-gray-500 hover:text-red-400"
+              aria-label="Remove event"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-1">
+          <button
+            onClick={() => setShowMessages((v) => !v)}
+            className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200"
+          >
+            <MessageSquare className="w-3.5 h-3.5" />
+            Reference chat messages
+            {selected.length > 0 && ` (${selected.length} selected)`}
+          </button>
+          {showMessages && (
+            <div className="max-h-48 overflow-y-auto space-y-1 rounded border border-gray-800 p-2">
+              {messages.map((m) => (
+                <label
+                  key={m.id}
+                  className="flex items-start gap-2 text-[11px] text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(m.id)}
+                    onChange={() => toggleMessage(m.id)}
+                    className="mt-0.5"
+                  />
+                  <span className="min-w-0">
+                    <span className="text-gray-500">
+                      {formatAddress(m.sender)} •{" "}
+                      {new Date(m.created_at).toLocaleDateString()}
+                    </span>{" "}
+                    <span className="break-words">
+                      {m.content || "(attachment)"}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <label className="flex items-start gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={includeTranscript}
+            onChange={(e) => setIncludeTranscript(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span>
+            Attach a signed transcript of the whole chat
+            <span className="block text-[11px] text-gray-500">
+              Asks for one extra signature; the archive is pinned to IPFS and
+              referenced from the evidence.
+            </span>
+            {includeTranscript && (
+              <span className="mt-1 flex items-start gap-1 text-[11px] text-yellow-300">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                The transcript holds every message in plain text. Once pinned
+                anyone with its CID can read it, its CID is recorded on-chain
+                with the dispute, and it cannot be taken down.
+              </span>
+            )}
+          </span>
+        </label>
+      )}
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Attachments (optional)
+        </label>
+        <input
+          type="file"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files || []))}
+          className="w-full text-xs text-gray-300"
+        />
+        {files.length > 0 && (
+          <div className="text-xs text-gray-400 mt-1">
+            {files.length} file(s) selected; each is hashed (sha256), then
+            encrypted for both parties and the dispute reviewers before upload
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={submit}
+          disabled={busy}
+          className={`flex-1 px-3 py-2 text-white rounded disabled:opacity-50 text-sm ${t.button}`}
+        >
+          {busy ? "Submitting..." : t.label}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 border border-white/10 rounded text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
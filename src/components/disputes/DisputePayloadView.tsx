@@ -0,0 +1,399 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { useAccount } from "wagmi";
+import {
+  AlertTriangle,
+  CalendarClock,
+  FileSignature,
+  FileCheck2,
+  FileWarning,
+  MessageSquare,
+  Paperclip,
+  ShieldCheck,
+} from "lucide-react";
+import { OfferChatProvider, type ChatMessage } from "@/components/chat";
+import { EncryptedAttachment } from "@/components/chat/EncryptedAttachment";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { isEncryptedAttachment } from "@/lib/chatCrypto";
+import {
+  CLAIMED_OUTCOME_LABELS,
+  matchLocalFile,
+  verifyAttachment,
+} from "@/lib/disputePayload";
+import {
+  parseSignedTranscript,
+  verifyChatTranscript,
+} from "@/lib/chatTranscript";
+import { parseOfferConversation } from "@/lib/chatReads";
+import { fetchIpfsJson, formatAddress, toGatewayUrl } from "@/lib/utils";
+import type { DisputeAttachment, DisputeEvidence } from "@/types/dispute";
+
+type VerifyState = "checking" | "match" | "mismatch" | "unavailable";
+
+function formatBytes(n: number) {
+  if (!n) return "";
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function AttachmentPreview({ attachment }: { attachment: DisputeAttachment }) {
+  if (isEncryptedAttachment(attachment.uri)) {
+    return (
+      <div className="space-y-1">
+        <div className="text-xs break-all">{attachment.name}</div>
+        <EncryptedAttachment
+          uri={attachment.uri}
+          onPreview={(url) => window.open(url, "_blank")}
+        />
+      </div>
+    );
+  }
+  return <PlainAttachmentPreview attachment={attachment} />;
+}
+
+function PlainAttachmentPreview({
+  attachment,
+}: {
+  attachment: DisputeAttachment;
+}) {
+  const [showImg, setShowImg] = useState(
+    !attachment.mimeType || attachment.mimeType.startsWith("image/")
+  );
+  const href = toGatewayUrl(attachment.uri) || attachment.uri;
+  return (
+    <div className="space-y-1">
+      <a
+        href={href}
+        target="_blank"
+        rel="noreferrer"
+        className="text-xs underline decoration-dotted break-all"
+      >
+        {attachment.name || href}
+      </a>
+      {showImg && (
+        <div className="relative w-full max-w-xs">
+          <Image
+            src={href}
+            alt={attachment.name || "attachment"}
+            width={512}
+            height={512}
+            className="h-auto w-full max-h-48 rounded border border-white/10 object-contain"
+            onError={() => setShowImg(false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Renders a dispute/appeal evidence bundle. With `verifiable`, attachments can be
+// re-hashed from the gateway or compared against a local copy of the original file.
+export function DisputePayloadView({
+  evidence,
+  verifiable = false,
+}: {
+  evidence: DisputeEvidence | null;
+  verifiable?: boolean;
+}) {
+  const { address } = useAccount();
+  const { chainId } = useMarketplaceContract();
+  const [verify, setVerify] = useState<Record<number, VerifyState>>({});
+  const [localMatch, setLocalMatch] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[] | null>(null);
+  const [transcriptCheck, setTranscriptCheck] = useState<
+    "checking" | string[] | null
+  >(null);
+
+  const payload = evidence?.payload;
+  const offerId = payload?.offerId;
+  const refCount = payload?.chatMessageIds.length ?? 0;
+
+  useEffect(() => {
+    if (!offerId || refCount === 0) return;
+    let cancelled = false;
+    new OfferChatProvider(chainId, offerId)
+      .loadAll()
+      .then((list) => {
+        if (!cancelled) setMessages(list);
+      })
+      .catch(() => {
+        if (!cancelled) setMessages([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, offerId, refCount]);
+
+  if (!evidence || !payload)
+    return <div className="text-xs text-gray-500">No metadata found.</div>;
+
+  const runVerify = async (idx: number, a: DisputeAttachment) => {
+    setVerify((v) => ({ ...v, [idx]: "checking" }));
+    const ok = await verifyAttachment(a, undefined, address);
+    setVerify((v) => ({
+      ...v,
+      [idx]: ok === null ? "unavailable" : ok ? "match" : "mismatch",
+    }));
+  };
+
+  // The archive must parse, match the digest cited here and be signed by the author
+  const checkTranscript = async () => {
+    const ref = payload.transcript;
+    if (!ref) return;
+    setTranscriptCheck("checking");
+    try {
+      const signed = parseSignedTranscript(
+        await fetchIpfsJson(ref.cid, { timeoutMs: 20_000 })
+      );
+      if (!signed) {
+        setTranscriptCheck(["Archive is not a signed transcript"]);
+        return;
+      }
+      const problems = await verifyChatTranscript(signed, chainId);
+      if (signed.digest !== ref.digest)
+        problems.push("Archive digest differs from the one cited");
+      if (signed.transcript.exportedBy !== payload.author.toLowerCase())
+        problems.push("Exported by a different wallet than the author");
+      // Transcripts exported before offer chats were keyed by chain carry no chain id
+      const conv = parseOfferConversation(signed.transcript.conversation);
+      if (
+        signed.transcript.offerId !== payload.offerId ||
+        (conv && conv.chainId !== chainId)
+      )
+        problems.push("Transcript is for a different offer");
+      setTranscriptCheck(problems);
+    } catch {
+      setTranscriptCheck(["Could not fetch the archive"]);
+    }
+  };
+
+  const compareLocal = async (file: File) => {
+    const hit = await matchLocalFile(payload.attachments, file);
+    setLocalMatch(
+      hit
+        ? `${file.name} matches "${hit.name}"`
+        : `${file.name} does not match any listed attachment`
+    );
+  };
+
+  const referenced = payload.chatMessageIds.map((id) => ({
+    id,
+    message: messages?.find((m) => m.id === id),
+  }));
+
+  return (
+    <div className="text-xs text-gray-300 space-y-3">
+      {evidence.legacy && (
+        <div className="text-[11px] text-gray-500">
+          Submitted before structured evidence; attachments have no hashes.
+        </div>
+      )}
+      {evidence.problems.length > 0 && (
+        <div className="rounded border border-yellow-900 p-2 text-yellow-300 space-y-0.5">
+          <div className="flex items-center gap-1 font-medium">
+            <AlertTriangle className="w-3.5 h-3.5" /> Payload does not match the
+            schema
+          </div>
+          {evidence.problems.map((p, i) => (
+            <div key={i}>• {p}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+        <span className="capitalize">{payload.type}</span>
+        {payload.author && (
+          <span>
+            by {formatAddress(payload.author)} ({payload.role})
+          </span>
+        )}
+        {payload.createdAt > 0 && (
+          <span>{new Date(payload.createdAt).toLocaleString()}</span>
+        )}
+        {payload.claimedOutcome && (
+          <span className="px-2 py-0.5 rounded-full bg-blue-500/15 text-blue-300">
+            Asks: {CLAIMED_OUTCOME_LABELS[payload.claimedOutcome]}
+          </span>
+        )}
+      </div>
+
+      {payload.milestone && (
+        <div className="text-[11px] text-red-200/80">
+          Milestone: {payload.milestone.title}
+        </div>
+      )}
+
+      {payload.reason && (
+        <div className="whitespace-pre-wrap">{payload.reason}</div>
+      )}
+
+      {payload.timeline.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-gray-400 flex items-center gap-1">
+            <CalendarClock className="w-3.5 h-3.5" /> Timeline
+          </div>
+          <ol className="border-l border-gray-800 ml-1.5 space-y-1">
+            {payload.timeline
+              .slice()
+              .sort((a, b) => a.at - b.at)
+              .map((t, i) => (
+                <li key={i} className="ml-3">
+                  <span className="text-gray-500">
+                    {new Date(t.at).toLocaleDateString()}
+                  </span>{" "}
+                  {t.event}
+                </li>
+              ))}
+          </ol>
+        </div>
+      )}
+
+      {referenced.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-gray-400 flex items-center gap-1">
+            <MessageSquare className="w-3.5 h-3.5" /> Referenced messages
+          </div>
+          {referenced.map(({ id, message }) => (
+            <div
+              key={id}
+              className="rounded border border-white/5 bg-gray-900/40 p-2"
+            >
+              {message ? (
+                <>
+                  <div className="text-[10px] text-gray-500">
+                    {formatAddress(message.sender)} •{" "}
+                    {new Date(message.created_at).toLocaleString()}
+                  </div>
+                  <div className="whitespace-pre-wrap">
+                    {message.content || "(attachment only)"}
+                  </div>
+                </>
+              ) : (
+                <span className="text-gray-500">
+                  {messages ? "Message not found" : "Loading"} ({id})
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {payload.transcript && (
+        <div className="space-y-1">
+          <div className="text-gray-400 flex items-center gap-1">
+            <FileSignature className="w-3.5 h-3.5" /> Signed chat transcript
+          </div>
+          <a
+            href={toGatewayUrl(`ipfs://${payload.transcript.cid}`) || "#"}
+            target="_blank"
+            rel="noreferrer"
+            className="underline decoration-dotted break-all"
+          >
+            ipfs://{payload.transcript.cid}
+          </a>
+          <div className="text-[10px] text-gray-500 break-all">
+            {payload.transcript.messageCount} messages • sha256{" "}
+            {payload.transcript.digest}
+          </div>
+          {verifiable && (
+            <div className="flex flex-wrap items-center gap-2 text-[11px]">
+              <button
+                onClick={checkTranscript}
+                disabled={transcriptCheck === "checking"}
+                className="px-2 py-0.5 rounded border border-white/10 hover:border-white/30 disabled:opacity-50"
+              >
+                {transcriptCheck === "checking"
+                  ? "Checking..."
+                  : "Verify signature"}
+              </button>
+              {Array.isArray(transcriptCheck) &&
+                (transcriptCheck.length === 0 ? (
+                  <span className="inline-flex items-center gap-1 text-green-400">
+                    <FileCheck2 className="w-3.5 h-3.5" /> Signed by the author
+                    and unaltered
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 text-red-400">
+                    <FileWarning className="w-3.5 h-3.5" />
+                    {transcriptCheck.join(". ")}
+                  </span>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {payload.attachments.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-gray-400 flex items-center gap-1">
+            <Paperclip className="w-3.5 h-3.5" /> Attachments
+          </div>
+          {payload.attachments.some((a) => isEncryptedAttachment(a.uri)) && (
+            <div className="text-[11px] text-gray-500">
+              Encrypted for both parties and the dispute reviewers. A reviewer
+              who set up their key after the evidence was filed can read it once
+              either party opens the offer and shares it.
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {payload.attachments.map((a, i) => (
+              <div key={i} className="space-y-1">
+                <AttachmentPreview attachment={a} />
+                <div className="text-[10px] text-gray-500 break-all">
+                  {[a.mimeType, formatBytes(a.size)]
+                    .filter(Boolean)
+                    .join(" • ")}
+                  {a.sha256 && <div>sha256 {a.sha256}</div>}
+                </div>
+                {verifiable && a.sha256 && (
+                  <div className="flex items-center gap-2 text-[11px]">
+                    <button
+                      onClick={() => runVerify(i, a)}
+                      disabled={verify[i] === "checking"}
+                      className="px-2 py-0.5 rounded border border-white/10 hover:border-white/30 disabled:opacity-50"
+                    >
+                      {verify[i] === "checking" ? "Checking..." : "Verify hash"}
+                    </button>
+                    {verify[i] === "match" && (
+                      <span className="inline-flex items-center gap-1 text-green-400">
+                        <FileCheck2 className="w-3.5 h-3.5" /> Bytes match
+                      </span>
+                    )}
+                    {verify[i] === "mismatch" && (
+                      <span className="inline-flex items-center gap-1 text-red-400">
+                        <FileWarning className="w-3.5 h-3.5" /> Hash mismatch
+                      </span>
+                    )}
+                    {verify[i] === "unavailable" && (
+                      <span className="text-gray-500">Could not fetch</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {verifiable && payload.attachments.some((a) => a.sha256) && (
+            <label className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+              <ShieldCheck className="w-3.5 h-3.5" />
+              Compare an original file:
+              <input
+                type="file"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) void compareLocal(f);
+                }}
+                className="text-[11px]"
+              />
+              {localMatch && (
+                <span className="text-gray-300">{localMatch}</span>
+              )}
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
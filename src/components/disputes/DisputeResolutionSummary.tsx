@@ -0,0 +1,64 @@
+"use client";
+
+import { Scale } from "lucide-react";
+import {
+  CONTRACT_DISPUTE_OUTCOMES,
+  previewDisputePayout,
+} from "@/lib/disputeResolution";
+import { formatAddress } from "@/lib/utils";
+import type { Escrow } from "@/types/marketplace";
+import type { DisputeResolution } from "@/types/dispute";
+
+// How a resolved escrow was settled. `resolution` must already be checked against the chain
+// (MarketplaceContract.getDisputeResolution); without one the amounts implied by the
+// on-chain outcome are shown.
+export function DisputeResolutionSummary({
+  escrow,
+  resolution,
+  format,
+}: {
+  escrow: Pick<Escrow, "amount" | "feeAmount" | "disputeOutcome">;
+  resolution: DisputeResolution | null;
+  format: (amount: bigint) => string;
+}) {
+  const payout =
+    resolution ?? previewDisputePayout(escrow, escrow.disputeOutcome);
+  const outcome = CONTRACT_DISPUTE_OUTCOMES.find(
+    (o) => o.outcome === Number(resolution?.outcome ?? escrow.disputeOutcome)
+  );
+
+  return (
+    <div className="rounded border border-white/10 p-3 text-xs text-gray-300 space-y-2">
+      <div className="flex items-center gap-1 text-gray-400">
+        <Scale className="w-3.5 h-3.5" />
+        {outcome?.label ?? "Resolved"}
+        {!resolution && <span className="text-gray-500">(from outcome)</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+        <span>Provider received</span>
+        <span className="text-right font-mono text-white">
+          {format(payout.providerAmount)}
+        </span>
+        <span>Client refunded</span>
+        <span className="text-right font-mono text-white">
+          {format(payout.clientAmount)}
+        </span>
+        <span>Platform fee</span>
+        <span className="text-right font-mono text-white">
+          {format(payout.feeAmount)}
+        </span>
+      </div>
+      {resolution?.note && (
+        <div className="whitespace-pre-wrap border-t border-white/5 pt-2">
+          {resolution.note}
+        </div>
+      )}
+      {resolution && (
+        <div className="text-[10px] text-gray-500">
+          Resolved by {formatAddress(resolution.resolvedBy)} on{" "}
+          {new Date(resolution.createdAt).toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import {
+  AlertTriangle,
+  Download,
+  FileSignature,
+  RefreshCcw,
+  UploadCloud,
+} from "lucide-react";
+import { OfferChatProvider } from "@/components/chat";
+import { useToastContext } from "@/components/providers";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import {
+  buildChatTranscript,
+  downloadChatTranscript,
+  pinChatTranscript,
+  signChatTranscript,
+} from "@/lib/chatTranscript";
+import { toGatewayUrl } from "@/lib/utils";
+import type { SignedChatTranscript } from "@/types/dispute";
+
+// Export the offer chat as a signed transcript: download it, or pin it to IPFS so the
+// CID can be cited in dispute evidence
+export function TranscriptExport({
+  offerId,
+  labels,
+}: {
+  offerId: string;
+  labels?: Record<string, string>; // lowercase wallet -> role shown in the text rendering
+}) {
+  const { address } = useAccount();
+  const { chainId } = useMarketplaceContract();
+  const { signMessageAsync } = useSignMessage();
+  const toast = useToastContext();
+  const [signed, setSigned] = useState<SignedChatTranscript | null>(null);
+  const [cid, setCid] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"export" | "pin" | null>(null);
+  const [confirmingPin, setConfirmingPin] = useState(false);
+
+  async function exportTranscript() {
+    if (!address || busy) return;
+    setBusy("export");
+    try {
+      const provider = new OfferChatProvider(chainId, offerId);
+      const transcript = await buildChatTranscript(await provider.loadAll(), {
+        conversation: provider.conversationKey,
+        offerId,
+        exportedBy: address,
+      });
+      if (!transcript.messages.length) {
+        throw new Error("There are no chat messages to export");
+      }
+      setSigned(
+        await signChatTranscript(
+          transcript,
+          (message) => signMessageAsync({ message }),
+          labels
+        )
+      );
+      setCid(null);
+      setConfirmingPin(false);
+    } catch (e) {
+      toast.showContractError(
+        "Export failed",
+        e,
+        "Could not export the transcript"
+      );
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function pin() {
+    if (!signed || busy) return;
+    setConfirmingPin(false);
+    setBusy("pin");
+    try {
+      setCid(await pinChatTranscript(signed));
+      toast.showSuccess("Transcript pinned", "Reference its CID in a dispute.");
+    } catch (e) {
+      toast.showError(
+        "Pin failed",
+        e instanceof Error ? e.message : "Upload failed"
+      );
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <button
+        type="button"
+        onClick={exportTranscript}
+        disabled={!address || !!busy}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded border border-white/10 hover:border-white/30 disabled:opacity-50"
+      >
+        {busy === "export" ? (
+          <RefreshCcw className="w-3.5 h-3.5 animate-spin" />
+        ) : (
+          <FileSignature className="w-3.5 h-3.5" />
+        )}
+        {signed ? "Re-export signed transcript" : "Export signed transcript"}
+      </button>
+      {signed && (
+        <div className="rounded border border-gray-800 p-2 space-y-2">
+          <div className="text-[11px] text-gray-400 break-all">
+            {signed.transcript.messages.length} messages • sha256{" "}
+            {signed.digest}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => downloadChatTranscript(signed, "json")}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded border border-white/10 hover:border-white/30"
+            >
+              <Download className="w-3 h-3" /> JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadChatTranscript(signed, "txt")}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded border border-white/10 hover:border-white/30"
+            >
+              <Download className="w-3 h-3" /> Text
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmingPin(true)}
+              disabled={!!busy || !!cid || confirmingPin}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded border border-white/10 hover:border-white/30 disabled:opacity-50"
+            >
+              {busy === "pin" ? (
+                <RefreshCcw className="w-3 h-3 animate-spin" />
+              ) : (
+                <UploadCloud className="w-3 h-3" />
+              )}
+              Pin to IPFS
+            </button>
+          </div>
+          {confirmingPin && (
+            <div className="rounded border border-yellow-900 p-2 space-y-2 text-[11px] text-yellow-300">
+              <div className="flex items-start gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                <span>
+                  Pinning publishes every message of this chat in plain text.
+                  Anyone with the CID can read it, citing it in a dispute
+                  records the CID on-chain, and it cannot be taken down. Keep
+                  the download instead if the chat must stay private.
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setConfirmingPin(false)}
+                  className="px-2 py-1 rounded border border-white/10 text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={pin}
+                  className="px-2 py-1 rounded bg-yellow-600 hover:bg-yellow-700 text-white"
+                >
+                  Pin publicly
+                </button>
+              </div>
+            </div>
+          )}
+          {cid && (
+            <a
+              href={toGatewayUrl(`ipfs://${cid}`) || "#"}
+              target="_blank"
+              rel="noreferrer"
+              className="block text-[11px] underline decoration-dotted break-all text-gray-300"
+            >
+              ipfs://{cid}
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
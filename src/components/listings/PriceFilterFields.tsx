@@ -0,0 +1,98 @@
+"use client";
+
+import type { PriceBasis } from "@/lib/pricing";
+
+export type PriceFilterValue = {
+  min: string;
+  max: string;
+  basis: PriceBasis | "";
+};
+
+export const EMPTY_PRICE_FILTER: PriceFilterValue = {
+  min: "",
+  max: "",
+  basis: "",
+};
+
+// Form values -> numeric filter for the search index / matchesPriceFilter
+export function toPriceFilter(value: PriceFilterValue) {
+  const num = (s: string) =>
+    s.trim() !== "" && Number.isFinite(Number(s)) && Number(s) >= 0
+      ? Number(s)
+      : undefined;
+  return {
+    min: num(value.min),
+    max: num(value.max),
+    basis: value.basis || undefined,
+  };
+}
+
+// Min/max in USD (every token is converted, see src/lib/pricing.ts) plus an optional
+// fixed-price vs day-rate switch
+export function PriceFilterFields({
+  value,
+  onChange,
+  showBasis = true,
+  label = "Price (USD)",
+  placeholders,
+  labelClassName = "text-xs text-gray-400",
+  inputClassName = "w-full rounded-md border border-white/10 bg-gray-950/60 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10",
+}: {
+  value: PriceFilterValue;
+  onChange: (next: PriceFilterValue) => void;
+  showBasis?: boolean;
+  label?: string;
+  placeholders?: { min?: string; max?: string };
+  labelClassName?: string;
+  inputClassName?: string;
+}) {
+  return (
+    <>
+      <div className="space-y-1">
+        <label className={labelClassName}>{label}</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            value={value.min}
+            onChange={(e) => onChange({ ...value, min: e.target.value })}
+            placeholder={placeholders?.min || "Min"}
+            aria-label="Minimum price in USD"
+            className={inputClassName}
+          />
+          <span className="text-gray-500 text-xs">–</span>
+          <input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            value={value.max}
+            onChange={(e) => onChange({ ...value, max: e.target.value })}
+            placeholder={placeholders?.max || "Max"}
+            aria-label="Maximum price in USD"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {showBasis && (
+        <div className="space-y-1">
+          <label className={labelClassName}>Pricing</label>
+          <select
+            value={value.basis}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                basis: e.target.value as PriceFilterValue["basis"],
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="">Any pricing</option>
+            <option value="total">Fixed price / budget</option>
+            <option value="day">Time-based (per day)</option>
+          </select>
+        </div>
+      )}
+    </>
+  );
+}
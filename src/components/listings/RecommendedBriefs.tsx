@@ -0,0 +1,118 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { ChevronRight, Sparkles, Tag as TagIcon } from "lucide-react";
+import { useRecommendedBriefs } from "@/hooks/useRecommendations";
+import { formatQuotedAmount } from "@/lib/pricing";
+import { getCategoryLabel, timeAgo } from "@/lib/utils";
+import type { ListingMetadata } from "@/types/marketplace";
+
+function budgetLabel(budget?: ListingMetadata["budget"]) {
+  if (!budget) return null;
+  const { min, max, currency } = budget;
+  if (min && max)
+    return `${formatQuotedAmount(min, currency)} - ${formatQuotedAmount(
+      max,
+      currency
+    )}`;
+  if (min) return `${formatQuotedAmount(min, currency)}+`;
+  if (max) return `Up to ${formatQuotedAmount(max, currency)}`;
+  return null;
+}
+
+// "Recommended for you": open briefs ranked against the connected wallet's profile.
+// Renders nothing without a wallet; prompts for skills when there is no profile.
+export function RecommendedBriefs({
+  limit = 6,
+  className = "",
+}: {
+  limit?: number;
+  className?: string;
+}) {
+  const { address } = useAccount();
+  const { loading, hasProfile, recommendations } = useRecommendedBriefs(limit);
+
+  if (hasProfile === null && !loading) return null;
+
+  return (
+    <div
+      className={`rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/70 to-gray-900/30 p-4 space-y-3 ${className}`.trim()}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-sm font-medium text-gray-200">
+          <Sparkles className="w-4 h-4 text-yellow-400" />
+          Recommended for you
+        </h2>
+        {recommendations.length > 0 && (
+          <span className="text-[11px] text-gray-500">
+            Based on your skills, category and track record
+          </span>
+        )}
+      </div>
+      {loading && recommendations.length === 0 ? (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div
+              key={i}
+              className="h-24 rounded-lg bg-gray-800/40 animate-pulse"
+            />
+          ))}
+        </div>
+      ) : hasProfile === false ? (
+        <p className="text-xs text-gray-400">
+          <Link
+            href={`/profile/${address}`}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Create a profile
+          </Link>{" "}
+          with your skills to get briefs matched to you.
+        </p>
+      ) : recommendations.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No open briefs match your skills yet. Adding more skills to your
+          profile widens the match.
+        </p>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {recommendations.map(({ item, reasons }) => {
+            const budget = budgetLabel(item.metadata?.budget);
+            return (
+              <Link
+                key={item.id.toString()}
+                href={`/briefs/${item.id.toString()}`}
+                className="group rounded-lg border border-white/10 bg-gray-950/40 p-3 space-y-2 hover:border-white/20 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-200 line-clamp-2 group-hover:text-white">
+                    {item.metadata?.title || `Brief #${item.id.toString()}`}
+                  </span>
+                  <ChevronRight className="w-4 h-4 shrink-0 text-gray-500" />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-500">
+                  <span className="inline-flex items-center gap-1">
+                    <TagIcon className="w-3 h-3" />
+                    {getCategoryLabel(Number(item.category))}
+                  </span>
+                  {budget && <span className="text-gray-300">{budget}</span>}
+                  <span>{timeAgo(Number(item.createdAt))}</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {reasons.slice(0, 3).map((r) => (
+                    <span
+                      key={r}
+                      className="text-[10px] px-2 py-0.5 rounded-full bg-white/5 text-gray-300 border border-white/10"
+                    >
+                      {r}
+                    </span>
+                  ))}
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
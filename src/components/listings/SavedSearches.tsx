@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { Bell, BellOff, Bookmark, RefreshCcw, X } from "lucide-react";
+import { useToastContext } from "@/components/providers";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  loadSavedSearches,
+  setSavedSearchAlerts,
+  type SavedSearchDraft,
+} from "@/lib/savedSearches";
+import { getCategoryLabel } from "@/lib/utils";
+import type { SavedSearch } from "@/types/marketplace";
+
+export type SavedSearchCriteria = Omit<SavedSearchDraft, "name" | "alerts">;
+
+function isEmpty(c: SavedSearchCriteria) {
+  return (
+    !c.query?.trim() &&
+    (c.category === undefined || c.category === null) &&
+    c.minBudget === undefined &&
+    c.maxBudget === undefined &&
+    !c.tags?.length
+  );
+}
+
+function defaultName(c: SavedSearchCriteria) {
+  const parts = [
+    c.query?.trim(),
+    c.category !== undefined && c.category !== null
+      ? getCategoryLabel(c.category)
+      : undefined,
+    ...(c.tags || []).slice(0, 2),
+  ].filter(Boolean);
+  return parts.join(" · ").slice(0, 60) || "My brief search";
+}
+
+// Saved brief searches for the signed-in wallet: apply one, toggle its alerts, delete it,
+// or save the current filters. Alerts arrive as notifications when new briefs match.
+export function SavedSearches({
+  criteria,
+  onApply,
+}: {
+  criteria: SavedSearchCriteria;
+  onApply: (search: SavedSearch) => void;
+}) {
+  const { address } = useAccount();
+  const { session, signingIn, signIn } = useWalletSession();
+  const toast = useToastContext();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [naming, setNaming] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!session) {
+      setSearches([]);
+      return;
+    }
+    let cancelled = false;
+    loadSavedSearches(session.address)
+      .then((rows) => {
+        if (!cancelled) setSearches(rows);
+      })
+      .catch((e) => console.warn("Failed to load saved searches:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  if (!address) return null;
+
+  if (!session) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <Bookmark className="w-3.5 h-3.5" />
+        Save searches and get notified about new matching briefs.
+        <button
+          onClick={async () => {
+            try {
+              await signIn();
+            } catch (e) {
+              toast.showError(
+                "Sign-in failed",
+                e instanceof Error ? e.message : "Please try again"
+              );
+            }
+          }}
+          disabled={signingIn}
+          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          {signingIn ? "Waiting for signature…" : "Sign in with wallet"}
+        </button>
+      </div>
+    );
+  }
+
+  async function save() {
+    if (!session || naming === null || busy) return;
+    setBusy(true);
+    try {
+      const created = await createSavedSearch(session.address, {
+        ...criteria,
+        name: naming.trim() || defaultName(criteria),
+      });
+      setSearches((prev) => [created, ...prev]);
+      setNaming(null);
+      toast.showSuccess(
+        "Search saved",
+        "You'll be notified when new briefs match it."
+      );
+    } catch (e) {
+      toast.showError(
+        "Could not save search",
+        e instanceof Error ? e.message : "Please try again"
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleAlerts(search: SavedSearch) {
+    try {
+      await setSavedSearchAlerts(search.id, !search.alerts);
+      setSearches((prev) =>
+        prev.map((s) =>
+          s.id === search.id ? { ...s, alerts: !search.alerts } : s
+        )
+      );
+    } catch (e) {
+      toast.showError(
+        "Could not update alerts",
+        e instanceof Error ? e.message : "Please try again"
+      );
+    }
+  }
+
+  async function remove(search: SavedSearch) {
+    try {
+      await deleteSavedSearch(search.id);
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    } catch (e) {
+      toast.showError(
+        "Could not delete search",
+        e instanceof Error ? e.message : "Please try again"
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1 text-xs text-gray-500 uppercase tracking-wider">
+          <Bookmark className="w-3.5 h-3.5" /> Saved
+        </span>
+        {searches.length === 0 && (
+          <span className="text-xs text-gray-500">No saved searches yet</span>
+        )}
+        {searches.map((s) => (
+          <span
+            key={s.id}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 bg-white/5 pl-3 pr-1 py-0.5 text-xs text-gray-200"
+          >
+            <button
+              onClick={() => onApply(s)}
+              className="hover:text-white max-w-[180px] truncate"
+              title="Apply this search"
+            >
+              {s.name}
+            </button>
+            <button
+              onClick={() => toggleAlerts(s)}
+              className="p-1 text-gray-400 hover:text-gray-200"
+              aria-label={s.alerts ? "Turn alerts off" : "Turn alerts on"}
+              title={s.alerts ? "Alerts on" : "Alerts off"}
+            >
+              {s.alerts ? (
+                <Bell className="w-3 h-3 text-blue-400" />
+              ) : (
+                <BellOff className="w-3 h-3" />
+              )}
+            </button>
+            <button
+              onClick={() => remove(s)}
+              className="p-1 text-gray-500 hover:text-red-300"
+              aria-label="Delete saved search"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {naming === null && (
+          <button
+            onClick={() => setNaming(defaultName(criteria))}
+            disabled={isEmpty(criteria)}
+            title={
+              isEmpty(criteria)
+                ? "Enter a search or pick filters first"
+                : undefined
+            }
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+          >
+            + Save this search
+          </button>
+        )}
+      </div>
+      {naming !== null && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <input
+            autoFocus
+            value={naming}
+            onChange={(e) => setNaming(e.target.value)}
+            maxLength={80}
+            placeholder="Name this search"
+            className="w-64 rounded-md border border-white/10 bg-gray-950/60 px-3 py-1.5 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-white/10"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="inline-flex items-center gap-1 rounded-md bg-white px-3 py-1.5 text-xs font-medium text-black hover:opacity-90 disabled:opacity-50"
+          >
+            {busy && <RefreshCcw className="w-3 h-3 animate-spin" />}
+            Save with alerts
+          </button>
+          <button
+            type="button"
+            onClick={() => setNaming(null)}
+            className="text-xs text-gray-400 hover:text-gray-200"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
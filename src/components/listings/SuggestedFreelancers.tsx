@@ -0,0 +1,93 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { UserCircle2, Users } from "lucide-react";
+import { useSuggestedFreelancers } from "@/hooks/useRecommendations";
+import type { BriefLike } from "@/lib/recommendations";
+import { formatAddress, toGatewayUrl } from "@/lib/utils";
+
+// Sidebar panel for a brief's creator: freelancers whose skills, category and track
+// record fit the brief
+export function SuggestedFreelancers({
+  brief,
+  enabled,
+}: {
+  brief: BriefLike | null;
+  enabled: boolean;
+}) {
+  const { loading, suggestions } = useSuggestedFreelancers(brief, enabled);
+
+  if (!enabled) return null;
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-gradient-to-b from-gray-900/70 to-gray-900/30 p-6 space-y-4">
+      <h3 className="font-medium text-sm tracking-wide flex items-center gap-2 text-gray-200">
+        <Users className="w-4 h-4" />
+        Suggested freelancers
+      </h3>
+      {loading && suggestions.length === 0 ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div
+              key={i}
+              className="h-12 rounded-lg bg-gray-800/40 animate-pulse"
+            />
+          ))}
+        </div>
+      ) : suggestions.length === 0 ? (
+        <p className="text-[12px] text-gray-500">
+          No matching freelancers yet. Tags and requirements on the brief help
+          find them.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {suggestions.map(({ item, reasons }) => {
+            const avatar = item.profile.profilePicCID
+              ? toGatewayUrl(item.profile.profilePicCID)
+              : null;
+            return (
+              <li key={item.address}>
+                <Link
+                  href={`/profile/${item.address}`}
+                  className="flex items-start gap-3 rounded-lg p-2 -mx-2 hover:bg-white/5 transition-colors"
+                >
+                  {avatar ? (
+                    <div className="relative h-8 w-8 rounded-full overflow-hidden border border-white/10 shrink-0">
+                      <Image
+                        src={avatar}
+                        alt={
+                          item.profile.username
+                            ? `@${item.profile.username}`
+                            : "avatar"
+                        }
+                        fill
+                        sizes="32px"
+                        className="object-cover"
+                        unoptimized
+                      />
+                    </div>
+                  ) : (
+                    <div className="h-8 w-8 rounded-full border border-white/10 bg-gray-800 flex items-center justify-center shrink-0">
+                      <UserCircle2 className="w-5 h-5 text-gray-500" />
+                    </div>
+                  )}
+                  <div className="min-w-0 space-y-1">
+                    <div className="text-xs font-medium text-gray-200 truncate">
+                      {item.profile.username
+                        ? `@${item.profile.username}`
+                        : formatAddress(item.address)}
+                    </div>
+                    <div className="text-[11px] text-gray-500">
+                      {reasons.slice(0, 3).join(" · ")}
+                    </div>
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle2,
+  Circle,
+  Flag,
+  ListChecks,
+  Plus,
+  RefreshCcw,
+  Trash2,
+} from "lucide-react";
+import { useToastContext } from "@/components/providers";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { EscrowStatus, OfferMilestone } from "@/types/marketplace";
+import {
+  approveMilestonePlan,
+  isMilestoneOverdue,
+  isPlanApproved,
+  loadMilestones,
+  milestoneStatus,
+  proposeMilestonesFromDeliverables,
+  saveMilestonePlan,
+  validateMilestone,
+  validateMilestoneDrafts,
+  type MilestoneDraft,
+  type MilestoneStatus,
+} from "@/lib/milestones";
+
+type DraftRow = { title: string; amount: string; dueDate: string };
+
+const statusMeta: Record<
+  MilestoneStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: "Pending", className: "bg-gray-500/15 text-gray-300" },
+  awaiting: {
+    label: "Awaiting approval",
+    className: "bg-yellow-500/15 text-yellow-300",
+  },
+  approved: { label: "Approved", className: "bg-green-500/15 text-green-300" },
+  disputed: { label: "Disputed", className: "bg-red-500/15 text-red-300" },
+};
+
+// Off-chain milestone plan for an escrow. The escrow itself is released (or disputed) as a
+// whole; milestones only track which deliverables both parties have approved.
+export function MilestoneTimeline({
+  chainId,
+  offerId,
+  total,
+  decimals,
+  formatAmount,
+  deliverables,
+  address,
+  isClient,
+  isProvider,
+  escrowStatus,
+  onDispute,
+  onChange,
+}: {
+  chainId: number;
+  offerId: string;
+  total: bigint;
+  decimals: number;
+  formatAmount: (amount: bigint) => string;
+  deliverables?: string[];
+  address?: string | null;
+  isClient: boolean;
+  isProvider: boolean;
+  escrowStatus?: EscrowStatus;
+  onDispute?: (milestone: OfferMilestone) => void;
+  onChange?: (milestones: OfferMilestone[]) => void;
+}) {
+  const toast = useToastContext();
+  const { session, signIn } = useWalletSession();
+  const [milestones, setMilestones] = useState<OfferMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [drafts, setDrafts] = useState<DraftRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [approvingPlan, setApprovingPlan] = useState(false);
+
+  const isParty = isClient || isProvider;
+  const inProgress = escrowStatus === EscrowStatus.IN_PROGRESS;
+  const canEditPlan =
+    isParty &&
+    (escrowStatus === undefined || inProgress) &&
+    milestones.every((m) => milestoneStatus(m) === "pending");
+  const planApproved = isPlanApproved(milestones);
+  const planProposer = milestones[0]?.createdBy;
+  const proposedByMe =
+    !!address && planProposer?.toLowerCase() === address.toLowerCase();
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await loadMilestones(chainId, offerId);
+      setMilestones(list);
+      onChange?.(list);
+    } catch (e) {
+      console.warn("Failed to load milestones", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [chainId, offerId, onChange]);
+
+  // Plans are only readable with a wallet session, so reload once one exists
+  useEffect(() => {
+    void refresh();
+  }, [refresh, session]);
+
+  const toDraftRows = useCallback(
+    (items: MilestoneDraft[]): DraftRow[] =>
+      items.map((d) => ({
+        title: d.title,
+        amount: ethers.formatUnits(d.amount, decimals),
+        dueDate: d.dueDate || "",
+      })),
+    [decimals]
+  );
+
+  const startEditing = () => {
+    setDrafts(
+      milestones.length
+        ? toDraftRows(milestones)
+        : toDraftRows(proposeMilestonesFromDeliverables(deliverables, total))
+    );
+    setEditing(true);
+  };
+
+  const draftTotal = useMemo(() => {
+    let sum = BigInt(0);
+    for (const d of drafts) {
+      try {
+        sum += ethers.parseUnits(d.amount || "0", decimals);
+      } catch {}
+    }
+    return sum;
+  }, [drafts, decimals]);
+
+  const updateDraft = (idx: number, patch: Partial<DraftRow>) =>
+    setDrafts((prev) =>
+      prev.map((d, i) => (i === idx ? { ...d, ...patch } : d))
+    );
+
+  const handleSave = async () => {
+    if (!address) return;
+    let parsed: MilestoneDraft[];
+    try {
+      parsed = drafts.map((d) => ({
+        title: d.title,
+        amount: ethers.parseUnits(d.amount || "0", decimals),
+        dueDate: d.dueDate || undefined,
+      }));
+    } catch {
+      toast.showError("Invalid amount", "Use plain decimal amounts");
+      return;
+    }
+    const problem = validateMilestoneDrafts(parsed, total);
+    if (problem) {
+      toast.showWarning("Milestones", problem);
+      return;
+    }
+    setSaving(true);
+    try {
+      if (!session) await signIn();
+      const list = await saveMilestonePlan(offerId, parsed);
+      setMilestones(list);
+      onChange?.(list);
+      setEditing(false);
+      toast.showSuccess(
+        "Milestones proposed",
+        "The other party needs to approve the plan"
+      );
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to save milestones");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprovePlan = async () => {
+    setApprovingPlan(true);
+    try {
+      if (!session) await signIn();
+      await approveMilestonePlan(offerId);
+      await refresh();
+      toast.showSuccess("Milestone plan approved");
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to approve the plan");
+    } finally {
+      setApprovingPlan(false);
+    }
+  };
+
+  const handleApprove = async (m: OfferMilestone) => {
+    setBusyId(m.id);
+    try {
+      if (!session) await signIn();
+      await validateMilestone(m.id);
+      await refresh();
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to approve milestone");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const allApproved =
+    milestones.length > 0 &&
+    milestones.every((m) => milestoneStatus(m) === "approved");
+
+  return (
+    <div className="container-panel p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-gray-400" />
+          <h3 className="font-medium text-sm">Milestones</h3>
+        </div>
+        {canEditPlan && !editing && (
+          <button
+            onClick={startEditing}
+            className="text-xs px-3 py-1.5 rounded border border-white/10 hover:border-white/30"
+          >
+            {milestones.length ? "Edit plan" : "Split into milestones"}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-xs text-gray-500">Loading milestones…</div>
+      ) : editing ? (
+        <div className="space-y-2">
+          {drafts.map((d, idx) => (
+            <div
+              key={idx}
+              className="grid grid-cols-12 gap-2 items-center text-xs"
+            >
+              <input
+                value={d.title}
+                onChange={(e) => updateDraft(idx, { title: e.target.value })}
+                placeholder="Milestone title"
+                className="col-span-5 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+              />
+              <input
+                value={d.amount}
+                onChange={(e) => updateDraft(idx, { amount: e.target.value })}
+                inputMode="decimal"
+                placeholder="Amount"
+                className="col-span-3 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+              />
+              <input
+                type="date"
+                value={d.dueDate}
+                onChange={(e) => updateDraft(idx, { dueDate: e.target.value })}
+                className="col-span-3 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+              />
+              <button
+                onClick={() =>
+                  setDrafts((prev) => prev.filter((_, i) => i !== idx))
+                }
+                className="col-span-1 flex justify-center text-gray-500 hover:text-red-400"
+                aria-label="Remove milestone"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center justify-between gap-2 text-[11px]">
+            <div className="flex gap-2">
+              <button
+                onClick={() =>
+                  setDrafts((prev) => [
+                    ...prev,
+                    { title: "", amount: "", dueDate: "" },
+                  ])
+                }
+                className="inline-flex items-center gap-1 px-2 py-1 rounded border border-white/10 hover:border-white/30"
+              >
+                <Plus className="w-3 h-3" /> Add
+              </button>
+              {!!deliverables?.length && (
+                <button
+                  onClick={() =>
+                    setDrafts(
+                      toDraftRows(
+                        proposeMilestonesFromDeliverables(deliverables, total)
+                      )
+                    )
+                  }
+                  className="px-2 py-1 rounded border border-white/10 hover:border-white/30"
+                >
+                  Use deliverables
+                </button>
+              )}
+            </div>
+            <span
+              className={
+                draftTotal === total ? "text-green-400" : "text-yellow-400"
+              }
+            >
+              {formatAmount(draftTotal)} / {formatAmount(total)}
+            </span>
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 bg-white text-black rounded text-sm font-medium disabled:opacity-50"
+            >
+              {saving && <RefreshCcw className="w-4 h-4 animate-spin" />}
+              {saving ? "Saving..." : "Save milestones"}
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-2 border border-white/10 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : milestones.length === 0 ? (
+        <div className="text-xs text-gray-400">
+          No milestones yet. The escrow is released in one payment when both
+          parties validate the work.
+        </div>
+      ) : (
+        <>
+          {!planApproved && (
+            <div className="flex flex-wrap items-center justify-between gap-2 text-[11px] text-yellow-300 border border-yellow-900 rounded p-2">
+              <span>
+                {proposedByMe
+                  ? "Waiting for the other party to approve this plan."
+                  : isParty
+                  ? "The other party proposed this plan. Approve it or propose changes."
+                  : "This plan is waiting for both parties to agree."}
+              </span>
+              {isParty && !proposedByMe && (
+                <button
+                  onClick={handleApprovePlan}
+                  disabled={approvingPlan}
+                  className="text-xs px-2.5 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                >
+                  {approvingPlan ? "Approving..." : "Approve plan"}
+                </button>
+              )}
+            </div>
+          )}
+          <ol className="relative border-l border-gray-800 ml-2 space-y-4">
+            {milestones.map((m) => {
+              const status = milestoneStatus(m);
+              const meta = statusMeta[status];
+              const overdue = isMilestoneOverdue(m);
+              const myValidation = isClient
+                ? m.clientValidatedAt
+                : isProvider
+                ? m.providerValidatedAt
+                : undefined;
+              return (
+                <li key={m.id} className="ml-4">
+                  <span className="absolute -left-[9px] mt-0.5 bg-gray-950">
+                    {status === "approved" ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-400" />
+                    ) : status === "disputed" ? (
+                      <AlertTriangle className="w-4 h-4 text-red-400" />
+                    ) : (
+                      <Circle className="w-4 h-4 text-gray-600" />
+                    )}
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium text-gray-100">{m.title}</span>
+                    <span className="text-green-400 text-xs">
+                      {formatAmount(m.amount)}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-[10px] ${meta.className}`}
+                    >
+                      {meta.label}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-[11px] text-gray-400 mt-1">
+                    {m.dueDate && (
+                      <span
+                        className={`inline-flex items-center gap-1 ${
+                          overdue ? "text-red-400" : ""
+                        }`}
+                      >
+                        <CalendarClock className="w-3 h-3" /> Due{" "}
+                        {new Date(`${m.dueDate}T00:00:00`).toLocaleDateString()}
+                        {overdue && " (overdue)"}
+                      </span>
+                    )}
+                    <span>Client {m.clientValidatedAt ? "✓" : "–"}</span>
+                    <span>Provider {m.providerValidatedAt ? "✓" : "–"}</span>
+                  </div>
+                  {isParty &&
+                    inProgress &&
+                    planApproved &&
+                    status !== "disputed" && (
+                      <div className="flex gap-2 mt-2">
+                        {!myValidation && (
+                          <button
+                            onClick={() => handleApprove(m)}
+                            disabled={busyId === m.id}
+                            className="text-xs px-2.5 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {busyId === m.id ? "Approving..." : "Approve"}
+                          </button>
+                        )}
+                        {onDispute && status !== "approved" && (
+                          <button
+                            onClick={() => onDispute(m)}
+                            className="inline-flex items-center gap-1 text-xs px-2.5 py-1 rounded border border-red-500/60 text-red-300 hover:bg-red-500/10"
+                          >
+                            <Flag className="w-3 h-3" /> Dispute
+                          </button>
+                        )}
+                      </div>
+                    )}
+                </li>
+              );
+            })}
+          </ol>
+          <p className="text-[11px] text-gray-500">
+            Milestones are tracked off-chain. The escrow is still released in
+            one payment when both parties validate the work, not per milestone,
+            and disputing a milestone opens a dispute over the whole escrow.
+          </p>
+        </>
+      )}
+
+      {allApproved && inProgress && (
+        <div className="text-[11px] text-green-300 border border-green-900 rounded p-2">
+          All milestones approved. Validate the work to release the escrow.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import {
+  CheckCircle2,
+  History,
+  MessageSquareQuote,
+  RefreshCcw,
+  Repeat2,
+} from "lucide-react";
+import { useToastContext } from "@/components/providers";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { createReceiptNotifier } from "@/lib/txReceipt";
+import {
+  agreeToCounter,
+  latestCounter,
+  linkCounterToOffer,
+  negotiationBlocker,
+  postCounter,
+} from "@/lib/negotiation";
+import { isOfferExpired } from "@/lib/offerExpiry";
+import {
+  formatTokenAmount,
+  knownDecimalsFor,
+  timeAgo,
+  tokenSymbolFor,
+  type KnownTokens,
+} from "@/lib/utils";
+import { Offer, OfferCounter } from "@/types/marketplace";
+
+const statusMeta: Record<
+  OfferCounter["status"],
+  { label: string; className: string }
+> = {
+  proposed: { label: "Open", className: "bg-yellow-500/15 text-yellow-300" },
+  agreed: { label: "Agreed", className: "bg-green-500/15 text-green-300" },
+  superseded: {
+    label: "Superseded",
+    className: "bg-gray-500/15 text-gray-400",
+  },
+};
+
+export function NegotiationThread({
+  listingId,
+  listingCreator,
+  proposer,
+  counters,
+  offer,
+  address,
+  tokens,
+  onChange,
+}: {
+  listingId: bigint;
+  listingCreator: string;
+  proposer: string;
+  counters: OfferCounter[];
+  // Latest on-chain offer from this proposer, if any
+  offer?: Offer | null;
+  address?: string | null;
+  tokens: KnownTokens;
+  onChange?: () => void | Promise<void>;
+}) {
+  const toast = useToastContext();
+  const { chain } = useAccount();
+  const { contract, chainId } = useMarketplaceContract();
+  const { session, signIn } = useWalletSession();
+  const notifyReceipt = useMemo(
+    () => createReceiptNotifier(toast, { chain }),
+    [toast, chain]
+  );
+  const [showForm, setShowForm] = useState(false);
+  const [token, setToken] = useState("DOP");
+  const [amount, setAmount] = useState("");
+  const [timeline, setTimeline] = useState("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState<"post" | "agree" | "resubmit" | null>(null);
+
+  const me = address?.toLowerCase();
+  const isCreator = !!me && me === listingCreator.toLowerCase();
+  const isProposer = !!me && me === proposer.toLowerCase();
+  const isParty = isCreator || isProposer;
+  const latest = latestCounter(counters);
+  const pendingOffer =
+    offer && !offer.accepted && !offer.cancelled ? offer : null;
+  const closed = !!offer?.accepted;
+  const blocker = pendingOffer
+    ? negotiationBlocker(pendingOffer, counters)
+    : null;
+  const expired = !!pendingOffer && isOfferExpired(pendingOffer);
+  const needsResubmit =
+    latest?.status === "agreed" &&
+    (!pendingOffer || blocker !== null || expired) &&
+    !closed;
+
+  const roleLabel = (who: string) =>
+    who === listingCreator.toLowerCase() ? "Listing owner" : "Proposer";
+
+  const formatTerms = (value: bigint, paymentToken: string) =>
+    `${formatTokenAmount(value, paymentToken, {
+      tokens,
+      maxFractionDigits: 6,
+    })} ${tokenSymbolFor(paymentToken, tokens)}`;
+
+  const tokenAddressFor = (symbol: string) =>
+    symbol === "ETH"
+      ? ethers.ZeroAddress
+      : symbol === "USDC"
+      ? tokens.USDC || ""
+      : tokens.DOP || "";
+
+  const openForm = () => {
+    const base = latest || pendingOffer;
+    if (base) {
+      const symbol = tokenSymbolFor(base.paymentToken, tokens);
+      setToken(symbol === "Token" ? "DOP" : symbol);
+      setAmount(formatTokenAmount(base.amount, base.paymentToken, { tokens }));
+    }
+    setTimeline(latest?.timeline || "");
+    setNote("");
+    setShowForm(true);
+  };
+
+  const handlePost = async () => {
+    if (!address) return;
+    const paymentToken = tokenAddressFor(token);
+    if (!paymentToken) {
+      toast.showError("Counter-offer", `${token} is not configured`);
+      return;
+    }
+    let value: bigint;
+    try {
+      value = ethers.parseUnits(
+        amount || "0",
+        knownDecimalsFor(paymentToken, tokens) ?? 18
+      );
+    } catch {
+      toast.showError("Invalid amount", "Use plain decimal amounts");
+      return;
+    }
+    if (value <= BigInt(0)) {
+      toast.showError("Invalid amount", "Please enter a positive amount");
+      return;
+    }
+    setBusy("post");
+    try {
+      if (!session) await signIn();
+      await postCounter(chainId, listingId, proposer, {
+        amount: value,
+        paymentToken,
+        timeline,
+        note,
+      });
+      setShowForm(false);
+      toast.showSuccess("Counter-offer sent");
+      await onChange?.();
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to send counter-offer");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAgree = async (c: OfferCounter) => {
+    if (!address) return;
+    setBusy("agree");
+    try {
+      if (!session) await signIn();
+      await agreeToCounter(c, address);
+      toast.showSuccess(
+        "Terms agreed",
+        isProposer
+          ? "Resubmit your offer with the agreed terms so it can be accepted"
+          : "The proposer can now resubmit the offer with these terms"
+      );
+      await onChange?.();
+    } catch (e) {
+      toast.showContractError("Error", e, "Failed to agree to terms");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // On-chain offers are immutable: cancel the pending one and make a new offer with the agreed terms
+  const handleResubmit = async () => {
+    if (!latest || latest.status !== "agreed") return;
+    setBusy("resubmit");
+    try {
+      if (!contract) throw new Error("Contract not ready");
+      if (!session) await signIn();
+      if (pendingOffer) {
+        const cancelReceipt = await contract.cancelOffer(pendingOffer.id);
+        notifyReceipt("Previous offer cancelled", undefined, cancelReceipt);
+      }
+      const receipt = await contract.makeOffer(
+        listingId,
+        latest.amount,
+        latest.paymentToken
+      );
+      notifyReceipt("Offer resubmitted", "Agreed terms are on-chain", receipt);
+      const newId = contract.offerIdFromReceipt(receipt);
+      if (newId !== null) await linkCounterToOffer(latest.id, newId);
+      await onChange?.();
+    } catch (e) {
+      toast.showContractError("Resubmit failed", e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!isParty && counters.length === 0) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-white/5 bg-gray-950/40 p-3 space-y-3 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-gray-300">
+          <History className="w-3.5 h-3.5 text-gray-500" />
+          <span className="font-medium">Negotiation</span>
+          {counters.length > 0 && (
+            <span className="text-gray-500">
+              ({counters.length} version{counters.length === 1 ? "" : "s"})
+            </span>
+          )}
+        </div>
+        {isParty && !closed && !showForm && (
+          <button
+            onClick={openForm}
+            className="inline-flex items-center gap-1 px-2.5 py-1 rounded border border-white/10 hover:border-white/30 text-gray-200"
+          >
+            <Repeat2 className="w-3.5 h-3.5" /> Counter
+          </button>
+        )}
+      </div>
+
+      {counters.length > 0 && (
+        <ol className="relative border-l border-gray-800 ml-1.5 space-y-3">
+          {counters.map((c) => {
+            const meta = statusMeta[c.status];
+            const canAgree =
+              isParty &&
+              !closed &&
+              c.id === latest?.id &&
+              c.status === "proposed" &&
+              c.author !== me;
+            return (
+              <li key={c.id} className="ml-4">
+                <span className="absolute -left-[5px] mt-1 w-2.5 h-2.5 rounded-full bg-gray-700" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-gray-100">
+                    {formatTerms(c.amount, c.paymentToken)}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-[10px] ${meta.className}`}
+                  >
+                    {meta.label}
+                  </span>
+                  <span className="text-gray-500">
+                    {roleLabel(c.author)} •{" "}
+                    {timeAgo(Math.floor(Date.parse(c.createdAt) / 1000))}
+                  </span>
+                </div>
+                {(c.timeline || c.note) && (
+                  <div className="mt-1 space-y-0.5 text-gray-400">
+                    {c.timeline && <div>Timeline: {c.timeline}</div>}
+                    {c.note && (
+                      <div className="flex gap-1">
+                        <MessageSquareQuote className="w-3 h-3 mt-0.5 shrink-0" />
+                        <span className="whitespace-pre-wrap">{c.note}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {c.offerId && (
+                  <div className="mt-1 text-gray-500">
+                    Resubmitted as offer #{c.offerId}
+                  </div>
+                )}
+                {canAgree && (
+                  <button
+                    onClick={() => handleAgree(c)}
+                    disabled={busy !== null}
+                    className="mt-2 inline-flex items-center gap-1 px-2.5 py-1 rounded bg-green-600 hover:bg-green-500 text-white disabled:opacity-50"
+                  >
+                    <CheckCircle2 className="w-3.5 h-3.5" />
+                    {busy === "agree" ? "Agreeing..." : "Agree to these terms"}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {!closed && pendingOffer && counters.length > 0 && (
+        <div
+          className={`rounded border p-2 ${
+            blocker
+              ? "border-yellow-900 text-yellow-300"
+              : "border-green-900 text-green-300"
+          }`}
+        >
+          {blocker ||
+            "The on-chain offer matches the agreed terms and can be accepted."}
+        </div>
+      )}
+
+      {isProposer && needsResubmit && latest && (
+        <button
+          onClick={handleResubmit}
+          disabled={busy !== null}
+          className="w-full inline-flex items-center justify-center gap-2 px-3 py-2 rounded bg-white text-black font-medium disabled:opacity-50"
+        >
+          {busy === "resubmit" && (
+            <RefreshCcw className="w-3.5 h-3.5 animate-spin" />
+          )}
+          {busy === "resubmit"
+            ? "Resubmitting..."
+            : `Resubmit offer at ${formatTerms(
+                latest.amount,
+                latest.paymentToken
+              )}`}
+        </button>
+      )}
+
+      {showForm && (
+        <div className="space-y-2 pt-1">
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className="px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+            >
+              {tokens.DOP && <option value="DOP">DOP</option>}
+              <option value="ETH">ETH</option>
+              {tokens.USDC && <option value="USDC">USDC</option>}
+            </select>
+            <input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              inputMode="decimal"
+              placeholder="Amount"
+              className="col-span-2 px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+            />
+          </div>
+          <input
+            value={timeline}
+            onChange={(e) => setTimeline(e.target.value)}
+            placeholder="Timeline (e.g. 2 weeks)"
+            className="w-full px-2 py-1.5 bg-gray-900 border border-gray-800 rounded"
+          />
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="Note (optional)"
+            className="w-full px-2 py-1.5 bg-gray-900 border border-gray-800 rounded resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handlePost}
+              disabled={busy !== null || !amount}
+              className="flex-1 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+            >
+              {busy === "post" ? "Sending..." : "Send counter-offer"}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 rounded border border-white/10"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import {
+  Bell,
+  CheckCheck,
+  CheckCircle2,
+  FileText,
+  Handshake,
+  MessageSquare,
+  Scale,
+  Search,
+  Star,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeNotifications,
+} from "@/lib/notifications";
+import { formatAddress, timeAgo } from "@/lib/utils";
+import type { AppNotification, NotificationKind } from "@/types/notification";
+
+const KIND_ICONS: Record<NotificationKind, LucideIcon> = {
+  offer_received: FileText,
+  offer_accepted: Handshake,
+  work_validated: CheckCircle2,
+  dispute_opened: Scale,
+  dispute_appealed: Scale,
+  dispute_resolved: Scale,
+  review_received: Star,
+  chat_message: MessageSquare,
+  saved_search_match: Search,
+};
+
+// Header bell with the latest notifications for the connected wallet
+export function NotificationBell({ address }: { address: string }) {
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setItems([]);
+    return subscribeNotifications(address, setItems);
+  }, [address]);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleClickOutside(event: MouseEvent) {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open]);
+
+  const unread = items.filter((n) => !n.read).length;
+
+  function markLocal(pred: (n: AppNotification) => boolean) {
+    setItems((prev) => prev.map((n) => (pred(n) ? { ...n, read: true } : n)));
+  }
+
+  async function onItemClick(n: AppNotification) {
+    setOpen(false);
+    if (n.read) return;
+    markLocal((x) => x.id === n.id);
+    try {
+      await markNotificationRead(n.id);
+    } catch {}
+  }
+
+  async function onMarkAll() {
+    markLocal(() => true);
+    try {
+      await markAllNotificationsRead(address);
+    } catch {}
+  }
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="relative inline-flex items-center justify-center rounded-md p-2 text-gray-300 hover:text-white hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-white/20"
+        aria-label="Notifications"
+        aria-expanded={open}
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 inline-flex min-w-[1.1rem] h-[1.1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white ring-2 ring-black">
+            {unread > 9 ? "9+" : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-gray-900 border border-gray-800 rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-800">
+            <span className="text-sm font-medium text-white">
+              Notifications
+            </span>
+            <button
+              onClick={onMarkAll}
+              disabled={unread === 0}
+              className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400"
+            >
+              <CheckCheck className="w-3.5 h-3.5" />
+              Mark all read
+            </button>
+          </div>
+          {items.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">
+              No notifications yet
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {items.map((n) => {
+                const Icon = KIND_ICONS[n.kind] || Bell;
+                const content = (
+                  <div className="flex gap-3">
+                    <Icon
+                      className={`mt-0.5 w-4 h-4 shrink-0 ${
+                        n.read ? "text-gray-500" : "text-blue-400"
+                      }`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span
+                          className={`truncate text-sm ${
+                            n.read ? "text-gray-400" : "text-white font-medium"
+                          }`}
+                        >
+                          {n.title}
+                        </span>
+                        {!n.read && (
+                          <span className="h-2 w-2 shrink-0 rounded-full bg-blue-400" />
+                        )}
+                      </div>
+                      {n.body && (
+                        <div className="truncate text-xs text-gray-400">
+                          {n.body}
+                        </div>
+                      )}
+                      <div className="text-[10px] text-gray-500">
+                        {n.actor && <>{formatAddress(n.actor)} · </>}
+                        {timeAgo(
+                          Math.floor(new Date(n.createdAt).getTime() / 1000)
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+                const cls = `block w-full text-left px-4 py-2 hover:bg-gray-800 ${
+                  n.read ? "" : "bg-gray-800/40"
+                }`;
+                return (
+                  <li key={n.id}>
+                    {n.href ? (
+                      <Link
+                        href={n.href}
+                        className={cls}
+                        onClick={() => onItemClick(n)}
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button className={cls} onClick={() => onItemClick(n)}>
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
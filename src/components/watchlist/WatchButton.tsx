@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { Eye, RefreshCcw } from "lucide-react";
+import { useToastContext } from "@/components/providers";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import type { Listing, WatchlistKind } from "@/types/marketplace";
+
+// Add/remove a listing or freelancer on the connected wallet's watchlist. `listing` is
+// the current listing when the caller already has it, saving a chain read.
+export function WatchButton({
+  kind,
+  target,
+  listing,
+  compact = false,
+  className = "",
+}: {
+  kind: WatchlistKind;
+  target: string;
+  listing?: Listing;
+  compact?: boolean;
+  className?: string;
+}) {
+  const { address } = useAccount();
+  const { find, watch, unwatch } = useWatchlist();
+  const toast = useToastContext();
+  const [busy, setBusy] = useState(false);
+
+  if (!address) return null;
+
+  const item = find(kind, target);
+  const label = item ? "Watching" : "Watch";
+
+  async function toggle(e: React.MouseEvent) {
+    e.preventDefault();
+    e.stopPropagation();
+    if (busy) return;
+    setBusy(true);
+    try {
+      if (item) {
+        await unwatch(item);
+      } else {
+        await watch(kind, target, listing);
+        toast.showSuccess(
+          "Added to watchlist",
+          kind === "listing"
+            ? "Changes to this listing will show on your watchlist."
+            : "Find this freelancer again on your watchlist."
+        );
+      }
+    } catch (err) {
+      toast.showError(
+        "Watchlist update failed",
+        err instanceof Error ? err.message : "Please try again"
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const Icon = busy ? RefreshCcw : Eye;
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={busy}
+      aria-pressed={!!item}
+      aria-label={item ? "Remove from watchlist" : "Add to watchlist"}
+      title={item ? "Remove from watchlist" : "Add to watchlist"}
+      className={`inline-flex items-center gap-1.5 rounded-lg border text-xs font-medium transition-colors disabled:opacity-50 ${
+        item
+          ? "border-blue-500/40 bg-blue-500/10 text-blue-300 hover:bg-blue-500/20"
+          : "border-white/10 text-gray-300 hover:border-white/30 hover:text-white"
+      } ${compact ? "p-1.5" : "px-3 py-1.5"} ${className}`.trim()}
+    >
+      <Icon className={`w-3.5 h-3.5 ${busy ? "animate-spin" : ""}`.trim()} />
+      {!compact && label}
+    </button>
+  );
+}
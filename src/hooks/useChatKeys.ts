@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import {
+  CHAT_KEYS_EVENT,
+  hasLostChatKeys,
+  hasUnlockedChatKeys,
+  pendingKeyShares,
+  resetChatKeys,
+  shareConversationKeys,
+  unlockChatKeys,
+} from "@/lib/chatCrypto";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+
+// Chat encryption keys for the connected account. Unlocking asks for one signature per
+// page load; every component using the hook sees the change. `lost` means the wallet
+// could not open its key bundle and has to reset it.
+export function useChatKeys() {
+  const { address } = useAccount();
+  const { chainId } = useMarketplaceContract();
+  const { signMessageAsync } = useSignMessage();
+  const [unlocked, setUnlocked] = useState(() => hasUnlockedChatKeys(address));
+  const [lost, setLost] = useState(() => hasLostChatKeys(address));
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    const sync = () => {
+      setUnlocked(hasUnlockedChatKeys(address));
+      setLost(hasLostChatKeys(address));
+    };
+    sync();
+    window.addEventListener(CHAT_KEYS_EVENT, sync);
+    return () => window.removeEventListener(CHAT_KEYS_EVENT, sync);
+  }, [address]);
+
+  const unlock = useCallback(async () => {
+    if (!address) throw new Error("Connect your wallet first");
+    setUnlocking(true);
+    try {
+      await unlockChatKeys(address, chainId, (message) =>
+        signMessageAsync({ message })
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  }, [address, chainId, signMessageAsync]);
+
+  const reset = useCallback(async () => {
+    if (!address) throw new Error("Connect your wallet first");
+    setUnlocking(true);
+    try {
+      await resetChatKeys(address, chainId, (message) =>
+        signMessageAsync({ message })
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  }, [address, chainId, signMessageAsync]);
+
+  // Give dispute reviewers (and a participant who set up keys late) access to an offer
+  // chat's encrypted files and evidence; only asks for a signature when some are not
+  // shared yet. Returns the number of files that were pending.
+  const shareKeys = useCallback(
+    async (conversation: string) => {
+      if (!address) return 0;
+      const pending = await pendingKeyShares(conversation);
+      if (!pending) return 0;
+      await unlock();
+      await shareConversationKeys(conversation, address);
+      return pending;
+    },
+    [address, unlock]
+  );
+
+  return { unlocked, unlocking, lost, unlock, reset, shareKeys };
+}
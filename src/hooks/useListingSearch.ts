@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import type { PriceBasis } from "@/lib/pricing";
+import type { EnrichedListing } from "@/types/marketplace";
+import type { ListingSearchFacets, ListingSearchSort } from "@/types/indexer";
+
+export type ListingSearchFilters = {
+  query?: string;
+  listingType?: number;
+  category?: number | null;
+  token?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  maxDeliveryDays?: number;
+  serviceType?: string;
+  priceBasis?: PriceBasis;
+  tags?: string[];
+  boostedOnly?: boolean;
+  onlyActive?: boolean;
+  boostedFirst?: boolean;
+  sort?: ListingSearchSort;
+};
+
+const PAGE_SIZE = 24;
+const DEBOUNCE_MS = 300;
+
+// Paged listing search against the server index. `available` is null until the first
+// response, then false for good when the index can't serve this page (the caller falls
+// back to loading listings on-chain and filtering them itself).
+export function useListingSearch(filters: ListingSearchFilters) {
+  const { contract } = useMarketplaceContract();
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [listings, setListings] = useState<EnrichedListing[]>([]);
+  const [facets, setFacets] = useState<ListingSearchFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Bumped on every new search so stale pages are dropped
+  const generation = useRef(0);
+  const bypassCache = useRef(false);
+
+  const key = JSON.stringify(filters);
+
+  useEffect(() => {
+    if (!contract || available === false) return;
+    const gen = ++generation.current;
+    const params = JSON.parse(key) as ListingSearchFilters;
+    setLoading(true);
+    const timer = setTimeout(
+      async () => {
+        const page = await contract.searchListings(
+          { ...params, limit: PAGE_SIZE },
+          { force: bypassCache.current }
+        );
+        if (gen !== generation.current) return;
+        bypassCache.current = false;
+        if (!page) {
+          setAvailable(false);
+        } else {
+          setAvailable(true);
+          setListings(page.listings);
+          setFacets(page.facets);
+          setNextCursor(page.nextCursor);
+        }
+        setLoading(false);
+      },
+      available === null ? 0 : DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+    // `available` only gates the first request; flipping it must not refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contract, key, reloadKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!contract || !nextCursor || loadingMore) return;
+    const gen = generation.current;
+    setLoadingMore(true);
+    try {
+      const page = await contract.searchListings({
+        ...(JSON.parse(key) as ListingSearchFilters),
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      if (!page || gen !== generation.current) return;
+      setListings((prev) => [...prev, ...page.listings]);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [contract, key, nextCursor, loadingMore]);
+
+  const refresh = useCallback(() => {
+    bypassCache.current = true;
+    setReloadKey((k) => k + 1);
+  }, []);
+
+  return {
+    available,
+    loading,
+    loadingMore,
+    listings,
+    facets,
+    hasMore: !!nextCursor,
+    loadMore,
+    refresh,
+  };
+}
@@ -80,10 +80,9 @@ export function useMarketplaceContract() {
       getRpcUrl(Number(process.env.NEXT_PUBLIC_CHAIN_ID) || 11124)
     );
   }, [walletClient, connector?.id, chain?.id]);
-  const marketplaceContract = getMarketplaceContract(
-    chain?.id || 11124,
-    provider
-  );
+  // Chain the contract (and every chain-scoped off-chain record) is read from
+  const chainId = chain?.id || 11124;
+  const marketplaceContract = getMarketplaceContract(chainId, provider);
   const contract = useMemo(() => {
     try {
       // If we have a connected address, connect a signer (mutates instance)
@@ -112,7 +111,7 @@ export function useMarketplaceContract() {
   return {
     contract,
     address,
-    chainId: chain?.id,
+    chainId,
     isConnected: !!address,
   };
 }
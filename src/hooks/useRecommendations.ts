@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import {
+  rankRecommendations,
+  scoreBriefForFreelancer,
+  scoreFreelancerForBrief,
+  type BriefLike,
+  type Recommendation,
+  type TrackRecord,
+} from "@/lib/recommendations";
+import { loadListingMetadataFromURI } from "@/lib/utils";
+import {
+  ListingType,
+  type EnrichedListing,
+  type OnchainUserProfile,
+} from "@/types/marketplace";
+
+type MarketplaceContract = NonNullable<
+  ReturnType<typeof useMarketplaceContract>["contract"]
+>;
+
+// Candidate pools are capped so a page never walks the whole chain for a side panel
+const MAX_BRIEFS = 100;
+const MAX_FREELANCERS = 100;
+
+export type SuggestedFreelancer = {
+  address: string;
+  profile: OnchainUserProfile;
+} & TrackRecord;
+
+async function trackRecord(
+  contract: MarketplaceContract,
+  address: string
+): Promise<TrackRecord> {
+  const [rating, missions] = await Promise.all([
+    contract.getAverageRating(address).catch(() => 0),
+    contract.getMissionHistory(address).catch(() => []),
+  ]);
+  return { rating, completedMissions: missions.length };
+}
+
+// Newest open briefs: search index first, on-chain scan otherwise
+async function loadOpenBriefs(
+  contract: MarketplaceContract
+): Promise<EnrichedListing[]> {
+  const page = await contract.searchListings({
+    listingType: ListingType.BRIEF,
+    onlyActive: true,
+    boostedFirst: false,
+    sort: "newest",
+    limit: MAX_BRIEFS,
+  });
+  if (page) return page.listings;
+  const listings = await contract.fetchAllListingsByIndex({
+    max: MAX_BRIEFS,
+    onlyActive: true,
+    filterByType: true,
+    listingType: ListingType.BRIEF,
+  });
+  return Promise.all(
+    listings.map(async (l) => ({
+      ...l,
+      metadata: await loadListingMetadataFromURI(l.metadataURI, l).catch(
+        () => undefined
+      ),
+      isBoosted: Number(l.boostExpiry) >= Math.floor(Date.now() / 1000),
+    }))
+  );
+}
+
+// Open briefs ranked for the connected wallet's profile. `hasProfile` is false when the
+// wallet has no on-chain profile (there are no skills to match against).
+export function useRecommendedBriefs(limit = 6) {
+  const { address } = useAccount();
+  const { contract } = useMarketplaceContract();
+  const [recommendations, setRecommendations] = useState<
+    Recommendation<BriefLike>[]
+  >([]);
+  const [hasProfile, setHasProfile] = useState<boolean | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!contract || !address) {
+      setRecommendations([]);
+      setHasProfile(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      try {
+        const me = address.toLowerCase();
+        const profile = await contract.getProfile(address);
+        if (!profile || Number(profile.joinedAt) === 0) {
+          if (!cancelled) setHasProfile(false);
+          return;
+        }
+        const [missions, briefs] = await Promise.all([
+          contract.getMissionHistory(address).catch(() => []),
+          loadOpenBriefs(contract),
+        ]);
+        const freelancer = { address: me, profile, missions };
+        // Rank without client data first, then fetch track records for the shortlist only
+        const shortlist = rankRecommendations(
+          briefs
+            .filter((b) => b.creator.toLowerCase() !== me)
+            .map((b) => scoreBriefForFreelancer(b, freelancer, null)),
+          limit * 3
+        );
+        const clients = Array.from(
+          new Set(shortlist.map((r) => r.item.creator.toLowerCase()))
+        );
+        const records = new Map(
+          await Promise.all(
+            clients.map(
+              async (c) => [c, await trackRecord(contract, c)] as const
+            )
+          )
+        );
+        const ranked = rankRecommendations(
+          shortlist.map((r) =>
+            scoreBriefForFreelancer(
+              r.item,
+              freelancer,
+              records.get(r.item.creator.toLowerCase()) ?? null
+            )
+          ),
+          limit
+        );
+        if (cancelled) return;
+        setHasProfile(true);
+        setRecommendations(ranked);
+      } catch (e) {
+        console.warn("Failed to load recommendations:", e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, address, limit]);
+
+  return { loading, hasProfile, recommendations };
+}
+
+// Freelancers ranked for a brief, for its creator. Uses indexed rating/mission aggregates
+// when available, otherwise gig creators with on-chain track records.
+export function useSuggestedFreelancers(
+  brief: BriefLike | null,
+  enabled: boolean,
+  limit = 5
+) {
+  const { contract } = useMarketplaceContract();
+  const [suggestions, setSuggestions] = useState<
+    Recommendation<SuggestedFreelancer>[]
+  >([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!contract || !brief || !enabled) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      try {
+        const creator = brief.creator.toLowerCase();
+        const indexed = await contract.getIndexedFreelancers({
+          limit: MAX_FREELANCERS,
+        });
+        let pool: ({ address: string } & TrackRecord)[];
+        if (indexed) {
+          pool = indexed.map((p) => ({
+            address: p.address,
+            rating: p.rating,
+            completedMissions: p.completedMissions,
+          }));
+        } else {
+          const gigs = await contract.fetchAllListingsByIndex({
+            max: MAX_FREELANCERS,
+            onlyActive: true,
+            filterByType: true,
+            listingType: ListingType.GIG,
+          });
+          const addresses = Array.from(
+            new Set(gigs.map((g) => g.creator.toLowerCase()))
+          );
+          pool = await Promise.all(
+            addresses.map(async (a) => ({
+              address: a,
+              ...(await trackRecord(contract, a)),
+            }))
+          );
+        }
+        const [candidates, creatorMissions] = await Promise.all([
+          Promise.all(
+            pool
+              .filter((p) => p.address.toLowerCase() !== creator)
+              .map(async (p) => {
+                const profile = await contract
+                  .getProfile(p.address)
+                  .catch(() => null);
+                return profile && Number(profile.joinedAt) !== 0
+                  ? { ...p, profile }
+                  : null;
+              })
+          ),
+          contract.getMissionHistory(brief.creator).catch(() => []),
+        ]);
+        const ranked = rankRecommendations(
+          candidates
+            .filter((c): c is SuggestedFreelancer => c !== null)
+            .map((c) => scoreFreelancerForBrief(brief, c, creatorMissions)),
+          limit
+        );
+        if (!cancelled) setSuggestions(ranked);
+      } catch (e) {
+        console.warn("Failed to load suggested freelancers:", e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, brief, enabled, limit]);
+
+  return { loading, suggestions };
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadReferenceRates, type ReferenceRates } from "@/lib/pricing";
+
+// USD reference rates from the configured price source; null while loading
+export function useReferenceRates() {
+  const [rates, setRates] = useState<ReferenceRates | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReferenceRates().then((r) => {
+      if (!cancelled) setRates(r);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return rates;
+}
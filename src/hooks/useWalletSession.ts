@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useChainId, useSignMessage } from "wagmi";
+import {
+  activateWalletSession,
+  clearWalletSession,
+  loadWalletSession,
+  signInWithWallet,
+  WALLET_SESSION_EVENT,
+  type WalletSession,
+} from "@/lib/auth/session";
+import { retryPendingOfferExpiries } from "@/lib/offerExpiry";
+
+// Wallet-signature session for the connected account. Restores a stored session when
+// the wallet (re)connects, drops it on disconnect/switch (account or chain) and when it
+// expires.
+export function useWalletSession() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { signMessageAsync } = useSignMessage();
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  useEffect(() => {
+    const sync = () =>
+      setSession(address ? loadWalletSession(address, chainId) : null);
+    window.addEventListener(WALLET_SESSION_EVENT, sync);
+    activateWalletSession(address ? loadWalletSession(address, chainId) : null);
+    return () => window.removeEventListener(WALLET_SESSION_EVENT, sync);
+  }, [address, chainId]);
+
+  useEffect(() => {
+    if (!session || !address) return;
+    const ms = session.expiresAt * 1000 - Date.now();
+    const timer = setTimeout(
+      () => activateWalletSession(loadWalletSession(address, chainId)),
+      Math.max(0, ms - 60_000)
+    );
+    return () => clearTimeout(timer);
+  }, [session, address, chainId]);
+
+  // Offer expiries that could not be recorded earlier need this session
+  const sessionWallet = session?.address;
+  const sessionChainId = session?.chainId;
+  useEffect(() => {
+    if (sessionWallet && sessionChainId) {
+      retryPendingOfferExpiries(sessionWallet, sessionChainId);
+    }
+  }, [sessionWallet, sessionChainId]);
+
+  const signIn = useCallback(async () => {
+    if (!address) throw new Error("Connect your wallet first");
+    setSigningIn(true);
+    try {
+      return await signInWithWallet(address, chainId, (message) =>
+        signMessageAsync({ message })
+      );
+    } finally {
+      setSigningIn(false);
+    }
+  }, [address, chainId, signMessageAsync]);
+
+  const signOut = useCallback(() => {
+    if (address) clearWalletSession(address);
+  }, [address]);
+
+  return { session, signingIn, signIn, signOut };
+}
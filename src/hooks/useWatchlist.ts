@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { useMarketplaceContract } from "@/hooks/useMarketplaceContract";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import {
+  addToWatchlist,
+  loadWatchlistCached,
+  removeFromWatchlist,
+  WATCHLIST_EVENT,
+} from "@/lib/watchlist";
+import type {
+  Listing,
+  WatchedListingState,
+  WatchlistItem,
+  WatchlistKind,
+} from "@/types/marketplace";
+
+type MarketplaceContract = NonNullable<
+  ReturnType<typeof useMarketplaceContract>["contract"]
+>;
+
+const OFFER_PAGE = 50;
+const MAX_OFFER_PAGES = 10;
+
+// Active flag, boost expiry and offer count of a listing, read from chain. Pass `force` to
+// skip the contract cache (the watchlist page does, so changes show up immediately).
+export async function loadWatchedListingState(
+  contract: MarketplaceContract,
+  listingId: bigint,
+  opts?: { listing?: Listing; force?: boolean }
+): Promise<WatchedListingState> {
+  const listing =
+    opts?.listing ??
+    (await contract.getListing(listingId, { force: opts?.force }));
+  let offerCount = 0;
+  for (let page = 0; page < MAX_OFFER_PAGES; page++) {
+    const offers = await contract.getOffersForListing(
+      listingId,
+      page * OFFER_PAGE,
+      OFFER_PAGE,
+      { force: opts?.force }
+    );
+    offerCount += offers.length;
+    if (offers.length < OFFER_PAGE) break;
+  }
+  return {
+    active: listing.active,
+    boostExpiry: listing.boostExpiry,
+    offerCount,
+  };
+}
+
+// The connected wallet's watchlist on the current chain. Watching prompts for a wallet
+// session first when there is none.
+export function useWatchlist() {
+  const { chain } = useAccount();
+  const chainId = chain?.id || 11124;
+  const { contract } = useMarketplaceContract();
+  const { session, signIn } = useWalletSession();
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!session) {
+      setItems([]);
+      return;
+    }
+    let cancelled = false;
+    const load = () => {
+      setLoading(true);
+      loadWatchlistCached(session.address, chainId)
+        .then((rows) => {
+          if (!cancelled) setItems(rows);
+        })
+        .catch((e) => console.warn("Failed to load watchlist:", e))
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    };
+    load();
+    window.addEventListener(WATCHLIST_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(WATCHLIST_EVENT, load);
+    };
+  }, [session, chainId]);
+
+  const find = useCallback(
+    (kind: WatchlistKind, target: string) => {
+      const t = kind === "profile" ? target.toLowerCase() : target;
+      return items.find((i) => i.kind === kind && i.target === t);
+    },
+    [items]
+  );
+
+  const watch = useCallback(
+    async (kind: WatchlistKind, target: string, listing?: Listing) => {
+      const s = session ?? (await signIn());
+      let seen: WatchedListingState | undefined;
+      if (kind === "listing") {
+        if (!contract) throw new Error("Contract not ready");
+        seen = await loadWatchedListingState(contract, BigInt(target), {
+          listing,
+        });
+      }
+      return addToWatchlist(s.address, chainId, kind, target, seen);
+    },
+    [session, signIn, contract, chainId]
+  );
+
+  const unwatch = useCallback(
+    (item: WatchlistItem) => removeFromWatchlist(item.id),
+    []
+  );
+
+  return { session, chainId, items, loading, find, watch, unwatch };
+}
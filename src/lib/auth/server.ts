@@ -0,0 +1,160 @@
+import { createHmac, randomBytes } from "crypto";
+import { ethers } from "ethers";
+import { createPublicClient, http } from "viem";
+import { supabaseAdmin } from "@/lib/supabaseServer";
+import { getMarketplaceContract } from "@/lib/contract";
+import { getRpcUrl } from "@/lib/utils";
+import { parseSiweMessage, type SiweFields } from "./siwe";
+
+// Server-only helpers for /api/auth: nonces live in auth_nonces (see
+// supabase-wallet-auth.sql) and sessions are Supabase JWTs signed with the project's
+// JWT secret so PostgREST/Realtime enforce the chat RLS policies for the wallet.
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+export const SESSION_TTL_SEC = 24 * 60 * 60;
+// Admin rights are checked once, at sign-in; keep those sessions short so a removed
+// admin's token does not outlive the removal for long (RLS also drops the claim once the
+// AdminRemoved event is indexed)
+export const ADMIN_SESSION_TTL_SEC = 60 * 60;
+
+export interface WalletSessionClaims {
+  wallet: string; // lowercase
+  admin: boolean;
+  chainId: number; // SIWE chain; RLS only resolves offers indexed on this chain
+}
+
+export async function issueNonce(address: string) {
+  const nonce = randomBytes(16).toString("hex");
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS).toISOString();
+  const { error } = await supabaseAdmin.from("auth_nonces").insert({
+    nonce,
+    address: address.toLowerCase(),
+    expires_at: expiresAt,
+  });
+  if (error) throw new Error(error.message);
+  return { nonce, expiresAt };
+}
+
+// Marks the nonce used; false when it is unknown, expired, already used or issued
+// for a different wallet
+async function consumeNonce(nonce: string, address: string) {
+  const { data, error } = await supabaseAdmin
+    .from("auth_nonces")
+    .update({ used_at: new Date().toISOString() })
+    .eq("nonce", nonce)
+    .eq("address", address.toLowerCase())
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("nonce");
+  if (error) throw new Error(error.message);
+  return !!data && data.length > 0;
+}
+
+// EOA signatures are checked locally; smart accounts (e.g. Abstract Global Wallet)
+// fall back to ERC-1271/6492 validation against the chain
+async function isValidSignature(
+  address: string,
+  message: string,
+  signature: string,
+  chainId: number
+) {
+  try {
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() === address.toLowerCase()) return true;
+  } catch {}
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl) return false;
+  try {
+    const client = createPublicClient({ transport: http(rpcUrl) });
+    return await client.verifyMessage({
+      address: address as `0x${string}`,
+      message,
+      signature: signature as `0x${string}`,
+    });
+  } catch {
+    return false;
+  }
+}
+
+async function isMarketplaceAdmin(address: string, chainId: number) {
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl) return false;
+  try {
+    const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, {
+      staticNetwork: true,
+    });
+    const owners: unknown = await getMarketplaceContract(
+      chainId,
+      provider
+    ).getOwner();
+    const list = Array.isArray(owners) ? owners : owners ? [owners] : [];
+    return list.some((o) => String(o).toLowerCase() === address.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+// Validates a signed SIWE message for this host; throws with a user-facing reason
+export async function verifySiweSignIn(
+  message: string,
+  signature: string,
+  host: string
+): Promise<{ fields: SiweFields; claims: WalletSessionClaims }> {
+  const fields = parseSiweMessage(message);
+  if (!fields) throw new Error("Malformed sign-in message");
+  if (fields.domain !== host)
+    throw new Error("Sign-in message domain mismatch");
+  if (
+    fields.expirationTime &&
+    new Date(fields.expirationTime).getTime() <= Date.now()
+  ) {
+    throw new Error("Sign-in message expired");
+  }
+  const valid = await isValidSignature(
+    fields.address,
+    message,
+    signature,
+    fields.chainId
+  );
+  if (!valid) throw new Error("Invalid signature");
+  if (!(await consumeNonce(fields.nonce, fields.address))) {
+    throw new Error("Sign-in nonce is invalid or expired");
+  }
+  return {
+    fields,
+    claims: {
+      wallet: fields.address.toLowerCase(),
+      admin: await isMarketplaceAdmin(fields.address, fields.chainId),
+      chainId: fields.chainId,
+    },
+  };
+}
+
+function base64url(input: Buffer | string) {
+  return Buffer.from(input).toString("base64url");
+}
+
+// HS256 JWT accepted by Supabase as an `authenticated` user for the wallet
+export function signSessionToken(claims: WalletSessionClaims) {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error("SUPABASE_JWT_SECRET is not configured");
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + (claims.admin ? ADMIN_SESSION_TTL_SEC : SESSION_TTL_SEC);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      aud: "authenticated",
+      role: "authenticated",
+      sub: claims.wallet,
+      wallet: claims.wallet,
+      admin: claims.admin,
+      chain_id: claims.chainId,
+      iat: now,
+      exp,
+    })
+  );
+  const signature = base64url(
+    createHmac("sha256", secret).update(`${header}.${payload}`).digest()
+  );
+  return { token: `${header}.${payload}.${signature}`, expiresAt: exp };
+}
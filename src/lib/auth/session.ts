@@ -0,0 +1,121 @@
+import { setSupabaseAccessToken } from "@/lib/supabaseClient";
+import { buildSiweMessage, SIWE_STATEMENT } from "./siwe";
+
+// Browser-side wallet sessions: sign a SIWE message, exchange it at /api/auth/verify
+// for a Supabase JWT and keep it in localStorage per wallet until it expires.
+
+export interface WalletSession {
+  address: string; // lowercase
+  token: string;
+  admin: boolean;
+  chainId: number; // chain the wallet signed in on; offer access is scoped to it
+  expiresAt: number; // unix seconds
+}
+
+const STORAGE_PREFIX = "dop:wallet-session:";
+// Treat sessions this close to expiry as expired so requests don't fail mid-flight
+const EXPIRY_SKEW_SEC = 60;
+
+function storageKey(address: string) {
+  return `${STORAGE_PREFIX}${address.toLowerCase()}`;
+}
+
+function isLive(s: WalletSession) {
+  return s.expiresAt - EXPIRY_SKEW_SEC > Math.floor(Date.now() / 1000);
+}
+
+// Sessions signed in on another chain than `chainId` are ignored (but kept)
+export function loadWalletSession(
+  address: string,
+  chainId?: number
+): WalletSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey(address));
+    if (!raw) return null;
+    const s = JSON.parse(raw) as WalletSession;
+    // Sessions from before chain-scoped tokens carry no chainId and must sign in again
+    if (
+      s.address !== address.toLowerCase() ||
+      !s.token ||
+      !s.chainId ||
+      !isLive(s)
+    ) {
+      window.localStorage.removeItem(storageKey(address));
+      return null;
+    }
+    if (chainId !== undefined && s.chainId !== chainId) return null;
+    return s;
+  } catch {
+    return null;
+  }
+}
+
+// Fired on window whenever the active session changes (see hooks/useWalletSession)
+export const WALLET_SESSION_EVENT = "dop:wallet-session";
+
+// Points the shared Supabase client at the wallet's session (or back to anon)
+export function activateWalletSession(session: WalletSession | null) {
+  setSupabaseAccessToken(session?.token ?? null);
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(WALLET_SESSION_EVENT));
+  }
+}
+
+export function clearWalletSession(address: string) {
+  try {
+    window.localStorage.removeItem(storageKey(address));
+  } catch {}
+  activateWalletSession(null);
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+  return data as T;
+}
+
+export async function signInWithWallet(
+  address: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>
+): Promise<WalletSession> {
+  const { nonce } = await postJson<{ nonce: string }>("/api/auth/nonce", {
+    address,
+  });
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await signMessage(message);
+  const res = await postJson<{
+    token: string;
+    address: string;
+    admin: boolean;
+    chainId: number;
+    expiresAt: number;
+  }>("/api/auth/verify", { message, signature });
+  const session: WalletSession = {
+    address: res.address,
+    token: res.token,
+    admin: res.admin,
+    chainId: res.chainId,
+    expiresAt: res.expiresAt,
+  };
+  try {
+    window.localStorage.setItem(storageKey(address), JSON.stringify(session));
+  } catch {}
+  activateWalletSession(session);
+  return session;
+}
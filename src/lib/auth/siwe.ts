@@ -0,0 +1,74 @@
+// Minimal EIP-4361 (Sign-In with Ethereum) message builder/parser shared by the
+// client (lib/auth/session.ts) and the /api/auth routes. Only the fields we use are
+// supported: no resources list, request id or not-before.
+
+export const SIWE_STATEMENT =
+  "Sign in to Dynasty of Penguins to read and send chat messages.";
+
+export interface SiweFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export function buildSiweMessage(f: SiweFields) {
+  const lines = [
+    `${f.domain} wants you to sign in with your Ethereum account:`,
+    f.address,
+    "",
+    f.statement,
+    "",
+    `URI: ${f.uri}`,
+    `Version: ${f.version}`,
+    `Chain ID: ${f.chainId}`,
+    `Nonce: ${f.nonce}`,
+    `Issued At: ${f.issuedAt}`,
+  ];
+  if (f.expirationTime) lines.push(`Expiration Time: ${f.expirationTime}`);
+  return lines.join("\n");
+}
+
+// Returns null when the message is not in the format produced by buildSiweMessage
+export function parseSiweMessage(message: string): SiweFields | null {
+  const lines = message.split("\n");
+  const header = /^(.+) wants you to sign in with your Ethereum account:$/.exec(
+    lines[0] || ""
+  );
+  const address = lines[1] || "";
+  if (!header || !/^0x[a-fA-F0-9]{40}$/.test(address)) return null;
+  if (lines[2] !== "" || lines[4] !== "") return null;
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(5)) {
+    const idx = line.indexOf(": ");
+    if (idx <= 0) return null;
+    fields[line.slice(0, idx)] = line.slice(idx + 2);
+  }
+  const chainId = Number(fields["Chain ID"]);
+  if (
+    fields["Version"] !== "1" ||
+    !fields["URI"] ||
+    !fields["Nonce"] ||
+    !fields["Issued At"] ||
+    !Number.isInteger(chainId)
+  ) {
+    return null;
+  }
+  return {
+    domain: header[1],
+    address,
+    statement: lines[3] || "",
+    uri: fields["URI"],
+    version: "1",
+    chainId,
+    nonce: fields["Nonce"],
+    issuedAt: fields["Issued At"],
+    expirationTime: fields["Expiration Time"],
+  };
+}
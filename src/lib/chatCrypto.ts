@@ -0,0 +1,618 @@
+import { isErc6492Signature, parseErc6492Signature, type Hex } from "viem";
+import { supabase } from "@/lib/supabaseClient";
+import { buildSiweMessage, parseSiweMessage } from "@/lib/auth/siwe";
+import { parseOfferConversation } from "@/lib/chatReads";
+import { toGatewayUrl } from "@/lib/utils";
+
+// End-to-end encrypted chat attachments (see supabase-chat-encryption.sql).
+// Each file is sealed with its own AES-GCM key and only the ciphertext goes to IPFS.
+// The file key is wrapped for every recipient with ECDH P-256 (ephemeral sender key +
+// HKDF) against the public key in that wallet's bundle. A wallet's private key is stored
+// encrypted under a key derived from its signature of the bundle's key message, an
+// EIP-4361 message bound to this app's domain so other sites can't pass it off as theirs.
+// Wallets sign deterministically, so the same signature (and key) is recovered on any
+// device; smart wallets (AGW) wrap it in ERC-6492 until deployed, so the inner signature
+// is used. A wallet that still can't reproduce it resets its key (resetChatKeys) and
+// gets files re-shared by the other participants.
+// Dispute evidence is sealed the same way in the offer's conversation, with admin
+// reviewers of the offer's chain as extra recipients.
+
+type KeyBundleRow = {
+  wallet: string;
+  public_key: JsonWebKey;
+  encrypted_private_key: string;
+  iv: string;
+  key_message: string | null;
+  admin_chain_ids: number[];
+};
+
+type EncryptedFileRow = {
+  cid: string;
+  conversation: string;
+  iv: string;
+  mime_type: string | null;
+  name: string | null;
+};
+
+type WrappedKeyRow = {
+  cid: string;
+  wallet: string;
+  ephemeral_public_key: JsonWebKey;
+  wrapped_key: string;
+  iv: string;
+};
+
+export type DecryptedAttachment = {
+  blob: Blob;
+  name?: string;
+  mimeType?: string;
+};
+
+// Attachments stored as ciphertext use this scheme instead of ipfs://
+export const ENCRYPTED_PREFIX = "enc+ipfs://";
+
+export const isEncryptedAttachment = (uri: string) =>
+  uri.startsWith(ENCRYPTED_PREFIX);
+
+const cidOf = (uri: string) => uri.slice(ENCRYPTED_PREFIX.length);
+
+// Fired on window when a wallet's keys are unlocked (see hooks/useChatKeys)
+export const CHAT_KEYS_EVENT = "dop:chat-keys";
+
+const KEY_STATEMENT =
+  "Unlock encrypted chat attachments on Dynasty of Penguins. This signature derives your chat encryption key; only sign it on this site.";
+
+// Signed by bundles created before key messages were bound to the domain; they are moved
+// to a bound message on their next unlock
+const LEGACY_KEY_MESSAGE =
+  "DOP Marketplace: unlock encrypted chat attachments.\n\n" +
+  "This signature derives your chat encryption key. It costs no gas and authorizes no transaction.";
+
+// Fixed once per bundle and stored with it, so every device signs exactly the same text
+function buildKeyMessage(address: string, chainId: number) {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+  return buildSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: KEY_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+}
+
+// Raised when the wallet can't derive the key its bundle was sealed with; the fix is
+// resetChatKeys
+export class ChatKeyLostError extends Error {}
+
+const ECDH = { name: "ECDH", namedCurve: "P-256" } as const;
+const enc = new TextEncoder();
+
+// Unlocked private keys, per lowercase wallet; kept in memory only
+const unlocked = new Map<string, CryptoKey>();
+// Wallets whose bundle could not be unlocked (see ChatKeyLostError)
+const lost = new Set<string>();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  const arr = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let s = "";
+  for (let i = 0; i < arr.length; i++) s += String.fromCharCode(arr[i]);
+  return btoa(s);
+}
+
+function fromBase64(b64: string) {
+  const s = atob(b64);
+  const arr = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) arr[i] = s.charCodeAt(i);
+  return arr;
+}
+
+const randomIv = () => crypto.getRandomValues(new Uint8Array(12));
+
+async function hkdfAesKey(secret: BufferSource, info: string) {
+  const base = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: enc.encode("dop-chat-encryption"),
+      info: enc.encode(info),
+    },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+const BUNDLE_COLUMNS =
+  "wallet, public_key, encrypted_private_key, iv, key_message, admin_chain_ids";
+
+async function loadBundles(wallets: string[]): Promise<KeyBundleRow[]> {
+  if (!wallets.length) return [];
+  const { data, error } = await supabase
+    .from("chat_key_bundles")
+    .select(BUNDLE_COLUMNS)
+    .in("wallet", wallets);
+  if (error) throw new Error(error.message);
+  return (data || []) as KeyBundleRow[];
+}
+
+// Key bundles of the admins of one chain (dispute reviewers for its offers)
+async function loadAdminBundles(chainId: number): Promise<KeyBundleRow[]> {
+  const { data, error } = await supabase
+    .from("chat_key_bundles")
+    .select(BUNDLE_COLUMNS)
+    .contains("admin_chain_ids", [chainId]);
+  if (error) throw new Error(error.message);
+  return (data || []) as KeyBundleRow[];
+}
+
+// Reviewers for a conversation: the admins of an offer chat's chain, none for direct chats
+async function loadReviewerBundles(conversation: string) {
+  const offer = parseOfferConversation(conversation);
+  return offer ? loadAdminBundles(offer.chainId) : [];
+}
+
+export function hasUnlockedChatKeys(address?: string | null) {
+  return !!address && unlocked.has(address.toLowerCase());
+}
+
+export function hasLostChatKeys(address?: string | null) {
+  return !!address && lost.has(address.toLowerCase());
+}
+
+function notifyKeysChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(CHAT_KEYS_EVENT));
+  }
+}
+
+// Unlock key for a bundle from the wallet's signature of its key message. Legacy bundles
+// were sealed with the signature exactly as returned.
+async function deriveUnlockKey(
+  wallet: string,
+  message: string,
+  signMessage: (message: string) => Promise<string>,
+  legacy = false
+) {
+  let signature = await signMessage(message);
+  if (!legacy && isErc6492Signature(signature as Hex)) {
+    signature = parseErc6492Signature(signature as Hex).signature;
+  }
+  return hkdfAesKey(enc.encode(signature), `bundle:${wallet}`);
+}
+
+// Fresh key pair sealed under a new key message
+async function sealNewKeyPair(
+  wallet: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>
+) {
+  const keyMessage = buildKeyMessage(wallet, chainId);
+  const unlockKey = await deriveUnlockKey(wallet, keyMessage, signMessage);
+  const pair = await crypto.subtle.generateKey(ECDH, true, ["deriveBits"]);
+  const iv = randomIv();
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    unlockKey,
+    await crypto.subtle.exportKey("pkcs8", pair.privateKey)
+  );
+  return {
+    privateKey: pair.privateKey,
+    row: {
+      public_key: await crypto.subtle.exportKey("jwk", pair.publicKey),
+      encrypted_private_key: toBase64(sealed),
+      iv: toBase64(iv),
+      key_message: keyMessage,
+    },
+  };
+}
+
+function keyUnlocked(wallet: string, privateKey: CryptoKey) {
+  unlocked.set(wallet, privateKey);
+  lost.delete(wallet);
+  notifyKeysChanged();
+}
+
+// Recover the wallet's private key, creating and publishing a key bundle on first use.
+// Throws ChatKeyLostError when the bundle can't be opened with this wallet's signature.
+export async function unlockChatKeys(
+  address: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>
+): Promise<void> {
+  const wallet = address.toLowerCase();
+  if (unlocked.has(wallet)) return;
+  const [bundle] = await loadBundles([wallet]);
+
+  if (!bundle) {
+    const { privateKey, row } = await sealNewKeyPair(
+      wallet,
+      chainId,
+      signMessage
+    );
+    const { error } = await supabase
+      .from("chat_key_bundles")
+      .insert({ wallet, ...row });
+    if (error) throw new Error(error.message);
+    keyUnlocked(wallet, privateKey);
+    return;
+  }
+
+  // Never sign a key message meant for another site or wallet
+  const fields = bundle.key_message
+    ? parseSiweMessage(bundle.key_message)
+    : null;
+  if (
+    bundle.key_message &&
+    (!fields ||
+      fields.domain !== window.location.host ||
+      fields.address.toLowerCase() !== wallet)
+  ) {
+    lost.add(wallet);
+    notifyKeysChanged();
+    throw new ChatKeyLostError(
+      `Your chat key was set up on ${
+        fields?.domain || "another site"
+      }. Create a new key to use encrypted attachments here.`
+    );
+  }
+
+  const unlockKey = await deriveUnlockKey(
+    wallet,
+    bundle.key_message || LEGACY_KEY_MESSAGE,
+    signMessage,
+    !bundle.key_message
+  );
+  let pkcs8: ArrayBuffer;
+  try {
+    pkcs8 = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(bundle.iv) },
+      unlockKey,
+      fromBase64(bundle.encrypted_private_key)
+    );
+  } catch {
+    lost.add(wallet);
+    notifyKeysChanged();
+    throw new ChatKeyLostError(
+      "Could not unlock your chat key: your wallet's signature no longer matches it. Create a new key and ask the other participants to share files again."
+    );
+  }
+  const privateKey = await crypto.subtle.importKey(
+    "pkcs8",
+    pkcs8,
+    ECDH,
+    false,
+    ["deriveBits"]
+  );
+
+  if (!bundle.key_message) {
+    // Re-seal the same key under a domain-bound message so the unbound one is never
+    // asked for again
+    const keyMessage = buildKeyMessage(wallet, chainId);
+    const resealKey = await deriveUnlockKey(wallet, keyMessage, signMessage);
+    const iv = randomIv();
+    const sealed = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      resealKey,
+      pkcs8
+    );
+    const { error } = await supabase
+      .from("chat_key_bundles")
+      .update({
+        encrypted_private_key: toBase64(sealed),
+        iv: toBase64(iv),
+        key_message: keyMessage,
+      })
+      .eq("wallet", wallet);
+    if (error) throw new Error(error.message);
+  }
+
+  // New bundles are flagged on insert; an existing one picks up a newly granted admin role
+  const { error } = await supabase.rpc("refresh_chat_key_admin");
+  if (error) throw new Error(error.message);
+  keyUnlocked(wallet, privateKey);
+}
+
+// Replace a key bundle the wallet can no longer unlock. Files sealed for the old key stay
+// unreadable until another participant shares them again (shareConversationKeys).
+export async function resetChatKeys(
+  address: string,
+  chainId: number,
+  signMessage: (message: string) => Promise<string>
+): Promise<void> {
+  const wallet = address.toLowerCase();
+  const { privateKey, row } = await sealNewKeyPair(
+    wallet,
+    chainId,
+    signMessage
+  );
+  const { error } = await supabase.rpc("reset_chat_key_bundle", {
+    p_public_key: row.public_key,
+    p_encrypted_private_key: row.encrypted_private_key,
+    p_iv: row.iv,
+    p_key_message: row.key_message,
+  });
+  if (error) throw new Error(error.message);
+  keyUnlocked(wallet, privateKey);
+}
+
+async function wrapFor(
+  rawKey: ArrayBuffer,
+  recipient: KeyBundleRow,
+  cid: string
+) {
+  const ephemeral = await crypto.subtle.generateKey(ECDH, true, ["deriveBits"]);
+  const publicKey = await crypto.subtle.importKey(
+    "jwk",
+    recipient.public_key,
+    ECDH,
+    false,
+    []
+  );
+  const shared = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: publicKey },
+    ephemeral.privateKey,
+    256
+  );
+  const kek = await hkdfAesKey(shared, `file:${cid}`);
+  const iv = randomIv();
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    kek,
+    rawKey
+  );
+  return {
+    cid,
+    wallet: recipient.wallet,
+    ephemeral_public_key: await crypto.subtle.exportKey(
+      "jwk",
+      ephemeral.publicKey
+    ),
+    wrapped_key: toBase64(wrapped),
+    iv: toBase64(iv),
+  };
+}
+
+async function unwrapKey(row: WrappedKeyRow, privateKey: CryptoKey) {
+  const ephemeral = await crypto.subtle.importKey(
+    "jwk",
+    row.ephemeral_public_key,
+    ECDH,
+    false,
+    []
+  );
+  const shared = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: ephemeral },
+    privateKey,
+    256
+  );
+  const kek = await hkdfAesKey(shared, `file:${row.cid}`);
+  return crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(row.iv) },
+    kek,
+    fromBase64(row.wrapped_key)
+  );
+}
+
+async function grantKeys(
+  cid: string,
+  rawKey: ArrayBuffer,
+  recipients: KeyBundleRow[],
+  grantedBy: string
+) {
+  const rows = await Promise.all(
+    recipients.map((r) => wrapFor(rawKey, r, cid))
+  );
+  const { error } = await supabase.from("chat_attachment_keys").upsert(
+    rows.map((r) => ({ ...r, granted_by: grantedBy })),
+    { onConflict: "cid,wallet", ignoreDuplicates: true }
+  );
+  if (error) throw new Error(error.message);
+}
+
+async function conversationParticipants(conversation: string) {
+  const { data, error } = await supabase.rpc("chat_participants", {
+    p_conversation: conversation,
+  });
+  if (error) throw new Error(error.message);
+  return ((data || []) as string[]).filter(Boolean);
+}
+
+// Encrypt and upload files for everyone in the conversation; returns enc+ipfs:// URIs.
+// With `reviewers` (dispute evidence) admin wallets are recipients too, and a participant
+// without keys does not block the upload: they get it through shareConversationKeys.
+export async function sealAttachments(
+  conversation: string,
+  files: File[],
+  sender: string,
+  opts?: { reviewers?: boolean }
+): Promise<string[]> {
+  const me = sender.toLowerCase();
+  const wallets = Array.from(
+    new Set([me, ...(await conversationParticipants(conversation))])
+  );
+  const recipients = await loadBundles(wallets);
+  const missing = wallets.filter(
+    (w) => !recipients.some((r) => r.wallet === w)
+  );
+  if (missing.includes(me)) {
+    throw new Error("Unlock encrypted attachments before sending them");
+  }
+  if (missing.length && !opts?.reviewers) {
+    throw new Error(
+      "The other participant has not set up encrypted attachments yet"
+    );
+  }
+  if (opts?.reviewers) {
+    for (const admin of await loadReviewerBundles(conversation)) {
+      if (!recipients.some((r) => r.wallet === admin.wallet)) {
+        recipients.push(admin);
+      }
+    }
+  }
+
+  const uris: string[] = [];
+  for (const file of files) {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt"]
+    );
+    const iv = randomIv();
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      await file.arrayBuffer()
+    );
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([ciphertext], { type: "application/octet-stream" }),
+      `${file.name || "attachment"}.enc`
+    );
+    const res = await fetch("/api/ipfs", { method: "POST", body: form });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data?.error || "Upload failed");
+
+    const { error } = await supabase.from("chat_encrypted_files").insert({
+      cid: data.cid,
+      conversation,
+      iv: toBase64(iv),
+      mime_type: file.type || null,
+      name: file.name || null,
+      created_by: me,
+    });
+    if (error) throw new Error(error.message);
+    await grantKeys(
+      data.cid,
+      await crypto.subtle.exportKey("raw", key),
+      recipients,
+      me
+    );
+    uris.push(`${ENCRYPTED_PREFIX}${data.cid}`);
+  }
+  return uris;
+}
+
+// Fetch and decrypt an attachment; the wallet's keys must be unlocked
+export async function decryptAttachment(
+  uri: string,
+  address: string
+): Promise<DecryptedAttachment> {
+  const wallet = address.toLowerCase();
+  const privateKey = unlocked.get(wallet);
+  if (!privateKey) throw new Error("Unlock encrypted attachments first");
+  const cid = cidOf(uri);
+
+  const [fileRes, keyRes] = await Promise.all([
+    supabase
+      .from("chat_encrypted_files")
+      .select("cid, conversation, iv, mime_type, name")
+      .eq("cid", cid)
+      .maybeSingle(),
+    supabase
+      .from("chat_attachment_keys")
+      .select("cid, wallet, ephemeral_public_key, wrapped_key, iv")
+      .eq("cid", cid)
+      .eq("wallet", wallet)
+      .maybeSingle(),
+  ]);
+  if (fileRes.error) throw new Error(fileRes.error.message);
+  if (keyRes.error) throw new Error(keyRes.error.message);
+  const file = fileRes.data as EncryptedFileRow | null;
+  const wrapped = keyRes.data as WrappedKeyRow | null;
+  if (!file || !wrapped) {
+    throw new Error("This attachment was not shared with your wallet");
+  }
+
+  const res = await fetch(toGatewayUrl(`ipfs://${cid}`) || "");
+  if (!res.ok) throw new Error(`Failed to fetch attachment (${res.status})`);
+  const key = await crypto.subtle.importKey(
+    "raw",
+    await unwrapKey(wrapped, privateKey),
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(file.iv) },
+    key,
+    await res.arrayBuffer()
+  );
+  return {
+    blob: new Blob([plaintext], {
+      type: file.mime_type || "application/octet-stream",
+    }),
+    name: file.name || undefined,
+    mimeType: file.mime_type || undefined,
+  };
+}
+
+// Encrypted files in a conversation that someone entitled to them cannot read yet
+// (no signature needed)
+export async function pendingKeyShares(conversation: string) {
+  const { data, error } = await supabase.rpc("chat_pending_key_shares", {
+    p_conversation: conversation,
+  });
+  if (error) throw new Error(error.message);
+  return Number(data ?? 0);
+}
+
+// Re-wrap every file key the caller holds in a conversation for participants and, in
+// offer chats, admin wallets of the offer's chain that set up (or reset) their keys after
+// the file was sealed, so dispute reviewers can read private deliverables and evidence.
+// Returns the number of files held.
+export async function shareConversationKeys(
+  conversation: string,
+  address: string
+): Promise<number> {
+  const wallet = address.toLowerCase();
+  const privateKey = unlocked.get(wallet);
+  if (!privateKey) throw new Error("Unlock encrypted attachments first");
+
+  const recipients = (
+    await loadBundles(await conversationParticipants(conversation))
+  ).filter((r) => r.wallet !== wallet);
+  for (const admin of await loadReviewerBundles(conversation)) {
+    if (
+      admin.wallet !== wallet &&
+      !recipients.some((r) => r.wallet === admin.wallet)
+    ) {
+      recipients.push(admin);
+    }
+  }
+  if (!recipients.length) return 0;
+
+  const { data: files, error: filesError } = await supabase
+    .from("chat_encrypted_files")
+    .select("cid")
+    .eq("conversation", conversation);
+  if (filesError) throw new Error(filesError.message);
+  const cids = ((files || []) as { cid: string }[]).map((f) => f.cid);
+  if (!cids.length) return 0;
+
+  const { data: keys, error: keysError } = await supabase
+    .from("chat_attachment_keys")
+    .select("cid, wallet, ephemeral_public_key, wrapped_key, iv")
+    .eq("wallet", wallet)
+    .in("cid", cids);
+  if (keysError) throw new Error(keysError.message);
+  const held = (keys || []) as WrappedKeyRow[];
+  for (const row of held) {
+    await grantKeys(
+      row.cid,
+      await unwrapKey(row, privateKey),
+      recipients,
+      wallet
+    );
+  }
+  return held.length;
+}
@@ -0,0 +1,143 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Read cursors for offer and direct chats (see supabase-chat-read-cursors.sql).
+// A cursor is the created_at of the newest message a participant has seen.
+
+type CursorRow = { participant: string; last_read_at: string };
+
+// participant (lowercase) -> last read message timestamp (ms)
+export type ReadCursors = Record<string, number>;
+
+const UNREAD_POLL_MS = 15_000;
+
+// Offer ids are only unique per chain, so the chain is part of the key
+export function offerConversationKey(
+  chainId: number,
+  offerId: string | bigint
+) {
+  return `offer:${chainId}:${offerId.toString()}`;
+}
+
+// Chain and offer id of an 'offer:<chainId>:<offerId>' key, null for other conversations
+export function parseOfferConversation(conversation: string) {
+  const m = /^offer:(\d+):(\d+)$/.exec(conversation);
+  return m ? { chainId: Number(m[1]), offerId: m[2] } : null;
+}
+
+export function directConversationKey(a: string, b: string) {
+  const [lo, hi] = [a.toLowerCase(), b.toLowerCase()].sort();
+  return `direct:${lo}:${hi}`;
+}
+
+export async function loadReadCursors(
+  conversation: string
+): Promise<ReadCursors> {
+  const { data, error } = await supabase
+    .from("chat_read_cursors")
+    .select("participant,last_read_at")
+    .eq("conversation", conversation);
+  if (error) throw new Error(error.message);
+  const out: ReadCursors = {};
+  for (const r of (data || []) as CursorRow[]) {
+    out[r.participant] = new Date(r.last_read_at).getTime();
+  }
+  return out;
+}
+
+export async function markConversationRead(
+  conversation: string,
+  participant: string,
+  readAt: string
+) {
+  const { error } = await supabase.rpc("mark_chat_read", {
+    p_conversation: conversation,
+    p_participant: participant.toLowerCase(),
+    p_read_at: readAt,
+  });
+  if (error) throw new Error(error.message);
+}
+
+// realtime-js hands back the existing channel for a topic that is already open, so two
+// subscribers (e.g. Header and the chat page) would share one channel and the first
+// unsubscribe would tear down both. Every subscription gets its own topic instead.
+let channelSeq = 0;
+
+function uniqueTopic(base: string) {
+  channelSeq += 1;
+  return `${base}:${channelSeq}`;
+}
+
+export function subscribeReadCursors(
+  conversation: string,
+  onChange: (cursors: ReadCursors) => void
+): () => void {
+  const refresh = () => {
+    loadReadCursors(conversation)
+      .then(onChange)
+      .catch(() => {});
+  };
+  const channel = supabase
+    .channel(uniqueTopic(`chat_reads_${conversation}`))
+    .on(
+      "postgres_changes",
+      {
+        schema: "public",
+        table: "chat_read_cursors",
+        event: "*",
+        filter: `conversation=eq.${conversation}`,
+      },
+      refresh
+    )
+    .subscribe();
+  refresh();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Unread message count per conversation key; conversations with nothing unread are omitted
+export async function loadUnreadCounts(
+  participant: string
+): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc("chat_unread_counts", {
+    p_participant: participant.toLowerCase(),
+  });
+  if (error) throw new Error(error.message);
+  const out: Record<string, number> = {};
+  for (const r of (data || []) as { conversation: string; unread: number }[]) {
+    if (r.unread > 0) out[r.conversation] = Number(r.unread);
+  }
+  return out;
+}
+
+// Polls the unread counts and refreshes early when one of the wallet's cursors moves
+export function subscribeUnreadCounts(
+  participant: string,
+  onChange: (counts: Record<string, number>) => void
+): () => void {
+  const me = participant.toLowerCase();
+  const refresh = () => {
+    loadUnreadCounts(me)
+      .then(onChange)
+      .catch(() => {});
+  };
+  const channel = supabase
+    .channel(uniqueTopic(`chat_unread_${me}`))
+    .on(
+      "postgres_changes",
+      {
+        schema: "public",
+        table: "chat_read_cursors",
+        event: "*",
+        filter: `participant=eq.${me}`,
+      },
+      refresh
+    )
+    .subscribe();
+  const timer = setInterval(refresh, UNREAD_POLL_MS);
+  refresh();
+  return () => {
+    supabase.removeChannel(channel);
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,77 @@
+import { supabase } from "@/lib/supabaseClient";
+import { parseOfferConversation } from "@/lib/chatReads";
+
+// Full-text search over the caller's conversations (see supabase-chat-search.sql).
+// Runs as the signed-in wallet, so only conversations it participates in are searched.
+
+type SearchRow = {
+  id: string;
+  conversation: string;
+  seq: number;
+  sender: string;
+  created_at: string;
+  headline: string | null;
+  before_sender: string | null;
+  before_content: string | null;
+  after_sender: string | null;
+  after_content: string | null;
+};
+
+export type ChatContextLine = { sender: string; content: string };
+
+export type ChatSearchHit = {
+  id: string;
+  conversation: string;
+  sender: string;
+  createdAt: string;
+  // Matched excerpt; matches are wrapped in <mark></mark> (render as text)
+  headline: string;
+  before?: ChatContextLine;
+  after?: ChatContextLine;
+};
+
+const context = (sender: string | null, content: string | null) =>
+  sender && content ? { sender, content } : undefined;
+
+export async function searchChatMessages(
+  query: string,
+  limit = 30
+): Promise<ChatSearchHit[]> {
+  if (!query.trim()) return [];
+  const { data, error } = await supabase.rpc("search_chat_messages", {
+    p_query: query,
+    p_limit: limit,
+  });
+  if (error) throw new Error(error.message);
+  return ((data || []) as SearchRow[]).map((r) => ({
+    id: r.id,
+    conversation: r.conversation,
+    sender: r.sender,
+    createdAt: r.created_at,
+    headline: r.headline || "",
+    before: context(r.before_sender, r.before_content),
+    after: context(r.after_sender, r.after_content),
+  }));
+}
+
+// Split a headline into plain and highlighted parts
+export function headlineParts(headline: string) {
+  return headline
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("<mark>") && part.endsWith("</mark>")
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false }
+    );
+}
+
+// Where a hit opens: the direct chat page or the offer page with its chat open
+export function chatHitHref(hit: ChatSearchHit, me: string) {
+  const m = encodeURIComponent(hit.id);
+  const offer = parseOfferConversation(hit.conversation);
+  if (offer) return `/offers/${offer.offerId}?m=${m}`;
+  const [, lo, hi] = hit.conversation.split(":");
+  const other = lo === me.toLowerCase() ? hi : lo;
+  return `/chat/${other}?m=${m}`;
+}
@@ -0,0 +1,273 @@
+import { ethers } from "ethers";
+import { createPublicClient, http } from "viem";
+import type { ChatMessage } from "@/components/chat/types";
+import { sha256Hex } from "@/lib/disputePayload";
+import {
+  asRecord,
+  asString,
+  fetchWithTimeout,
+  getRpcUrl,
+  toGatewayUrl,
+} from "@/lib/utils";
+import type {
+  ChatTranscript,
+  SignedChatTranscript,
+  TranscriptAttachment,
+  TranscriptMessage,
+} from "@/types/dispute";
+
+// Signed offer chat transcripts for disputes. The transcript is serialized with sorted
+// keys, hashed (sha256) and the digest is signed with personal_sign, so anyone holding
+// the archive can check it was exported by that wallet and has not been altered since.
+// Smart-account signatures (Abstract Global Wallet) are checked through ERC-1271/6492
+// on the offer's chain, so verifying them needs its RPC.
+// Attachment hashes cover the bytes IPFS served at export time (ciphertext when encrypted).
+
+const ATTACHMENT_TIMEOUT_MS = 20_000;
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function transcriptDigest(transcript: ChatTranscript) {
+  return sha256Hex(ethers.toUtf8Bytes(canonicalJson(transcript)));
+}
+
+// The exact text the exporting wallet signs
+export function transcriptSigningMessage(
+  transcript: ChatTranscript,
+  digest: string
+) {
+  return [
+    "DOP Marketplace chat transcript",
+    `Conversation: ${transcript.conversation}`,
+    `Messages: ${transcript.messages.length}`,
+    `Exported at: ${new Date(transcript.exportedAt).toISOString()}`,
+    `Digest: ${digest}`,
+  ].join("\n");
+}
+
+async function hashAttachment(uri: string): Promise<TranscriptAttachment> {
+  const url = toGatewayUrl(uri.replace(/^enc\+/, ""));
+  if (!url) return { uri, sha256: "" };
+  try {
+    const res = await fetchWithTimeout(url, ATTACHMENT_TIMEOUT_MS);
+    if (!res.ok) return { uri, sha256: "" };
+    return { uri, sha256: sha256Hex(await res.arrayBuffer()) };
+  } catch {
+    return { uri, sha256: "" };
+  }
+}
+
+// Persisted messages only; optimistic/failed sends have no seq and are skipped
+export async function buildChatTranscript(
+  messages: ChatMessage[],
+  opts: { conversation: string; offerId: string; exportedBy: string }
+): Promise<ChatTranscript> {
+  const persisted = messages
+    .filter((m) => m.seq !== undefined)
+    .sort((a, b) => a.seq! - b.seq!);
+  const entries: TranscriptMessage[] = [];
+  for (const m of persisted) {
+    const attachments: TranscriptAttachment[] = [];
+    for (const uri of m.attachments || []) {
+      attachments.push(await hashAttachment(uri));
+    }
+    entries.push({
+      id: m.id,
+      seq: m.seq!,
+      sender: m.sender.toLowerCase(),
+      createdAt: m.created_at,
+      type: m.message_type || "text",
+      content: m.content || undefined,
+      editedAt: m.edited_at,
+      deletedAt: m.deleted_at,
+      replyTo: m.reply_to,
+      link: m.linkUrl ? { url: m.linkUrl, title: m.linkTitle } : undefined,
+      event: m.system?.event,
+      offerId: m.system?.offerId || m.offer?.offerId,
+      attachments,
+    });
+  }
+  return {
+    version: 1,
+    conversation: opts.conversation,
+    offerId: opts.offerId,
+    exportedBy: opts.exportedBy.toLowerCase(),
+    exportedAt: Date.now(),
+    messages: entries,
+  };
+}
+
+// Human-readable rendering, shipped alongside the JSON in the archive
+export function renderTranscriptText(
+  transcript: ChatTranscript,
+  digest: string,
+  labels: Record<string, string> = {}
+) {
+  const who = (addr: string) =>
+    labels[addr] ? `${labels[addr]} (${addr})` : addr;
+  const lines = [
+    `Chat transcript for offer #${transcript.offerId}`,
+    `Exported by ${who(transcript.exportedBy)} at ${new Date(
+      transcript.exportedAt
+    ).toISOString()}`,
+    `${transcript.messages.length} messages, sha256 ${digest}`,
+    "",
+  ];
+  for (const m of transcript.messages) {
+    const head = `[${m.createdAt}] ${
+      m.sender === "system" ? "System" : who(m.sender)
+    }`;
+    const flags = [
+      m.editedAt && `edited ${m.editedAt}`,
+      m.deletedAt && `deleted ${m.deletedAt}`,
+      m.replyTo && `reply to ${m.replyTo}`,
+    ].filter(Boolean);
+    lines.push(
+      `${head}${flags.length ? ` (${flags.join(", ")})` : ""} #${m.id}`
+    );
+    if (m.deletedAt) lines.push("  (message deleted)");
+    else if (m.content) {
+      for (const l of m.content.split("\n")) lines.push(`  ${l}`);
+    }
+    if (m.link) lines.push(`  link: ${m.link.title || ""} ${m.link.url}`);
+    if (m.event) lines.push(`  event: ${m.event}`);
+    for (const a of m.attachments) {
+      lines.push(`  attachment: ${a.uri} sha256 ${a.sha256 || "unavailable"}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export async function signChatTranscript(
+  transcript: ChatTranscript,
+  signMessage: (message: string) => Promise<string>,
+  labels?: Record<string, string>
+): Promise<SignedChatTranscript> {
+  const digest = transcriptDigest(transcript);
+  const signature = await signMessage(
+    transcriptSigningMessage(transcript, digest)
+  );
+  return {
+    transcript,
+    text: renderTranscriptText(transcript, digest, labels),
+    digest,
+    signature,
+  };
+}
+
+// EOA signatures are recovered locally; anything else goes to ERC-1271/6492 on the chain
+async function isTranscriptSigner(
+  address: string,
+  message: string,
+  signature: string,
+  chainId: number
+) {
+  try {
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() === address.toLowerCase()) return true;
+  } catch {}
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl) throw new Error("No RPC configured for this chain");
+  const client = createPublicClient({ transport: http(rpcUrl) });
+  return client.verifyMessage({
+    address: address as `0x${string}`,
+    message,
+    signature: signature as `0x${string}`,
+  });
+}
+
+// Problems with a signed archive; empty when the digest and signature check out.
+// `chainId` is the chain of the offer the transcript belongs to.
+export async function verifyChatTranscript(
+  signed: SignedChatTranscript,
+  chainId: number
+): Promise<string[]> {
+  const problems: string[] = [];
+  const digest = transcriptDigest(signed.transcript);
+  if (digest !== signed.digest) {
+    problems.push("Transcript content does not match its digest");
+  }
+  try {
+    const valid = await isTranscriptSigner(
+      signed.transcript.exportedBy,
+      transcriptSigningMessage(signed.transcript, signed.digest),
+      signed.signature,
+      chainId
+    );
+    if (!valid) problems.push("Signature is not from the exporting wallet");
+  } catch {
+    problems.push("Signature could not be checked");
+  }
+  return problems;
+}
+
+// Shape check for an archive read back from IPFS or a file; null when it isn't one
+export function parseSignedTranscript(
+  raw: unknown
+): SignedChatTranscript | null {
+  const r = asRecord(raw);
+  const t = asRecord(r?.transcript);
+  const digest = asString(r?.digest);
+  const signature = asString(r?.signature);
+  if (!r || !t || !digest || !signature || !Array.isArray(t.messages)) {
+    return null;
+  }
+  return {
+    transcript: t as unknown as ChatTranscript,
+    text: asString(r.text) || "",
+    digest,
+    signature,
+  };
+}
+
+// Pin the archive through /api/ipfs; returns the raw CID. The archive is plaintext and
+// public once pinned, so callers must have the exporter confirm first.
+export async function pinChatTranscript(
+  signed: SignedChatTranscript
+): Promise<string> {
+  const file = new File(
+    [JSON.stringify(signed, null, 2)],
+    `transcript-offer-${signed.transcript.offerId}.json`,
+    { type: "application/json" }
+  );
+  const form = new FormData();
+  form.append("file", file);
+  const res = await fetch("/api/ipfs", { method: "POST", body: form });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Upload failed");
+  return String(data.cid);
+}
+
+export function downloadChatTranscript(
+  signed: SignedChatTranscript,
+  format: "json" | "txt"
+) {
+  const blob =
+    format === "json"
+      ? new Blob([JSON.stringify(signed, null, 2)], {
+          type: "application/json",
+        })
+      : new Blob(
+          [
+            `${signed.text}\n\nSigned by ${signed.transcript.exportedBy}\n${signed.signature}\n`,
+          ],
+          { type: "text/plain" }
+        );
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `transcript-offer-${signed.transcript.offerId}.${format}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -9,9 +9,44 @@ import {
   UserType,
   EscrowStatus,
   DisputeOutcome,
+  OfferWithListing,
+  ListingType,
+  type EnrichedListing,
+  type ListingMetadata,
 } from "@/types/marketplace";
+import type {
+  IndexedEscrow,
+  IndexedListing,
+  IndexedMetrics,
+  IndexedOffer,
+  IndexedPage,
+  IndexedProfile,
+  ListingSearchFacets,
+  ListingSearchHit,
+  ListingSearchPage,
+  ListingSearchSort,
+} from "@/types/indexer";
 import MarketplaceABI from "./abi/abi.json";
 import { Badge as BadgeEnum } from "@/types/marketplace";
+import {
+  fetchWithTimeout,
+  loadListingMetadataFromURI,
+  toGatewayUrl,
+} from "./utils";
+import {
+  classifyOffer,
+  isOfferExpired,
+  loadOfferExpiries,
+  recordOfferExpiry,
+} from "./offerExpiry";
+import {
+  loadDisputeResolution,
+  previewDisputePayout,
+  saveDisputeResolution,
+  verifyDisputeResolution,
+  type OnchainDisputeResolution,
+} from "./disputeResolution";
+import type { DisputeResolution } from "@/types/dispute";
 
 export const TOKENS = {
   2741: {
@@ -174,9 +209,16 @@ export class MarketplaceContract {
   private defaultTTL = 60_000; // 60s default for reads
   // Track in-flight reads to dedupe concurrent identical requests
   private inflight = new Map<string, Promise<unknown>>();
+  // Chain the instance is bound to; used to query the indexer API
+  private chainId: number | null;
 
-  constructor(contractAddress: string, provider: ethers.Provider) {
+  constructor(
+    contractAddress: string,
+    provider: ethers.Provider,
+    chainId?: number
+  ) {
     this.provider = provider;
+    this.chainId = chainId ?? null;
     this.contract = new ethers.Contract(
       contractAddress,
       MARKETPLACE_ABI,
@@ -238,6 +280,130 @@ export class MarketplaceContract {
     } as Offer;
   }
 
+  private mapIndexedListing(l: IndexedListing): Listing {
+    return {
+      id: BigInt(l.id),
+      listingType: l.listingType as Listing["listingType"],
+      creator: l.creator,
+      metadataURI: l.metadataURI,
+      createdAt: BigInt(l.createdAt),
+      active: l.active,
+      boostExpiry: BigInt(l.boostExpiry),
+      category: BigInt(l.category),
+    };
+  }
+
+  // Search docs carry the indexed metadata; listings not indexed yet load it from IPFS
+  private async mapSearchHit(hit: ListingSearchHit): Promise<EnrichedListing> {
+    const listing = this.mapIndexedListing(hit);
+    const isBoosted =
+      Number(listing.boostExpiry) >= Math.floor(Date.now() / 1000);
+    const doc = hit.doc;
+    if (!doc) {
+      const metadata = await loadListingMetadataFromURI(
+        listing.metadataURI,
+        listing
+      );
+      return { ...listing, metadata, isBoosted };
+    }
+    const isGig = listing.listingType === ListingType.GIG;
+    const currency = doc.currency || "USD";
+    const metadata: ListingMetadata = {
+      title:
+        doc.title || `${isGig ? "Gig" : "Brief"} #${listing.id.toString()}`,
+      description: doc.description || "",
+      image: doc.image || undefined,
+      category: Number(listing.category),
+      type: listing.listingType,
+      requirements: doc.requirements,
+      deliverables: doc.deliverables,
+      tags: doc.tags,
+      serviceType: (doc.serviceType ||
+        undefined) as ListingMetadata["serviceType"],
+    };
+    if (isGig) {
+      metadata.deliveryTime = doc.deliveryTime || undefined;
+      if (doc.priceLow != null) {
+        metadata.price = {
+          amount: doc.priceLow,
+          currency,
+          per: (doc.pricePer || undefined) as NonNullable<
+            ListingMetadata["price"]
+          >["per"],
+        };
+      }
+    } else {
+      metadata.timeline = doc.deliveryTime || undefined;
+      if (doc.priceLow != null || doc.priceHigh != null) {
+        metadata.budget = {
+          min: doc.priceLow ?? undefined,
+          max: doc.priceHigh ?? undefined,
+          currency,
+        };
+      }
+    }
+    return { ...listing, metadata, isBoosted };
+  }
+
+  private mapIndexedEscrow(e: IndexedEscrow): Escrow {
+    return {
+      offerId: BigInt(e.offerId),
+      client: e.client,
+      provider: e.provider,
+      paymentToken: e.paymentToken,
+      amount: BigInt(e.amount),
+      feeAmount: BigInt(e.feeAmount),
+      status: e.status as EscrowStatus,
+      clientValidated: e.clientValidated,
+      providerValidated: e.providerValidated,
+      disputeOutcome: e.disputeOutcome as DisputeOutcome,
+    };
+  }
+
+  private mapIndexedOffer(o: IndexedOffer): OfferWithListing {
+    return {
+      id: BigInt(o.id),
+      listingId: BigInt(o.listingId),
+      proposer: o.proposer,
+      amount: BigInt(o.amount),
+      paymentToken: o.paymentToken,
+      createdAt: BigInt(o.createdAt),
+      accepted: o.accepted,
+      cancelled: o.cancelled,
+      listingTitle: o.listingTitle || `Listing #${o.listingId}`,
+      listingCreator: o.listingCreator ?? undefined,
+      listingImage: toGatewayUrl(o.listingImage) ?? undefined,
+      escrow: o.escrow ? this.mapIndexedEscrow(o.escrow) : undefined,
+    };
+  }
+
+  // Indexer API (server-side event index). Resolves null when unavailable
+  // (not synced, no Supabase, SSR) so callers can fall back to RPC scans.
+  private async indexerGet<T>(
+    path: string,
+    params: Record<string, string | number | boolean | undefined>,
+    opts?: CacheOptions
+  ): Promise<T | null> {
+    if (typeof window === "undefined" || !this.chainId) return null;
+    const qs = new URLSearchParams({ chainId: String(this.chainId) });
+    for (const [k, v] of Object.entries(params)) {
+      if (v !== undefined && v !== "") qs.set(k, String(v));
+    }
+    const url = `${path}?${qs.toString()}`;
+    const key = this.cacheKey(["indexer", url]);
+    const cached = !opts?.force ? this.cacheGet<T>(key) : undefined;
+    if (cached !== undefined) return cached;
+    try {
+      const res = await fetchWithTimeout(url, 10_000);
+      if (!res.ok) return null;
+      const json = (await res.json()) as T;
+      this.cacheSet(key, json, opts?.ttlMs ?? 15_000);
+      return json;
+    } catch {
+      return null;
+    }
+  }
+
   // New: probe if a listing id exists (id != 0)
   private async listingExists(id: bigint): Promise<boolean> {
     try {
@@ -340,6 +506,21 @@ export class MarketplaceContract {
     return this.signer ? base.connect(this.signer) : base;
   }
 
+  // Token decimals read from the token itself (ETH is 18). They never change, so
+  // they are cached for a day.
+  async getTokenDecimals(token: string): Promise<number> {
+    if (!token || token === ethers.ZeroAddress) return 18;
+    const key = this.cacheKey(["decimals", token.toLowerCase()]);
+    const cached = this.cacheGet<number>(key);
+    if (cached !== undefined) return cached;
+    const dec = await (
+      this.getErc20(token) as unknown as { decimals(): Promise<bigint> }
+    ).decimals();
+    const v = Number(dec);
+    this.cacheSet(key, v, 24 * 60 * 60_000);
+    return v;
+  }
+
   // Ensure the connected signer has sufficient ERC20 allowance to the marketplace
   private async ensureAllowanceForCurrentSigner(
     token: string,
@@ -629,6 +810,149 @@ export class MarketplaceContract {
     return out;
   }
 
+  // Indexed listings (newest first). Null when the indexer is unavailable.
+  async getIndexedListings(
+    params?: {
+      listingType?: number;
+      creator?: string;
+      onlyActive?: boolean;
+      cursor?: string | null;
+      limit?: number;
+    },
+    opts?: CacheOptions
+  ): Promise<{ listings: Listing[]; nextCursor: string | null } | null> {
+    const page = await this.indexerGet<IndexedPage<IndexedListing>>(
+      "/api/listings",
+      {
+        type: params?.listingType,
+        creator: params?.creator,
+        active: params?.onlyActive ? 1 : undefined,
+        cursor: params?.cursor ?? undefined,
+        limit: params?.limit,
+      },
+      opts
+    );
+    if (!page) return null;
+    return {
+      listings: page.items.map((l) => this.mapIndexedListing(l)),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  // All indexed listings, following cursors up to max. Null when the indexer is unavailable.
+  async fetchAllIndexedListings(options?: {
+    max?: number;
+    listingType?: number;
+    onlyActive?: boolean;
+    force?: boolean;
+  }): Promise<Listing[] | null> {
+    const cap = options?.max ?? Number.MAX_SAFE_INTEGER;
+    const out: Listing[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.getIndexedListings(
+        {
+          listingType: options?.listingType,
+          onlyActive: options?.onlyActive,
+          cursor,
+          limit: Math.min(500, cap - out.length),
+        },
+        { force: options?.force }
+      );
+      if (!page) return out.length ? out : null;
+      out.push(...page.listings);
+      cursor = page.nextCursor;
+    } while (cursor && out.length < cap);
+    return out;
+  }
+
+  // Server-side listing search (/api/listings/search). Prices are USD reference amounts.
+  // Facets come with the first page only. Null when the search index is unavailable so
+  // callers can filter client-side.
+  async searchListings(
+    params: {
+      query?: string;
+      listingType?: number;
+      category?: number | null;
+      token?: string;
+      minPrice?: number;
+      maxPrice?: number;
+      maxDeliveryDays?: number;
+      serviceType?: string;
+      priceBasis?: "total" | "day";
+      tags?: string[];
+      boostedOnly?: boolean;
+      onlyActive?: boolean;
+      boostedFirst?: boolean;
+      sort?: ListingSearchSort;
+      cursor?: string | null;
+      limit?: number;
+    },
+    opts?: CacheOptions
+  ): Promise<{
+    listings: EnrichedListing[];
+    nextCursor: string | null;
+    facets: ListingSearchFacets | null;
+  } | null> {
+    const page = await this.indexerGet<ListingSearchPage>(
+      "/api/listings/search",
+      {
+        q: params.query?.trim(),
+        type: params.listingType,
+        category: params.category ?? undefined,
+        token: params.token,
+        minPrice: params.minPrice,
+        maxPrice: params.maxPrice,
+        maxDeliveryDays: params.maxDeliveryDays,
+        serviceType: params.serviceType,
+        basis: params.priceBasis,
+        tags: params.tags?.length ? params.tags.join(",") : undefined,
+        boosted: params.boostedOnly ? 1 : undefined,
+        active: params.onlyActive === false ? 0 : undefined,
+        boostedFirst: params.boostedFirst === false ? 0 : undefined,
+        sort: params.sort,
+        cursor: params.cursor ?? undefined,
+        limit: params.limit,
+      },
+      opts
+    );
+    if (!page) return null;
+    return {
+      listings: await Promise.all(page.items.map((h) => this.mapSearchHit(h))),
+      nextCursor: page.nextCursor,
+      facets: page.facets,
+    };
+  }
+
+  // Indexed profiles with rating / mission aggregates. Null when the indexer is unavailable.
+  async getIndexedFreelancers(
+    params?: { userType?: number; limit?: number },
+    opts?: CacheOptions
+  ): Promise<IndexedProfile[] | null> {
+    const out: IndexedProfile[] = [];
+    const cap = params?.limit ?? 1000;
+    let cursor: string | null = null;
+    do {
+      const page: IndexedPage<IndexedProfile> | null = await this.indexerGet(
+        "/api/freelancers",
+        {
+          userType: params?.userType,
+          cursor: cursor ?? undefined,
+          limit: Math.min(500, cap - out.length),
+        },
+        opts
+      );
+      if (!page) return out.length ? out : null;
+      out.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor && out.length < cap);
+    return out;
+  }
+
+  async getIndexedMetrics(opts?: CacheOptions): Promise<IndexedMetrics | null> {
+    return this.indexerGet<IndexedMetrics>("/api/metrics", {}, opts);
+  }
+
   // Offers
   async getOffer(id: bigint, opts?: CacheOptions): Promise<Offer> {
     const key = this.cacheKey(["offer", id]);
@@ -640,6 +964,32 @@ export class MarketplaceContract {
     return offer;
   }
 
+  // Attach the off-chain expiry (written once per offer, so safe to cache).
+  // Best effort: when the expiry store is unreachable offers are treated as non-expiring.
+  private async attachOfferExpiry<T extends Offer>(offers: T[]): Promise<T[]> {
+    let expiries = new Map<string, number>();
+    try {
+      if (this.chainId)
+        expiries = await loadOfferExpiries(this.chainId, offers);
+    } catch (e) {
+      console.warn("Failed to load offer expiries", e);
+    }
+    return offers.map((o) => ({
+      ...o,
+      expiresAt: expiries.get(o.id.toString()) ?? o.expiresAt,
+    }));
+  }
+
+  // pending/expired/cancelled/accepted depends on the current time, so it is derived on
+  // every read and never cached with the offer
+  private withOfferStatus<T extends Offer>(offers: T[]): T[] {
+    return offers.map((o) => ({ ...o, status: classifyOffer(o) }));
+  }
+
+  async attachOfferStatus<T extends Offer>(offers: T[]): Promise<T[]> {
+    return this.withOfferStatus(await this.attachOfferExpiry(offers));
+  }
+
   // New: Paginated offers for a listing
   async getOffersForListing(
     listingId: bigint,
@@ -649,7 +999,7 @@ export class MarketplaceContract {
   ): Promise<Offer[]> {
     const key = this.cacheKey(["offersForListing", listingId, offset, limit]);
     const cached = !opts?.force ? this.cacheGet<Offer[]>(key) : undefined;
-    if (cached) return cached;
+    if (cached) return this.withOfferStatus(cached);
 
     type OfferStruct = {
       id: bigint;
@@ -681,12 +1031,120 @@ export class MarketplaceContract {
       page = Array.isArray(obj.page) ? obj.page : [];
     }
 
-    const mapped = (page || []).map((o) => this.mapOfferStruct(o));
+    const mapped = await this.attachOfferExpiry(
+      (page || []).map((o) => this.mapOfferStruct(o))
+    );
     for (const o of mapped) {
       this.cacheSet(this.cacheKey(["offer", o.id]), o, opts?.ttlMs);
     }
     this.cacheSet(key, mapped, opts?.ttlMs);
-    return mapped;
+    return this.withOfferStatus(mapped);
+  }
+
+  // New: every offer the address sent (proposer) or received (listing creator), newest first.
+  // Served by /api/offers; falls back to a full offer-id scan when the indexer is unavailable.
+  // `cursor` is the last offer id of the previous page (exclusive).
+  async getOffersByAddress(
+    address: string,
+    params?: {
+      role?: "all" | "sent" | "received";
+      cursor?: string | null;
+      limit?: number;
+    },
+    opts?: CacheOptions
+  ): Promise<{ offers: OfferWithListing[]; nextCursor: string | null }> {
+    const limit = Math.max(1, Math.min(200, params?.limit ?? 50));
+    const role = params?.role ?? "all";
+    const page = await this.indexerGet<IndexedPage<IndexedOffer>>(
+      "/api/offers",
+      { address, role, cursor: params?.cursor ?? undefined, limit },
+      opts
+    );
+    const result = page
+      ? {
+          offers: page.items.map((o) => this.mapIndexedOffer(o)),
+          nextCursor: page.nextCursor,
+        }
+      : await this.scanOffersByAddress(
+          address,
+          role,
+          params?.cursor,
+          limit,
+          opts
+        );
+    return {
+      offers: await this.attachOfferStatus(result.offers),
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  private async scanOffersByAddress(
+    address: string,
+    role: "all" | "sent" | "received",
+    cursorRaw: string | null | undefined,
+    limit: number,
+    opts?: CacheOptions
+  ): Promise<{ offers: OfferWithListing[]; nextCursor: string | null }> {
+    const me = address.toLowerCase();
+    const BATCH = 50;
+    let cursor = cursorRaw
+      ? BigInt(cursorRaw) - BigInt(1)
+      : await this.getLastOfferId({ force: opts?.force });
+    const out: OfferWithListing[] = [];
+
+    while (cursor > BigInt(0) && out.length < limit) {
+      const ids: bigint[] = [];
+      for (let i = 0; i < BATCH && cursor > BigInt(0); i++) {
+        ids.push(cursor);
+        cursor -= BigInt(1);
+      }
+      const batch = await Promise.all(
+        ids.map((id) => this.getOffer(id, opts).catch(() => null))
+      );
+      for (const off of batch) {
+        if (!off || off.id === BigInt(0)) continue;
+        const listing = await this.getListing(off.listingId).catch(() => null);
+        const sent = off.proposer.toLowerCase() === me;
+        const received = listing?.creator.toLowerCase() === me;
+        const relevant =
+          role === "sent"
+            ? sent
+            : role === "received"
+            ? received
+            : sent || received;
+        if (!relevant) continue;
+
+        let listingTitle = `Listing #${off.listingId.toString()}`;
+        let listingImage: string | undefined;
+        if (listing?.metadataURI) {
+          const md = await loadListingMetadataFromURI(
+            listing.metadataURI,
+            listing
+          ).catch(() => undefined);
+          if (md?.title) listingTitle = md.title;
+          listingImage = toGatewayUrl(md?.image) ?? undefined;
+        }
+        const escrow = off.accepted
+          ? await this.getEscrow(off.id).catch(() => undefined)
+          : undefined;
+        out.push({
+          ...off,
+          listingTitle,
+          listingCreator: listing?.creator,
+          listingImage,
+          escrow,
+        });
+        if (out.length >= limit) {
+          // Resume right after this offer on the next page
+          cursor = off.id - BigInt(1);
+          break;
+        }
+      }
+    }
+
+    const nextCursor =
+      cursor > BigInt(0) ? (cursor + BigInt(1)).toString() : null;
+    return { offers: out, nextCursor };
   }
 
   async makeOffer(listingId: bigint, amount: bigint, paymentToken: string) {
@@ -725,6 +1183,40 @@ export class MarketplaceContract {
     return receipt;
   }
 
+  // Store the expiry (unix seconds) of an offer made with makeOffer. It waits for the
+  // indexer to see the offer and needs the proposer's wallet session on this chain; when
+  // that fails the expiry stays queued in the browser and is retried on the next session.
+  async recordOfferExpiry(
+    receipt: ethers.TransactionReceipt | null,
+    expiresAt: number
+  ) {
+    if (!this.signer) throw new Error("Signer required for write operations");
+    if (!this.chainId) throw new Error("Contract is not bound to a chain");
+    const offerId = this.offerIdFromReceipt(receipt);
+    if (offerId === null) throw new Error("OfferMade log not found");
+    await recordOfferExpiry(await this.signer.getAddress(), {
+      chainId: this.chainId,
+      offerId: offerId.toString(),
+      expiresAt,
+    });
+  }
+
+  // Id of the offer created in a makeOffer receipt (from its OfferMade log)
+  offerIdFromReceipt(receipt: ethers.TransactionReceipt | null): bigint | null {
+    for (const log of receipt?.logs || []) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: [...log.topics],
+          data: log.data,
+        });
+        if (parsed?.name === "OfferMade") return BigInt(parsed.args[0]);
+      } catch {
+        // not a marketplace event
+      }
+    }
+    return null;
+  }
+
   async cancelOffer(offerId: bigint) {
     if (!this.signer) throw new Error("Signer required for write operations");
     const tx = await this.contract.cancelOffer(offerId);
@@ -739,6 +1231,18 @@ export class MarketplaceContract {
   async acceptOffer(offerId: bigint, value?: bigint) {
     if (!this.signer) throw new Error("Signer required for write operations");
 
+    // The contract has no notion of expiry, so stale offers are refused here
+    const [checked] = await this.attachOfferStatus([
+      await this.getOffer(offerId, { force: true }),
+    ]);
+    if (isOfferExpired(checked) && checked.expiresAt) {
+      throw new Error(
+        `This offer expired on ${new Date(
+          checked.expiresAt * 1000
+        ).toLocaleString()}. Ask the proposer for a new offer.`
+      );
+    }
+
     let ofr: Offer | null = null;
     let listing: Listing | null = null;
 
@@ -1225,6 +1729,96 @@ export class MarketplaceContract {
     return receipt;
   }
 
+  // Resolve with one of the contract's outcomes and record the mediator's note. The record
+  // is written with the admin's wallet session and needs one to be active.
+  async resolveDisputeAndRecord(
+    offerId: bigint,
+    outcome: DisputeOutcome,
+    note?: string
+  ) {
+    if (!this.signer) throw new Error("Signer required for write operations");
+    const escrow = await this.getEscrow(offerId, { force: true });
+    const receipt = await this.resolveDispute(offerId, outcome);
+
+    const payout =
+      this.disputeResolvedFromReceipt(receipt, offerId, escrow.amount) ??
+      previewDisputePayout(escrow, outcome);
+    try {
+      if (!this.chainId) throw new Error("Contract is not bound to a chain");
+      await saveDisputeResolution({
+        chainId: this.chainId,
+        offerId: offerId.toString(),
+        outcome,
+        providerAmount: payout.providerAmount,
+        clientAmount: payout.clientAmount,
+        feeAmount: payout.feeAmount,
+        note,
+        resolvedBy: await this.signer.getAddress(),
+        txHash: receipt?.hash,
+      });
+    } catch (error) {
+      console.warn("Failed to record dispute resolution:", error);
+    }
+    return receipt;
+  }
+
+  // Recorded resolution of a resolved escrow, checked against the chain: amounts must match
+  // the DisputeResolved log of the recorded transaction, or the escrow's outcome when
+  // there is none. Null when nothing trustworthy was recorded.
+  async getDisputeResolution(
+    escrow: Escrow
+  ): Promise<DisputeResolution | null> {
+    if (!this.chainId) return null;
+    const recorded = await loadDisputeResolution(this.chainId, escrow.offerId);
+    if (!recorded) return null;
+    let onchain: OnchainDisputeResolution | null = null;
+    if (recorded.txHash) {
+      const receipt = await this.provider
+        .getTransactionReceipt(recorded.txHash)
+        .catch(() => null);
+      onchain = this.disputeResolvedFromReceipt(
+        receipt,
+        escrow.offerId,
+        escrow.amount
+      );
+      // A recorded transaction that did not resolve this escrow is not trusted at all
+      if (!onchain) return null;
+    }
+    return verifyDisputeResolution(recorded, escrow, onchain);
+  }
+
+  // Outcome and amounts of this escrow's DisputeResolved log in a receipt
+  private disputeResolvedFromReceipt(
+    receipt: ethers.TransactionReceipt | null,
+    offerId: bigint,
+    escrowAmount: bigint
+  ): OnchainDisputeResolution | null {
+    for (const log of receipt?.logs || []) {
+      if (log.address.toLowerCase() !== this.contractAddress.toLowerCase()) {
+        continue;
+      }
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: [...log.topics],
+          data: log.data,
+        });
+        if (parsed?.name !== "DisputeResolved") continue;
+        if (BigInt(parsed.args.offerId) !== offerId) continue;
+        const providerAmount = BigInt(parsed.args.providerAmount);
+        const clientAmount = BigInt(parsed.args.clientAmount);
+        return {
+          outcome: Number(parsed.args.outcome) as DisputeOutcome,
+          providerAmount,
+          clientAmount,
+          feeAmount: escrowAmount - providerAmount - clientAmount,
+        };
+      } catch {
+        // not a marketplace event
+      }
+    }
+    return null;
+  }
+
   // Listing Management
   async setListingActive(listingId: bigint, active: boolean) {
     if (!this.signer) throw new Error("Signer required for write operations");
@@ -1654,7 +2248,7 @@ export function getMarketplaceContract(
     return existing;
   }
 
-  const instance = new MarketplaceContract(address, provider);
+  const instance = new MarketplaceContract(address, provider, chainId);
   CONTRACT_INSTANCE_REGISTRY.set(key, instance);
   return instance;
 }
@@ -1801,7 +2395,11 @@ export async function createMarketplaceWithWallet(
   targetChainId: number
 ): Promise<MarketplaceContract> {
   const { provider, signer } = await connectAndEnsureChain(targetChainId);
-  const instance = new MarketplaceContract(contractAddress, provider);
+  const instance = new MarketplaceContract(
+    contractAddress,
+    provider,
+    targetChainId
+  );
   instance.connect(signer);
   return instance;
 }
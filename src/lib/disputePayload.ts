@@ -0,0 +1,230 @@
+import { ethers } from "ethers";
+import {
+  asRecord,
+  asString,
+  fetchWithTimeout,
+  toGatewayUrl,
+} from "@/lib/utils";
+import { decryptAttachment, isEncryptedAttachment } from "@/lib/chatCrypto";
+import type {
+  ClaimedOutcome,
+  DisputeAttachment,
+  DisputeEvidence,
+  DisputePayload,
+  DisputeTimelineEntry,
+} from "@/types/dispute";
+
+// Schema helpers for dispute/appeal evidence bundles (see src/types/dispute.ts).
+// Attachments carry the sha256 of their original bytes so an admin can check that what
+// the gateway serves is what the party uploaded. New evidence files are encrypted for the
+// parties and admin reviewers (enc+ipfs://, see src/lib/chatCrypto.ts); the hash is of
+// the plaintext.
+
+export const CLAIMED_OUTCOME_LABELS: Record<ClaimedOutcome, string> = {
+  client_wins: "Refund the client",
+  provider_wins: "Pay the provider",
+  split: "Split the escrow",
+};
+
+const MAX_REASON_LENGTH = 5000;
+const MAX_TIMELINE_ENTRIES = 50;
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export function sha256Hex(bytes: ArrayBuffer | Uint8Array) {
+  return ethers.sha256(
+    bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  );
+}
+
+export async function hashFile(file: Blob) {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+export async function describeAttachment(
+  file: File,
+  uri: string,
+  sha256?: string
+): Promise<DisputeAttachment> {
+  return {
+    uri,
+    name: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: file.size,
+    sha256: sha256 ?? (await hashFile(file)),
+  };
+}
+
+// Problems that must be fixed before the payload is uploaded; empty when valid
+export function validateDisputePayload(p: DisputePayload): string[] {
+  const problems: string[] = [];
+  if (p.version !== 1) problems.push("Unsupported payload version");
+  if (p.type !== "dispute" && p.type !== "appeal")
+    problems.push("Unknown payload type");
+  if (!/^\d+$/.test(p.offerId)) problems.push("Invalid offer id");
+  if (!/^\d+$/.test(p.listingId)) problems.push("Invalid listing id");
+  if (!ethers.isAddress(p.author)) problems.push("Invalid author address");
+  if (p.role !== "client" && p.role !== "provider")
+    problems.push("Role must be client or provider");
+  if (!p.reason.trim()) problems.push("Describe the reason for the dispute");
+  if (p.reason.length > MAX_REASON_LENGTH)
+    problems.push(`Reason is limited to ${MAX_REASON_LENGTH} characters`);
+  if (!(p.claimedOutcome in CLAIMED_OUTCOME_LABELS))
+    problems.push("Choose the outcome you are asking for");
+  if (p.timeline.length > MAX_TIMELINE_ENTRIES)
+    problems.push(`At most ${MAX_TIMELINE_ENTRIES} timeline events`);
+  if (p.timeline.some((t) => !Number.isFinite(t.at) || !t.event.trim()))
+    problems.push("Every timeline event needs a date and a description");
+  if (p.chatMessageIds.some((id) => typeof id !== "string" || !id))
+    problems.push("Invalid chat message reference");
+  if (
+    p.transcript &&
+    (!p.transcript.cid || !/^0x[0-9a-f]{64}$/.test(p.transcript.digest))
+  )
+    problems.push("Invalid chat transcript reference");
+  if (p.attachments.length > MAX_ATTACHMENTS)
+    problems.push(`At most ${MAX_ATTACHMENTS} attachments`);
+  for (const a of p.attachments) {
+    if (!a.uri.startsWith("ipfs://") && !isEncryptedAttachment(a.uri))
+      problems.push(`${a.name || "Attachment"} was not uploaded to IPFS`);
+    if (!/^0x[0-9a-f]{64}$/.test(a.sha256))
+      problems.push(`${a.name || "Attachment"} is missing its sha256 hash`);
+    if (a.size > MAX_ATTACHMENT_BYTES)
+      problems.push(`${a.name} is larger than 25 MB`);
+  }
+  return problems;
+}
+
+export function validateAttachmentFiles(files: File[]): string | null {
+  if (files.length > MAX_ATTACHMENTS)
+    return `At most ${MAX_ATTACHMENTS} attachments`;
+  const big = files.find((f) => f.size > MAX_ATTACHMENT_BYTES);
+  if (big) return `${big.name} is larger than 25 MB`;
+  return null;
+}
+
+function parseTimeline(raw: unknown): DisputeTimelineEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((t) => {
+      const r = asRecord(t);
+      return { at: Number(r?.at), event: asString(r?.event) || "" };
+    })
+    .filter((t) => Number.isFinite(t.at) && t.event);
+}
+
+function parseAttachments(raw: unknown): DisputeAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((a): DisputeAttachment[] => {
+    // Legacy payloads listed bare ipfs:// URIs
+    if (typeof a === "string") {
+      return [
+        {
+          uri: a,
+          name: a.split("/").pop() || a,
+          mimeType: "",
+          size: 0,
+          sha256: "",
+        },
+      ];
+    }
+    const r = asRecord(a);
+    const uri = asString(r?.uri);
+    if (!uri) return [];
+    return [
+      {
+        uri,
+        name: asString(r?.name) || uri.split("/").pop() || uri,
+        mimeType: asString(r?.mimeType) || "",
+        size: Number(r?.size) || 0,
+        sha256: (asString(r?.sha256) || "").toLowerCase(),
+      },
+    ];
+  });
+}
+
+// Normalize whatever JSON a dispute CID points to; null when it isn't an object
+export function parseDisputePayload(raw: unknown): DisputeEvidence | null {
+  const r = asRecord(raw);
+  if (!r) return null;
+  const version = Number(r.version) || 0;
+  const claimed = asString(r.claimedOutcome);
+  const milestone = asRecord(r.milestone);
+  const transcript = asRecord(r.transcript);
+  const payload: DisputeEvidence["payload"] = {
+    version,
+    type: r.type === "appeal" ? "appeal" : "dispute",
+    offerId: String(r.offerId ?? ""),
+    listingId: String(r.listingId ?? ""),
+    author: asString(r.author) || "",
+    role: r.role === "provider" ? "provider" : "client",
+    reason: asString(r.reason) || "",
+    claimedOutcome:
+      claimed && claimed in CLAIMED_OUTCOME_LABELS
+        ? (claimed as ClaimedOutcome)
+        : undefined,
+    timeline: parseTimeline(r.timeline),
+    chatMessageIds: Array.isArray(r.chatMessageIds)
+      ? r.chatMessageIds.map(String)
+      : [],
+    attachments: parseAttachments(r.attachments),
+    milestone: milestone
+      ? {
+          id: String(milestone.id ?? ""),
+          title: asString(milestone.title) || "",
+          amount: String(milestone.amount ?? "0"),
+        }
+      : undefined,
+    transcript: transcript
+      ? {
+          cid: asString(transcript.cid) || "",
+          digest: (asString(transcript.digest) || "").toLowerCase(),
+          messageCount: Number(transcript.messageCount) || 0,
+        }
+      : undefined,
+    createdAt: Number(r.createdAt) || 0,
+  };
+  const legacy = version !== 1;
+  const problems = legacy
+    ? []
+    : validateDisputePayload(payload as DisputePayload);
+  return { payload, legacy, problems };
+}
+
+// Re-hash the bytes served for an attachment; null when they can't be fetched.
+// Encrypted attachments are decrypted with the viewer's unlocked keys first.
+export async function verifyAttachment(
+  attachment: DisputeAttachment,
+  timeoutMs = 20_000,
+  viewer?: string
+): Promise<boolean | null> {
+  if (!attachment.sha256) return null;
+  if (isEncryptedAttachment(attachment.uri)) {
+    if (!viewer) return null;
+    try {
+      const file = await decryptAttachment(attachment.uri, viewer);
+      return (await hashFile(file.blob)) === attachment.sha256;
+    } catch {
+      return null;
+    }
+  }
+  const url = toGatewayUrl(attachment.uri);
+  if (!url) return null;
+  try {
+    const res = await fetchWithTimeout(url, timeoutMs);
+    if (!res.ok) return null;
+    const digest = sha256Hex(await res.arrayBuffer());
+    return digest === attachment.sha256;
+  } catch {
+    return null;
+  }
+}
+
+// Which listed attachment (if any) a local file is byte-identical to
+export async function matchLocalFile(
+  attachments: DisputeAttachment[],
+  file: File
+): Promise<DisputeAttachment | null> {
+  const digest = await hashFile(file);
+  return attachments.find((a) => a.sha256 === digest) || null;
+}
@@ -0,0 +1,161 @@
+import { supabase } from "@/lib/supabaseClient";
+import { DisputeOutcome, type Escrow } from "@/types/marketplace";
+import type { DisputeResolution } from "@/types/dispute";
+
+// Payout preview for resolveDispute, matching the providerAmount/clientAmount the
+// contract emits in DisputeResolved. The contract only settles with one of its three
+// outcomes (pay the provider, refund the client, or an even split); there is no custom
+// share. The platform fee is only charged on what is released to the provider; refunded
+// funds go back to the client fee-free.
+// Resolutions are recorded in Supabase (see supabase-dispute-resolutions.sql) by the
+// resolving admin; readers check them against the chain before showing their amounts.
+
+// What the chain says about a resolution (DisputeResolved log)
+export interface OnchainDisputeResolution {
+  outcome: DisputeOutcome;
+  providerAmount: bigint;
+  clientAmount: bigint;
+  feeAmount: bigint;
+}
+
+export interface DisputePayoutPreview {
+  providerAmount: bigint;
+  clientAmount: bigint;
+  feeAmount: bigint;
+}
+
+export const CONTRACT_DISPUTE_OUTCOMES: {
+  outcome: DisputeOutcome;
+  label: string;
+  description: string;
+}[] = [
+  {
+    outcome: DisputeOutcome.PROVIDER_WINS,
+    label: "Pay provider",
+    description: "Release the escrow to the provider minus the platform fee",
+  },
+  {
+    outcome: DisputeOutcome.CLIENT_WINS,
+    label: "Refund client",
+    description: "Return the full escrow to the client",
+  },
+  {
+    outcome: DisputeOutcome.SPLIT,
+    label: "Split",
+    description: "Half to each party; the fee applies to the provider half",
+  },
+];
+
+type ResolutionRow = {
+  chain_id: number;
+  offer_id: string;
+  outcome: number;
+  provider_amount: string;
+  client_amount: string;
+  fee_amount: string;
+  note: string | null;
+  resolved_by: string;
+  tx_hash: string | null;
+  created_at: string;
+};
+
+export function previewDisputePayout(
+  escrow: Pick<Escrow, "amount" | "feeAmount">,
+  outcome: DisputeOutcome
+): DisputePayoutPreview {
+  switch (outcome) {
+    case DisputeOutcome.PROVIDER_WINS:
+      return {
+        providerAmount: escrow.amount - escrow.feeAmount,
+        clientAmount: BigInt(0),
+        feeAmount: escrow.feeAmount,
+      };
+    case DisputeOutcome.SPLIT: {
+      const half = escrow.amount / BigInt(2);
+      const fee = escrow.feeAmount / BigInt(2);
+      return {
+        providerAmount: half - fee,
+        clientAmount: escrow.amount - half,
+        feeAmount: fee,
+      };
+    }
+    default:
+      return {
+        providerAmount: BigInt(0),
+        clientAmount: escrow.amount,
+        feeAmount: BigInt(0),
+      };
+  }
+}
+
+// Keeps a recorded resolution only when it agrees with the chain. With the DisputeResolved
+// log the outcome and amounts must match it exactly; without one the outcome must match
+// the escrow and the amounts shown are the ones that outcome implies.
+export function verifyDisputeResolution(
+  recorded: DisputeResolution,
+  escrow: Pick<Escrow, "amount" | "feeAmount" | "disputeOutcome">,
+  onchain: OnchainDisputeResolution | null
+): DisputeResolution | null {
+  const outcome = onchain ? onchain.outcome : escrow.disputeOutcome;
+  if (Number(recorded.outcome) !== Number(outcome)) return null;
+  if (onchain) {
+    const matches =
+      recorded.providerAmount === onchain.providerAmount &&
+      recorded.clientAmount === onchain.clientAmount &&
+      recorded.feeAmount === onchain.feeAmount;
+    return matches ? recorded : null;
+  }
+  const implied = previewDisputePayout(escrow, outcome);
+  return {
+    ...recorded,
+    providerAmount: implied.providerAmount,
+    clientAmount: implied.clientAmount,
+    feeAmount: implied.feeAmount,
+  };
+}
+
+function mapRow(r: ResolutionRow): DisputeResolution {
+  return {
+    chainId: Number(r.chain_id),
+    offerId: r.offer_id,
+    outcome: Number(r.outcome),
+    providerAmount: BigInt(r.provider_amount || "0"),
+    clientAmount: BigInt(r.client_amount || "0"),
+    feeAmount: BigInt(r.fee_amount || "0"),
+    note: r.note || undefined,
+    resolvedBy: r.resolved_by,
+    txHash: r.tx_hash || undefined,
+    createdAt: r.created_at,
+  };
+}
+
+export async function loadDisputeResolution(
+  chainId: number,
+  offerId: bigint
+): Promise<DisputeResolution | null> {
+  const { data, error } = await supabase
+    .from("dispute_resolutions")
+    .select("*")
+    .eq("chain_id", chainId)
+    .eq("offer_id", offerId.toString())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? mapRow(data as ResolutionRow) : null;
+}
+
+export async function saveDisputeResolution(
+  r: Omit<DisputeResolution, "createdAt">
+) {
+  const { error } = await supabase.from("dispute_resolutions").insert({
+    chain_id: r.chainId,
+    offer_id: r.offerId,
+    outcome: r.outcome,
+    provider_amount: r.providerAmount.toString(),
+    client_amount: r.clientAmount.toString(),
+    fee_amount: r.feeAmount.toString(),
+    note: r.note || null,
+    resolved_by: r.resolvedBy.toLowerCase(),
+    tx_hash: r.txHash || null,
+  });
+  if (error) throw new Error(error.message);
+}
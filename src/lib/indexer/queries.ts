@@ -0,0 +1,499 @@
+import { supabaseAdmin } from "@/lib/supabaseServer";
+import { loadListingMetadataFromURI } from "@/lib/utils";
+import type { PriceBasis, ReferenceRates } from "@/lib/pricing";
+import { ListingType, EscrowStatus, Listing } from "@/types/marketplace";
+import type {
+  IndexedEscrow,
+  IndexedListing,
+  IndexedMetrics,
+  IndexedOffer,
+  IndexedPage,
+  IndexedProfile,
+  ListingSearchFacets,
+  ListingSearchHit,
+  ListingSearchPage,
+  ListingSearchSort,
+} from "@/types/indexer";
+
+// Server-only read helpers over the indexer views (see supabase-indexer.sql)
+
+type ListingRow = {
+  id: number | string;
+  listing_type: number;
+  creator: string;
+  category: number | string;
+  metadata_uri: string;
+  created_at: number | string;
+  active: boolean;
+  boost_expiry: number | string;
+};
+
+type SearchRow = ListingRow & {
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  tags: string[] | null;
+  requirements: string[] | null;
+  deliverables: string[] | null;
+  service_type: string | null;
+  price_low: number | string | null;
+  price_high: number | string | null;
+  price_per: string | null;
+  currency: string | null;
+  delivery_time: string | null;
+  delivery_days: number | null;
+  price_ref_low: number | string | null;
+  price_ref_high: number | string | null;
+  price_basis: string | null;
+  rank: number | null;
+  boost_rank: number;
+  sort_key: number | string;
+};
+
+type ProfileRow = {
+  address: string;
+  user_type: number;
+  joined_at: number | string;
+  username: string | null;
+  boost_expiry: number | string;
+  rating: number | null;
+  review_count: number | string;
+  completed_missions: number | string;
+  listing_count: number | string;
+};
+
+type OfferRow = {
+  id: number | string;
+  listing_id: number | string;
+  proposer: string;
+  amount: string;
+  payment_token: string;
+  created_at: number | string;
+  accepted: boolean;
+  cancelled: boolean;
+  listing_creator: string | null;
+  listing_type: number | null;
+  listing_metadata_uri: string | null;
+};
+
+type EscrowRow = {
+  offer_id: number | string;
+  client: string;
+  provider: string;
+  payment_token: string;
+  amount: string;
+  fee_amount: string;
+  status: number;
+  client_validated: boolean;
+  provider_validated: boolean;
+  dispute_outcome: number;
+  dispute_cid: string | null;
+  started_at: number | string;
+  completed_at: number | string | null;
+};
+
+function mapListingRow(r: ListingRow): IndexedListing {
+  return {
+    id: String(r.id),
+    listingType: Number(r.listing_type),
+    creator: r.creator,
+    category: String(r.category),
+    metadataURI: r.metadata_uri || "",
+    createdAt: Number(r.created_at) || 0,
+    active: Boolean(r.active),
+    boostExpiry: String(r.boost_expiry ?? 0),
+  };
+}
+
+function mapProfileRow(r: ProfileRow): IndexedProfile {
+  return {
+    address: r.address,
+    userType: Number(r.user_type),
+    joinedAt: Number(r.joined_at) || 0,
+    username: r.username || null,
+    boostExpiry: String(r.boost_expiry ?? 0),
+    rating: Number(r.rating) || 0,
+    reviewCount: Number(r.review_count) || 0,
+    completedMissions: Number(r.completed_missions) || 0,
+    listingCount: Number(r.listing_count) || 0,
+  };
+}
+
+function mapEscrowRow(r: EscrowRow): IndexedEscrow {
+  return {
+    offerId: String(r.offer_id),
+    client: r.client,
+    provider: r.provider,
+    paymentToken: r.payment_token,
+    amount: r.amount || "0",
+    feeAmount: r.fee_amount || "0",
+    status: Number(r.status),
+    clientValidated: Boolean(r.client_validated),
+    providerValidated: Boolean(r.provider_validated),
+    disputeOutcome: Number(r.dispute_outcome) || 0,
+    disputeCid: r.dispute_cid || null,
+    startedAt: Number(r.started_at) || 0,
+    completedAt: r.completed_at == null ? null : Number(r.completed_at),
+  };
+}
+
+export function parseChainId(searchParams: URLSearchParams) {
+  const raw = Number(searchParams.get("chainId"));
+  if (Number.isInteger(raw) && raw > 0) return raw;
+  return Number(process.env.NEXT_PUBLIC_CHAIN_ID) || 11124;
+}
+
+// Last indexed block for a chain, or null when the indexer has never run
+export async function getIndexerHead(chainId: number): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from("indexer_cursors")
+    .select("last_block")
+    .eq("chain_id", chainId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? Number(data.last_block) : null;
+}
+
+export function clampLimit(raw: string | null, fallback = 50, max = 500) {
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(max, Math.floor(n));
+}
+
+// Newest-first listings; cursor is the last id of the previous page (exclusive)
+export async function listIndexedListings(params: {
+  chainId: number;
+  listingType?: number;
+  creator?: string;
+  onlyActive?: boolean;
+  cursor?: string | null;
+  limit: number;
+}): Promise<IndexedPage<IndexedListing>> {
+  let q = supabaseAdmin
+    .from("indexed_listings")
+    .select("*")
+    .eq("chain_id", params.chainId)
+    .order("id", { ascending: false })
+    .limit(params.limit);
+  if (params.listingType !== undefined)
+    q = q.eq("listing_type", params.listingType);
+  if (params.creator) q = q.eq("creator", params.creator.toLowerCase());
+  if (params.onlyActive) q = q.eq("active", true);
+  if (params.cursor) q = q.lt("id", params.cursor);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  const items = ((data || []) as ListingRow[]).map(mapListingRow);
+  const nextCursor =
+    items.length === params.limit ? items[items.length - 1].id : null;
+  return { items, nextCursor };
+}
+
+function numOrNull(v: number | string | null) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Rows without a doc (metadata not fetched yet) come back with every doc column null;
+// tags is never null on a stored doc
+function mapSearchRow(r: SearchRow): ListingSearchHit {
+  return {
+    ...mapListingRow(r),
+    doc:
+      r.tags !== null
+        ? {
+            title: r.title,
+            description: r.description,
+            image: r.image,
+            tags: r.tags || [],
+            requirements: r.requirements || [],
+            deliverables: r.deliverables || [],
+            serviceType: r.service_type,
+            priceLow: numOrNull(r.price_low),
+            priceHigh: numOrNull(r.price_high),
+            pricePer: r.price_per,
+            currency: r.currency,
+            deliveryTime: r.delivery_time,
+            deliveryDays: r.delivery_days,
+            priceRefLow: numOrNull(r.price_ref_low),
+            priceRefHigh: numOrNull(r.price_ref_high),
+            priceBasis: r.price_basis === "day" ? "day" : "total",
+          }
+        : null,
+    rank: Number(r.rank) || 0,
+  };
+}
+
+export const LISTING_SEARCH_SORTS: ListingSearchSort[] = [
+  "relevance",
+  "newest",
+  "oldest",
+  "price_asc",
+  "price_desc",
+];
+
+export type ListingSearchParams = {
+  chainId: number;
+  query?: string;
+  listingType?: number;
+  category?: string;
+  currency?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  maxDeliveryDays?: number;
+  serviceType?: string;
+  rates?: ReferenceRates; // converts minPrice/maxPrice and price sorts to USD
+  priceBasis?: PriceBasis;
+  tags?: string[]; // any of them, matched against tags and requirements
+  boostedOnly?: boolean;
+  onlyActive?: boolean;
+  boostedFirst?: boolean;
+  sort?: ListingSearchSort;
+  cursor?: string | null;
+  limit: number;
+};
+
+// Cursor is "<boost_rank>:<sort_key>:<id>" of the previous page's last row
+function parseSearchCursor(cursor?: string | null) {
+  const m = (cursor || "").match(/^([01]):(-?[\d.e+-]+):(\d+)$/i);
+  if (!m || !Number.isFinite(Number(m[2]))) return null;
+  return { boost: Number(m[1]), key: m[2], id: m[3] };
+}
+
+// Full-text listing search with keyset pagination; facets are computed for the first
+// page only since they don't depend on the cursor
+export async function searchIndexedListings(
+  params: ListingSearchParams
+): Promise<ListingSearchPage> {
+  const filters = {
+    p_chain_id: params.chainId,
+    p_query: params.query?.trim() || null,
+    p_listing_type: params.listingType ?? null,
+    p_category: params.category ?? null,
+    p_currency: params.currency || null,
+    p_min_price: params.minPrice ?? null,
+    p_max_price: params.maxPrice ?? null,
+    p_max_delivery_days: params.maxDeliveryDays ?? null,
+    p_service_type: params.serviceType || null,
+    p_rates: params.rates || {},
+    p_price_basis: params.priceBasis || null,
+    p_tags: params.tags?.length
+      ? params.tags.map((t) => t.toLowerCase())
+      : null,
+    p_boosted_only: Boolean(params.boostedOnly),
+    p_only_active: params.onlyActive ?? true,
+  };
+  const after = parseSearchCursor(params.cursor);
+  const [results, facets] = await Promise.all([
+    supabaseAdmin.rpc("search_listings", {
+      ...filters,
+      p_boosted_first: params.boostedFirst ?? true,
+      p_sort: params.sort || "relevance",
+      p_after_boost: after?.boost ?? null,
+      p_after_key: after?.key ?? null,
+      p_after_id: after?.id ?? null,
+      p_limit: params.limit,
+    }),
+    after
+      ? Promise.resolve(null)
+      : supabaseAdmin.rpc("listing_search_facets", filters),
+  ]);
+  if (results.error) throw new Error(results.error.message);
+  if (facets?.error) throw new Error(facets.error.message);
+
+  const rows = (results.data || []) as SearchRow[];
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    rows.length === params.limit && last
+      ? `${last.boost_rank}:${last.sort_key}:${last.id}`
+      : null;
+  return {
+    items: rows.map(mapSearchRow),
+    nextCursor,
+    facets: facets ? (facets.data as ListingSearchFacets) : null,
+  };
+}
+
+// Best-effort listing title/image from metadata; one fetch per distinct listing
+async function resolveListingSummaries(rows: OfferRow[]) {
+  const out = new Map<string, { title: string | null; image: string | null }>();
+  const unique = new Map<string, OfferRow>();
+  for (const r of rows) unique.set(String(r.listing_id), r);
+  await Promise.all(
+    Array.from(unique, async ([listingId, r]) => {
+      const listing = {
+        id: BigInt(listingId),
+        listingType: Number(r.listing_type ?? 0),
+        creator: r.listing_creator || "",
+        metadataURI: r.listing_metadata_uri || "",
+        createdAt: BigInt(0),
+        active: true,
+        boostExpiry: BigInt(0),
+        category: BigInt(0),
+      } as Listing;
+      try {
+        const md = await loadListingMetadataFromURI(
+          listing.metadataURI,
+          listing
+        );
+        out.set(listingId, {
+          title: md?.title || null,
+          image: md?.image || null,
+        });
+      } catch {
+        out.set(listingId, { title: null, image: null });
+      }
+    })
+  );
+  return out;
+}
+
+// Every offer where the address is the proposer ("sent") or the listing creator
+// ("received"), newest first; cursor is the last offer id of the previous page.
+export async function listIndexedOffersForAddress(params: {
+  chainId: number;
+  address: string;
+  role?: "all" | "sent" | "received";
+  cursor?: string | null;
+  limit: number;
+}): Promise<IndexedPage<IndexedOffer>> {
+  const addr = params.address.toLowerCase();
+  let q = supabaseAdmin
+    .from("indexed_offers")
+    .select(
+      "id,listing_id,proposer,amount,payment_token,created_at,accepted,cancelled,listing_creator,listing_type,listing_metadata_uri"
+    )
+    .eq("chain_id", params.chainId)
+    .order("id", { ascending: false })
+    .limit(params.limit);
+  if (params.role === "sent") q = q.eq("proposer", addr);
+  else if (params.role === "received") q = q.eq("listing_creator", addr);
+  else q = q.or(`proposer.eq.${addr},listing_creator.eq.${addr}`);
+  if (params.cursor) q = q.lt("id", params.cursor);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as OfferRow[];
+
+  const escrows = new Map<string, IndexedEscrow>();
+  const acceptedIds = rows.filter((r) => r.accepted).map((r) => String(r.id));
+  if (acceptedIds.length) {
+    const { data: escrowRows, error: escrowError } = await supabaseAdmin
+      .from("indexed_escrows")
+      .select("*")
+      .eq("chain_id", params.chainId)
+      .in("offer_id", acceptedIds);
+    if (escrowError) throw new Error(escrowError.message);
+    for (const e of (escrowRows || []) as EscrowRow[]) {
+      escrows.set(String(e.offer_id), mapEscrowRow(e));
+    }
+  }
+
+  const summaries = await resolveListingSummaries(rows);
+  const items: IndexedOffer[] = rows.map((r) => {
+    const summary = summaries.get(String(r.listing_id));
+    return {
+      id: String(r.id),
+      listingId: String(r.listing_id),
+      proposer: r.proposer,
+      amount: r.amount || "0",
+      paymentToken: r.payment_token,
+      createdAt: Number(r.created_at) || 0,
+      accepted: Boolean(r.accepted),
+      cancelled: Boolean(r.cancelled),
+      listingCreator: r.listing_creator,
+      listingType: r.listing_type == null ? null : Number(r.listing_type),
+      listingTitle: summary?.title ?? null,
+      listingImage: summary?.image ?? null,
+      escrow: escrows.get(String(r.id)) ?? null,
+    };
+  });
+  const nextCursor =
+    items.length === params.limit ? items[items.length - 1].id : null;
+  return { items, nextCursor };
+}
+
+export async function listIndexedProfiles(params: {
+  chainId: number;
+  userType?: number;
+  offset: number;
+  limit: number;
+}): Promise<IndexedPage<IndexedProfile>> {
+  let q = supabaseAdmin
+    .from("indexed_profiles")
+    .select("*")
+    .eq("chain_id", params.chainId)
+    .order("joined_at", { ascending: false })
+    .range(params.offset, params.offset + params.limit - 1);
+  if (params.userType !== undefined) q = q.eq("user_type", params.userType);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  const items = ((data || []) as ProfileRow[]).map(mapProfileRow);
+  const nextCursor =
+    items.length === params.limit ? String(params.offset + items.length) : null;
+  return { items, nextCursor };
+}
+
+async function countRows(
+  view: string,
+  chainId: number,
+  filter?: { column: string; value: number }
+) {
+  let q = supabaseAdmin
+    .from(view)
+    .select("*", { count: "exact", head: true })
+    .eq("chain_id", chainId);
+  if (filter) q = q.eq(filter.column, filter.value);
+  const { count, error } = await q;
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+export async function getIndexedMetrics(
+  chainId: number
+): Promise<IndexedMetrics> {
+  const [
+    totalListings,
+    totalBriefs,
+    totalGigs,
+    totalOffers,
+    disputesPending,
+    disputesResolved,
+    uniqueCreators,
+  ] = await Promise.all([
+    countRows("indexed_listings", chainId),
+    countRows("indexed_listings", chainId, {
+      column: "listing_type",
+      value: ListingType.BRIEF,
+    }),
+    countRows("indexed_listings", chainId, {
+      column: "listing_type",
+      value: ListingType.GIG,
+    }),
+    countRows("indexed_offers", chainId),
+    countRows("indexed_escrows", chainId, {
+      column: "status",
+      value: EscrowStatus.DISPUTED,
+    }),
+    countRows("indexed_escrows", chainId, {
+      column: "status",
+      value: EscrowStatus.RESOLVED,
+    }),
+    countRows("indexed_listing_creators", chainId),
+  ]);
+
+  const lastBlock = await getIndexerHead(chainId);
+
+  return {
+    totalListings,
+    totalBriefs,
+    totalGigs,
+    uniqueCreators,
+    totalOffers,
+    disputesPending,
+    disputesResolved,
+    lastBlock,
+  };
+}
@@ -0,0 +1,160 @@
+import { loadReferenceRates } from "@/lib/pricing";
+import { supabaseAdmin } from "@/lib/supabaseServer";
+import { fetchListingMetadata } from "@/lib/utils";
+import {
+  ListingType,
+  type Listing,
+  type ListingMetadata,
+} from "@/types/marketplace";
+
+// Server-only: keeps listing_search_docs in step with indexed listings (see
+// supabase-listing-search.sql). Runs after each event sync; every call fetches metadata
+// for at most `limit` listings so a sync request stays short. Newly indexed briefs are
+// then matched against saved searches (supabase-saved-searches.sql).
+
+type PendingRow = {
+  id: number | string;
+  listing_type: number;
+  creator: string;
+  category: number | string;
+  metadata_uri: string | null;
+  created_at: number | string;
+  active: boolean;
+  boost_expiry: number | string;
+};
+
+const METADATA_TIMEOUT_MS = 5000;
+const CONCURRENCY = 6;
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  h: 1 / 24,
+  d: 1,
+  w: 7,
+  m: 30,
+};
+
+// "3 days", "1-2 weeks", "48h" -> upper bound in whole days; null when unparseable
+export function parseDeliveryDays(text?: string | null): number | null {
+  if (!text) return null;
+  const m = text
+    .toLowerCase()
+    .match(
+      /(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*(h|hr|hour|d|day|w|wk|week|m|mo|month)?/
+    );
+  if (!m) return null;
+  const n = Number(m[2] ?? m[1]);
+  const unit = DAYS_PER_UNIT[(m[3] || "d")[0]];
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.max(1, Math.ceil(n * unit));
+}
+
+function cleanList(list?: string[]) {
+  return (list || [])
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .slice(0, 50);
+}
+
+function toDoc(chainId: number, row: PendingRow, md: ListingMetadata | null) {
+  const isGig = Number(row.listing_type) === ListingType.GIG;
+  const price = isGig ? md?.price : undefined;
+  const budget = isGig ? undefined : md?.budget;
+  const low = price ? price.amount : budget?.min ?? budget?.max;
+  const high = price ? price.amount : budget?.max ?? budget?.min;
+  const deliveryTime = md?.deliveryTime || md?.timeline;
+  // Every column is always present: bulk upserts share one column list
+  return {
+    chain_id: chainId,
+    listing_id: String(row.id),
+    metadata_uri: row.metadata_uri || "",
+    metadata_ok: !!md || !row.metadata_uri,
+    title: md?.title || null,
+    description: md?.description || null,
+    image: md?.image || null,
+    tags: cleanList(md?.tags),
+    requirements: cleanList(md?.requirements),
+    deliverables: cleanList(md?.deliverables),
+    service_type: md?.serviceType || null,
+    price_low: low ?? null,
+    price_high: high ?? null,
+    price_per: price?.per || null,
+    currency: (price?.currency || budget?.currency || "").toUpperCase() || null,
+    delivery_time: deliveryTime || null,
+    delivery_days: parseDeliveryDays(deliveryTime),
+  };
+}
+
+// Index up to `limit` listings that have no doc yet (or whose metadata failed before)
+export async function syncListingSearchDocs(
+  chainId: number,
+  options?: { limit?: number }
+): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc(
+    "listings_pending_search_doc",
+    { p_chain_id: chainId, p_limit: options?.limit ?? 50 }
+  );
+  if (error)
+    throw new Error(`Failed to load pending listings: ${error.message}`);
+  const rows = (data || []) as PendingRow[];
+
+  const docs: ReturnType<typeof toDoc>[] = [];
+  for (let i = 0; i < rows.length; i += CONCURRENCY) {
+    const batch = rows.slice(i, i + CONCURRENCY);
+    docs.push(
+      ...(await Promise.all(
+        batch.map(async (row) => {
+          const listing: Listing = {
+            id: BigInt(row.id),
+            listingType: Number(row.listing_type) as ListingType,
+            creator: row.creator,
+            metadataURI: row.metadata_uri || "",
+            createdAt: BigInt(row.created_at || 0),
+            active: Boolean(row.active),
+            boostExpiry: BigInt(row.boost_expiry || 0),
+            category: BigInt(row.category || 0),
+          };
+          const md = await fetchListingMetadata(
+            listing.metadataURI,
+            listing,
+            METADATA_TIMEOUT_MS
+          ).catch(() => null);
+          return toDoc(chainId, row, md);
+        })
+      ))
+    );
+  }
+
+  if (docs.length) {
+    const { error: upsertError } = await supabaseAdmin
+      .from("listing_search_docs")
+      .upsert(docs, { onConflict: "chain_id,listing_id" });
+    if (upsertError)
+      throw new Error(`Failed to store search docs: ${upsertError.message}`);
+    await notifySavedSearches(chainId, docs, rows);
+  }
+  return docs.length;
+}
+
+// Best-effort: a failed alert must not fail the sync. The dedupe key keeps repeated calls
+// for the same brief harmless.
+async function notifySavedSearches(
+  chainId: number,
+  docs: ReturnType<typeof toDoc>[],
+  rows: PendingRow[]
+) {
+  const briefs = new Set(
+    rows
+      .filter((r) => Number(r.listing_type) === ListingType.BRIEF && r.active)
+      .map((r) => String(r.id))
+  );
+  const ids = docs
+    .filter((d) => d.metadata_ok && briefs.has(d.listing_id))
+    .map((d) => d.listing_id);
+  if (!ids.length) return;
+  const { error } = await supabaseAdmin.rpc("notify_saved_search_matches", {
+    p_chain_id: chainId,
+    p_listing_ids: ids,
+    p_rates: await loadReferenceRates(),
+  });
+  if (error) console.warn("Saved search alerts failed:", error.message);
+}
@@ -0,0 +1,273 @@
+import { ethers } from "ethers";
+import MarketplaceABI from "@/lib/abi/abi.json";
+import { CONTRACT_ADDRESSES } from "@/lib/contract";
+import { getRpcUrl } from "@/lib/utils";
+import { supabaseAdmin } from "@/lib/supabaseServer";
+import type { IndexerSyncResult } from "@/types/indexer";
+
+// Server-only: ingests marketplace contract logs into Supabase (see supabase-indexer.sql).
+// Entity tables are views over marketplace_events, so a reorg rollback only deletes events.
+
+const START_BLOCK = Math.max(0, Number(process.env.INDEXER_START_BLOCK || 0));
+const BLOCK_CHUNK = Math.max(
+  1,
+  Number(process.env.INDEXER_BLOCK_CHUNK || 2000)
+);
+// Max blocks processed per sync call so a request stays within serverless limits
+const MAX_BLOCKS_PER_SYNC = BLOCK_CHUNK * 10;
+// Number of recent stored hashes compared when searching for the common ancestor
+const REORG_WINDOW = 128;
+// Older block hashes are pruned; reorgs deeper than this replay from INDEXER_START_BLOCK
+const BLOCK_HASH_RETENTION = 50_000;
+
+const iface = new ethers.Interface(MarketplaceABI as ethers.InterfaceAbi);
+
+type CursorRow = {
+  contract_address: string;
+  last_block: number;
+  last_block_hash: string | null;
+};
+
+type EventRow = {
+  chain_id: number;
+  block_number: number;
+  block_hash: string;
+  block_timestamp: number;
+  tx_hash: string;
+  log_index: number;
+  event_name: string;
+  args: Record<string, unknown>;
+};
+
+function serializeArg(v: unknown): unknown {
+  if (typeof v === "bigint") return v.toString();
+  if (Array.isArray(v)) return v.map(serializeArg);
+  return v;
+}
+
+function decodeLog(
+  log: ethers.Log
+): { name: string; args: Record<string, unknown> } | null {
+  try {
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = serializeArg(parsed.args[i]);
+    });
+    return { name: parsed.name, args };
+  } catch {
+    return null;
+  }
+}
+
+async function loadCursor(chainId: number): Promise<CursorRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("indexer_cursors")
+    .select("contract_address,last_block,last_block_hash")
+    .eq("chain_id", chainId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load indexer cursor: ${error.message}`);
+  if (!data) return null;
+  return { ...data, last_block: Number(data.last_block) } as CursorRow;
+}
+
+async function saveCursor(
+  chainId: number,
+  contractAddress: string,
+  block: number,
+  hash: string | null
+) {
+  const { error } = await supabaseAdmin.from("indexer_cursors").upsert(
+    {
+      chain_id: chainId,
+      contract_address: contractAddress.toLowerCase(),
+      last_block: block,
+      last_block_hash: hash,
+    },
+    { onConflict: "chain_id" }
+  );
+  if (error) throw new Error(`Failed to save indexer cursor: ${error.message}`);
+  if (hash) {
+    const { error: blockError } = await supabaseAdmin
+      .from("indexer_blocks")
+      .upsert(
+        { chain_id: chainId, block_number: block, block_hash: hash },
+        { onConflict: "chain_id,block_number" }
+      );
+    if (blockError) {
+      throw new Error(`Failed to store block hash: ${blockError.message}`);
+    }
+  }
+}
+
+// Drop everything for a chain (e.g. the marketplace was redeployed to a new address)
+async function resetChain(chainId: number) {
+  for (const table of [
+    "marketplace_events",
+    "indexer_blocks",
+    "indexer_cursors",
+  ] as const) {
+    const { error } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .eq("chain_id", chainId);
+    if (error) throw new Error(`Failed to reset ${table}: ${error.message}`);
+  }
+}
+
+// Walk back through stored hashes until one still matches the canonical chain
+async function findCommonAncestor(
+  chainId: number,
+  provider: ethers.Provider
+): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("indexer_blocks")
+    .select("block_number,block_hash")
+    .eq("chain_id", chainId)
+    .order("block_number", { ascending: false })
+    .limit(REORG_WINDOW);
+  if (error) throw new Error(`Failed to load block hashes: ${error.message}`);
+  for (const row of data || []) {
+    const n = Number(row.block_number);
+    const block = await provider.getBlock(n);
+    if (block && block.hash === row.block_hash) return n;
+  }
+  return START_BLOCK - 1;
+}
+
+async function rewindTo(
+  chainId: number,
+  contractAddress: string,
+  block: number
+) {
+  for (const table of ["marketplace_events", "indexer_blocks"] as const) {
+    const { error } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .eq("chain_id", chainId)
+      .gt("block_number", block);
+    if (error) throw new Error(`Failed to rewind ${table}: ${error.message}`);
+  }
+  const { data, error } = await supabaseAdmin
+    .from("indexer_blocks")
+    .select("block_hash")
+    .eq("chain_id", chainId)
+    .eq("block_number", block)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load block hash: ${error.message}`);
+  await saveCursor(chainId, contractAddress, block, data?.block_hash ?? null);
+}
+
+export async function syncMarketplaceEvents(
+  chainId: number,
+  options?: { maxBlocks?: number }
+): Promise<IndexerSyncResult> {
+  const address =
+    CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
+  if (!address) {
+    throw new Error(
+      `Marketplace contract address is not configured for chain ${chainId}`
+    );
+  }
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl)
+    throw new Error(`RPC URL is not configured for chain ${chainId}`);
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, {
+    staticNetwork: true,
+  });
+
+  let cursor = await loadCursor(chainId);
+  if (cursor && cursor.contract_address !== address.toLowerCase()) {
+    await resetChain(chainId);
+    cursor = null;
+  }
+
+  // Reorg check: the block we last stopped at must still be canonical
+  let reorgedTo: number | null = null;
+  if (cursor?.last_block_hash) {
+    const block = await provider.getBlock(cursor.last_block);
+    if (!block || block.hash !== cursor.last_block_hash) {
+      const ancestor = await findCommonAncestor(chainId, provider);
+      await rewindTo(chainId, address, ancestor);
+      reorgedTo = ancestor;
+      cursor = { ...cursor, last_block: ancestor };
+    }
+  }
+
+  const headBlock = await provider.getBlockNumber();
+  const fromBlock = cursor ? cursor.last_block + 1 : START_BLOCK;
+  const maxBlocks = Math.max(1, options?.maxBlocks ?? MAX_BLOCKS_PER_SYNC);
+  const toBlock = Math.min(headBlock, fromBlock + maxBlocks - 1);
+
+  let events = 0;
+  for (let start = fromBlock; start <= toBlock; start += BLOCK_CHUNK) {
+    const end = Math.min(toBlock, start + BLOCK_CHUNK - 1);
+    const logs = await provider.getLogs({
+      address,
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    const timestamps = new Map<string, number>();
+    const rows: EventRow[] = [];
+    for (const log of logs) {
+      if (log.removed) continue;
+      const decoded = decodeLog(log);
+      if (!decoded) continue;
+      if (!timestamps.has(log.blockHash)) {
+        const b = await provider.getBlock(log.blockHash);
+        timestamps.set(log.blockHash, b?.timestamp ?? 0);
+      }
+      rows.push({
+        chain_id: chainId,
+        block_number: log.blockNumber,
+        block_hash: log.blockHash,
+        block_timestamp: timestamps.get(log.blockHash) ?? 0,
+        tx_hash: log.transactionHash,
+        log_index: log.index,
+        event_name: decoded.name,
+        args: decoded.args,
+      });
+    }
+
+    if (rows.length) {
+      const { error } = await supabaseAdmin
+        .from("marketplace_events")
+        .upsert(rows, { onConflict: "chain_id,tx_hash,log_index" });
+      if (error) throw new Error(`Failed to store events: ${error.message}`);
+      const blocks = new Map<number, string>();
+      for (const r of rows) blocks.set(r.block_number, r.block_hash);
+      const { error: blockError } = await supabaseAdmin
+        .from("indexer_blocks")
+        .upsert(
+          Array.from(blocks, ([block_number, block_hash]) => ({
+            chain_id: chainId,
+            block_number,
+            block_hash,
+          })),
+          { onConflict: "chain_id,block_number" }
+        );
+      if (blockError) {
+        throw new Error(`Failed to store block hashes: ${blockError.message}`);
+      }
+    }
+
+    // Advance the cursor after each chunk so an interrupted sync resumes here
+    const endBlock = await provider.getBlock(end);
+    await saveCursor(chainId, address, end, endBlock?.hash ?? null);
+    events += rows.length;
+  }
+
+  if (toBlock >= fromBlock) {
+    const { error } = await supabaseAdmin
+      .from("indexer_blocks")
+      .delete()
+      .eq("chain_id", chainId)
+      .lt("block_number", toBlock - BLOCK_HASH_RETENTION);
+    if (error)
+      throw new Error(`Failed to prune block hashes: ${error.message}`);
+  }
+
+  return { chainId, fromBlock, toBlock, headBlock, events, reorgedTo };
+}
@@ -0,0 +1,153 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { OfferMilestone } from "@/types/marketplace";
+
+// Offer milestones stored in Supabase (see supabase-milestones.sql).
+// The escrow contract releases funds once, so milestones are approved off-chain and the
+// final on-chain validateWork happens after every milestone is approved by both parties.
+// There is no per-milestone release, and disputing a milestone opens a dispute over the
+// whole escrow. Reads and writes are limited to the offer's parties (and admins), so they
+// need a wallet session; plans are keyed by chain and offer id.
+
+type MilestoneRow = {
+  id: string;
+  offer_id: string;
+  position: number;
+  title: string;
+  amount: string;
+  due_date: string | null;
+  client_validated_at: string | null;
+  provider_validated_at: string | null;
+  disputed_at: string | null;
+  dispute_cid: string | null;
+  created_by: string;
+  approved_by: string | null;
+  approved_at: string | null;
+};
+
+export type MilestoneDraft = {
+  title: string;
+  amount: bigint;
+  dueDate?: string;
+};
+
+export type MilestoneStatus = "pending" | "awaiting" | "approved" | "disputed";
+
+function mapRow(r: MilestoneRow): OfferMilestone {
+  return {
+    id: r.id,
+    offerId: r.offer_id,
+    position: r.position,
+    title: r.title,
+    amount: BigInt(r.amount || "0"),
+    dueDate: r.due_date || undefined,
+    clientValidatedAt: r.client_validated_at || undefined,
+    providerValidatedAt: r.provider_validated_at || undefined,
+    disputedAt: r.disputed_at || undefined,
+    disputeCid: r.dispute_cid || undefined,
+    createdBy: r.created_by,
+    approvedBy: r.approved_by || undefined,
+    approvedAt: r.approved_at || undefined,
+  };
+}
+
+export function milestoneStatus(m: OfferMilestone): MilestoneStatus {
+  if (m.disputedAt) return "disputed";
+  if (m.clientValidatedAt && m.providerValidatedAt) return "approved";
+  if (m.clientValidatedAt || m.providerValidatedAt) return "awaiting";
+  return "pending";
+}
+
+// A plan proposed by one party only becomes binding once the other party approves it
+export function isPlanApproved(milestones: OfferMilestone[]) {
+  return milestones.length > 0 && milestones.every((m) => !!m.approvedAt);
+}
+
+export function isMilestoneOverdue(m: OfferMilestone, now = new Date()) {
+  if (!m.dueDate || milestoneStatus(m) === "approved") return false;
+  return new Date(`${m.dueDate}T23:59:59`) < now;
+}
+
+// Propose one milestone per deliverable, splitting the total evenly (remainder on the last)
+export function proposeMilestonesFromDeliverables(
+  deliverables: string[] | undefined,
+  total: bigint
+): MilestoneDraft[] {
+  const titles = (deliverables || []).map((d) => d.trim()).filter(Boolean);
+  if (titles.length === 0) return [{ title: "Full delivery", amount: total }];
+  const count = BigInt(titles.length);
+  const share = total / count;
+  return titles.map((title, i) => ({
+    title,
+    amount:
+      i === titles.length - 1 ? total - share * (count - BigInt(1)) : share,
+  }));
+}
+
+export function validateMilestoneDrafts(
+  drafts: MilestoneDraft[],
+  total: bigint
+): string | null {
+  if (drafts.length === 0) return "Add at least one milestone";
+  if (drafts.some((d) => !d.title.trim()))
+    return "Every milestone needs a title";
+  if (drafts.some((d) => d.amount <= BigInt(0)))
+    return "Every milestone needs a positive amount";
+  const sum = drafts.reduce((acc, d) => acc + d.amount, BigInt(0));
+  if (sum !== total) return "Milestone amounts must add up to the offer amount";
+  return null;
+}
+
+export async function loadMilestones(
+  chainId: number,
+  offerId: string
+): Promise<OfferMilestone[]> {
+  const { data, error } = await supabase
+    .from("offer_milestones")
+    .select("*")
+    .eq("chain_id", chainId)
+    .eq("offer_id", offerId)
+    .order("position", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data || []) as MilestoneRow[]).map(mapRow);
+}
+
+// Replace the whole plan in one transaction; only allowed while no milestone has been
+// approved or disputed. The new plan waits for the other party's approval.
+export async function saveMilestonePlan(
+  offerId: string,
+  drafts: MilestoneDraft[]
+): Promise<OfferMilestone[]> {
+  const { data, error } = await supabase.rpc("save_milestone_plan", {
+    p_offer_id: offerId,
+    p_milestones: drafts.map((d) => ({
+      title: d.title.trim(),
+      amount: d.amount.toString(),
+      dueDate: d.dueDate || null,
+    })),
+  });
+  if (error) throw new Error(error.message);
+  return ((data || []) as MilestoneRow[]).map(mapRow);
+}
+
+export async function approveMilestonePlan(offerId: string) {
+  const { error } = await supabase.rpc("approve_milestone_plan", {
+    p_offer_id: offerId,
+  });
+  if (error) throw new Error(error.message);
+}
+
+// Stamps the caller's side (client or provider, resolved server-side)
+export async function validateMilestone(milestoneId: string) {
+  const { error } = await supabase.rpc("validate_milestone", {
+    p_milestone_id: milestoneId,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function markMilestoneDisputed(milestoneId: string, cid: string) {
+  const { error } = await supabase.rpc("dispute_milestone", {
+    p_milestone_id: milestoneId,
+    p_cid: cid,
+  });
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,165 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { Offer, OfferCounter } from "@/types/marketplace";
+
+// Counter-offer threads stored in Supabase (see supabase-offer-negotiations.sql).
+// On-chain offers can't be amended, so agreed terms are resubmitted with makeOffer and
+// acceptOffer is gated on the on-chain offer matching the latest agreed version.
+// Threads are keyed by chain, listing and proposer; writes go through RPCs that take the
+// author and chain from the wallet session.
+
+type CounterRow = {
+  id: string;
+  chain_id: number;
+  listing_id: string;
+  proposer: string;
+  author: string;
+  amount: string;
+  payment_token: string;
+  timeline: string | null;
+  note: string | null;
+  status: OfferCounter["status"];
+  agreed_by: string | null;
+  offer_id: string | null;
+  created_at: string;
+};
+
+export type CounterDraft = {
+  amount: bigint;
+  paymentToken: string;
+  timeline?: string;
+  note?: string;
+};
+
+function mapRow(r: CounterRow): OfferCounter {
+  return {
+    id: r.id,
+    listingId: r.listing_id,
+    proposer: r.proposer,
+    author: r.author,
+    amount: BigInt(r.amount || "0"),
+    paymentToken: r.payment_token,
+    timeline: r.timeline || undefined,
+    note: r.note || undefined,
+    status: r.status,
+    agreedBy: r.agreed_by || undefined,
+    offerId: r.offer_id || undefined,
+    createdAt: r.created_at,
+  };
+}
+
+export function latestCounter(counters: OfferCounter[]) {
+  return counters.length ? counters[counters.length - 1] : null;
+}
+
+// Why an on-chain offer can't be accepted under its negotiation thread, or null when it can.
+// Offers without counters keep the original one-shot behaviour.
+export function negotiationBlocker(
+  offer: Pick<Offer, "amount" | "paymentToken">,
+  counters: OfferCounter[]
+): string | null {
+  const latest = latestCounter(counters);
+  if (!latest) return null;
+  if (latest.status !== "agreed") {
+    return "A counter-offer is still open. Agree on the latest terms before accepting.";
+  }
+  if (
+    latest.amount !== offer.amount ||
+    latest.paymentToken.toLowerCase() !== offer.paymentToken.toLowerCase()
+  ) {
+    return "The on-chain offer doesn't match the agreed terms. The proposer needs to resubmit the offer.";
+  }
+  return null;
+}
+
+// Threads for every proposer on a listing, oldest counter first
+export async function loadListingNegotiations(
+  chainId: number,
+  listingId: bigint | string
+): Promise<Record<string, OfferCounter[]>> {
+  const { data, error } = await supabase
+    .from("offer_counters")
+    .select("*")
+    .eq("chain_id", chainId)
+    .eq("listing_id", String(listingId))
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  const out: Record<string, OfferCounter[]> = {};
+  for (const row of (data || []) as CounterRow[]) {
+    const c = mapRow(row);
+    (out[c.proposer] ||= []).push(c);
+  }
+  return out;
+}
+
+export async function loadNegotiation(
+  chainId: number,
+  listingId: bigint | string,
+  proposer: string
+): Promise<OfferCounter[]> {
+  const { data, error } = await supabase
+    .from("offer_counters")
+    .select("*")
+    .eq("chain_id", chainId)
+    .eq("listing_id", String(listingId))
+    .eq("proposer", proposer.toLowerCase())
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data || []) as CounterRow[]).map(mapRow);
+}
+
+// Throws when the thread for this offer blocks acceptance (used before acceptOffer)
+export async function assertOfferMatchesNegotiation(
+  chainId: number,
+  offer: Offer
+) {
+  const counters = await loadNegotiation(
+    chainId,
+    offer.listingId,
+    offer.proposer
+  );
+  const blocker = negotiationBlocker(offer, counters);
+  if (blocker) throw new Error(blocker);
+}
+
+// Post a new version as the signed-in wallet; any earlier open or agreed version is
+// superseded in the same transaction
+export async function postCounter(
+  chainId: number,
+  listingId: bigint | string,
+  proposer: string,
+  draft: CounterDraft
+): Promise<OfferCounter[]> {
+  if (draft.amount <= BigInt(0)) throw new Error("Amount must be positive");
+  const { error } = await supabase.rpc("post_offer_counter", {
+    p_listing_id: String(listingId),
+    p_proposer: proposer.toLowerCase(),
+    p_amount: draft.amount.toString(),
+    p_payment_token: draft.paymentToken,
+    p_timeline: draft.timeline?.trim() || null,
+    p_note: draft.note?.trim() || null,
+  });
+  if (error) throw new Error(error.message);
+  return loadNegotiation(chainId, listingId, proposer);
+}
+
+// Only the counterparty of the latest version can agree to it (checked server-side)
+export async function agreeToCounter(counter: OfferCounter, by: string) {
+  if (counter.status !== "proposed") {
+    throw new Error("Only the latest open counter can be agreed");
+  }
+  if (counter.author === by.toLowerCase()) {
+    throw new Error("You can't agree to your own counter-offer");
+  }
+  const { error } = await supabase.rpc("agree_offer_counter", {
+    p_counter_id: counter.id,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function linkCounterToOffer(counterId: string, offerId: bigint) {
+  const { error } = await supabase.rpc("link_offer_counter", {
+    p_counter_id: counterId,
+    p_offer_id: offerId.toString(),
+  });
+  if (error) throw new Error(error.message);
+}
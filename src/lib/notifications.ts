@@ -0,0 +1,105 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { AppNotification, NotificationKind } from "@/types/notification";
+
+// Notifications are written by database triggers on marketplace_events and the chat
+// tables (see supabase-notifications.sql); the client only reads and marks them read.
+
+type NotificationRow = {
+  id: string;
+  recipient: string;
+  kind: string;
+  title: string;
+  body: string | null;
+  href: string | null;
+  actor: string | null;
+  offer_id: string | null;
+  listing_id: string | null;
+  tx_hash: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+const POLL_MS = 30_000;
+
+function mapRow(r: NotificationRow): AppNotification {
+  return {
+    id: r.id,
+    recipient: r.recipient,
+    kind: r.kind as NotificationKind,
+    title: r.title,
+    body: r.body || undefined,
+    href: r.href || undefined,
+    actor: r.actor || undefined,
+    offerId: r.offer_id || undefined,
+    listingId: r.listing_id || undefined,
+    txHash: r.tx_hash || undefined,
+    read: !!r.read_at,
+    createdAt: r.created_at,
+  };
+}
+
+export async function loadNotifications(
+  recipient: string,
+  limit = 30
+): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("recipient", recipient.toLowerCase())
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return ((data || []) as NotificationRow[]).map(mapRow);
+}
+
+export async function markNotificationRead(id: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("read_at", null);
+  if (error) throw new Error(error.message);
+}
+
+export async function markAllNotificationsRead(recipient: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("recipient", recipient.toLowerCase())
+    .is("read_at", null);
+  if (error) throw new Error(error.message);
+}
+
+// Realtime + polling fallback (like the chat providers); calls onChange with the
+// latest list whenever a notification for the recipient is inserted or updated
+export function subscribeNotifications(
+  recipient: string,
+  onChange: (items: AppNotification[]) => void,
+  limit = 30
+): () => void {
+  const me = recipient.toLowerCase();
+  const refresh = () => {
+    loadNotifications(me, limit)
+      .then(onChange)
+      .catch(() => {});
+  };
+  const channel = supabase
+    .channel(`notifications_${me}`)
+    .on(
+      "postgres_changes",
+      {
+        schema: "public",
+        table: "notifications",
+        event: "*",
+        filter: `recipient=eq.${me}`,
+      },
+      refresh
+    )
+    .subscribe();
+  const timer = setInterval(refresh, POLL_MS);
+  refresh();
+  return () => {
+    supabase.removeChannel(channel);
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,191 @@
+import { supabase } from "@/lib/supabaseClient";
+import { loadWalletSession } from "@/lib/auth/session";
+import { timeAgo } from "@/lib/utils";
+import type { Offer, OfferStatus } from "@/types/marketplace";
+
+// Optional offer expiry stored in Supabase (see supabase-offer-expiry.sql).
+// The contract itself never expires offers, so acceptance is blocked client-side.
+
+type ExpiryRow = { offer_id: string; proposer: string; expires_at: string };
+
+// Choices shown in the offer forms; 0 means the offer never expires
+export const OFFER_EXPIRY_OPTIONS: { label: string; days: number }[] = [
+  { label: "No expiry", days: 0 },
+  { label: "3 days", days: 3 },
+  { label: "7 days", days: 7 },
+  { label: "14 days", days: 14 },
+  { label: "30 days", days: 30 },
+];
+
+export function expiryFromDays(days: number, now = Date.now()) {
+  if (!days || days <= 0) return undefined;
+  return Math.floor(now / 1000) + days * 86400;
+}
+
+export function isOfferExpired(
+  offer: Pick<Offer, "expiresAt">,
+  now = Date.now()
+) {
+  return offer.expiresAt !== undefined && offer.expiresAt * 1000 <= now;
+}
+
+// Short label such as "Expires in 3d" or "Expired 2h ago"
+export function formatOfferExpiry(expiresAt: number, now = Date.now()) {
+  const diff = expiresAt - Math.floor(now / 1000);
+  if (diff <= 0) return `Expired ${timeAgo(expiresAt)}`;
+  const min = Math.floor(diff / 60);
+  if (min < 60) return `Expires in ${Math.max(1, min)}m`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return `Expires in ${hr}h`;
+  return `Expires in ${Math.floor(hr / 24)}d`;
+}
+
+export function classifyOffer(
+  offer: Pick<Offer, "accepted" | "cancelled" | "expiresAt">,
+  now = Date.now()
+): OfferStatus {
+  if (offer.accepted) return "accepted";
+  if (offer.cancelled) return "cancelled";
+  if (isOfferExpired(offer, now)) return "expired";
+  return "pending";
+}
+
+// Expiry (unix seconds) keyed by offer id on the given chain; offers without a row, or
+// whose row was not written by the offer's proposer, are omitted
+export async function loadOfferExpiries(
+  chainId: number,
+  offers: Pick<Offer, "id" | "proposer">[]
+): Promise<Map<string, number>> {
+  const out = new Map<string, number>();
+  if (offers.length === 0) return out;
+  const proposers = new Map(
+    offers.map((o) => [o.id.toString(), o.proposer.toLowerCase()])
+  );
+  const { data, error } = await supabase
+    .from("offer_expiries")
+    .select("offer_id,proposer,expires_at")
+    .eq("chain_id", chainId)
+    .in("offer_id", Array.from(proposers.keys()));
+  if (error) throw new Error(error.message);
+  for (const row of (data || []) as ExpiryRow[]) {
+    if (proposers.get(row.offer_id) !== row.proposer.toLowerCase()) continue;
+    out.set(row.offer_id, Math.floor(Date.parse(row.expires_at) / 1000));
+  }
+  return out;
+}
+
+// Written once by the proposer and checked against the indexed OfferMade event, so it
+// needs a wallet session on the offer's chain. Right after makeOffer the indexer may not
+// have seen the offer yet; retries until it has (or the retries run out).
+const EXPIRY_RETRY_MS = 20_000;
+const EXPIRY_RETRIES = 15;
+
+export async function saveOfferExpiry(offerId: bigint, expiresAt: number) {
+  for (let attempt = 0; ; attempt++) {
+    const { error } = await supabase.rpc("set_offer_expiry", {
+      p_offer_id: offerId.toString(),
+      p_expires_at: new Date(expiresAt * 1000).toISOString(),
+    });
+    if (!error) return;
+    if (!/not indexed yet/i.test(error.message) || attempt >= EXPIRY_RETRIES) {
+      throw new Error(error.message);
+    }
+    await new Promise((r) => setTimeout(r, EXPIRY_RETRY_MS));
+  }
+}
+
+// Expiries of mined offers that are not recorded yet, kept per proposer in localStorage
+// until set_offer_expiry accepts them, so a failed save or a closed tab is retried the
+// next time the proposer has a session (see retryPendingOfferExpiries)
+type PendingExpiry = { chainId: number; offerId: string; expiresAt: number };
+
+const PENDING_PREFIX = "dop:pending-offer-expiries:";
+// Errors that retrying cannot fix; the pending entry is dropped
+const FINAL_EXPIRY_ERROR =
+  /must be in the future|only the proposer|already has an expiry/i;
+
+const inFlight = new Map<string, Promise<void>>();
+
+function pendingKey(address: string) {
+  return `${PENDING_PREFIX}${address.toLowerCase()}`;
+}
+
+function readPending(address: string): PendingExpiry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const list = JSON.parse(
+      window.localStorage.getItem(pendingKey(address)) || "[]"
+    );
+    return Array.isArray(list) ? (list as PendingExpiry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePending(address: string, list: PendingExpiry[]) {
+  try {
+    if (list.length) {
+      window.localStorage.setItem(pendingKey(address), JSON.stringify(list));
+    } else {
+      window.localStorage.removeItem(pendingKey(address));
+    }
+  } catch {}
+}
+
+function isSameOffer(a: PendingExpiry, b: PendingExpiry) {
+  return a.chainId === b.chainId && a.offerId === b.offerId;
+}
+
+// Queue the expiry and try to record it now. Rejects when it could not be recorded; unless
+// the error is final the entry stays queued for retryPendingOfferExpiries.
+export async function recordOfferExpiry(
+  proposer: string,
+  entry: PendingExpiry
+) {
+  writePending(proposer, [
+    ...readPending(proposer).filter((p) => !isSameOffer(p, entry)),
+    entry,
+  ]);
+  await savePending(proposer, entry);
+}
+
+function savePending(proposer: string, entry: PendingExpiry) {
+  const key = `${entry.chainId}:${entry.offerId}`;
+  let save = inFlight.get(key);
+  if (!save) {
+    // set_offer_expiry looks the offer up on the session's chain
+    if (!loadWalletSession(proposer, entry.chainId)) {
+      return Promise.reject(
+        new Error("Sign in with your wallet to save the offer expiry")
+      );
+    }
+    const drop = () =>
+      writePending(
+        proposer,
+        readPending(proposer).filter((p) => !isSameOffer(p, entry))
+      );
+    save = saveOfferExpiry(BigInt(entry.offerId), entry.expiresAt)
+      .then(drop, (error) => {
+        if (error instanceof Error && FINAL_EXPIRY_ERROR.test(error.message)) {
+          drop();
+        }
+        throw error;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, save);
+  }
+  return save;
+}
+
+// Retry the proposer's queued expiries on the chain their session is signed in on
+export async function retryPendingOfferExpiries(
+  proposer: string,
+  chainId: number
+) {
+  const pending = readPending(proposer).filter((p) => p.chainId === chainId);
+  for (const entry of pending) {
+    await savePending(proposer, entry).catch((error) =>
+      console.warn("Failed to record offer expiry:", error)
+    );
+  }
+}
@@ -0,0 +1,229 @@
+import { fetchWithTimeout } from "@/lib/utils";
+import type { ListingMetadata } from "@/types/marketplace";
+
+// Price normalisation for listings. Gig prices and brief budgets are quoted in their own
+// token (DOP, USDC, ETH or plain USD), so every amount is converted to a USD reference
+// before filtering or sorting. Time-based gig rates (per hour/day/week/month) are turned
+// into a day rate; fixed prices and budgets stay totals. Both are compared on one scale,
+// the `basis` tells them apart.
+
+// USD value of one unit of each symbol (uppercase)
+export type ReferenceRates = Record<string, number>;
+
+export interface PriceSource {
+  name: string;
+  getRates(): Promise<ReferenceRates>;
+}
+
+export type PriceBasis = "total" | "day";
+
+export interface NormalizedPrice {
+  low: number; // USD reference
+  high: number;
+  basis: PriceBasis;
+}
+
+const RATE_TTL_MS = 5 * 60_000;
+const FEED_TIMEOUT_MS = 5000;
+
+// Offline defaults; override with NEXT_PUBLIC_REFERENCE_RATES="ETH=3200,DOP=0.02"
+const STUB_RATES: ReferenceRates = {
+  USD: 1,
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+  ETH: 3000,
+  DOP: 0.01,
+};
+
+// Working days per unit, for turning time-based rates into a day rate
+const DAYS_PER_UNIT: Record<string, number> = {
+  hour: 1 / 8,
+  day: 1,
+  week: 5,
+  month: 21,
+};
+
+function parseRateOverrides(raw?: string): ReferenceRates {
+  const out: ReferenceRates = {};
+  for (const part of (raw || "").split(",")) {
+    const [symbol, value] = part.split("=").map((s) => s.trim());
+    const n = Number(value);
+    if (symbol && Number.isFinite(n) && n > 0) out[symbol.toUpperCase()] = n;
+  }
+  return out;
+}
+
+export const stubPriceSource: PriceSource = {
+  name: "stub",
+  async getRates() {
+    return {
+      ...STUB_RATES,
+      ...parseRateOverrides(process.env.NEXT_PUBLIC_REFERENCE_RATES),
+    };
+  },
+};
+
+// JSON feed shaped { "ETH": 3200, ... } or { "rates": { ... } }; symbols missing from
+// the feed keep their stub rate
+export function httpPriceSource(url: string): PriceSource {
+  return {
+    name: `http:${url}`,
+    async getRates() {
+      const res = await fetchWithTimeout(url, FEED_TIMEOUT_MS);
+      if (!res.ok) throw new Error(`Price feed responded ${res.status}`);
+      const json = (await res.json()) as Record<string, unknown>;
+      const body = (
+        json.rates && typeof json.rates === "object" ? json.rates : json
+      ) as Record<string, unknown>;
+      const rates = await stubPriceSource.getRates();
+      for (const [symbol, value] of Object.entries(body)) {
+        const n = Number(value);
+        if (Number.isFinite(n) && n > 0) rates[symbol.toUpperCase()] = n;
+      }
+      return rates;
+    },
+  };
+}
+
+let source: PriceSource = process.env.NEXT_PUBLIC_PRICE_FEED_URL
+  ? httpPriceSource(process.env.NEXT_PUBLIC_PRICE_FEED_URL)
+  : stubPriceSource;
+let cached: { rates: ReferenceRates; at: number } | null = null;
+
+export function getPriceSource() {
+  return source;
+}
+
+export function setPriceSource(next: PriceSource) {
+  source = next;
+  cached = null;
+}
+
+// Current rates from the configured source, cached for a few minutes. A failing source
+// falls back to the stub so pages keep working offline.
+export async function loadReferenceRates(): Promise<ReferenceRates> {
+  if (cached && Date.now() - cached.at < RATE_TTL_MS) return cached.rates;
+  let rates: ReferenceRates;
+  try {
+    rates = await source.getRates();
+  } catch (e) {
+    console.warn(`Price source ${source.name} failed:`, e);
+    rates = await stubPriceSource.getRates();
+  }
+  cached = { rates, at: Date.now() };
+  return rates;
+}
+
+export function priceBasisFor(per?: string | null): PriceBasis {
+  return per && per in DAYS_PER_UNIT ? "day" : "total";
+}
+
+// USD reference for an amount in `currency` quoted `per` unit; null for unknown tokens
+export function toReferenceAmount(
+  amount: number,
+  currency: string | null | undefined,
+  rates: ReferenceRates,
+  per?: string | null
+): number | null {
+  const rate = rates[(currency || "USD").toUpperCase()];
+  if (rate === undefined || !Number.isFinite(amount)) return null;
+  const days = per ? DAYS_PER_UNIT[per] : undefined;
+  return days ? (amount * rate) / days : amount * rate;
+}
+
+// Gig price or brief budget as a USD range; null when the listing states neither
+export function normalizeListingPrice(
+  md: ListingMetadata | undefined,
+  rates: ReferenceRates
+): NormalizedPrice | null {
+  if (md?.price && Number.isFinite(md.price.amount)) {
+    const v = toReferenceAmount(
+      md.price.amount,
+      md.price.currency,
+      rates,
+      md.price.per
+    );
+    if (v === null) return null;
+    return { low: v, high: v, basis: priceBasisFor(md.price.per) };
+  }
+  const b = md?.budget;
+  const min = b?.min ?? b?.max;
+  const max = b?.max ?? b?.min;
+  if (min == null || max == null) return null;
+  const low = toReferenceAmount(min, b?.currency, rates);
+  const high = toReferenceAmount(max, b?.currency, rates);
+  if (low === null || high === null) return null;
+  return { low, high, basis: "total" };
+}
+
+export type PriceFilter = {
+  min?: number;
+  max?: number;
+  basis?: PriceBasis;
+};
+
+// Range overlap, like the search index; unpriced listings only pass an empty filter
+export function matchesPriceFilter(
+  price: NormalizedPrice | null,
+  filter: PriceFilter
+) {
+  if (filter.min === undefined && filter.max === undefined && !filter.basis) {
+    return true;
+  }
+  if (!price) return false;
+  if (filter.basis && price.basis !== filter.basis) return false;
+  if (filter.min !== undefined && price.high < filter.min) return false;
+  if (filter.max !== undefined && price.low > filter.max) return false;
+  return true;
+}
+
+// Ascending/descending by the low end; unpriced listings always sort last
+export function comparePrices(
+  a: NormalizedPrice | null,
+  b: NormalizedPrice | null,
+  direction: "asc" | "desc"
+) {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return direction === "asc" ? a.low - b.low : b.low - a.low;
+}
+
+export function formatReferencePrice(price: NormalizedPrice) {
+  const fmt = (n: number) =>
+    n >= 100
+      ? Math.round(n).toLocaleString("en-US")
+      : n.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  const range =
+    price.low === price.high
+      ? `$${fmt(price.low)}`
+      : `$${fmt(price.low)} - $${fmt(price.high)}`;
+  return `≈ ${range}${price.basis === "day" ? "/day" : ""}`;
+}
+
+// "$120" for plain USD quotes, "120 USDC" / "0.5 ETH" otherwise
+export function formatQuotedAmount(amount: number, currency?: string | null) {
+  const symbol = (currency || "USD").toUpperCase();
+  const n = amount.toLocaleString("en-US", { maximumFractionDigits: 6 });
+  return symbol === "USD" ? `$${n}` : `${n} ${symbol}`;
+}
+
+// Reference shown next to a quote when it adds something: a token other than USD, or a
+// rate quoted in a unit other than days. Null otherwise.
+export function referencePriceLabel(
+  md: ListingMetadata | undefined,
+  rates: ReferenceRates | null
+): string | null {
+  if (!rates) return null;
+  const price = normalizeListingPrice(md, rates);
+  if (!price) return null;
+  const currency = (
+    md?.price?.currency ||
+    md?.budget?.currency ||
+    "USD"
+  ).toUpperCase();
+  const per = md?.price?.per;
+  if (currency === "USD" && (!per || per === "day" || per === "project")) {
+    return null;
+  }
+  return formatReferencePrice(price);
+}
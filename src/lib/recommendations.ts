@@ -0,0 +1,187 @@
+import type {
+  Listing,
+  ListingMetadata,
+  Mission,
+  OnchainUserProfile,
+} from "@/types/marketplace";
+
+// Match scoring between freelancers and briefs. Both directions use the same signals:
+// skill overlap (profile skills vs brief tags/requirements), category (UserType vs
+// Listing.category), mission history and rating. Scores are 0..1; `reasons` explain the
+// match in the UI.
+
+export type BriefLike = Listing & { metadata?: ListingMetadata };
+
+export interface Recommendation<T> {
+  item: T;
+  score: number;
+  matchedSkills: string[];
+  sameCategory: boolean;
+  reasons: string[];
+}
+
+// What is known about the other side of the match
+export interface TrackRecord {
+  rating: number; // 0..5, 0 when unrated
+  completedMissions: number;
+}
+
+const WEIGHTS = {
+  skills: 0.5,
+  category: 0.2,
+  history: 0.15,
+  rating: 0.15,
+};
+
+// Missions beyond this count no longer raise the history score
+const EXPERIENCED_MISSIONS = 10;
+
+function normalizeSkill(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9+#]+/g, "");
+}
+
+// "React.js" matches "react", "Solidity dev" matches "solidity"
+function skillsMatch(a: string, b: string) {
+  if (a === b) return true;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return short.length >= 3 && long.includes(short);
+}
+
+function briefTerms(brief: BriefLike) {
+  return [
+    ...(brief.metadata?.tags || []),
+    ...(brief.metadata?.requirements || []),
+  ];
+}
+
+// Profile skills found among the brief's tags and requirements, plus the share of the
+// brief's terms they cover
+export function skillOverlap(skills: string[], terms: string[]) {
+  const wanted = Array.from(new Set(terms.map(normalizeSkill))).filter(Boolean);
+  const matched = skills.filter((skill) => {
+    const s = normalizeSkill(skill);
+    return !!s && wanted.some((t) => skillsMatch(s, t));
+  });
+  const covered = wanted.filter((t) =>
+    skills.some((skill) => skillsMatch(normalizeSkill(skill), t))
+  ).length;
+  return {
+    matched: Array.from(new Set(matched)),
+    coverage: wanted.length ? covered / wanted.length : 0,
+  };
+}
+
+function historyScore(record: TrackRecord) {
+  return (
+    Math.min(record.completedMissions, EXPERIENCED_MISSIONS) /
+    EXPERIENCED_MISSIONS
+  );
+}
+
+function ratingLabel(rating: number) {
+  return rating.toFixed(1).replace(/\.0$/, "");
+}
+
+// Completed missions between the two wallets, in either role
+export function missionsTogether(missions: Mission[], a: string, b: string) {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  return missions.filter((m) => {
+    const client = m.client.toLowerCase();
+    const provider = m.provider.toLowerCase();
+    return (client === x && provider === y) || (client === y && provider === x);
+  }).length;
+}
+
+// Ranks a brief for a freelancer. History and rating describe the brief's creator (the
+// client), and a repeat collaboration counts as full history.
+export function scoreBriefForFreelancer(
+  brief: BriefLike,
+  freelancer: {
+    address: string;
+    profile: OnchainUserProfile;
+    missions: Mission[];
+  },
+  client: TrackRecord | null
+): Recommendation<BriefLike> {
+  const { matched, coverage } = skillOverlap(
+    freelancer.profile.skills,
+    briefTerms(brief)
+  );
+  const sameCategory =
+    Number(brief.category) === Number(freelancer.profile.userType);
+  const together = missionsTogether(
+    freelancer.missions,
+    freelancer.address,
+    brief.creator
+  );
+  const reasons: string[] = [];
+  if (matched.length) reasons.push(`Matches ${matched.slice(0, 3).join(", ")}`);
+  if (sameCategory) reasons.push("Fits your profile type");
+  if (together) reasons.push("You've worked with this client");
+  else if (client?.completedMissions) {
+    reasons.push(
+      `Client paid ${client.completedMissions} mission${
+        client.completedMissions === 1 ? "" : "s"
+      }`
+    );
+  }
+  if (client?.rating)
+    reasons.push(`Client rated ${ratingLabel(client.rating)}★`);
+  const score =
+    WEIGHTS.skills * coverage +
+    WEIGHTS.category * (sameCategory ? 1 : 0) +
+    WEIGHTS.history * (together ? 1 : client ? historyScore(client) : 0) +
+    WEIGHTS.rating * (client ? client.rating / 5 : 0);
+  return { item: brief, score, matchedSkills: matched, sameCategory, reasons };
+}
+
+// Ranks a freelancer for a brief, from the brief creator's point of view
+export function scoreFreelancerForBrief<
+  T extends { address: string; profile: OnchainUserProfile } & TrackRecord
+>(brief: BriefLike, candidate: T, missions?: Mission[]): Recommendation<T> {
+  const { matched, coverage } = skillOverlap(
+    candidate.profile.skills,
+    briefTerms(brief)
+  );
+  const sameCategory =
+    Number(brief.category) === Number(candidate.profile.userType);
+  const together = missions
+    ? missionsTogether(missions, candidate.address, brief.creator)
+    : 0;
+  const reasons: string[] = [];
+  if (matched.length) reasons.push(`Knows ${matched.slice(0, 3).join(", ")}`);
+  if (sameCategory) reasons.push("Right category");
+  if (together) reasons.push("Worked with you before");
+  else if (candidate.completedMissions) {
+    reasons.push(
+      `${candidate.completedMissions} mission${
+        candidate.completedMissions === 1 ? "" : "s"
+      } done`
+    );
+  }
+  if (candidate.rating) reasons.push(`Rated ${ratingLabel(candidate.rating)}★`);
+  const score =
+    WEIGHTS.skills * coverage +
+    WEIGHTS.category * (sameCategory ? 1 : 0) +
+    WEIGHTS.history * (together ? 1 : historyScore(candidate)) +
+    WEIGHTS.rating * (candidate.rating / 5);
+  return {
+    item: candidate,
+    score,
+    matchedSkills: matched,
+    sameCategory,
+    reasons,
+  };
+}
+
+// Best first; matches without a single shared skill or category are dropped
+export function rankRecommendations<T>(
+  recs: Recommendation<T>[],
+  limit: number
+): Recommendation<T>[] {
+  return recs
+    .filter((r) => r.matchedSkills.length > 0 || r.sameCategory)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
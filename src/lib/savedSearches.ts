@@ -0,0 +1,131 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { SavedSearch } from "@/types/marketplace";
+
+// Saved brief searches stored in Supabase (see supabase-saved-searches.sql). Rows are
+// scoped to the signed-in wallet by RLS, so every call needs an active wallet session.
+
+type SavedSearchRow = {
+  id: string;
+  owner: string;
+  name: string;
+  query: string | null;
+  category: number | string | null;
+  min_budget: number | string | null;
+  max_budget: number | string | null;
+  tags: string[] | null;
+  alerts: boolean;
+  created_at: string;
+};
+
+export type SavedSearchDraft = {
+  name: string;
+  query?: string;
+  category?: number | null;
+  minBudget?: number;
+  maxBudget?: number;
+  tags?: string[];
+  alerts?: boolean;
+};
+
+function optionalNumber(v: number | string | null) {
+  return v === null ? undefined : Number(v);
+}
+
+function mapRow(r: SavedSearchRow): SavedSearch {
+  return {
+    id: r.id,
+    owner: r.owner,
+    name: r.name,
+    query: r.query || undefined,
+    category: optionalNumber(r.category),
+    minBudget: optionalNumber(r.min_budget),
+    maxBudget: optionalNumber(r.max_budget),
+    tags: r.tags || [],
+    alerts: r.alerts,
+    createdAt: r.created_at,
+  };
+}
+
+// "solidity, React ,solidity" -> ["solidity", "react"]
+export function parseTags(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(",")
+        .map((t) => t.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+export async function loadSavedSearches(owner: string): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("owner", owner.toLowerCase())
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return ((data || []) as SavedSearchRow[]).map(mapRow);
+}
+
+export async function createSavedSearch(
+  owner: string,
+  draft: SavedSearchDraft
+): Promise<SavedSearch> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      owner: owner.toLowerCase(),
+      name: draft.name.trim(),
+      query: draft.query?.trim() || null,
+      category: draft.category ?? null,
+      min_budget: draft.minBudget ?? null,
+      max_budget: draft.maxBudget ?? null,
+      tags: draft.tags || [],
+      alerts: draft.alerts ?? true,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return mapRow(data as SavedSearchRow);
+}
+
+export async function setSavedSearchAlerts(id: string, alerts: boolean) {
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ alerts })
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteSavedSearch(id: string) {
+  const { error } = await supabase.from("saved_searches").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Last time this browser opened the briefs page, per wallet (or anonymous). Unix seconds,
+// null on the first visit.
+const LAST_VISIT_PREFIX = "dop:briefs-last-visit:";
+
+function lastVisitKey(address?: string) {
+  return `${LAST_VISIT_PREFIX}${address?.toLowerCase() || "anon"}`;
+}
+
+export function getBriefsLastVisit(address?: string): number | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const n = Number(window.localStorage.getItem(lastVisitKey(address)));
+    return Number.isFinite(n) && n > 0 ? n : null;
+  } catch {
+    return null;
+  }
+}
+
+export function markBriefsVisited(address?: string, at = Date.now()) {
+  try {
+    window.localStorage.setItem(
+      lastVisitKey(address),
+      String(Math.floor(at / 1000))
+    );
+  } catch {}
+}
@@ -6,11 +6,22 @@ import { createClient } from "@supabase/supabase-js";
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
+// Wallet session JWT from /api/auth/verify (see lib/auth/session.ts). Requests fall
+// back to the anon key while signed out, which RLS treats as no wallet.
+let walletAccessToken: string | null = null;
+
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: { persistSession: false },
+  accessToken: async () => walletAccessToken,
 });
 
-// New single-document chat model
+export function setSupabaseAccessToken(token: string | null) {
+  if (token === walletAccessToken) return;
+  walletAccessToken = token;
+  void supabase.realtime.setAuth(token);
+}
+
+// Chat message shape (rows in chat_messages; legacy chat documents used the same JSON)
 export interface OfferChatMessage {
   id: string; // uuid
   sender: string; // lowercase wallet
@@ -19,9 +30,3 @@ export interface OfferChatMessage {
   created_at: string; // ISO string
   message_type?: string | null; // text|image|mixed etc
 }
-
-export interface OfferChatDocument {
-  offer_id: string; // bigint as string
-  messages: OfferChatMessage[];
-  updated_at: string; // ISO timestamp
-}
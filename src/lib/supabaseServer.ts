@@ -0,0 +1,13 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Server-only client (API routes). Uses the service role key so writes bypass RLS; never
+// falls back to the anon key, which would silently turn indexer writes into RLS failures.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseKey) {
+  throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
+  auth: { persistSession: false },
+});
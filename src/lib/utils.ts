@@ -325,6 +325,11 @@ export function coerceListingMetadata(
     };
   }
 
+  const priceRaw = asRecord(raw["price"]);
+  const priceAmount = asNumber(priceRaw?.["amount"]);
+  const per = asString(priceRaw?.["per"]);
+  const serviceType = asString(raw["serviceType"]);
+
   return {
     title,
     description,
@@ -337,6 +342,29 @@ export function coerceListingMetadata(
     timeline: asString(raw["timeline"]),
     budget,
     attachments: asStringArray(raw["attachments"]),
+    serviceType:
+      serviceType === "one-time" ||
+      serviceType === "ongoing" ||
+      serviceType === "hourly"
+        ? serviceType
+        : undefined,
+    price:
+      priceAmount != null && !Number.isNaN(priceAmount)
+        ? {
+            amount: priceAmount,
+            currency: asString(priceRaw?.["currency"]) || "USD",
+            per:
+              per === "hour" ||
+              per === "day" ||
+              per === "week" ||
+              per === "month" ||
+              per === "project"
+                ? per
+                : undefined,
+          }
+        : undefined,
+    deliveryTime: asString(raw["deliveryTime"]),
+    tags: asStringArray(raw["tags"]),
   };
 }
 
@@ -345,8 +373,29 @@ export async function loadListingMetadataFromURI(
   listing: Listing,
   timeoutMs = 6000
 ): Promise<ListingMetadata | undefined> {
+  if (!normalizeMetadataUri(uriRaw)) return;
+  return (
+    (await fetchListingMetadata(uriRaw, listing, timeoutMs)) ??
+    coerceListingMetadata(
+      {
+        title: `Brief #${listing.id.toString()}`,
+        description: "",
+        category: Number(listing.category),
+      },
+      listing
+    )
+  );
+}
+
+// Like loadListingMetadataFromURI, but null instead of a placeholder when no source
+// could be read (lets the search indexer retry later)
+export async function fetchListingMetadata(
+  uriRaw: unknown,
+  listing: Listing,
+  timeoutMs = 6000
+): Promise<ListingMetadata | null> {
   const normalized = normalizeMetadataUri(uriRaw);
-  if (!normalized) return;
+  if (!normalized) return null;
 
   // Data URL json
   if (normalized.startsWith("data:")) {
@@ -411,16 +460,7 @@ export async function loadListingMetadataFromURI(
       // try next
     }
   }
-
-  // Fallback
-  return coerceListingMetadata(
-    {
-      title: `Brief #${listing.id.toString()}`,
-      description: "",
-      category: Number(listing.category),
-    },
-    listing
-  );
+  return null;
 }
 
 // Misc UI helpers
@@ -0,0 +1,179 @@
+import { supabase } from "@/lib/supabaseClient";
+import type {
+  WatchedListingState,
+  WatchlistItem,
+  WatchlistKind,
+} from "@/types/marketplace";
+
+// Wallet-scoped watchlist stored in Supabase (see supabase-watchlist.sql). RLS limits rows
+// to the signed-in wallet, so every call needs an active wallet session.
+
+type WatchlistRow = {
+  id: string;
+  owner: string;
+  chain_id: number;
+  kind: WatchlistKind;
+  target: string;
+  seen_active: boolean | null;
+  seen_boost_expiry: number | string | null;
+  seen_offer_count: number | null;
+  seen_at: string;
+  created_at: string;
+};
+
+export type ListingChange =
+  | { kind: "deactivated" }
+  | { kind: "reactivated" }
+  | { kind: "boosted"; until: number }
+  | { kind: "new_offers"; count: number };
+
+// Fired on window after every change so all watch buttons and the watchlist page resync
+export const WATCHLIST_EVENT = "dop:watchlist";
+
+let cached: { key: string; items: Promise<WatchlistItem[]> } | null = null;
+
+function notifyChanged() {
+  cached = null;
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(WATCHLIST_EVENT));
+  }
+}
+
+function mapRow(r: WatchlistRow): WatchlistItem {
+  return {
+    id: r.id,
+    owner: r.owner,
+    chainId: r.chain_id,
+    kind: r.kind,
+    target: r.target,
+    seen:
+      r.kind === "listing" && r.seen_active !== null
+        ? {
+            active: r.seen_active,
+            boostExpiry: BigInt(String(r.seen_boost_expiry ?? 0)),
+            offerCount: r.seen_offer_count ?? 0,
+          }
+        : undefined,
+    seenAt: r.seen_at,
+    createdAt: r.created_at,
+  };
+}
+
+function seenColumns(seen?: WatchedListingState) {
+  return {
+    seen_active: seen ? seen.active : null,
+    seen_boost_expiry: seen ? seen.boostExpiry.toString() : null,
+    seen_offer_count: seen ? seen.offerCount : null,
+    seen_at: new Date().toISOString(),
+  };
+}
+
+export async function loadWatchlist(
+  owner: string,
+  chainId: number
+): Promise<WatchlistItem[]> {
+  const { data, error } = await supabase
+    .from("watchlist_items")
+    .select("*")
+    .eq("owner", owner.toLowerCase())
+    .eq("chain_id", chainId)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return ((data || []) as WatchlistRow[]).map(mapRow);
+}
+
+// Shared by every watch button on a page; dropped whenever the watchlist changes
+export function loadWatchlistCached(owner: string, chainId: number) {
+  const key = `${owner.toLowerCase()}:${chainId}`;
+  if (cached?.key !== key) {
+    const items = loadWatchlist(owner, chainId);
+    cached = { key, items };
+    items.catch(() => {
+      if (cached?.items === items) cached = null;
+    });
+  }
+  return cached.items;
+}
+
+export async function addToWatchlist(
+  owner: string,
+  chainId: number,
+  kind: WatchlistKind,
+  target: string,
+  seen?: WatchedListingState
+): Promise<WatchlistItem> {
+  const { data, error } = await supabase
+    .from("watchlist_items")
+    .upsert(
+      {
+        owner: owner.toLowerCase(),
+        chain_id: chainId,
+        kind,
+        target: kind === "profile" ? target.toLowerCase() : target,
+        ...seenColumns(seen),
+      },
+      { onConflict: "owner,chain_id,kind,target" }
+    )
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  notifyChanged();
+  return mapRow(data as WatchlistRow);
+}
+
+export async function removeFromWatchlist(id: string) {
+  const { error } = await supabase
+    .from("watchlist_items")
+    .delete()
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+  notifyChanged();
+}
+
+// Move a watched listing's baseline to its current state
+export async function markWatchlistSeen(id: string, seen: WatchedListingState) {
+  const { error } = await supabase
+    .from("watchlist_items")
+    .update(seenColumns(seen))
+    .eq("id", id);
+  if (error) throw new Error(error.message);
+  notifyChanged();
+}
+
+// What happened to a watched listing since the owner last looked
+export function listingChanges(
+  seen: WatchedListingState | undefined,
+  current: WatchedListingState,
+  now = Math.floor(Date.now() / 1000)
+): ListingChange[] {
+  if (!seen) return [];
+  const out: ListingChange[] = [];
+  if (seen.active && !current.active) out.push({ kind: "deactivated" });
+  if (!seen.active && current.active) out.push({ kind: "reactivated" });
+  if (
+    current.boostExpiry > seen.boostExpiry &&
+    Number(current.boostExpiry) > now
+  ) {
+    out.push({ kind: "boosted", until: Number(current.boostExpiry) });
+  }
+  if (current.offerCount > seen.offerCount) {
+    out.push({
+      kind: "new_offers",
+      count: current.offerCount - seen.offerCount,
+    });
+  }
+  return out;
+}
+
+export function formatListingChange(change: ListingChange) {
+  switch (change.kind) {
+    case "deactivated":
+      return "Deactivated";
+    case "reactivated":
+      return "Active again";
+    case "boosted":
+      return "Boosted";
+    case "new_offers":
+      return `${change.count} new offer${change.count === 1 ? "" : "s"}`;
+  }
+}
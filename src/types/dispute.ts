@@ -0,0 +1,120 @@
+// Dispute/appeal evidence bundle uploaded to IPFS; its CID is what
+// openDisputeWithCID / appealDispute store on-chain.
+
+export type DisputeKind = "dispute" | "appeal";
+
+export type DisputeRole = "client" | "provider";
+
+// What the author asks the arbiter to rule (maps to DisputeOutcome)
+export type ClaimedOutcome = "client_wins" | "provider_wins" | "split";
+
+export interface DisputeTimelineEntry {
+  at: number; // unix ms
+  event: string;
+}
+
+export interface DisputeAttachment {
+  uri: string; // ipfs://
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  sha256: string; // 0x-prefixed hex digest of the original bytes
+}
+
+export interface DisputePayload {
+  version: 1;
+  type: DisputeKind;
+  offerId: string;
+  listingId: string;
+  author: string;
+  role: DisputeRole;
+  reason: string;
+  claimedOutcome: ClaimedOutcome;
+  timeline: DisputeTimelineEntry[];
+  chatMessageIds: string[]; // ids from the offer chat
+  attachments: DisputeAttachment[];
+  milestone?: { id: string; title: string; amount: string };
+  transcript?: TranscriptReference; // signed export of the offer chat
+  createdAt: number; // unix ms
+}
+
+// Signed chat transcript archive pinned next to the evidence (see lib/chatTranscript)
+export interface TranscriptReference {
+  cid: string; // raw CID of the SignedChatTranscript JSON
+  digest: string; // sha256 of the canonical transcript JSON
+  messageCount: number;
+}
+
+export interface TranscriptAttachment {
+  uri: string; // ipfs:// or enc+ipfs:// (ciphertext)
+  sha256: string; // digest of the bytes served at export time; "" when unreachable
+}
+
+export interface TranscriptMessage {
+  id: string;
+  seq: number;
+  sender: string;
+  createdAt: string; // ISO, server time
+  type: string; // chat_messages.message_type
+  content?: string;
+  editedAt?: string;
+  deletedAt?: string;
+  replyTo?: string;
+  link?: { url: string; title?: string };
+  event?: string; // system card event
+  offerId?: string; // system and offer cards
+  attachments: TranscriptAttachment[];
+}
+
+export interface ChatTranscript {
+  version: 1;
+  conversation: string;
+  offerId: string;
+  exportedBy: string; // lowercase wallet
+  exportedAt: number; // unix ms
+  messages: TranscriptMessage[];
+}
+
+// What gets pinned/downloaded: the transcript, a readable rendering and the
+// exporter's personal_sign signature over its digest
+export interface SignedChatTranscript {
+  transcript: ChatTranscript;
+  text: string;
+  digest: string;
+  signature: string;
+}
+
+// A payload as read back from IPFS. Uploads made before the schema existed are
+// mapped onto the same shape with `legacy` set and unknown fields left empty.
+export interface DisputeEvidence {
+  payload: Omit<DisputePayload, "claimedOutcome" | "version"> & {
+    version: number;
+    claimedOutcome?: ClaimedOutcome;
+  };
+  legacy: boolean;
+  problems: string[];
+}
+
+// Form input before attachments are hashed/uploaded and the payload is assembled
+export interface DisputeEvidenceDraft {
+  reason: string;
+  claimedOutcome: ClaimedOutcome;
+  timeline: DisputeTimelineEntry[];
+  chatMessageIds: string[];
+  files: File[];
+  includeTranscript: boolean; // sign and pin the whole chat, referenced as `transcript`
+}
+
+// How an escrow was settled by resolveDispute (see supabase-dispute-resolutions.sql)
+export interface DisputeResolution {
+  chainId: number;
+  offerId: string;
+  outcome: number; // DisputeOutcome
+  providerAmount: bigint;
+  clientAmount: bigint;
+  feeAmount: bigint;
+  note?: string;
+  resolvedBy: string;
+  txHash?: string;
+  createdAt: string;
+}
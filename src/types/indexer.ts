@@ -0,0 +1,134 @@
+// JSON-safe shapes served by the indexer API routes (/api/listings, /api/freelancers, ...)
+// uint256 values are serialized as decimal strings; timestamps are unix seconds.
+
+export interface IndexedListing {
+  id: string;
+  listingType: number;
+  creator: string; // lowercase
+  category: string;
+  metadataURI: string;
+  createdAt: number;
+  active: boolean;
+  boostExpiry: string;
+}
+
+export interface IndexedEscrow {
+  offerId: string;
+  client: string;
+  provider: string;
+  paymentToken: string;
+  amount: string;
+  feeAmount: string;
+  status: number; // EscrowStatus
+  clientValidated: boolean;
+  providerValidated: boolean;
+  disputeOutcome: number; // DisputeOutcome
+  disputeCid: string | null;
+  startedAt: number;
+  completedAt: number | null;
+}
+
+export interface IndexedOffer {
+  id: string;
+  listingId: string;
+  proposer: string; // lowercase
+  amount: string;
+  paymentToken: string;
+  createdAt: number;
+  accepted: boolean;
+  cancelled: boolean;
+  listingCreator: string | null;
+  listingType: number | null;
+  listingTitle: string | null;
+  listingImage: string | null;
+  escrow: IndexedEscrow | null;
+}
+
+export interface IndexedProfile {
+  address: string; // lowercase
+  userType: number;
+  joinedAt: number;
+  username: string | null;
+  boostExpiry: string;
+  rating: number;
+  reviewCount: number;
+  completedMissions: number;
+  listingCount: number;
+}
+
+export interface IndexedMetrics {
+  totalListings: number;
+  totalBriefs: number;
+  totalGigs: number;
+  uniqueCreators: number;
+  totalOffers: number;
+  disputesPending: number;
+  disputesResolved: number;
+  lastBlock: number | null;
+}
+
+// Served by /api/listings/search (see supabase-listing-search.sql)
+export type ListingSearchSort =
+  | "relevance"
+  | "newest"
+  | "oldest"
+  | "price_asc"
+  | "price_desc";
+
+export interface ListingSearchDoc {
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  tags: string[];
+  requirements: string[];
+  deliverables: string[];
+  serviceType: string | null;
+  priceLow: number | null; // in `currency`, gigs: price.amount, briefs: budget range
+  priceHigh: number | null;
+  pricePer: string | null;
+  currency: string | null; // uppercase symbol from the metadata
+  deliveryTime: string | null;
+  deliveryDays: number | null;
+  // USD reference (src/lib/pricing.ts); null when unpriced or the token has no rate
+  priceRefLow: number | null;
+  priceRefHigh: number | null;
+  priceBasis: "total" | "day";
+}
+
+export interface ListingSearchHit extends IndexedListing {
+  doc: ListingSearchDoc | null; // null until the indexer has fetched the metadata
+  rank: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ListingSearchFacets {
+  total: number;
+  listingTypes: FacetCount[];
+  categories: FacetCount[];
+  currencies: FacetCount[];
+  boosted: number;
+  priceMin: number | null; // USD reference
+  priceMax: number | null;
+}
+
+export interface ListingSearchPage extends IndexedPage<ListingSearchHit> {
+  facets: ListingSearchFacets | null; // first page only
+}
+
+export interface IndexedPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface IndexerSyncResult {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  headBlock: number;
+  events: number;
+  reorgedTo: number | null;
+}
@@ -62,6 +62,8 @@ export interface Listing {
   category: bigint; // 0..3 maps to UserType-like categories
 }
 
+export type OfferStatus = "pending" | "expired" | "cancelled" | "accepted";
+
 export interface Offer {
   id: bigint;
   listingId: bigint;
@@ -71,6 +73,8 @@ export interface Offer {
   createdAt: bigint;
   accepted: boolean;
   cancelled: boolean;
+  expiresAt?: number; // unix seconds, off-chain (see supabase-offer-expiry.sql)
+  status?: OfferStatus;
 }
 
 export interface Escrow {
@@ -86,6 +90,86 @@ export interface Escrow {
   disputeOutcome: DisputeOutcome;
 }
 
+// Offer with the listing context and escrow needed by the offers inbox
+export interface OfferWithListing extends Offer {
+  listingTitle?: string;
+  listingCreator?: string;
+  escrow?: Escrow;
+  listingImage?: string;
+}
+
+// Off-chain milestone of an accepted offer (see supabase-milestones.sql)
+export interface OfferMilestone {
+  id: string;
+  offerId: string;
+  position: number;
+  title: string;
+  amount: bigint; // token base units
+  dueDate?: string; // YYYY-MM-DD
+  clientValidatedAt?: string;
+  providerValidatedAt?: string;
+  disputedAt?: string;
+  disputeCid?: string;
+  createdBy: string; // wallet that proposed the current plan
+  approvedBy?: string; // counterparty that accepted it
+  approvedAt?: string;
+}
+
+// Brief search saved by a wallet (see supabase-saved-searches.sql). Budgets are USD
+// reference totals; with alerts on, new matching briefs land in the owner's notifications.
+export interface SavedSearch {
+  id: string;
+  owner: string; // lowercase
+  name: string;
+  query?: string;
+  category?: number;
+  minBudget?: number;
+  maxBudget?: number;
+  tags: string[]; // lowercase, any one matches
+  alerts: boolean;
+  createdAt: string;
+}
+
+// Watchlist entry (see supabase-watchlist.sql). Listings keep the state the owner last
+// saw so changes since then can be flagged.
+export type WatchlistKind = "listing" | "profile";
+
+export interface WatchedListingState {
+  active: boolean;
+  boostExpiry: bigint;
+  offerCount: number;
+}
+
+export interface WatchlistItem {
+  id: string;
+  owner: string; // lowercase
+  chainId: number;
+  kind: WatchlistKind;
+  target: string; // listing id, or lowercase wallet
+  seen?: WatchedListingState;
+  seenAt: string;
+  createdAt: string;
+}
+
+// Off-chain counter-offer in a negotiation thread (see supabase-offer-negotiations.sql).
+// A thread is keyed by listing + proposer so it survives the proposer resubmitting the offer.
+export type CounterStatus = "proposed" | "agreed" | "superseded";
+
+export interface OfferCounter {
+  id: string;
+  listingId: string;
+  proposer: string; // lowercase, the offer proposer the thread belongs to
+  author: string; // lowercase, whoever posted this version
+  amount: bigint; // token base units
+  paymentToken: string;
+  timeline?: string;
+  note?: string;
+  status: CounterStatus;
+  agreedBy?: string;
+  offerId?: string; // on-chain offer resubmitted with these terms
+  createdAt: string;
+}
+
 export interface OnchainUserProfile {
   bio: string;
   skills: string[];
@@ -0,0 +1,27 @@
+// In-app notifications (see supabase-notifications.sql)
+
+export type NotificationKind =
+  | "offer_received"
+  | "offer_accepted"
+  | "work_validated"
+  | "dispute_opened"
+  | "dispute_appealed"
+  | "dispute_resolved"
+  | "review_received"
+  | "chat_message"
+  | "saved_search_match";
+
+export interface AppNotification {
+  id: string;
+  recipient: string; // lowercase
+  kind: NotificationKind;
+  title: string;
+  body?: string;
+  href?: string; // deep link to the offer, listing or chat
+  actor?: string; // lowercase wallet that triggered it
+  offerId?: string;
+  listingId?: string;
+  txHash?: string;
+  read: boolean;
+  createdAt: string;
+}
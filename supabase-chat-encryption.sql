@@ -0,0 +1,238 @@
+-- Encrypted chat attachments (run after supabase-chat-messages.sql)
+-- Files are encrypted in the browser with a random AES-GCM key before going to /api/ipfs, so
+-- IPFS only ever holds ciphertext. The file key is wrapped once per recipient wallet with ECDH
+-- (P-256) against that wallet's published public key; see src/lib/chatCrypto.ts.
+-- Each wallet's private key is stored here encrypted under a key derived from a wallet
+-- signature of key_message (an EIP-4361 message bound to the app's domain), so it can be
+-- recovered on any device by signing the same message again. A wallet that can no longer
+-- reproduce that signature resets its bundle (section 7) and gets files re-shared.
+-- Dispute evidence files go through the same scheme, in the offer's conversation.
+
+-- 1. Per-wallet key bundles. Public keys are readable by any signed-in wallet.
+create table if not exists public.chat_key_bundles (
+  wallet text primary key,
+  public_key jsonb not null,            -- ECDH P-256 public JWK
+  encrypted_private_key text not null,  -- base64 AES-GCM ciphertext of the pkcs8 private key
+  iv text not null,
+  key_message text,                     -- signed to derive the unlock key; null for legacy bundles
+  admin_chain_ids integer[] not null default '{}', -- set from the session claim, never by the client
+  created_at timestamptz not null default now()
+);
+
+alter table public.chat_key_bundles add column if not exists key_message text;
+alter table public.chat_key_bundles add column if not exists admin_chain_ids integer[] not null default '{}';
+-- The old flag did not say which chain the wallet administers; admins re-flag on their
+-- next unlock
+alter table public.chat_key_bundles drop column if exists is_admin;
+
+alter table public.chat_key_bundles enable row level security;
+
+drop policy if exists "Chat key bundles read" on public.chat_key_bundles;
+drop policy if exists "Chat key bundles insert" on public.chat_key_bundles;
+drop policy if exists "Chat key bundles update" on public.chat_key_bundles;
+create policy "Chat key bundles read" on public.chat_key_bundles for select to authenticated
+  using ( true );
+create policy "Chat key bundles insert" on public.chat_key_bundles for insert
+  with check ( wallet = public.request_wallet() );
+create policy "Chat key bundles update" on public.chat_key_bundles for update
+  using ( wallet = public.request_wallet() )
+  with check ( wallet = public.request_wallet() );
+
+-- Admin of the session's chain or not; flags for other chains are kept. The indexer
+-- (service role) clears a chain when an admin is removed there; see section 5.
+create or replace function public.stamp_chat_key_bundle()
+returns trigger as $$
+declare
+  v_chain integer := public.request_chain_id();
+begin
+  if public.request_is_service() then
+    return new;
+  end if;
+  new.admin_chain_ids := array_remove(
+    case when tg_op = 'UPDATE' then old.admin_chain_ids else '{}'::integer[] end, v_chain);
+  if public.request_is_admin() then
+    new.admin_chain_ids := new.admin_chain_ids || v_chain;
+  end if;
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_chat_key_bundles_stamp on public.chat_key_bundles;
+create trigger trg_chat_key_bundles_stamp
+before insert or update on public.chat_key_bundles
+for each row execute procedure public.stamp_chat_key_bundle();
+
+-- 2. Encrypted files: the nonce and original type/name of each ciphertext CID
+create table if not exists public.chat_encrypted_files (
+  cid text primary key,
+  conversation text not null,
+  iv text not null,
+  mime_type text,
+  name text,
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_chat_encrypted_files_conversation on public.chat_encrypted_files (conversation);
+
+-- Files sent before offer conversations carried their chain (see supabase-chat-messages.sql)
+update public.chat_encrypted_files set conversation = public.rekey_offer_conversation(conversation)
+where conversation ~ '^offer:[0-9]+$';
+
+alter table public.chat_encrypted_files enable row level security;
+
+drop policy if exists "Chat encrypted files read" on public.chat_encrypted_files;
+drop policy if exists "Chat encrypted files insert" on public.chat_encrypted_files;
+create policy "Chat encrypted files read" on public.chat_encrypted_files for select
+  using ( public.chat_can_access(conversation) );
+create policy "Chat encrypted files insert" on public.chat_encrypted_files for insert
+  with check (
+    created_by = public.request_wallet()
+    and public.chat_is_participant(conversation, public.request_wallet())
+  );
+
+-- 3. Wrapped file keys, one row per recipient. Recipients only see their own rows.
+-- Participants may wrap for each other and, for offer chats, for admin wallets of the offer's
+-- chain (dispute review).
+create table if not exists public.chat_attachment_keys (
+  cid text not null references public.chat_encrypted_files(cid) on delete cascade,
+  wallet text not null,
+  ephemeral_public_key jsonb not null,
+  wrapped_key text not null,
+  iv text not null,
+  granted_by text not null,
+  created_at timestamptz not null default now(),
+  primary key (cid, wallet)
+);
+
+alter table public.chat_attachment_keys enable row level security;
+
+create or replace function public.chat_can_grant_key(p_cid text, p_wallet text)
+returns boolean as $$
+  select exists (
+    select 1 from public.chat_encrypted_files f
+    where f.cid = p_cid
+      and public.chat_is_participant(f.conversation, public.request_wallet())
+      and (
+        public.chat_is_participant(f.conversation, p_wallet)
+        or (f.conversation like 'offer:%' and exists (
+          select 1 from public.chat_key_bundles b
+          where b.wallet = p_wallet
+            and split_part(f.conversation, ':', 2)::integer = any(b.admin_chain_ids)
+        ))
+      )
+  );
+$$ language sql stable security definer;
+
+drop policy if exists "Chat attachment keys read" on public.chat_attachment_keys;
+drop policy if exists "Chat attachment keys insert" on public.chat_attachment_keys;
+create policy "Chat attachment keys read" on public.chat_attachment_keys for select
+  using ( wallet = public.request_wallet() );
+create policy "Chat attachment keys insert" on public.chat_attachment_keys for insert
+  with check ( granted_by = public.request_wallet() and public.chat_can_grant_key(cid, wallet) );
+
+-- 4. Wallets that take part in a conversation (for choosing recipients)
+create or replace function public.chat_participants(p_conversation text)
+returns setof text as $$
+begin
+  if not public.chat_can_access(p_conversation) then
+    return;
+  end if;
+  if p_conversation like 'direct:%' then
+    return query select split_part(p_conversation, ':', 2)
+      union select split_part(p_conversation, ':', 3);
+    return;
+  end if;
+  return query
+    select lower(o.args->>'proposer')
+    from public.marketplace_events o
+    where o.chain_id = split_part(p_conversation, ':', 2)::integer
+      and o.event_name = 'OfferMade' and o.args->>'id' = split_part(p_conversation, ':', 3)
+    union
+    select lower(l.args->>'creator')
+    from public.marketplace_events o
+    join public.marketplace_events l
+      on l.chain_id = o.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = o.args->>'listingId'
+    where o.chain_id = split_part(p_conversation, ':', 2)::integer
+      and o.event_name = 'OfferMade' and o.args->>'id' = split_part(p_conversation, ':', 3);
+end; $$ language plpgsql stable security definer;
+
+-- 5. Admin flag upkeep. Admins refresh it from their session when they unlock their keys
+-- (a bundle created before they became admin is not flagged yet); indexed AdminRemoved
+-- events clear that chain, so no new file keys are wrapped for a former admin.
+create or replace function public.refresh_chat_key_admin()
+returns boolean as $$
+declare
+  v_chains integer[];
+begin
+  -- The stamp trigger recomputes the session chain's flag
+  update public.chat_key_bundles set admin_chain_ids = admin_chain_ids
+  where wallet = public.request_wallet()
+  returning admin_chain_ids into v_chains;
+  return coalesce(public.request_chain_id() = any(v_chains), false);
+end; $$ language plpgsql security definer;
+
+create or replace function public.revoke_chat_key_admin()
+returns trigger as $$
+begin
+  update public.chat_key_bundles set admin_chain_ids = array_remove(admin_chain_ids, new.chain_id)
+  where wallet = lower(new.args->>'admin');
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_marketplace_events_chat_key_admin on public.marketplace_events;
+create trigger trg_marketplace_events_chat_key_admin
+after insert on public.marketplace_events
+for each row when (new.event_name = 'AdminRemoved')
+execute procedure public.revoke_chat_key_admin();
+
+-- 6. Encrypted files the caller holds a key for that a participant or, in offer chats,
+-- an admin reviewer with a key bundle cannot read yet: someone set up their keys after
+-- the file was sent. The app offers to share them (shareConversationKeys).
+create or replace function public.chat_pending_key_shares(p_conversation text)
+returns integer as $$
+  select count(distinct f.cid)::integer
+  from public.chat_encrypted_files f
+  join public.chat_attachment_keys mine
+    on mine.cid = f.cid and mine.wallet = public.request_wallet()
+  join public.chat_key_bundles b
+    on b.wallet <> public.request_wallet()
+    and (
+      b.wallet in (select public.chat_participants(p_conversation))
+      or (p_conversation like 'offer:%'
+        and split_part(p_conversation, ':', 2)::integer = any(b.admin_chain_ids))
+    )
+  where f.conversation = p_conversation
+    and public.chat_is_participant(p_conversation, public.request_wallet())
+    and not exists (
+      select 1 from public.chat_attachment_keys k where k.cid = f.cid and k.wallet = b.wallet
+    );
+$$ language sql stable security definer;
+
+-- 7. Key reset: a wallet that can no longer derive its unlock key (its signature for
+-- key_message changed, or the bundle was set up on another domain) publishes a new key
+-- pair. File keys wrapped for the old one are dropped, so those files show up as pending
+-- shares (section 6) for the other participants, who re-share them.
+create or replace function public.reset_chat_key_bundle(
+  p_public_key jsonb,
+  p_encrypted_private_key text,
+  p_iv text,
+  p_key_message text
+) returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+begin
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to reset your chat key';
+  end if;
+  update public.chat_key_bundles set
+    public_key = p_public_key,
+    encrypted_private_key = p_encrypted_private_key,
+    iv = p_iv,
+    key_message = p_key_message,
+    created_at = now()
+  where wallet = v_wallet;
+  if not found then
+    raise exception 'There is no chat key to reset';
+  end if;
+  delete from public.chat_attachment_keys where wallet = v_wallet;
+end; $$ language plpgsql security definer;
@@ -0,0 +1,85 @@
+-- Editing, soft deletion and reactions for chat_messages (run after supabase-chat-messages.sql)
+-- Senders may edit or delete their own messages for 15 minutes (mirrors MESSAGE_EDIT_WINDOW_MS
+-- in MessageTableProvider.ts), counted from the server-stamped created_at. Deleted messages become tombstones: the row stays, the content
+-- is cleared. Reactions are stored on the row as { "<emoji>": ["<wallet>", ...] } so every
+-- change reaches subscribers as a realtime UPDATE of the message itself.
+
+alter table public.chat_messages add column if not exists edited_at timestamptz;
+alter table public.chat_messages add column if not exists deleted_at timestamptz;
+alter table public.chat_messages add column if not exists reactions jsonb not null default '{}'::jsonb;
+
+-- No update policy: rows only change through the RPCs below (security definer)
+
+create or replace function public.edit_chat_message(p_id text, p_content text)
+returns void as $$
+declare
+  m public.chat_messages;
+begin
+  if coalesce(btrim(p_content), '') = '' then
+    raise exception 'Message cannot be empty';
+  end if;
+  select * into m from public.chat_messages where id = p_id for update;
+  if not found or m.sender is distinct from public.request_wallet() then
+    raise exception 'You can only edit your own messages';
+  end if;
+  if m.deleted_at is not null then
+    raise exception 'Deleted messages cannot be edited';
+  end if;
+  if m.created_at < now() - interval '15 minutes' then
+    raise exception 'Messages can only be edited for 15 minutes';
+  end if;
+  update public.chat_messages
+    set content = p_content, edited_at = now()
+  where id = p_id;
+end; $$ language plpgsql security definer;
+
+create or replace function public.delete_chat_message(p_id text)
+returns void as $$
+declare
+  m public.chat_messages;
+begin
+  select * into m from public.chat_messages where id = p_id for update;
+  if not found or m.sender is distinct from public.request_wallet() then
+    raise exception 'You can only delete your own messages';
+  end if;
+  if m.deleted_at is not null then
+    return;
+  end if;
+  if m.created_at < now() - interval '15 minutes' then
+    raise exception 'Messages can only be deleted for 15 minutes';
+  end if;
+  update public.chat_messages
+    set content = null, attachments = null, meta = '{}'::jsonb,
+        reactions = '{}'::jsonb, deleted_at = now()
+  where id = p_id;
+end; $$ language plpgsql security definer;
+
+-- Adds the caller's reaction, or removes it when already present
+create or replace function public.toggle_chat_reaction(p_id text, p_emoji text)
+returns void as $$
+declare
+  m public.chat_messages;
+  v_wallet text := public.request_wallet();
+  v_list jsonb;
+begin
+  if p_emoji is null or char_length(p_emoji) = 0 or char_length(p_emoji) > 16 then
+    raise exception 'Invalid reaction';
+  end if;
+  select * into m from public.chat_messages where id = p_id for update;
+  if not found or not public.chat_is_participant(m.conversation, v_wallet) then
+    raise exception 'Only conversation participants can react';
+  end if;
+  if m.deleted_at is not null then
+    raise exception 'Cannot react to a deleted message';
+  end if;
+  v_list := coalesce(m.reactions->p_emoji, '[]'::jsonb);
+  if v_list ? v_wallet then
+    v_list := v_list - v_wallet;
+  else
+    v_list := v_list || jsonb_build_array(v_wallet);
+  end if;
+  update public.chat_messages
+    set reactions = case when jsonb_array_length(v_list) = 0
+      then reactions - p_emoji else jsonb_set(reactions, array[p_emoji], v_list) end
+  where id = p_id;
+end; $$ language plpgsql security definer;
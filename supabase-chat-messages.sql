@@ -0,0 +1,251 @@
+-- Normalized chat messages (one row per message) replacing the single-document model
+-- conversation uses the read-cursor keys: 'offer:<chainId>:<offerId>' or
+-- 'direct:<user_lo>:<user_hi>'.
+-- Run after supabase-wallet-auth.sql. offer_chats / direct_chats stay as conversation
+-- headers (updated_at drives the inbox); their messages arrays are legacy and frozen once
+-- section 4 has migrated them. seq gives a stable order for cursor pagination.
+
+-- 1. Table
+create table if not exists public.chat_messages (
+  id text primary key,
+  conversation text not null check (conversation ~ '^(offer:[0-9]+:[0-9]+|direct:0x[0-9a-f]{40}:0x[0-9a-f]{40})$'),
+  seq bigint generated always as identity,
+  sender text not null,
+  content text,
+  attachments text[],
+  message_type text,
+  meta jsonb not null default '{}'::jsonb, -- linkUrl/linkTitle/linkType for pins
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_chat_messages_conversation_seq on public.chat_messages (conversation, seq desc);
+create index if not exists idx_chat_messages_sender on public.chat_messages (sender);
+
+-- Offer conversations used to be 'offer:<offerId>', but offer ids are only unique per chain.
+-- Rows from before are moved to the chain that has the offer (chain 0 when that is ambiguous).
+create or replace function public.rekey_offer_conversation(p_conversation text)
+returns text as $$
+  select case when p_conversation ~ '^offer:[0-9]+$'
+    then 'offer:' || public.legacy_offer_chain(split_part(p_conversation, ':', 2))
+      || ':' || split_part(p_conversation, ':', 2)
+    else p_conversation end;
+$$ language sql stable;
+
+alter table public.chat_messages drop constraint if exists chat_messages_conversation_check;
+update public.chat_messages set conversation = public.rekey_offer_conversation(conversation)
+where conversation ~ '^offer:[0-9]+$';
+alter table public.chat_messages add constraint chat_messages_conversation_check
+  check (conversation ~ '^(offer:[0-9]+:[0-9]+|direct:0x[0-9a-f]{40}:0x[0-9a-f]{40})$');
+update public.chat_read_cursors set conversation = public.rekey_offer_conversation(conversation)
+where conversation ~ '^offer:[0-9]+$';
+
+-- 2. Access: the same participants as the legacy documents (see supabase-wallet-auth.sql)
+create or replace function public.chat_is_participant(p_conversation text, p_wallet text)
+returns boolean as $$
+  select case
+    when p_wallet is null then false
+    when p_conversation like 'direct:%' then
+      p_wallet in (split_part(p_conversation, ':', 2), split_part(p_conversation, ':', 3))
+    when p_conversation ~ '^offer:[0-9]+:[0-9]+$' then
+      public.is_offer_participant(split_part(p_conversation, ':', 2)::integer,
+        split_part(p_conversation, ':', 3)::bigint, p_wallet)
+    else false
+  end;
+$$ language sql stable security definer;
+
+-- Admins read offer chats of the chain they signed in on
+create or replace function public.chat_can_access(p_conversation text)
+returns boolean as $$
+  select (p_conversation ~ '^offer:[0-9]+:[0-9]+$'
+      and public.request_is_admin_for(split_part(p_conversation, ':', 2)::integer))
+    or public.chat_is_participant(p_conversation, public.request_wallet());
+$$ language sql stable;
+
+alter table public.chat_messages enable row level security;
+
+drop policy if exists "Chat messages read" on public.chat_messages;
+drop policy if exists "Chat messages insert" on public.chat_messages;
+create policy "Chat messages read" on public.chat_messages for select
+  using ( public.chat_can_access(conversation) );
+-- System cards are only posted by the marketplace_events trigger (supabase-chat-system-cards.sql)
+create policy "Chat messages insert" on public.chat_messages for insert
+  with check (
+    public.chat_can_access(conversation) and sender = public.request_wallet()
+    and (message_type is distinct from 'system' or public.request_is_service())
+  );
+
+-- Realtime INSERT events (RLS applies to subscribers)
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chat_messages'
+    ) then
+    alter publication supabase_realtime add table public.chat_messages;
+  end if;
+end $$;
+
+-- 3. Helpers used by the migration and the insert trigger
+create or replace function public.chat_message_row(p_conversation text, p_message jsonb)
+returns table (
+  id text, conversation text, sender text, content text, attachments text[],
+  message_type text, meta jsonb, created_at timestamptz
+) as $$
+  select
+    p_message->>'id',
+    p_conversation,
+    lower(p_message->>'sender'),
+    p_message->>'content',
+    case when jsonb_typeof(p_message->'attachments') = 'array'
+      then array(select jsonb_array_elements_text(p_message->'attachments')) end,
+    p_message->>'message_type',
+    jsonb_strip_nulls(jsonb_build_object(
+      'linkUrl', p_message->>'linkUrl',
+      'linkTitle', p_message->>'linkTitle',
+      'linkType', p_message->>'linkType'
+    )),
+    coalesce((p_message->>'created_at')::timestamptz, now());
+$$ language sql immutable;
+
+-- 4. One-off migration: explode existing documents into rows (idempotent by message id).
+-- Runs before the triggers below exist, so history does not re-notify anyone.
+insert into public.chat_messages (id, conversation, sender, content, attachments, message_type, meta, created_at)
+select r.id, r.conversation, r.sender, r.content, r.attachments, r.message_type, r.meta, r.created_at
+from (
+  select x.*, m.ordinality
+  from public.offer_chats c
+  cross join lateral jsonb_array_elements(c.messages) with ordinality m
+  cross join lateral public.chat_message_row('offer:' || c.chain_id || ':' || c.offer_id, m.value) x
+  union all
+  select x.*, m.ordinality
+  from public.direct_chats d
+  cross join lateral jsonb_array_elements(d.messages) with ordinality m
+  cross join lateral public.chat_message_row('direct:' || d.user_lo || ':' || d.user_hi, m.value) x
+) r
+where r.id is not null and r.sender is not null
+order by r.conversation, r.created_at, r.ordinality
+on conflict (id) do nothing;
+
+-- Freeze the legacy arrays: new messages only go to chat_messages
+drop trigger if exists trg_offer_chats_notify on public.offer_chats;
+drop trigger if exists trg_direct_chats_notify on public.direct_chats;
+
+create or replace function public.reject_legacy_chat_append()
+returns trigger as $$
+begin
+  if public.request_is_service() then
+    return new;
+  end if;
+  if jsonb_array_length(new.messages) > case when tg_op = 'UPDATE' then jsonb_array_length(old.messages) else 0 end then
+    raise exception 'Chat documents are read-only; insert into chat_messages instead';
+  end if;
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_offer_chats_legacy on public.offer_chats;
+create trigger trg_offer_chats_legacy
+before insert or update of messages on public.offer_chats
+for each row execute procedure public.reject_legacy_chat_append();
+
+drop trigger if exists trg_direct_chats_legacy on public.direct_chats;
+create trigger trg_direct_chats_legacy
+before insert or update of messages on public.direct_chats
+for each row execute procedure public.reject_legacy_chat_append();
+
+-- Message times come from the server: the edit window (supabase-chat-message-edits.sql),
+-- unread counts and read cursors all compare created_at. Only the service role (system
+-- cards stamped with their block time) may set it.
+create or replace function public.stamp_chat_message_time()
+returns trigger as $$
+begin
+  if not public.request_is_service() then
+    new.created_at := now();
+  end if;
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_chat_messages_time on public.chat_messages;
+create trigger trg_chat_messages_time
+before insert on public.chat_messages
+for each row execute procedure public.stamp_chat_message_time();
+
+-- 5. Keep the conversation header rows fresh so the inbox can sort by updated_at
+create or replace function public.touch_chat_conversation()
+returns trigger as $$
+begin
+  if new.conversation like 'direct:%' then
+    insert into public.direct_chats (user_lo, user_hi, updated_at)
+    values (split_part(new.conversation, ':', 2), split_part(new.conversation, ':', 3), now())
+    on conflict (user_lo, user_hi) do update set updated_at = now();
+  else
+    insert into public.offer_chats (chain_id, offer_id, updated_at)
+    values (split_part(new.conversation, ':', 2)::integer, split_part(new.conversation, ':', 3)::bigint, now())
+    on conflict (chain_id, offer_id) do update set updated_at = now();
+  end if;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_chat_messages_touch on public.chat_messages;
+create trigger trg_chat_messages_touch
+after insert on public.chat_messages
+for each row execute procedure public.touch_chat_conversation();
+
+-- 6. Chat notifications (replaces the document triggers from supabase-notifications.sql)
+create or replace function public.notify_chat_message()
+returns trigger as $$
+declare
+  v_recipient text;
+  v_chain integer;
+  v_offer text;
+  v_preview text := coalesce(nullif(left(new.content, 140), ''), 'Sent an attachment');
+begin
+  if new.conversation like 'direct:%' then
+    perform public.push_chat_notification(
+      case when new.sender = split_part(new.conversation, ':', 2)
+        then split_part(new.conversation, ':', 3) else split_part(new.conversation, ':', 2) end,
+      new.conversation, new.sender, v_preview, '/chat/' || new.sender, null);
+    return new;
+  end if;
+
+  v_chain := split_part(new.conversation, ':', 2)::integer;
+  v_offer := split_part(new.conversation, ':', 3);
+  for v_recipient in
+    select distinct r from (
+      select lower(x.args->>'proposer') as r
+      from public.marketplace_events x
+      where x.chain_id = v_chain and x.event_name = 'OfferMade' and x.args->>'id' = v_offer
+      union
+      select lower(l.args->>'creator')
+      from public.marketplace_events x
+      join public.marketplace_events l
+        on l.chain_id = x.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = x.args->>'listingId'
+      where x.chain_id = v_chain and x.event_name = 'OfferMade' and x.args->>'id' = v_offer
+      union
+      select m.sender from public.chat_messages m
+      where m.conversation = new.conversation and m.message_type is distinct from 'system'
+    ) s
+  loop
+    perform public.push_chat_notification(v_recipient, new.conversation, new.sender,
+      v_preview, '/offers/' || v_offer, v_offer);
+  end loop;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_chat_messages_notify on public.chat_messages;
+create trigger trg_chat_messages_notify
+after insert on public.chat_messages
+for each row execute procedure public.notify_chat_message();
+
+-- 7. Unread counts from rows (replaces the document-based version in supabase-chat-read-cursors.sql)
+create or replace function public.chat_unread_counts(p_participant text)
+returns table (conversation text, unread integer) as $$
+  select m.conversation, count(*)::integer as unread
+  from public.chat_messages m
+  left join public.chat_read_cursors r
+    on r.conversation = m.conversation and r.participant = lower(p_participant)
+  where m.sender <> lower(p_participant)
+    and (r.last_read_at is null or m.created_at > r.last_read_at)
+    and public.chat_is_participant(m.conversation, lower(p_participant))
+  group by m.conversation;
+$$ language sql stable;
@@ -0,0 +1,22 @@
+-- Realtime Authorization for chat presence and typing (run after supabase-chat-messages.sql)
+-- MessageTableProvider joins the private channel 'presence:<conversation>'. Presence and typing
+-- broadcasts are ephemeral: nothing is written to chat_messages or any other table. These
+-- policies only decide who may join, so signals never leak outside the conversation.
+-- Requires "Realtime Authorization" (private channels) to be enabled for the project.
+
+drop policy if exists "Chat presence read" on realtime.messages;
+drop policy if exists "Chat presence write" on realtime.messages;
+
+create policy "Chat presence read" on realtime.messages for select to authenticated
+  using (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and realtime.topic() like 'presence:%'
+    and public.chat_is_participant(substr(realtime.topic(), 10), public.request_wallet())
+  );
+
+create policy "Chat presence write" on realtime.messages for insert to authenticated
+  with check (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and realtime.topic() like 'presence:%'
+    and public.chat_is_participant(substr(realtime.topic(), 10), public.request_wallet())
+  );
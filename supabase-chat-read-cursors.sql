@@ -0,0 +1,67 @@
+-- Per-participant read cursors for offer_chats and direct_chats
+-- conversation is 'offer:<chainId>:<offerId>' or 'direct:<user_lo>:<user_hi>' (lowercase
+-- wallets); supabase-chat-messages.sql moves cursors from the older chain-less 'offer:<offerId>'.
+-- last_read_at is the created_at of the newest message the participant has seen, so
+-- comparing it with message timestamps is not affected by client clock skew.
+
+create table if not exists public.chat_read_cursors (
+  conversation text not null,
+  participant text not null,
+  last_read_at timestamptz not null,
+  updated_at timestamptz not null default now(),
+  primary key (conversation, participant)
+);
+
+create index if not exists idx_chat_read_cursors_participant on public.chat_read_cursors (participant);
+
+alter table public.chat_read_cursors enable row level security;
+
+drop policy if exists "Chat cursors read" on public.chat_read_cursors;
+drop policy if exists "Chat cursors insert" on public.chat_read_cursors;
+drop policy if exists "Chat cursors update" on public.chat_read_cursors;
+create policy "Chat cursors read" on public.chat_read_cursors for select using ( true );
+create policy "Chat cursors insert" on public.chat_read_cursors for insert with check ( true );
+create policy "Chat cursors update" on public.chat_read_cursors for update using ( true ) with check ( true );
+
+-- RPC to advance a cursor (never moves backwards)
+create or replace function public.mark_chat_read(p_conversation text, p_participant text, p_read_at timestamptz)
+returns void as $$
+begin
+  insert into public.chat_read_cursors (conversation, participant, last_read_at)
+  values (p_conversation, lower(p_participant), p_read_at)
+  on conflict (conversation, participant) do update
+    set last_read_at = greatest(public.chat_read_cursors.last_read_at, excluded.last_read_at),
+        updated_at = now();
+end; $$ language plpgsql security definer;
+
+-- RPC returning unread message counts per conversation for one wallet.
+-- Offer chats count when the wallet is the proposer, the listing creator or has posted.
+create or replace function public.chat_unread_counts(p_participant text)
+returns table (conversation text, unread integer) as $$
+  with me as (select lower(p_participant) as addr),
+  convs as (
+    select 'direct:' || d.user_lo || ':' || d.user_hi as conversation, d.messages
+    from public.direct_chats d, me
+    where d.user_lo = me.addr or d.user_hi = me.addr
+    union all
+    select 'offer:' || c.offer_id, c.messages
+    from public.offer_chats c, me
+    where c.messages @> jsonb_build_array(jsonb_build_object('sender', me.addr))
+      or exists (
+        select 1 from public.marketplace_events o
+        left join public.marketplace_events l
+          on l.chain_id = o.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = o.args->>'listingId'
+        where o.event_name = 'OfferMade' and o.args->>'id' = c.offer_id::text
+          and (lower(o.args->>'proposer') = me.addr or lower(l.args->>'creator') = me.addr)
+      )
+  )
+  select v.conversation, count(*)::integer as unread
+  from convs v
+  cross join me
+  left join public.chat_read_cursors r
+    on r.conversation = v.conversation and r.participant = me.addr
+  cross join lateral jsonb_array_elements(v.messages) m
+  where lower(m->>'sender') <> me.addr
+    and (r.last_read_at is null or (m->>'created_at')::timestamptz > r.last_read_at)
+  group by v.conversation;
+$$ language sql stable;
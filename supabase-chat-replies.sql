@@ -0,0 +1,27 @@
+-- Threaded replies for chat_messages (run after supabase-chat-messages.sql)
+-- reply_to points at the parent message; the client renders a quoted snippet of it.
+-- A deleted parent (see supabase-chat-message-edits.sql) stays referenced as a tombstone.
+
+alter table public.chat_messages
+  add column if not exists reply_to text references public.chat_messages(id) on delete set null;
+
+create index if not exists idx_chat_messages_reply_to on public.chat_messages (reply_to)
+  where reply_to is not null;
+
+-- Parents must belong to the same conversation (ids are client-chosen, so check explicitly)
+create or replace function public.check_chat_reply()
+returns trigger as $$
+begin
+  if new.reply_to is not null and not exists (
+    select 1 from public.chat_messages p
+    where p.id = new.reply_to and p.conversation = new.conversation
+  ) then
+    raise exception 'Replies must reference a message in the same conversation';
+  end if;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_chat_messages_reply on public.chat_messages;
+create trigger trg_chat_messages_reply
+before insert on public.chat_messages
+for each row execute procedure public.check_chat_reply();
@@ -0,0 +1,59 @@
+-- Full-text search over chat_messages (run after supabase-chat-messages.sql)
+-- Only the caller's own conversations are searched, even for admins: RLS on chat_messages
+-- still applies (security invoker) and the participant check narrows offer chats further.
+
+alter table public.chat_messages
+  add column if not exists search tsvector
+  generated always as (to_tsvector('simple', coalesce(content, ''))) stored;
+
+create index if not exists idx_chat_messages_search on public.chat_messages using gin (search);
+
+-- Each word is matched as a prefix ("logo col" finds "logo colours").
+-- headline wraps matches in <mark></mark>; the client renders it as text, never as HTML.
+create or replace function public.search_chat_messages(p_query text, p_limit integer default 30)
+returns table (
+  id text,
+  conversation text,
+  seq bigint,
+  sender text,
+  created_at timestamptz,
+  headline text,
+  before_sender text,
+  before_content text,
+  after_sender text,
+  after_content text
+) as $$
+declare
+  v_query tsquery;
+begin
+  select to_tsquery('simple', string_agg(quote_literal(w) || ':*', ' & '))
+    into v_query
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') w
+  where w <> '';
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  select m.id, m.conversation, m.seq, m.sender, m.created_at,
+    ts_headline('simple', m.content, v_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, ShortWord=2'),
+    b.sender, left(b.content, 140),
+    a.sender, left(a.content, 140)
+  from public.chat_messages m
+  left join lateral (
+    select p.sender, p.content from public.chat_messages p
+    where p.conversation = m.conversation and p.seq < m.seq and p.deleted_at is null
+    order by p.seq desc limit 1
+  ) b on true
+  left join lateral (
+    select n.sender, n.content from public.chat_messages n
+    where n.conversation = m.conversation and n.seq > m.seq and n.deleted_at is null
+    order by n.seq asc limit 1
+  ) a on true
+  where m.search @@ v_query
+    and m.deleted_at is null
+    and public.chat_is_participant(m.conversation, public.request_wallet())
+  order by m.created_at desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+end; $$ language plpgsql stable;
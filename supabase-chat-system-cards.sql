@@ -0,0 +1,114 @@
+-- System cards: offer lifecycle events posted into the offer's chat (run after
+-- supabase-chat-messages.sql and supabase-notifications.sql). The indexer inserts
+-- marketplace_events; each relevant event becomes one chat_messages row in the offer's
+-- conversation on the event's chain ('offer:<chainId>:<offerId>'), with message_type
+-- 'system', sender 'system' and the event details in meta. The client
+-- renders it as a card with live escrow status (see SystemCard in Chat.tsx).
+-- Row ids derive from the event key, so re-indexing is idempotent and reorg rollbacks
+-- (which delete marketplace_events rows) remove the card again.
+
+create or replace function public.system_card_id(p_event public.marketplace_events)
+returns text as $$
+  select 'event:' || p_event.chain_id || ':' || p_event.tx_hash || ':' || p_event.log_index;
+$$ language sql immutable;
+
+create or replace function public.post_offer_system_card()
+returns trigger as $$
+declare
+  v_offer text := coalesce(new.args->>'offerId', new.args->>'id');
+  v_kind text;
+  v_actor text;
+  v_text text;
+begin
+  -- Historical backfills would land after newer messages (ordering is by seq)
+  if new.block_timestamp > 0 and new.block_timestamp < extract(epoch from now()) - 7 * 86400 then
+    return new;
+  end if;
+
+  case new.event_name
+    when 'OfferMade' then
+      v_kind := 'offer_made';
+      v_actor := lower(new.args->>'proposer');
+      v_text := 'Offer made';
+    when 'OfferAccepted' then
+      v_kind := 'offer_accepted';
+      v_actor := null;
+      v_text := 'Offer accepted';
+    when 'MissionValidated' then
+      v_kind := 'work_validated';
+      v_actor := lower(new.args->>'by');
+      v_text := 'Work validated';
+    when 'DisputeOpened' then
+      -- DisputeOpenedWithCID from the same transaction carries the opener; keep one card
+      if exists (
+        select 1 from public.marketplace_events x
+        where x.chain_id = new.chain_id and x.tx_hash = new.tx_hash
+          and x.event_name = 'DisputeOpenedWithCID'
+      ) then
+        return new;
+      end if;
+      v_kind := 'dispute_opened';
+      v_text := 'Dispute opened';
+    when 'DisputeOpenedWithCID' then
+      delete from public.chat_messages m
+      using public.marketplace_events x
+      where x.chain_id = new.chain_id and x.tx_hash = new.tx_hash
+        and x.event_name = 'DisputeOpened' and m.id = public.system_card_id(x);
+      v_kind := 'dispute_opened';
+      v_actor := lower(new.args->>'openedBy');
+      v_text := 'Dispute opened';
+    when 'DisputeResolved' then
+      v_kind := 'dispute_resolved';
+      v_text := 'Dispute resolved';
+    else
+      return new;
+  end case;
+
+  if v_offer is null or v_offer !~ '^[0-9]+$' then
+    return new;
+  end if;
+
+  insert into public.chat_messages (id, conversation, sender, content, message_type, meta, created_at)
+  values (
+    public.system_card_id(new),
+    'offer:' || new.chain_id || ':' || v_offer,
+    'system',
+    v_text,
+    'system',
+    jsonb_strip_nulls(jsonb_build_object(
+      'event', v_kind,
+      'offerId', v_offer,
+      'txHash', new.tx_hash,
+      'chainId', new.chain_id,
+      'actor', v_actor,
+      'outcome', (new.args->>'outcome')::integer
+    )),
+    case when new.block_timestamp > 0 then to_timestamp(new.block_timestamp) else now() end
+  )
+  on conflict (id) do nothing;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_marketplace_events_system_card on public.marketplace_events;
+create trigger trg_marketplace_events_system_card
+after insert on public.marketplace_events
+for each row execute procedure public.post_offer_system_card();
+
+create or replace function public.remove_offer_system_card()
+returns trigger as $$
+begin
+  delete from public.chat_messages where id = public.system_card_id(old);
+  return old;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_marketplace_events_system_card_rollback on public.marketplace_events;
+create trigger trg_marketplace_events_system_card_rollback
+after delete on public.marketplace_events
+for each row execute procedure public.remove_offer_system_card();
+
+-- Participants already get a notification for the event itself (supabase-notifications.sql)
+drop trigger if exists trg_chat_messages_notify on public.chat_messages;
+create trigger trg_chat_messages_notify
+after insert on public.chat_messages
+for each row when (new.message_type is distinct from 'system')
+execute procedure public.notify_chat_message();
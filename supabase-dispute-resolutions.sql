@@ -0,0 +1,43 @@
+-- Recorded dispute resolutions (one row per resolved escrow; run after supabase-wallet-auth.sql)
+-- resolveDispute settles with one of the contract's three outcomes (provider wins, client
+-- wins, even split) and emits no reasoning, so the mediator's note is stored here next to
+-- the outcome and payouts for both parties to see.
+-- Only a marketplace admin of the offer's chain can record one, as themselves, and only once
+-- per escrow; the app still checks the amounts against the DisputeResolved event before
+-- showing them.
+
+create table if not exists public.dispute_resolutions (
+  chain_id integer not null,
+  offer_id text not null,
+  outcome smallint not null,
+  provider_amount text not null,
+  client_amount text not null,
+  fee_amount text not null,
+  note text,
+  resolved_by text not null,
+  tx_hash text,
+  created_at timestamptz not null default now(),
+  primary key (chain_id, offer_id)
+);
+
+-- Rows recorded before offer ids were scoped by chain: the chain of their resolve transaction
+alter table public.dispute_resolutions add column if not exists chain_id integer;
+update public.dispute_resolutions r set chain_id = coalesce(
+  (select e.chain_id from public.marketplace_events e
+   where e.tx_hash = r.tx_hash and e.event_name = 'DisputeResolved' limit 1),
+  public.legacy_offer_chain(r.offer_id))
+where r.chain_id is null;
+alter table public.dispute_resolutions alter column chain_id set not null;
+alter table public.dispute_resolutions drop constraint if exists dispute_resolutions_pkey;
+alter table public.dispute_resolutions add constraint dispute_resolutions_pkey primary key (chain_id, offer_id);
+
+-- Provider share column from before resolutions were limited to the contract's outcomes
+alter table public.dispute_resolutions drop column if exists provider_bps;
+
+alter table public.dispute_resolutions enable row level security;
+
+drop policy if exists "Dispute resolutions read" on public.dispute_resolutions;
+drop policy if exists "Dispute resolutions insert" on public.dispute_resolutions;
+create policy "Dispute resolutions read" on public.dispute_resolutions for select using ( true );
+create policy "Dispute resolutions insert" on public.dispute_resolutions for insert
+  with check ( public.request_is_admin_for(chain_id) and resolved_by = public.request_wallet() );
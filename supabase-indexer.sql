@@ -0,0 +1,246 @@
+-- Marketplace event indexer
+-- Raw contract logs are the single source of truth; every entity table below is a view
+-- derived from them, so rolling back a reorg is just deleting the orphaned events.
+
+create table if not exists public.marketplace_events (
+  chain_id integer not null,
+  block_number bigint not null,
+  block_hash text not null,
+  block_timestamp bigint not null default 0,
+  tx_hash text not null,
+  log_index integer not null,
+  event_name text not null,
+  args jsonb not null default '{}'::jsonb,
+  inserted_at timestamptz not null default now(),
+  primary key (chain_id, tx_hash, log_index)
+);
+
+create index if not exists idx_marketplace_events_block on public.marketplace_events (chain_id, block_number);
+create index if not exists idx_marketplace_events_name on public.marketplace_events (chain_id, event_name);
+create index if not exists idx_marketplace_events_id on public.marketplace_events (chain_id, event_name, (args->>'id'));
+create index if not exists idx_marketplace_events_offer on public.marketplace_events (chain_id, event_name, (args->>'offerId'));
+create index if not exists idx_marketplace_events_user on public.marketplace_events (chain_id, event_name, (args->>'user'));
+
+-- Resumable cursor: last fully processed block per chain (and its hash for reorg detection)
+create table if not exists public.indexer_cursors (
+  chain_id integer primary key,
+  contract_address text not null,
+  last_block bigint not null,
+  last_block_hash text,
+  updated_at timestamptz not null default now()
+);
+
+-- Recent block hashes we have processed; used to find the common ancestor after a reorg
+create table if not exists public.indexer_blocks (
+  chain_id integer not null,
+  block_number bigint not null,
+  block_hash text not null,
+  primary key (chain_id, block_number)
+);
+
+create or replace function public.touch_indexer_cursors_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_indexer_cursors_updated_at on public.indexer_cursors;
+create trigger trg_indexer_cursors_updated_at
+before update on public.indexer_cursors
+for each row execute procedure public.touch_indexer_cursors_updated_at();
+
+-- Reads are public (the data is public on-chain anyway); writes only via service role
+alter table public.marketplace_events enable row level security;
+alter table public.indexer_cursors enable row level security;
+alter table public.indexer_blocks enable row level security;
+
+drop policy if exists "Marketplace events read" on public.marketplace_events;
+drop policy if exists "Indexer cursors read" on public.indexer_cursors;
+create policy "Marketplace events read" on public.marketplace_events for select using ( true );
+create policy "Indexer cursors read" on public.indexer_cursors for select using ( true );
+
+-- Chain of an offer id when exactly one indexed chain has it, 0 otherwise. Off-chain tables
+-- keyed by offer id gained a chain_id later; rows written before that are backfilled with
+-- this, and ambiguous ones land on chain 0, which no session can reach.
+create or replace function public.legacy_offer_chain(p_offer_id text)
+returns integer as $$
+  select case when count(distinct chain_id) = 1 then min(chain_id) else 0 end
+  from public.marketplace_events
+  where event_name = 'OfferMade' and args->>'id' = p_offer_id;
+$$ language sql stable;
+
+-- Listings: ListingCreated + latest ListingStatus + latest BoostPurchased
+create or replace view public.indexed_listings as
+select
+  e.chain_id,
+  (e.args->>'id')::numeric as id,
+  (e.args->>'listingType')::int as listing_type,
+  lower(e.args->>'creator') as creator,
+  (e.args->>'category')::numeric as category,
+  e.args->>'metadataURI' as metadata_uri,
+  e.block_timestamp as created_at,
+  e.block_number,
+  coalesce(s.active, true) as active,
+  coalesce(b.expiry, 0) as boost_expiry
+from public.marketplace_events e
+left join lateral (
+  select (x.args->>'active')::boolean as active
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'ListingStatus' and x.args->>'id' = e.args->>'id'
+  order by x.block_number desc, x.log_index desc
+  limit 1
+) s on true
+left join lateral (
+  select max((x.args->>'expiry')::numeric) as expiry
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'BoostPurchased' and x.args->>'id' = e.args->>'id'
+) b on true
+where e.event_name = 'ListingCreated';
+
+-- One row per wallet that created a listing, so metrics can count them server-side
+create or replace view public.indexed_listing_creators as
+select distinct e.chain_id, lower(e.args->>'creator') as creator
+from public.marketplace_events e
+where e.event_name = 'ListingCreated';
+
+-- Escrows: EscrowStarted + validation / completion / dispute lifecycle
+-- status mirrors EscrowStatus (1 IN_PROGRESS, 2 COMPLETED, 3 DISPUTED, 4 RESOLVED)
+create or replace view public.indexed_escrows as
+select
+  e.chain_id,
+  (e.args->>'offerId')::numeric as offer_id,
+  lower(e.args->>'client') as client,
+  lower(e.args->>'provider') as provider,
+  e.args->>'amount' as amount,
+  lower(e.args->>'paymentToken') as payment_token,
+  e.args->>'feeAmount' as fee_amount,
+  e.block_timestamp as started_at,
+  coalesce(v.client_validated, false) as client_validated,
+  coalesce(v.provider_validated, false) as provider_validated,
+  d.opened_at as dispute_opened_at,
+  d.cid as dispute_cid,
+  coalesce((r.args->>'outcome')::int, 0) as dispute_outcome,
+  coalesce(c.block_timestamp, r.block_timestamp) as completed_at,
+  case
+    when r.tx_hash is not null then 4
+    when c.tx_hash is not null then 2
+    when d.opened_at is not null then 3
+    else 1
+  end as status
+from public.marketplace_events e
+left join lateral (
+  select (x.args->>'clientValidated')::boolean as client_validated,
+         (x.args->>'providerValidated')::boolean as provider_validated
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'MissionValidated' and x.args->>'offerId' = e.args->>'offerId'
+  order by x.block_number desc, x.log_index desc
+  limit 1
+) v on true
+left join lateral (
+  select x.block_timestamp as opened_at, x.args->>'cid' as cid
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name in ('DisputeOpened', 'DisputeOpenedWithCID') and x.args->>'offerId' = e.args->>'offerId'
+  order by (x.event_name = 'DisputeOpenedWithCID') desc, x.block_number desc
+  limit 1
+) d on true
+left join lateral (
+  select x.tx_hash, x.block_timestamp
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'EscrowCompleted' and x.args->>'offerId' = e.args->>'offerId'
+  limit 1
+) c on true
+left join lateral (
+  select x.tx_hash, x.block_timestamp, x.args
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'DisputeResolved' and x.args->>'offerId' = e.args->>'offerId'
+  limit 1
+) r on true
+where e.event_name = 'EscrowStarted';
+
+-- Offers: OfferMade + accepted/cancelled flags + parent listing + escrow status
+create or replace view public.indexed_offers as
+select
+  e.chain_id,
+  (e.args->>'id')::numeric as id,
+  (e.args->>'listingId')::numeric as listing_id,
+  lower(e.args->>'proposer') as proposer,
+  e.args->>'amount' as amount,
+  lower(e.args->>'paymentToken') as payment_token,
+  e.block_timestamp as created_at,
+  e.block_number,
+  exists (
+    select 1 from public.marketplace_events x
+    where x.chain_id = e.chain_id and x.event_name = 'OfferAccepted' and x.args->>'id' = e.args->>'id'
+  ) as accepted,
+  exists (
+    select 1 from public.marketplace_events x
+    where x.chain_id = e.chain_id and x.event_name = 'OfferCancelled' and x.args->>'id' = e.args->>'id'
+  ) as cancelled,
+  l.creator as listing_creator,
+  l.listing_type,
+  l.metadata_uri as listing_metadata_uri,
+  coalesce(es.status, 0) as escrow_status
+from public.marketplace_events e
+left join public.indexed_listings l
+  on l.chain_id = e.chain_id and l.id = (e.args->>'listingId')::numeric
+left join public.indexed_escrows es
+  on es.chain_id = e.chain_id and es.offer_id = (e.args->>'id')::numeric
+where e.event_name = 'OfferMade';
+
+create or replace view public.indexed_reviews as
+select
+  e.chain_id,
+  (e.args->>'offerId')::numeric as offer_id,
+  lower(e.args->>'reviewer') as reviewer,
+  lower(e.args->>'reviewee') as reviewee,
+  (e.args->>'rating')::int as rating,
+  e.args->>'reviewURI' as review_uri,
+  e.block_timestamp as created_at
+from public.marketplace_events e
+where e.event_name = 'ReviewSubmitted';
+
+-- Profiles: ProfileCreated + username, boost, rating and mission aggregates
+create or replace view public.indexed_profiles as
+select
+  e.chain_id,
+  lower(e.args->>'user') as address,
+  (e.args->>'userType')::int as user_type,
+  e.block_timestamp as joined_at,
+  u.username,
+  coalesce(b.expiry, 0) as boost_expiry,
+  coalesce(r.avg_rating, 0) as rating,
+  coalesce(r.review_count, 0) as review_count,
+  coalesce(m.completed, 0) as completed_missions,
+  coalesce(l.listing_count, 0) as listing_count
+from public.marketplace_events e
+left join lateral (
+  select coalesce(x.args->>'newUsername', x.args->>'username') as username
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name in ('UsernameRegistered', 'UsernameChanged') and x.args->>'user' = e.args->>'user'
+  order by x.block_number desc, x.log_index desc
+  limit 1
+) u on true
+left join lateral (
+  select max((x.args->>'expiry')::numeric) as expiry
+  from public.marketplace_events x
+  where x.chain_id = e.chain_id and x.event_name = 'ProfileBoostPurchased' and x.args->>'user' = e.args->>'user'
+) b on true
+left join lateral (
+  select avg(rv.rating)::float8 as avg_rating, count(*) as review_count
+  from public.indexed_reviews rv
+  where rv.chain_id = e.chain_id and rv.reviewee = lower(e.args->>'user')
+) r on true
+left join lateral (
+  select count(*) as completed
+  from public.indexed_escrows es
+  where es.chain_id = e.chain_id
+    and es.status in (2, 4)
+    and (es.client = lower(e.args->>'user') or es.provider = lower(e.args->>'user'))
+) m on true
+left join lateral (
+  select count(*) as listing_count
+  from public.indexed_listings li
+  where li.chain_id = e.chain_id and li.creator = lower(e.args->>'user')
+) l on true
+where e.event_name = 'ProfileCreated';
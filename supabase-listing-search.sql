@@ -0,0 +1,328 @@
+-- Listing search index (run after supabase-indexer.sql)
+-- Listing metadata lives on IPFS, so the indexer (src/lib/indexer/searchIndex.ts) fetches it
+-- once per listing after each sync and stores the searchable fields here. Metadata URIs are
+-- immutable on-chain; rows whose metadata could not be fetched are retried hourly.
+-- /api/listings/search reads through search_listings and listing_search_facets.
+
+create table if not exists public.listing_search_docs (
+  chain_id integer not null,
+  listing_id numeric not null,
+  metadata_uri text not null default '',
+  metadata_ok boolean not null default false,
+  title text,
+  description text,
+  image text,
+  tags text[] not null default '{}',
+  requirements text[] not null default '{}',
+  deliverables text[] not null default '{}',
+  service_type text,
+  -- Money in the listing's own currency: gigs use price.amount for both bounds, briefs
+  -- their budget range. Searches convert it with the reference rates they are given.
+  price_low numeric,
+  price_high numeric,
+  price_per text,
+  currency text,
+  delivery_time text,
+  delivery_days integer,
+  search tsvector,
+  indexed_at timestamptz not null default now(),
+  primary key (chain_id, listing_id)
+);
+
+create index if not exists idx_listing_search_docs_search on public.listing_search_docs using gin (search);
+create index if not exists idx_listing_search_docs_currency on public.listing_search_docs (chain_id, currency);
+
+-- Title weighs most, then tags/skills, then the body text
+create or replace function public.listing_search_docs_tsv()
+returns trigger as $$
+begin
+  new.search :=
+    setweight(to_tsvector('simple', coalesce(new.title, '')), 'A') ||
+    setweight(to_tsvector('simple',
+      array_to_string(new.tags, ' ') || ' ' || array_to_string(new.requirements, ' ')), 'B') ||
+    setweight(to_tsvector('simple',
+      coalesce(new.description, '') || ' ' || array_to_string(new.deliverables, ' ') || ' ' ||
+      coalesce(new.service_type, '')), 'C');
+  new.indexed_at := now();
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_listing_search_docs_tsv on public.listing_search_docs;
+create trigger trg_listing_search_docs_tsv
+before insert or update on public.listing_search_docs
+for each row execute procedure public.listing_search_docs_tsv();
+
+-- Reads are public like the rest of the index; writes only via service role
+alter table public.listing_search_docs enable row level security;
+
+drop policy if exists "Listing search docs read" on public.listing_search_docs;
+create policy "Listing search docs read" on public.listing_search_docs for select using ( true );
+
+-- Listings the indexer still has to (re)fetch metadata for
+create or replace function public.listings_pending_search_doc(p_chain_id integer, p_limit integer default 50)
+returns setof public.indexed_listings as $$
+  select l.*
+  from public.indexed_listings l
+  left join public.listing_search_docs d
+    on d.chain_id = l.chain_id and d.listing_id = l.id
+  where l.chain_id = p_chain_id
+    and (
+      d.listing_id is null
+      or d.metadata_uri <> coalesce(l.metadata_uri, '')
+      or (not d.metadata_ok and d.indexed_at < now() - interval '1 hour')
+    )
+  order by l.id desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$ language sql stable;
+
+-- Each word is matched as a prefix, like search_chat_messages
+create or replace function public.listing_search_query(p_query text)
+returns tsquery as $$
+  select to_tsquery('simple', string_agg(quote_literal(w) || ':*', ' & '))
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') w
+  where w <> '';
+$$ language sql immutable;
+
+-- USD value of one `p_per` unit of `p_currency` as a day rate (time-based gig prices) or
+-- a total; p_rates maps uppercase symbols to USD (src/lib/pricing.ts). Null for tokens
+-- without a rate.
+create or replace function public.listing_reference_factor(p_currency text, p_per text, p_rates jsonb)
+returns numeric as $$
+  select (p_rates ->> coalesce(p_currency, 'USD'))::numeric /
+    case p_per when 'hour' then 0.125 when 'week' then 5 when 'month' then 21 else 1 end;
+$$ language sql immutable;
+
+create or replace function public.listing_price_basis(p_per text)
+returns text as $$
+  select case when p_per in ('hour', 'day', 'week', 'month') then 'day' else 'total' end;
+$$ language sql immutable;
+
+-- Earlier signatures of the search functions, so re-running this file replaces them
+drop function if exists public.listing_search_candidates(integer, text, boolean, numeric, numeric, integer, text);
+drop function if exists public.listing_search_candidates(integer, text, boolean, numeric, numeric, integer, text, jsonb, text);
+drop function if exists public.search_listings(integer, text, integer, numeric, text, numeric, numeric, integer, text, boolean, boolean, boolean, text, integer, numeric, numeric, integer);
+drop function if exists public.search_listings(integer, text, integer, numeric, text, numeric, numeric, integer, text, jsonb, text, boolean, boolean, boolean, text, integer, numeric, numeric, integer);
+drop function if exists public.listing_search_facets(integer, text, integer, numeric, text, numeric, numeric, integer, text, boolean, boolean);
+drop function if exists public.listing_search_facets(integer, text, integer, numeric, text, numeric, numeric, integer, text, jsonb, text, boolean, boolean);
+
+-- Any of p_tags (lowercase) among the doc's tags or requirements; empty matches all
+create or replace function public.listing_has_any_tag(p_tags text[], p_doc_tags text[], p_doc_requirements text[])
+returns boolean as $$
+  select coalesce(cardinality(p_tags), 0) = 0 or exists (
+    select 1 from unnest(coalesce(p_doc_tags, '{}') || coalesce(p_doc_requirements, '{}')) t
+    where lower(t) = any(p_tags)
+  );
+$$ language sql immutable;
+
+-- Listings joined with their docs, filtered by everything except the faceted dimensions
+-- (type, category, currency, boosted). Listings without a doc yet still match when there
+-- is no text query. Price filters apply to the USD reference range (price_ref_*).
+create or replace function public.listing_search_candidates(
+  p_chain_id integer,
+  p_query text,
+  p_only_active boolean,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_max_delivery_days integer,
+  p_service_type text,
+  p_rates jsonb,
+  p_price_basis text,
+  p_tags text[]
+)
+returns table (
+  id numeric,
+  listing_type integer,
+  creator text,
+  category numeric,
+  metadata_uri text,
+  created_at bigint,
+  active boolean,
+  boost_expiry numeric,
+  boosted boolean,
+  title text,
+  description text,
+  image text,
+  tags text[],
+  requirements text[],
+  deliverables text[],
+  service_type text,
+  price_low numeric,
+  price_high numeric,
+  price_per text,
+  currency text,
+  delivery_time text,
+  delivery_days integer,
+  price_ref_low numeric,
+  price_ref_high numeric,
+  price_basis text,
+  rank real
+) as $$
+declare
+  v_query tsquery := public.listing_search_query(p_query);
+begin
+  return query
+  select l.id, l.listing_type, l.creator, l.category, l.metadata_uri, l.created_at,
+    l.active, l.boost_expiry, l.boost_expiry >= extract(epoch from now()),
+    d.title, d.description, d.image, d.tags, d.requirements, d.deliverables,
+    d.service_type, d.price_low, d.price_high, d.price_per, d.currency,
+    d.delivery_time, d.delivery_days,
+    d.price_low * p.factor, d.price_high * p.factor, p.basis,
+    case when v_query is null then 0::real
+      else ts_rank_cd(d.search, v_query, 32) end
+  from public.indexed_listings l
+  left join public.listing_search_docs d
+    on d.chain_id = l.chain_id and d.listing_id = l.id
+  cross join lateral (
+    select public.listing_reference_factor(d.currency, d.price_per, coalesce(p_rates, '{}'::jsonb)) as factor,
+      public.listing_price_basis(d.price_per) as basis
+  ) p
+  where l.chain_id = p_chain_id
+    and (v_query is null or d.search @@ v_query)
+    and (not coalesce(p_only_active, false) or l.active)
+    and (p_min_price is null or d.price_high * p.factor >= p_min_price)
+    and (p_max_price is null or d.price_low * p.factor <= p_max_price)
+    and (p_price_basis is null or (d.price_low is not null and p.basis = p_price_basis))
+    and public.listing_has_any_tag(p_tags, d.tags, d.requirements)
+    and (p_max_delivery_days is null or d.delivery_days <= p_max_delivery_days)
+    and (p_service_type is null or d.service_type = p_service_type);
+end; $$ language plpgsql stable;
+
+-- One page of results. Order: boosted first (unless p_boosted_first is false), then the
+-- sort key (price sorts use the USD reference), then id, all descending; ascending sorts negate their key so one keyset
+-- comparison works for every sort. The cursor is the last row's (boost_rank, sort_key, id).
+create or replace function public.search_listings(
+  p_chain_id integer,
+  p_query text default null,
+  p_listing_type integer default null,
+  p_category numeric default null,
+  p_currency text default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_max_delivery_days integer default null,
+  p_service_type text default null,
+  p_rates jsonb default '{}'::jsonb,
+  p_price_basis text default null,
+  p_tags text[] default null,
+  p_boosted_only boolean default false,
+  p_only_active boolean default true,
+  p_boosted_first boolean default true,
+  p_sort text default 'relevance',
+  p_after_boost integer default null,
+  p_after_key numeric default null,
+  p_after_id numeric default null,
+  p_limit integer default 24
+)
+returns table (
+  id numeric,
+  listing_type integer,
+  creator text,
+  category numeric,
+  metadata_uri text,
+  created_at bigint,
+  active boolean,
+  boost_expiry numeric,
+  title text,
+  description text,
+  image text,
+  tags text[],
+  requirements text[],
+  deliverables text[],
+  service_type text,
+  price_low numeric,
+  price_high numeric,
+  price_per text,
+  currency text,
+  delivery_time text,
+  delivery_days integer,
+  price_ref_low numeric,
+  price_ref_high numeric,
+  price_basis text,
+  rank real,
+  boost_rank integer,
+  sort_key numeric
+) as $$
+begin
+  return query
+  with c as (
+    select x.*,
+      case when coalesce(p_boosted_first, true) and x.boosted then 1 else 0 end as b_rank,
+      case
+        when p_sort = 'relevance' and public.listing_search_query(p_query) is not null
+          then round(x.rank::numeric, 6)
+        when p_sort = 'oldest' then -x.created_at::numeric
+        when p_sort = 'price_asc' then -coalesce(x.price_ref_low, 1e30)
+        when p_sort = 'price_desc' then coalesce(x.price_ref_low, -1e30)
+        else x.created_at::numeric
+      end as s_key
+    from public.listing_search_candidates(
+      p_chain_id, p_query, p_only_active, p_min_price, p_max_price, p_max_delivery_days,
+      p_service_type, p_rates, p_price_basis, p_tags
+    ) x
+    where (p_listing_type is null or x.listing_type = p_listing_type)
+      and (p_category is null or x.category = p_category)
+      and (p_currency is null or x.currency = upper(p_currency))
+      and (not coalesce(p_boosted_only, false) or x.boosted)
+  )
+  select c.id, c.listing_type, c.creator, c.category, c.metadata_uri, c.created_at,
+    c.active, c.boost_expiry, c.title, c.description, c.image, c.tags, c.requirements,
+    c.deliverables, c.service_type, c.price_low, c.price_high, c.price_per, c.currency,
+    c.delivery_time, c.delivery_days, c.price_ref_low, c.price_ref_high, c.price_basis,
+    c.rank, c.b_rank, c.s_key
+  from c
+  where p_after_id is null
+    or (c.b_rank, c.s_key, c.id) < (p_after_boost, p_after_key, p_after_id)
+  order by c.b_rank desc, c.s_key desc, c.id desc
+  limit least(greatest(coalesce(p_limit, 24), 1), 100);
+end; $$ language plpgsql stable;
+
+-- Facet counts; each dimension is counted with every other filter applied
+create or replace function public.listing_search_facets(
+  p_chain_id integer,
+  p_query text default null,
+  p_listing_type integer default null,
+  p_category numeric default null,
+  p_currency text default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_max_delivery_days integer default null,
+  p_service_type text default null,
+  p_rates jsonb default '{}'::jsonb,
+  p_price_basis text default null,
+  p_tags text[] default null,
+  p_boosted_only boolean default false,
+  p_only_active boolean default true
+)
+returns jsonb as $$
+  with c as (
+    select * from public.listing_search_candidates(
+      p_chain_id, p_query, p_only_active, p_min_price, p_max_price, p_max_delivery_days,
+      p_service_type, p_rates, p_price_basis, p_tags
+    )
+  ),
+  f as (
+    select c.*,
+      (p_listing_type is null or c.listing_type = p_listing_type) as m_type,
+      (p_category is null or c.category = p_category) as m_category,
+      (p_currency is null or c.currency = upper(p_currency)) as m_currency,
+      (not coalesce(p_boosted_only, false) or c.boosted) as m_boosted
+    from c
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from f where m_type and m_category and m_currency and m_boosted),
+    'listingTypes', coalesce((
+      select jsonb_agg(jsonb_build_object('value', v::text, 'count', n) order by n desc)
+      from (select listing_type as v, count(*) as n from f
+            where m_category and m_currency and m_boosted group by 1) t), '[]'::jsonb),
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object('value', v::text, 'count', n) order by n desc)
+      from (select category as v, count(*) as n from f
+            where m_type and m_currency and m_boosted group by 1) t), '[]'::jsonb),
+    'currencies', coalesce((
+      select jsonb_agg(jsonb_build_object('value', v, 'count', n) order by n desc)
+      from (select currency as v, count(*) as n from f
+            where m_type and m_category and m_boosted and currency is not null group by 1) t), '[]'::jsonb),
+    'boosted', (select count(*) from f where m_type and m_category and m_currency and boosted),
+    'priceMin', (select min(price_ref_low) from f where m_type and m_category and m_currency and m_boosted),
+    'priceMax', (select max(price_ref_high) from f where m_type and m_category and m_currency and m_boosted)
+  );
+$$ language sql stable;
@@ -0,0 +1,224 @@
+-- Offer milestones (one row per milestone)
+-- The on-chain escrow releases once; milestones track per-deliverable approval off-chain.
+-- There is no per-milestone release: the escrow pays out in full on validateWork, and a
+-- disputed milestone is only a flag here while the on-chain dispute covers the whole escrow.
+-- amount is in token base units (decimal string) and must sum to the offer amount.
+-- Rows are keyed by (chain_id, offer_id) since offer ids are only unique per chain.
+-- Writes go through the security definer functions at the bottom, which check the signed-in
+-- wallet against the offer (request_wallet / is_offer_participant from
+-- supabase-wallet-auth.sql, which also adds the read policy: the offer's parties and the
+-- chain's admins). A plan proposed by one party needs the other party's approval before
+-- milestones can be validated or disputed.
+
+create table if not exists public.offer_milestones (
+  id uuid primary key default gen_random_uuid(),
+  chain_id integer not null,
+  offer_id text not null,
+  position integer not null,
+  title text not null,
+  amount text not null,
+  due_date date,
+  client_validated_at timestamptz,
+  provider_validated_at timestamptz,
+  disputed_at timestamptz,
+  dispute_cid text,
+  created_by text not null,
+  approved_by text,
+  approved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (chain_id, offer_id, position)
+);
+
+alter table public.offer_milestones add column if not exists approved_by text;
+alter table public.offer_milestones add column if not exists approved_at timestamptz;
+
+-- Plans saved before the chain was part of the key
+alter table public.offer_milestones add column if not exists chain_id integer;
+update public.offer_milestones set chain_id = public.legacy_offer_chain(offer_id) where chain_id is null;
+alter table public.offer_milestones alter column chain_id set not null;
+alter table public.offer_milestones drop constraint if exists offer_milestones_offer_id_position_key;
+alter table public.offer_milestones drop constraint if exists offer_milestones_chain_id_offer_id_position_key;
+alter table public.offer_milestones add constraint offer_milestones_chain_id_offer_id_position_key
+  unique (chain_id, offer_id, position);
+
+drop index if exists public.idx_offer_milestones_offer;
+create index if not exists idx_offer_milestones_chain_offer on public.offer_milestones (chain_id, offer_id);
+
+create or replace function public.touch_offer_milestones_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_offer_milestones_updated_at on public.offer_milestones;
+create trigger trg_offer_milestones_updated_at
+before update on public.offer_milestones
+for each row execute procedure public.touch_offer_milestones_updated_at();
+
+alter table public.offer_milestones enable row level security;
+
+drop policy if exists "Offer milestones read" on public.offer_milestones;
+drop policy if exists "Offer milestones insert" on public.offer_milestones;
+drop policy if exists "Offer milestones update" on public.offer_milestones;
+drop policy if exists "Offer milestones delete" on public.offer_milestones;
+
+-- 'client' or 'provider' for a wallet on an offer of the given chain, null for anyone else.
+-- Briefs are created by the client and answered by providers; gigs the other way round.
+drop function if exists public.offer_party_role(bigint, text);
+create or replace function public.offer_party_role(p_chain_id integer, p_offer_id bigint, p_wallet text)
+returns text as $$
+declare
+  v_proposer text;
+  v_creator text;
+  v_type integer;
+begin
+  if p_wallet is null then
+    return null;
+  end if;
+  select lower(o.args->>'proposer'), lower(l.args->>'creator'), (l.args->>'listingType')::int
+    into v_proposer, v_creator, v_type
+  from public.marketplace_events o
+  join public.marketplace_events l
+    on l.chain_id = o.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = o.args->>'listingId'
+  where o.chain_id = p_chain_id
+    and o.event_name = 'OfferMade' and o.args->>'id' = p_offer_id::text
+  limit 1;
+  if p_wallet = v_proposer then
+    return case when v_type = 0 then 'provider' else 'client' end;
+  elsif p_wallet = v_creator then
+    return case when v_type = 0 then 'client' else 'provider' end;
+  end if;
+  return null;
+end; $$ language plpgsql stable security definer;
+
+-- Replaces the whole plan in one transaction. Only participants may propose, only while
+-- nothing has been validated or disputed, and the amounts must add up to the offer amount.
+-- The new plan waits for the other party's approval. Plans are saved and approved for the
+-- offer on the session's chain.
+create or replace function public.save_milestone_plan(p_offer_id text, p_milestones jsonb)
+returns setof public.offer_milestones as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_chain integer := public.request_chain_id();
+  v_total numeric;
+  v_sum numeric := 0;
+  v_item jsonb;
+begin
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to edit milestones';
+  end if;
+  if public.offer_party_role(v_chain, p_offer_id::bigint, v_wallet) is null then
+    raise exception 'Only the offer''s client and provider may edit milestones';
+  end if;
+  if jsonb_typeof(p_milestones) is distinct from 'array' or jsonb_array_length(p_milestones) = 0 then
+    raise exception 'Add at least one milestone';
+  end if;
+  perform 1 from public.offer_milestones
+  where chain_id = v_chain and offer_id = p_offer_id
+    and (client_validated_at is not null or provider_validated_at is not null or disputed_at is not null);
+  if found then
+    raise exception 'Milestones can''t be changed after work was validated';
+  end if;
+  for v_item in select * from jsonb_array_elements(p_milestones) loop
+    if coalesce(trim(v_item->>'title'), '') = '' then
+      raise exception 'Every milestone needs a title';
+    end if;
+    if (v_item->>'amount') !~ '^[0-9]+$' or (v_item->>'amount')::numeric <= 0 then
+      raise exception 'Every milestone needs a positive amount';
+    end if;
+    v_sum := v_sum + (v_item->>'amount')::numeric;
+  end loop;
+  select (args->>'amount')::numeric into v_total
+  from public.marketplace_events
+  where chain_id = v_chain
+    and event_name = 'OfferMade' and args->>'id' = p_offer_id
+  limit 1;
+  if v_total is null or v_sum <> v_total then
+    raise exception 'Milestone amounts must add up to the offer amount';
+  end if;
+
+  delete from public.offer_milestones where chain_id = v_chain and offer_id = p_offer_id;
+  insert into public.offer_milestones (chain_id, offer_id, position, title, amount, due_date, created_by)
+  select v_chain, p_offer_id, (m.ord - 1)::integer, trim(m.item->>'title'), m.item->>'amount',
+    nullif(m.item->>'dueDate', '')::date, v_wallet
+  from jsonb_array_elements(p_milestones) with ordinality as m(item, ord);
+
+  return query
+    select * from public.offer_milestones
+    where chain_id = v_chain and offer_id = p_offer_id order by position;
+end; $$ language plpgsql security definer;
+
+-- The counterparty of whoever proposed the plan accepts it
+create or replace function public.approve_milestone_plan(p_offer_id text)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_chain integer := public.request_chain_id();
+  v_proposer text;
+begin
+  if public.offer_party_role(v_chain, p_offer_id::bigint, v_wallet) is null then
+    raise exception 'Only the offer''s client and provider may approve milestones';
+  end if;
+  select created_by into v_proposer from public.offer_milestones
+  where chain_id = v_chain and offer_id = p_offer_id limit 1;
+  if v_proposer is null then
+    raise exception 'There is no milestone plan to approve';
+  end if;
+  if v_proposer = v_wallet then
+    raise exception 'The other party has to approve your milestone plan';
+  end if;
+  update public.offer_milestones
+    set approved_by = v_wallet, approved_at = now()
+  where chain_id = v_chain and offer_id = p_offer_id and approved_at is null;
+end; $$ language plpgsql security definer;
+
+-- Stamps the caller's side of an approved plan's milestone
+create or replace function public.validate_milestone(p_milestone_id uuid)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_row public.offer_milestones;
+  v_role text;
+begin
+  select * into v_row from public.offer_milestones where id = p_milestone_id;
+  if not found then
+    raise exception 'Milestone not found';
+  end if;
+  v_role := public.offer_party_role(v_row.chain_id, v_row.offer_id::bigint, v_wallet);
+  if v_role is null then
+    raise exception 'Only the offer''s client and provider may approve milestones';
+  end if;
+  if v_row.approved_at is null then
+    raise exception 'The milestone plan has not been approved by both parties yet';
+  end if;
+  if v_row.disputed_at is not null then
+    raise exception 'This milestone is disputed';
+  end if;
+  update public.offer_milestones set
+    client_validated_at = case when v_role = 'client' then coalesce(client_validated_at, now()) else client_validated_at end,
+    provider_validated_at = case when v_role = 'provider' then coalesce(provider_validated_at, now()) else provider_validated_at end
+  where id = p_milestone_id;
+end; $$ language plpgsql security definer;
+
+-- Flags a milestone once its dispute evidence is pinned. Informational only: the dispute
+-- opened on-chain freezes and resolves the whole escrow.
+create or replace function public.dispute_milestone(p_milestone_id uuid, p_cid text)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_chain integer;
+  v_offer text;
+begin
+  select chain_id, offer_id into v_chain, v_offer from public.offer_milestones where id = p_milestone_id;
+  if v_offer is null then
+    raise exception 'Milestone not found';
+  end if;
+  if public.offer_party_role(v_chain, v_offer::bigint, v_wallet) is null then
+    raise exception 'Only the offer''s client and provider may dispute milestones';
+  end if;
+  update public.offer_milestones
+    set disputed_at = coalesce(disputed_at, now()), dispute_cid = coalesce(dispute_cid, p_cid)
+  where id = p_milestone_id;
+end; $$ language plpgsql security definer;
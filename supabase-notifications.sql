@@ -0,0 +1,237 @@
+-- In-app notifications (one row per recipient)
+-- Chain-derived rows are created by a trigger on marketplace_events (see supabase-indexer.sql)
+-- and reference the source log, so rolling back a reorg deletes them with the event.
+-- Chat rows are created by triggers on offer_chats / direct_chats and collapse to one
+-- notification per conversation that is re-flagged unread on every new message.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  recipient text not null,
+  kind text not null check (kind in (
+    'offer_received', 'offer_accepted', 'work_validated', 'dispute_opened',
+    'dispute_appealed', 'dispute_resolved', 'review_received', 'chat_message'
+  )),
+  title text not null,
+  body text,
+  href text,
+  actor text,
+  offer_id text,
+  listing_id text,
+  chain_id integer,
+  tx_hash text,
+  log_index integer,
+  dedupe_key text not null unique,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  foreign key (chain_id, tx_hash, log_index)
+    references public.marketplace_events (chain_id, tx_hash, log_index) on delete cascade
+);
+
+create index if not exists idx_notifications_recipient on public.notifications (recipient, created_at desc);
+create index if not exists idx_notifications_unread on public.notifications (recipient) where read_at is null;
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Notifications read" on public.notifications;
+drop policy if exists "Notifications update" on public.notifications;
+create policy "Notifications read" on public.notifications for select using ( true );
+create policy "Notifications update" on public.notifications for update using ( true ) with check ( true );
+
+-- Insert one chain-derived notification; skips missing recipients and self-actions
+create or replace function public.push_event_notification(
+  e public.marketplace_events,
+  p_recipient text,
+  p_kind text,
+  p_title text,
+  p_body text,
+  p_href text,
+  p_actor text,
+  p_offer_id text,
+  p_listing_id text
+) returns void as $$
+begin
+  if p_recipient is null or p_recipient = coalesce(p_actor, '') then
+    return;
+  end if;
+  insert into public.notifications (
+    recipient, kind, title, body, href, actor, offer_id, listing_id,
+    chain_id, tx_hash, log_index, dedupe_key, created_at
+  ) values (
+    p_recipient, p_kind, p_title, p_body, p_href, p_actor, p_offer_id, p_listing_id,
+    e.chain_id, e.tx_hash, e.log_index,
+    e.chain_id || ':' || e.tx_hash || ':' || e.log_index || ':' || p_recipient,
+    coalesce(to_timestamp(nullif(e.block_timestamp, 0)), now())
+  )
+  on conflict (dedupe_key) do nothing;
+end; $$ language plpgsql;
+
+create or replace function public.notify_marketplace_event()
+returns trigger as $$
+declare
+  v_offer text := coalesce(new.args->>'offerId', new.args->>'id');
+  v_listing text;
+  v_creator text;
+  v_proposer text;
+  v_client text;
+  v_provider text;
+  v_actor text;
+  v_href text := '/offers/' || coalesce(new.args->>'offerId', new.args->>'id');
+begin
+  -- Historical backfills should not flood inboxes
+  if new.block_timestamp > 0 and new.block_timestamp < extract(epoch from now()) - 7 * 86400 then
+    return new;
+  end if;
+
+  if new.event_name = 'OfferMade' then
+    v_listing := new.args->>'listingId';
+    select lower(x.args->>'creator') into v_creator
+    from public.marketplace_events x
+    where x.chain_id = new.chain_id and x.event_name = 'ListingCreated' and x.args->>'id' = v_listing
+    limit 1;
+    perform public.push_event_notification(new, v_creator, 'offer_received',
+      'New offer on your listing', 'Listing #' || v_listing, v_href,
+      lower(new.args->>'proposer'), v_offer, v_listing);
+    return new;
+  end if;
+
+  if new.event_name = 'OfferAccepted' then
+    select lower(x.args->>'proposer'), x.args->>'listingId' into v_proposer, v_listing
+    from public.marketplace_events x
+    where x.chain_id = new.chain_id and x.event_name = 'OfferMade' and x.args->>'id' = v_offer
+    limit 1;
+    v_actor := case when v_proposer = lower(new.args->>'client')
+      then lower(new.args->>'provider') else lower(new.args->>'client') end;
+    perform public.push_event_notification(new, v_proposer, 'offer_accepted',
+      'Your offer was accepted', 'Offer #' || v_offer || ' is now in escrow', v_href,
+      v_actor, v_offer, v_listing);
+    return new;
+  end if;
+
+  select lower(x.args->>'client'), lower(x.args->>'provider') into v_client, v_provider
+  from public.marketplace_events x
+  where x.chain_id = new.chain_id and x.event_name = 'EscrowStarted' and x.args->>'offerId' = v_offer
+  limit 1;
+
+  if new.event_name = 'MissionValidated' then
+    v_actor := lower(new.args->>'by');
+    perform public.push_event_notification(new,
+      case when v_actor = v_client then v_provider else v_client end,
+      'work_validated', 'Work validated by your counterparty', 'Offer #' || v_offer, v_href,
+      v_actor, v_offer, null);
+  elsif new.event_name in ('DisputeOpened', 'DisputeOpenedWithCID') then
+    v_actor := lower(new.args->>'openedBy');
+    perform public.push_event_notification(new, v_client, 'dispute_opened',
+      'Dispute opened', 'Offer #' || v_offer, v_href, v_actor, v_offer, null);
+    perform public.push_event_notification(new, v_provider, 'dispute_opened',
+      'Dispute opened', 'Offer #' || v_offer, v_href, v_actor, v_offer, null);
+  elsif new.event_name = 'DisputeAppealed' then
+    v_actor := lower(new.args->>'appealedBy');
+    perform public.push_event_notification(new,
+      case when v_actor = v_client then v_provider else v_client end,
+      'dispute_appealed', 'Dispute appealed', 'Offer #' || v_offer, v_href,
+      v_actor, v_offer, null);
+  elsif new.event_name = 'DisputeResolved' then
+    perform public.push_event_notification(new, v_client, 'dispute_resolved',
+      'Dispute resolved', 'Offer #' || v_offer, v_href, null, v_offer, null);
+    perform public.push_event_notification(new, v_provider, 'dispute_resolved',
+      'Dispute resolved', 'Offer #' || v_offer, v_href, null, v_offer, null);
+  elsif new.event_name = 'ReviewSubmitted' then
+    perform public.push_event_notification(new, lower(new.args->>'reviewee'),
+      'review_received', 'You received a review',
+      (new.args->>'rating') || '/5 on offer #' || v_offer, v_href,
+      lower(new.args->>'reviewer'), v_offer, null);
+  end if;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_marketplace_events_notify on public.marketplace_events;
+create trigger trg_marketplace_events_notify
+after insert on public.marketplace_events
+for each row execute procedure public.notify_marketplace_event();
+
+-- Upsert the per-conversation chat notification and mark it unread again
+create or replace function public.push_chat_notification(
+  p_recipient text,
+  p_conversation text,
+  p_sender text,
+  p_body text,
+  p_href text,
+  p_offer_id text
+) returns void as $$
+begin
+  if p_recipient is null or p_recipient = '' or p_recipient = p_sender then
+    return;
+  end if;
+  insert into public.notifications (recipient, kind, title, body, href, actor, offer_id, dedupe_key)
+  values (p_recipient, 'chat_message', 'New message', p_body, p_href, p_sender, p_offer_id,
+    'chat:' || p_conversation || ':' || p_recipient)
+  on conflict (dedupe_key) do update
+    set body = excluded.body, actor = excluded.actor, read_at = null, created_at = now();
+end; $$ language plpgsql;
+
+-- Only appended messages notify (edits that keep the array length are ignored)
+create or replace function public.chat_preview(p_message jsonb)
+returns text as $$
+  select coalesce(nullif(left(p_message->>'content', 140), ''), 'Sent an attachment');
+$$ language sql immutable;
+
+create or replace function public.notify_offer_chat()
+returns trigger as $$
+declare
+  v_msg jsonb;
+  v_sender text;
+  v_recipient text;
+begin
+  if jsonb_array_length(new.messages) <= case when tg_op = 'UPDATE' then jsonb_array_length(old.messages) else 0 end then
+    return new;
+  end if;
+  v_msg := new.messages -> -1;
+  v_sender := lower(v_msg->>'sender');
+  for v_recipient in
+    select distinct r from (
+      select lower(x.args->>'proposer') as r
+      from public.marketplace_events x
+      where x.event_name = 'OfferMade' and x.args->>'id' = new.offer_id::text
+      union
+      select lower(l.args->>'creator')
+      from public.marketplace_events x
+      join public.marketplace_events l
+        on l.chain_id = x.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = x.args->>'listingId'
+      where x.event_name = 'OfferMade' and x.args->>'id' = new.offer_id::text
+      union
+      select lower(m->>'sender') from jsonb_array_elements(new.messages) m
+    ) s
+  loop
+    perform public.push_chat_notification(v_recipient, 'offer:' || new.offer_id, v_sender,
+      public.chat_preview(v_msg), '/offers/' || new.offer_id, new.offer_id::text);
+  end loop;
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_offer_chats_notify on public.offer_chats;
+create trigger trg_offer_chats_notify
+after insert or update of messages on public.offer_chats
+for each row execute procedure public.notify_offer_chat();
+
+create or replace function public.notify_direct_chat()
+returns trigger as $$
+declare
+  v_msg jsonb;
+  v_sender text;
+begin
+  if jsonb_array_length(new.messages) <= case when tg_op = 'UPDATE' then jsonb_array_length(old.messages) else 0 end then
+    return new;
+  end if;
+  v_msg := new.messages -> -1;
+  v_sender := lower(v_msg->>'sender');
+  perform public.push_chat_notification(
+    case when v_sender = new.user_lo then new.user_hi else new.user_lo end,
+    'direct:' || new.user_lo || ':' || new.user_hi, v_sender,
+    public.chat_preview(v_msg), '/chat/' || v_sender, null);
+  return new;
+end; $$ language plpgsql security definer;
+
+drop trigger if exists trg_direct_chats_notify on public.direct_chats;
+create trigger trg_direct_chats_notify
+after insert or update of messages on public.direct_chats
+for each row execute procedure public.notify_direct_chat();
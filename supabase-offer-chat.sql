@@ -71,4 +71,4 @@ end; $$ language plpgsql security definer;
 
 -- (Optional) RLS for RPC execution context; ensure owner is trusted.
 
--- NOTE: Replace permissive policies with participant-restricted policies once auth mapping is ready.
+-- NOTE: supabase-wallet-auth.sql replaces these permissive policies with participant-only ones.
@@ -0,0 +1,66 @@
+-- Optional offer expiry (one row per on-chain offer; offer ids are only unique per chain)
+-- The marketplace contract has no validity window, so proposers record one here and the
+-- client refuses to accept offers past expires_at. Offers without a row never expire.
+-- Rows are written once, by the offer's proposer, through set_offer_expiry below: the caller
+-- must be the signed-in wallet (request_wallet from supabase-wallet-auth.sql) and match the
+-- proposer of the indexed OfferMade event.
+
+create table if not exists public.offer_expiries (
+  chain_id integer not null,
+  offer_id text not null,
+  listing_id text not null,
+  proposer text not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  primary key (chain_id, offer_id)
+);
+
+-- Rows written before the chain was part of the key
+alter table public.offer_expiries add column if not exists chain_id integer;
+update public.offer_expiries set chain_id = public.legacy_offer_chain(offer_id) where chain_id is null;
+alter table public.offer_expiries alter column chain_id set not null;
+alter table public.offer_expiries drop constraint if exists offer_expiries_pkey;
+alter table public.offer_expiries add constraint offer_expiries_pkey primary key (chain_id, offer_id);
+
+create index if not exists idx_offer_expiries_proposer on public.offer_expiries (proposer);
+
+alter table public.offer_expiries enable row level security;
+
+drop policy if exists "Offer expiries read" on public.offer_expiries;
+drop policy if exists "Offer expiries insert" on public.offer_expiries;
+create policy "Offer expiries read" on public.offer_expiries for select using ( true );
+
+-- Raises 'Offer not indexed yet' until the indexer has picked up the OfferMade event, so
+-- callers retry after the next sync
+create or replace function public.set_offer_expiry(p_offer_id text, p_expires_at timestamptz)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_chain integer := public.request_chain_id();
+  v_listing text;
+  v_proposer text;
+begin
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to set an offer expiry';
+  end if;
+  if p_expires_at <= now() then
+    raise exception 'Offer expiry must be in the future';
+  end if;
+  select o.args->>'listingId', lower(o.args->>'proposer') into v_listing, v_proposer
+  from public.marketplace_events o
+  where o.chain_id = v_chain
+    and o.event_name = 'OfferMade' and o.args->>'id' = p_offer_id
+  limit 1;
+  if v_proposer is null then
+    raise exception 'Offer not indexed yet';
+  end if;
+  if v_proposer <> v_wallet then
+    raise exception 'Only the proposer can set an offer''s expiry';
+  end if;
+  insert into public.offer_expiries (chain_id, offer_id, listing_id, proposer, expires_at)
+  values (v_chain, p_offer_id, v_listing, v_wallet, p_expires_at)
+  on conflict (chain_id, offer_id) do nothing;
+  if not found then
+    raise exception 'This offer already has an expiry';
+  end if;
+end; $$ language plpgsql security definer;
@@ -0,0 +1,157 @@
+-- Offer negotiation threads (one row per counter-offer version)
+-- On-chain offers are immutable, so counters live here; a thread is keyed by
+-- (chain_id, listing_id, proposer), since listing ids are only unique per chain.
+-- Only the latest version can be agreed, and acceptOffer is only allowed when the on-chain
+-- offer amount/token match the latest agreed version.
+-- amount is in token base units (decimal string).
+-- Writes go through the security definer functions at the bottom: the author is always the
+-- signed-in wallet (request_wallet from supabase-wallet-auth.sql), only the proposer and the
+-- listing creator may post to a thread of the session's chain, and only the other party may
+-- agree.
+
+create table if not exists public.offer_counters (
+  id uuid primary key default gen_random_uuid(),
+  chain_id integer not null,
+  listing_id text not null,
+  proposer text not null,
+  author text not null,
+  amount text not null,
+  payment_token text not null,
+  timeline text,
+  note text,
+  status text not null default 'proposed' check (status in ('proposed', 'agreed', 'superseded')),
+  agreed_by text,
+  offer_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Threads started before the chain was part of the key: the only chain with the listing,
+-- or chain 0 (unreachable) when several have it
+alter table public.offer_counters add column if not exists chain_id integer;
+update public.offer_counters c set chain_id = coalesce((
+  select min(l.chain_id) from public.marketplace_events l
+  where l.event_name = 'ListingCreated' and l.args->>'id' = c.listing_id
+  having count(distinct l.chain_id) = 1
+), 0)
+where c.chain_id is null;
+alter table public.offer_counters alter column chain_id set not null;
+
+drop index if exists public.idx_offer_counters_thread;
+create index if not exists idx_offer_counters_chain_thread
+  on public.offer_counters (chain_id, listing_id, proposer, created_at);
+
+create or replace function public.touch_offer_counters_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_offer_counters_updated_at on public.offer_counters;
+create trigger trg_offer_counters_updated_at
+before update on public.offer_counters
+for each row execute procedure public.touch_offer_counters_updated_at();
+
+alter table public.offer_counters enable row level security;
+
+drop policy if exists "Offer counters read" on public.offer_counters;
+drop policy if exists "Offer counters insert" on public.offer_counters;
+drop policy if exists "Offer counters update" on public.offer_counters;
+create policy "Offer counters read" on public.offer_counters for select using ( true );
+
+-- The proposer of the thread or the creator of its listing on the given chain
+drop function if exists public.is_negotiation_participant(text, text, text);
+create or replace function public.is_negotiation_participant(
+  p_chain_id integer, p_listing_id text, p_proposer text, p_wallet text
+) returns boolean as $$
+begin
+  if p_wallet is null or p_chain_id is null then
+    return false;
+  end if;
+  if p_wallet = lower(p_proposer) then
+    return true;
+  end if;
+  return exists (
+    select 1 from public.marketplace_events l
+    where l.chain_id = p_chain_id
+      and l.event_name = 'ListingCreated' and l.args->>'id' = p_listing_id
+      and lower(l.args->>'creator') = p_wallet
+  );
+end; $$ language plpgsql stable security definer;
+
+-- Posts a new version by the signed-in wallet and supersedes any earlier open or agreed one
+create or replace function public.post_offer_counter(
+  p_listing_id text,
+  p_proposer text,
+  p_amount text,
+  p_payment_token text,
+  p_timeline text default null,
+  p_note text default null
+) returns public.offer_counters as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_chain integer := public.request_chain_id();
+  v_row public.offer_counters;
+begin
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to negotiate';
+  end if;
+  if not public.is_negotiation_participant(v_chain, p_listing_id, p_proposer, v_wallet) then
+    raise exception 'Only the proposer and the listing creator may negotiate';
+  end if;
+  if coalesce(p_amount, '') !~ '^[0-9]+$' or p_amount::numeric <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+  update public.offer_counters set status = 'superseded'
+  where chain_id = v_chain and listing_id = p_listing_id and proposer = lower(p_proposer)
+    and status in ('proposed', 'agreed');
+  insert into public.offer_counters (chain_id, listing_id, proposer, author, amount, payment_token, timeline, note)
+  values (v_chain, p_listing_id, lower(p_proposer), v_wallet, p_amount, p_payment_token,
+    nullif(trim(p_timeline), ''), nullif(trim(p_note), ''))
+  returning * into v_row;
+  return v_row;
+end; $$ language plpgsql security definer;
+
+-- Only the other party of the thread can agree to its latest open version
+create or replace function public.agree_offer_counter(p_counter_id uuid)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+  v_row public.offer_counters;
+begin
+  select * into v_row from public.offer_counters where id = p_counter_id for update;
+  if not found then
+    raise exception 'Counter-offer not found';
+  end if;
+  if not public.is_negotiation_participant(v_row.chain_id, v_row.listing_id, v_row.proposer, v_wallet) then
+    raise exception 'Only the proposer and the listing creator may negotiate';
+  end if;
+  if v_row.status <> 'proposed' then
+    raise exception 'Only the latest open counter can be agreed';
+  end if;
+  if v_row.author = v_wallet then
+    raise exception 'You can''t agree to your own counter-offer';
+  end if;
+  update public.offer_counters set status = 'agreed', agreed_by = v_wallet
+  where id = p_counter_id;
+end; $$ language plpgsql security definer;
+
+-- The proposer links the agreed version to the offer they resubmitted on-chain. Display
+-- only (acceptance is gated on the on-chain terms), and called right after makeOffer, before
+-- the indexer has seen the new offer.
+create or replace function public.link_offer_counter(p_counter_id uuid, p_offer_id text)
+returns void as $$
+declare
+  v_wallet text := public.request_wallet();
+begin
+  if p_offer_id !~ '^[0-9]+$' then
+    raise exception 'Invalid offer id';
+  end if;
+  update public.offer_counters set offer_id = p_offer_id
+  where id = p_counter_id and status = 'agreed' and proposer = v_wallet
+    and chain_id = public.request_chain_id();
+  if not found then
+    raise exception 'Only the proposer can link their agreed terms to an offer';
+  end if;
+end; $$ language plpgsql security definer;
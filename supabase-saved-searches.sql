@@ -0,0 +1,117 @@
+-- Saved brief searches with alerts (run after supabase-listing-search.sql,
+-- supabase-notifications.sql and supabase-wallet-auth.sql)
+-- Each wallet keeps its own searches. After every sync the indexer matches newly indexed
+-- briefs against searches with alerts on (src/lib/indexer/searchIndex.ts) and drops a
+-- 'saved_search_match' notification into the owner's inbox.
+
+-- 1. Searches. Budgets are USD reference totals (src/lib/pricing.ts); tags are lowercase
+-- and any one of them is enough, like the search page.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  owner text not null,
+  name text not null,
+  query text,
+  category numeric,
+  min_budget numeric,
+  max_budget numeric,
+  tags text[] not null default '{}',
+  alerts boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_saved_searches_owner on public.saved_searches (owner, created_at desc);
+create index if not exists idx_saved_searches_alerts on public.saved_searches (created_at) where alerts;
+
+alter table public.saved_searches enable row level security;
+
+drop policy if exists "Saved searches read" on public.saved_searches;
+drop policy if exists "Saved searches insert" on public.saved_searches;
+drop policy if exists "Saved searches update" on public.saved_searches;
+drop policy if exists "Saved searches delete" on public.saved_searches;
+create policy "Saved searches read" on public.saved_searches for select
+  using ( owner = public.request_wallet() );
+create policy "Saved searches insert" on public.saved_searches for insert
+  with check ( owner = public.request_wallet() );
+create policy "Saved searches update" on public.saved_searches for update
+  using ( owner = public.request_wallet() )
+  with check ( owner = public.request_wallet() );
+create policy "Saved searches delete" on public.saved_searches for delete
+  using ( owner = public.request_wallet() );
+
+-- Normalise on write and cap each wallet at 20 searches
+create or replace function public.stamp_saved_search()
+returns trigger as $$
+begin
+  new.owner := lower(new.owner);
+  new.tags := coalesce((
+    select array_agg(distinct lower(trim(t))) from unnest(new.tags) t where trim(t) <> ''
+  ), '{}');
+  new.updated_at := now();
+  if tg_op = 'INSERT' and (
+    select count(*) from public.saved_searches where owner = new.owner
+  ) >= 20 then
+    raise exception 'You can keep at most 20 saved searches';
+  end if;
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_saved_searches_stamp on public.saved_searches;
+create trigger trg_saved_searches_stamp
+before insert or update on public.saved_searches
+for each row execute procedure public.stamp_saved_search();
+
+-- 2. Allow the new notification kind
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check check (kind in (
+  'offer_received', 'offer_accepted', 'work_validated', 'dispute_opened',
+  'dispute_appealed', 'dispute_resolved', 'review_received', 'chat_message',
+  'saved_search_match'
+));
+
+-- 3. Notify owners of searches matching the given listings. Only active briefs created
+-- after the search was saved (and in the last 7 days, so backfills stay quiet) count; a
+-- wallet is never alerted about its own brief. Returns the number of new notifications.
+-- Called by the indexer with the service role.
+create or replace function public.notify_saved_search_matches(
+  p_chain_id integer,
+  p_listing_ids numeric[],
+  p_rates jsonb default '{}'::jsonb
+) returns integer as $$
+declare
+  v_count integer;
+begin
+  with matches as (
+    select s.id as search_id, s.owner, s.name, l.id as listing_id, d.title
+    from public.indexed_listings l
+    join public.listing_search_docs d on d.chain_id = l.chain_id and d.listing_id = l.id
+    cross join lateral (
+      select public.listing_reference_factor(d.currency, d.price_per, coalesce(p_rates, '{}'::jsonb)) as factor
+    ) p
+    join public.saved_searches s on s.alerts
+    where l.chain_id = p_chain_id
+      and l.id = any(p_listing_ids)
+      and l.listing_type = 0
+      and l.active
+      and d.metadata_ok
+      and l.created_at >= extract(epoch from s.created_at)
+      and l.created_at >= extract(epoch from now()) - 7 * 86400
+      and s.owner <> l.creator
+      and (s.category is null or l.category = s.category)
+      and (public.listing_search_query(s.query) is null or d.search @@ public.listing_search_query(s.query))
+      and (s.min_budget is null or d.price_high * p.factor >= s.min_budget)
+      and (s.max_budget is null or d.price_low * p.factor <= s.max_budget)
+      and public.listing_has_any_tag(s.tags, d.tags, d.requirements)
+  ), inserted as (
+    insert into public.notifications (recipient, kind, title, body, href, listing_id, chain_id, dedupe_key)
+    select m.owner, 'saved_search_match', 'New brief for "' || m.name || '"',
+      coalesce(nullif(m.title, ''), 'Brief #' || m.listing_id), '/briefs/' || m.listing_id,
+      m.listing_id::text, p_chain_id,
+      'saved_search:' || m.search_id || ':' || p_chain_id || ':' || m.listing_id
+    from matches m
+    on conflict (dedupe_key) do nothing
+    returning 1
+  )
+  select count(*)::integer into v_count from inserted;
+  return v_count;
+end; $$ language plpgsql;
@@ -0,0 +1,233 @@
+-- Wallet (Sign-In with Ethereum) sessions and participant-only chat access
+-- /api/auth/verify mints a Supabase JWT signed with the project JWT secret (SUPABASE_JWT_SECRET)
+-- carrying { role: 'authenticated', wallet: '<lowercase address>', admin: <marketplace admin>,
+-- chain_id: <SIWE chain> }. The admin claim only holds on the chain it was checked on.
+-- Run after supabase-indexer.sql, supabase-offer-chat.sql, supabase-direct-chat.sql,
+-- supabase-notifications.sql, supabase-chat-read-cursors.sql, supabase-milestones.sql,
+-- supabase-offer-negotiations.sql and supabase-offer-expiry.sql: it replaces their permissive
+-- policies. Offer and listing ids are only unique per chain, so every offer-keyed row carries
+-- its chain_id and participants are resolved from indexed OfferMade/ListingCreated events on
+-- that chain; a brand-new offer becomes chattable once the indexer has picked it up.
+
+-- 1. One-time nonces (service role only: RLS on, no policies)
+create table if not exists public.auth_nonces (
+  nonce text primary key,
+  address text not null,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_auth_nonces_expires on public.auth_nonces (expires_at);
+
+alter table public.auth_nonces enable row level security;
+
+-- 2. Claims of the calling session
+create or replace function public.request_wallet()
+returns text as $$
+  select nullif(lower(coalesce(auth.jwt()->>'wallet', '')), '');
+$$ language sql stable;
+
+-- Chain the wallet signed in on; null for sessions minted before the claim existed
+create or replace function public.request_chain_id()
+returns integer as $$
+  select nullif(auth.jwt()->>'chain_id', '')::integer;
+$$ language sql stable;
+
+-- Marketplace admin on the session's chain. The claim lives as long as the session, so an
+-- AdminRemoved event indexed since the token was issued revokes it straight away.
+create or replace function public.request_is_admin()
+returns boolean as $$
+  select coalesce((auth.jwt()->>'admin')::boolean, false)
+    and public.request_chain_id() is not null
+    and not exists (
+      select 1 from public.marketplace_events e
+      where e.chain_id = public.request_chain_id() and e.event_name = 'AdminRemoved'
+        and lower(e.args->>'admin') = public.request_wallet()
+        and e.block_timestamp >= coalesce((auth.jwt()->>'iat')::bigint, 0)
+    );
+$$ language sql stable;
+
+-- Admin for rows of the given chain
+create or replace function public.request_is_admin_for(p_chain_id integer)
+returns boolean as $$
+  select public.request_chain_id() = p_chain_id and public.request_is_admin();
+$$ language sql stable;
+
+create or replace function public.request_is_service()
+returns boolean as $$
+  select coalesce(auth.jwt()->>'role', '') = 'service_role';
+$$ language sql stable;
+
+-- Offer proposer or creator of the offer's listing, on the given chain
+create or replace function public.is_offer_participant(p_chain_id integer, p_offer_id bigint, p_wallet text)
+returns boolean as $$
+  select p_wallet is not null and exists (
+    select 1
+    from public.marketplace_events o
+    left join public.marketplace_events l
+      on l.chain_id = o.chain_id and l.event_name = 'ListingCreated' and l.args->>'id' = o.args->>'listingId'
+    where o.chain_id = p_chain_id
+      and o.event_name = 'OfferMade' and o.args->>'id' = p_offer_id::text
+      and (lower(o.args->>'proposer') = p_wallet or lower(l.args->>'creator') = p_wallet)
+  );
+$$ language sql stable security definer;
+
+-- 3. Offer chats: proposer, listing creator and marketplace admins of the offer's chain.
+-- Headers were keyed by offer id alone; they move to (chain_id, offer_id).
+alter table public.offer_chats add column if not exists chain_id integer;
+update public.offer_chats set chain_id = public.legacy_offer_chain(offer_id::text)
+where chain_id is null;
+alter table public.offer_chats alter column chain_id set not null;
+alter table public.offer_chats drop constraint if exists offer_chats_pkey;
+alter table public.offer_chats add constraint offer_chats_pkey primary key (chain_id, offer_id);
+
+drop policy if exists "Offer chat read" on public.offer_chats;
+drop policy if exists "Offer chat upsert" on public.offer_chats;
+drop policy if exists "Offer chat update" on public.offer_chats;
+create policy "Offer chat read" on public.offer_chats for select
+  using ( public.request_is_admin_for(chain_id)
+    or public.is_offer_participant(chain_id, offer_id, public.request_wallet()) );
+create policy "Offer chat upsert" on public.offer_chats for insert
+  with check ( public.request_is_admin_for(chain_id)
+    or public.is_offer_participant(chain_id, offer_id, public.request_wallet()) );
+create policy "Offer chat update" on public.offer_chats for update
+  using ( public.request_is_admin_for(chain_id)
+    or public.is_offer_participant(chain_id, offer_id, public.request_wallet()) )
+  with check ( public.request_is_admin_for(chain_id)
+    or public.is_offer_participant(chain_id, offer_id, public.request_wallet()) );
+
+-- The chain-less signature let an offer on one chain open the same id on another
+drop function if exists public.is_offer_participant(bigint, text);
+
+-- 4. Direct chats: the two wallets of the pair
+drop policy if exists "Direct chat read" on public.direct_chats;
+drop policy if exists "Direct chat upsert" on public.direct_chats;
+drop policy if exists "Direct chat update" on public.direct_chats;
+create policy "Direct chat read" on public.direct_chats for select
+  using ( public.request_wallet() in (user_lo, user_hi) );
+create policy "Direct chat upsert" on public.direct_chats for insert
+  with check ( public.request_wallet() in (user_lo, user_hi) );
+create policy "Direct chat update" on public.direct_chats for update
+  using ( public.request_wallet() in (user_lo, user_hi) )
+  with check ( public.request_wallet() in (user_lo, user_hi) );
+
+-- 5. Server-side sender verification. The append RPCs are security definer and bypass RLS,
+-- so the triggers also re-check participation. Existing messages cannot be rewritten and
+-- every appended message must be sent by the signed-in wallet.
+create or replace function public.check_appended_messages(p_old jsonb, p_new jsonb, p_wallet text)
+returns void as $$
+declare
+  n_old integer := jsonb_array_length(coalesce(p_old, '[]'::jsonb));
+  n_new integer := jsonb_array_length(p_new);
+begin
+  if n_new < n_old then
+    raise exception 'Chat history cannot be removed';
+  end if;
+  for i in 0 .. n_old - 1 loop
+    if p_new->i is distinct from p_old->i then
+      raise exception 'Chat history cannot be rewritten';
+    end if;
+  end loop;
+  for i in n_old .. n_new - 1 loop
+    if lower(p_new->i->>'sender') is distinct from p_wallet then
+      raise exception 'Message sender does not match the signed-in wallet';
+    end if;
+  end loop;
+end; $$ language plpgsql;
+
+create or replace function public.enforce_offer_chat_sender()
+returns trigger as $$
+declare
+  v_wallet text := public.request_wallet();
+begin
+  if public.request_is_service() then
+    return new;
+  end if;
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to chat';
+  end if;
+  if not (public.request_is_admin_for(new.chain_id)
+    or public.is_offer_participant(new.chain_id, new.offer_id, v_wallet)) then
+    raise exception 'Only offer participants may chat';
+  end if;
+  perform public.check_appended_messages(
+    case when tg_op = 'UPDATE' then old.messages else null end, new.messages, v_wallet);
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_offer_chats_sender on public.offer_chats;
+create trigger trg_offer_chats_sender
+before insert or update of messages on public.offer_chats
+for each row execute procedure public.enforce_offer_chat_sender();
+
+create or replace function public.enforce_direct_chat_sender()
+returns trigger as $$
+declare
+  v_wallet text := public.request_wallet();
+begin
+  if public.request_is_service() then
+    return new;
+  end if;
+  if v_wallet is null then
+    raise exception 'Sign in with your wallet to chat';
+  end if;
+  if v_wallet not in (new.user_lo, new.user_hi) then
+    raise exception 'Only the two participants may chat';
+  end if;
+  perform public.check_appended_messages(
+    case when tg_op = 'UPDATE' then old.messages else null end, new.messages, v_wallet);
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_direct_chats_sender on public.direct_chats;
+create trigger trg_direct_chats_sender
+before insert or update of messages on public.direct_chats
+for each row execute procedure public.enforce_direct_chat_sender();
+
+-- 6. Read cursors: anyone in the conversation may read them, only the owner may move theirs
+drop policy if exists "Chat cursors insert" on public.chat_read_cursors;
+drop policy if exists "Chat cursors update" on public.chat_read_cursors;
+create policy "Chat cursors insert" on public.chat_read_cursors for insert
+  with check ( participant = public.request_wallet() );
+create policy "Chat cursors update" on public.chat_read_cursors for update
+  using ( participant = public.request_wallet() ) with check ( participant = public.request_wallet() );
+
+create or replace function public.mark_chat_read(p_conversation text, p_participant text, p_read_at timestamptz)
+returns void as $$
+begin
+  if public.request_wallet() is distinct from lower(p_participant) then
+    raise exception 'Cannot move another wallet''s read cursor';
+  end if;
+  insert into public.chat_read_cursors (conversation, participant, last_read_at)
+  values (p_conversation, lower(p_participant), p_read_at)
+  on conflict (conversation, participant) do update
+    set last_read_at = greatest(public.chat_read_cursors.last_read_at, excluded.last_read_at),
+        updated_at = now();
+end; $$ language plpgsql security definer;
+
+-- 7. Notifications carry chat previews, so they are private to the recipient as well
+drop policy if exists "Notifications read" on public.notifications;
+drop policy if exists "Notifications update" on public.notifications;
+create policy "Notifications read" on public.notifications for select
+  using ( recipient = public.request_wallet() );
+create policy "Notifications update" on public.notifications for update
+  using ( recipient = public.request_wallet() ) with check ( recipient = public.request_wallet() );
+
+-- 8. Offer milestones, counter-offers and expiries were created with open write policies.
+-- Their writes now go through security definer functions in their own migrations, which take
+-- the author from request_wallet() and check it against the offer on the session's chain
+-- (offer_party_role, is_negotiation_participant, the OfferMade proposer), so no direct
+-- writes are allowed.
+drop policy if exists "Offer milestones insert" on public.offer_milestones;
+drop policy if exists "Offer milestones update" on public.offer_milestones;
+drop policy if exists "Offer milestones delete" on public.offer_milestones;
+drop policy if exists "Offer counters insert" on public.offer_counters;
+drop policy if exists "Offer counters update" on public.offer_counters;
+drop policy if exists "Offer expiries insert" on public.offer_expiries;
+
+-- Plans are only visible to the offer's parties and the admins of its chain
+drop policy if exists "Offer milestones read" on public.offer_milestones;
+create policy "Offer milestones read" on public.offer_milestones for select
+  using ( public.request_is_admin_for(chain_id)
+    or public.is_offer_participant(chain_id, offer_id::bigint, public.request_wallet()) );
@@ -0,0 +1,55 @@
+-- Watchlist of listings and freelancers (run after supabase-wallet-auth.sql)
+-- Each wallet keeps its own shortlist. Watched listings carry the state last seen by the
+-- owner (active flag, boost expiry, offer count) so the app can flag deactivations, new
+-- boosts and new offers since then; "mark as seen" moves the baseline forward.
+
+create table if not exists public.watchlist_items (
+  id uuid primary key default gen_random_uuid(),
+  owner text not null,
+  chain_id integer not null,
+  kind text not null check (kind in ('listing', 'profile')),
+  target text not null,          -- listing id, or lowercase wallet for profiles
+  seen_active boolean,           -- listings only
+  seen_boost_expiry numeric,
+  seen_offer_count integer,
+  seen_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (owner, chain_id, kind, target)
+);
+
+alter table public.watchlist_items enable row level security;
+
+drop policy if exists "Watchlist read" on public.watchlist_items;
+drop policy if exists "Watchlist insert" on public.watchlist_items;
+drop policy if exists "Watchlist update" on public.watchlist_items;
+drop policy if exists "Watchlist delete" on public.watchlist_items;
+create policy "Watchlist read" on public.watchlist_items for select
+  using ( owner = public.request_wallet() );
+create policy "Watchlist insert" on public.watchlist_items for insert
+  with check ( owner = public.request_wallet() );
+create policy "Watchlist update" on public.watchlist_items for update
+  using ( owner = public.request_wallet() )
+  with check ( owner = public.request_wallet() );
+create policy "Watchlist delete" on public.watchlist_items for delete
+  using ( owner = public.request_wallet() );
+
+-- Normalise on write and cap each wallet at 200 items
+create or replace function public.stamp_watchlist_item()
+returns trigger as $$
+begin
+  new.owner := lower(new.owner);
+  if new.kind = 'profile' then
+    new.target := lower(new.target);
+  end if;
+  if tg_op = 'INSERT' and (
+    select count(*) from public.watchlist_items where owner = new.owner
+  ) >= 200 then
+    raise exception 'Your watchlist is full (200 items)';
+  end if;
+  return new;
+end; $$ language plpgsql;
+
+drop trigger if exists trg_watchlist_items_stamp on public.watchlist_items;
+create trigger trg_watchlist_items_stamp
+before insert or update on public.watchlist_items
+for each row execute procedure public.stamp_watchlist_item();